@@ -0,0 +1,69 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CandleStore } from '../store/candleStore.js';
+import type { AlertRule, Candle, TriggeredAlert } from '../types/domain.js';
+import { AlertCharts } from './alertChart.js';
+
+const MINUTE = 60_000;
+const now = new Date(Date.UTC(2026, 0, 1));
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+const minute = (index: number, close = 100 + index): Candle => ({
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  interval: '1m',
+  openTime: now.getTime() + index * MINUTE,
+  closeTime: now.getTime() + (index + 1) * MINUTE - 1,
+  open: close - 1,
+  high: close + 1,
+  low: close - 2,
+  close,
+  volume: 1,
+  isFinal: true
+});
+
+const alert = (rule: Partial<AlertRule> = {}): TriggeredAlert => ({
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'PRICE_CROSS',
+    timeframe: null,
+    params: { price: 105, direction: 'ABOVE' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now,
+    ...rule
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { level: 105, price: 105.5, previousPrice: 104, direction: 'ABOVE' }
+});
+
+describe('AlertCharts', () => {
+  test('captures the candles up to the alert when its rule has charts', () => {
+    const store = new CandleStore();
+    const charts = new AlertCharts(store);
+    store.add(minute(0));
+    assert.equal(charts.capture(alert()), undefined);
+
+    for (let index = 1; index < 5; index += 1) store.add(minute(index));
+    assert.deepEqual(charts.capture(alert()), store.get('BINANCE', 'BTCUSDT', '1m'));
+    assert.equal(charts.capture(alert({ chart: false })), undefined);
+  });
+
+  test('draws an alert from what it captured, however late it is sent', () => {
+    const store = new CandleStore();
+    const charts = new AlertCharts(store);
+    for (let index = 0; index < 5; index += 1) store.add(minute(index));
+    const fired = { ...alert(), chartCandles: charts.capture(alert()) };
+    const drawn = charts.forAlert(fired);
+    assert.deepEqual(drawn?.subarray(0, 4), PNG_SIGNATURE);
+
+    // A minute later the store has moved on; the alert's chart has not.
+    store.add(minute(5, 200));
+    assert.deepEqual(charts.forAlert(fired), drawn);
+    assert.equal(charts.forAlert(alert()), null);
+  });
+});
@@ -0,0 +1,213 @@
+import type {
+  AlertRule,
+  AlertType,
+  Candle,
+  Exchange,
+  Timeframe,
+  TriggeredAlert,
+  User
+} from '../types/domain.js';
+import type { CandleStore } from '../store/candleStore.js';
+import { chartsIncluded } from '../rule/limits.js';
+import { timeframes } from '../utils/timeframes.js';
+import { GLYPH_HEIGHT, GLYPH_WIDTH, Raster, rgb, type Color } from '../utils/png.js';
+import type { TickSizeLookup } from './alertMessage.js';
+import { formatPrice } from './messageTemplates.js';
+
+// What a chart is drawn for: an alert as it fires, or one from history.
+export interface ChartSubject {
+  exchange: Exchange;
+  symbol: string;
+  type: AlertType;
+  payload: Record<string, unknown>;
+  // Kept as the alert fired; CandleStore's history up to it when unset.
+  candles?: Candle[];
+}
+
+export const CHART_WIDTH = 640;
+export const CHART_HEIGHT = 360;
+export const CHART_CANDLES = 60;
+
+const MARGIN = 8;
+const AXIS_WIDTH = 96;
+const VOLUME_HEIGHT = 80;
+const LABEL_SCALE = 2;
+const LABEL_HEIGHT = GLYPH_HEIGHT * LABEL_SCALE;
+
+const colors = {
+  background: rgb('#131722'),
+  grid: rgb('#2a2e39'),
+  label: rgb('#b2b5be'),
+  up: rgb('#26a69a'),
+  down: rgb('#ef5350'),
+  level: rgb('#f0b90b'),
+  average: rgb('#2962ff')
+};
+
+const fade = ([r, g, b]: Color): Color => [r, g, b, 110];
+
+// A rule's own switch wins; otherwise its owner's plan decides.
+export const chartsEnabled = (rule: Pick<AlertRule, 'chart'>, user: Pick<User, 'plan'>) =>
+  rule.chart ?? chartsIncluded(user);
+
+const numberAt = (payload: Record<string, unknown>, key: string) => {
+  const value = payload[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+// Candle types say which timeframe they checked; EXTREME_MOVE and PRICE_CROSS
+// look at 1m history and ticks.
+const chartTimeframe = (payload: Record<string, unknown>): Timeframe =>
+  timeframes.includes(payload.timeframe as Timeframe) ? (payload.timeframe as Timeframe) : '1m';
+
+// The price levels a type's check compared against.
+const priceLevels = (subject: ChartSubject): number[] => {
+  const keys =
+    subject.type === 'BREAKOUT'
+      ? ['highest', 'lowest']
+      : subject.type === 'PRICE_CROSS'
+        ? ['level']
+        : [];
+  return keys.flatMap((key) => numberAt(subject.payload, key) ?? []);
+};
+
+const subjectOf = (alert: TriggeredAlert): ChartSubject => ({
+  exchange: alert.rule.exchange,
+  symbol: alert.rule.symbol,
+  type: alert.rule.type,
+  payload: alert.payload
+});
+
+const labelWidth = (text: string) => text.length * (GLYPH_WIDTH + 1) * LABEL_SCALE - LABEL_SCALE;
+
+// Draws small candlestick PNGs from CandleStore history, so alerts can show
+// what fired them without a browser or a charting service.
+export class AlertCharts {
+  constructor(
+    private readonly candles: CandleStore,
+    private readonly tickSize: TickSizeLookup = () => undefined
+  ) {}
+
+  // The candles to keep with an alert as it fires, so its chart shows what
+  // the check saw however late it is sent. Undefined when its rule or plan has
+  // no charts, or there is too little history to draw.
+  capture(alert: TriggeredAlert): Candle[] | undefined {
+    if (!chartsEnabled(alert.rule, alert.user)) return undefined;
+    const candles = this.history(subjectOf(alert));
+    return candles.length < 2 ? undefined : candles;
+  }
+
+  // The chart to send with an alert, or null when none was captured for it.
+  forAlert(alert: TriggeredAlert): Buffer | null {
+    if (!alert.chartCandles || !chartsEnabled(alert.rule, alert.user)) return null;
+    return this.render({ ...subjectOf(alert), candles: alert.chartCandles });
+  }
+
+  // Null when there is too little history left to draw, e.g. after a restart
+  // or once the alert's candles have rolled out of the store.
+  render(subject: ChartSubject): Buffer | null {
+    const candles = subject.candles ?? this.history(subject);
+    if (candles.length < 2) return null;
+
+    const tickSize = this.tickSize(subject.exchange, subject.symbol);
+    const format = (value: number) => formatPrice(value, 'en-US', tickSize);
+    const raster = new Raster(CHART_WIDTH, CHART_HEIGHT, colors.background);
+    const withVolume = subject.type === 'VOLUME_SPIKE';
+    const left = MARGIN;
+    const right = CHART_WIDTH - AXIS_WIDTH;
+    const slot = (right - left) / candles.length;
+    const center = (index: number) => left + slot * (index + 0.5);
+
+    // Price panel.
+    const top = MARGIN;
+    const bottom = CHART_HEIGHT - MARGIN - (withVolume ? VOLUME_HEIGHT + MARGIN : 0);
+    const levels = priceLevels(subject);
+    let high = Math.max(...candles.map((candle) => candle.high), ...levels);
+    let low = Math.min(...candles.map((candle) => candle.low), ...levels);
+    const padding = (high - low) * 0.05 || Math.abs(high) * 0.001 || 1;
+    high += padding;
+    low -= padding;
+    const y = (price: number) => top + ((high - price) / (high - low)) * (bottom - top);
+
+    const last = candles[candles.length - 1];
+    const labelled = [...levels, last.close].map(y);
+    // Gridlines inside the panel, so their labels are never clipped.
+    for (let step = 1; step < 5; step += 1) {
+      const price = low + ((high - low) * step) / 5;
+      raster.line(left, y(price), right, y(price), colors.grid, 3);
+      if (labelled.some((at) => Math.abs(at - y(price)) < LABEL_HEIGHT + 4)) continue;
+      raster.text(right + 6, y(price) - LABEL_HEIGHT / 2, format(price), colors.label);
+    }
+
+    const bodyWidth = Math.max(1, Math.floor(slot * 0.6));
+    candles.forEach((candle, index) => {
+      const color = candle.close >= candle.open ? colors.up : colors.down;
+      const x = center(index);
+      raster.line(x, y(candle.high), x, y(candle.low), color);
+      const bodyTop = y(Math.max(candle.open, candle.close));
+      const bodyHeight = Math.max(1, y(Math.min(candle.open, candle.close)) - bodyTop);
+      raster.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight, color);
+    });
+
+    for (const level of levels) {
+      raster.line(left, y(level), right, y(level), colors.level, 4);
+      this.tag(raster, right, y(level), format(level), colors.level);
+    }
+    this.tag(
+      raster,
+      right,
+      y(last.close),
+      format(last.close),
+      last.close >= last.open ? colors.up : colors.down
+    );
+
+    // Volume panel, with the average the spike was measured against.
+    if (withVolume) {
+      const volumeTop = bottom + MARGIN;
+      const volumeBottom = CHART_HEIGHT - MARGIN;
+      const average = numberAt(subject.payload, 'avgVolume');
+      const peak = Math.max(...candles.map((candle) => candle.volume), average ?? 0) || 1;
+      const volumeY = (volume: number) =>
+        volumeBottom - (volume / peak) * (volumeBottom - volumeTop);
+
+      raster.line(left, volumeTop - MARGIN / 2, right, volumeTop - MARGIN / 2, colors.grid);
+      candles.forEach((candle, index) => {
+        const color = candle.close >= candle.open ? colors.up : colors.down;
+        const barTop = volumeY(candle.volume);
+        raster.fillRect(
+          center(index) - bodyWidth / 2,
+          barTop,
+          bodyWidth,
+          Math.max(1, volumeBottom - barTop),
+          index === candles.length - 1 ? color : fade(color)
+        );
+      });
+      if (average !== undefined) {
+        raster.line(left, volumeY(average), right, volumeY(average), colors.average, 4);
+      }
+    }
+
+    return raster.toPng();
+  }
+
+  // The candles the check saw: up to the alert, in the timeframe it ran on.
+  private history(subject: ChartSubject): Candle[] {
+    const candles = this.candles.get(
+      subject.exchange,
+      subject.symbol,
+      chartTimeframe(subject.payload)
+    );
+    const firedAt = Date.parse(String(subject.payload.triggeredAt));
+    const seen = Number.isNaN(firedAt)
+      ? candles
+      : candles.filter((candle) => candle.openTime <= firedAt);
+    return seen.slice(-CHART_CANDLES);
+  }
+
+  // A price label on the right axis, boxed in the line's colour.
+  private tag(raster: Raster, right: number, at: number, text: string, color: Color): void {
+    const boxTop = at - LABEL_HEIGHT / 2 - 3;
+    raster.fillRect(right + 2, boxTop, labelWidth(text) + 8, LABEL_HEIGHT + 6, color);
+    raster.text(right + 6, at - LABEL_HEIGHT / 2, text, colors.background);
+  }
+}
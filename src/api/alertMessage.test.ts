@@ -0,0 +1,108 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlertRule, AlertType, TriggeredAlert, User } from '../types/domain.js';
+import { AlertRenderer, localeNames, locales, samplePayloads } from './alertMessage.js';
+import { validateTemplate } from './messageTemplates.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert = (
+  rule: Partial<AlertRule> = {},
+  user: Partial<User> = {},
+  payload: Record<string, unknown> = samplePayloads.BREAKOUT
+): TriggeredAlert => ({
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now,
+    ...rule
+  },
+  user: {
+    id: 'user-1',
+    telegramChatId: '100',
+    plan: 'PRO',
+    createdAt: now,
+    updatedAt: now,
+    ...user
+  },
+  payload
+});
+
+describe('AlertRenderer', () => {
+  const renderer = new AlertRenderer(() => 0.01);
+
+  test('ships a valid template and name for every type in every locale', () => {
+    for (const name of localeNames) {
+      const pack = locales[name];
+      for (const type of Object.keys(samplePayloads) as AlertType[]) {
+        assert.equal(validateTemplate(pack.templates[type]), null, `${name} ${type}`);
+        assert.ok(pack.typeNames[type], `${name} ${type}`);
+      }
+    }
+  });
+
+  test('renders in the owner locale, to the pair tick size', () => {
+    assert.deepEqual(renderer.render(alert()), {
+      title: 'Breakout Alert',
+      lines: [
+        'Symbol: BTCUSDT',
+        'Timeframe: 15m',
+        'Broke up, close 65,120.35',
+        'Range: 63,210.40 - 64,980.00'
+      ]
+    });
+    assert.deepEqual(renderer.render(alert({}, { locale: 'id' })), {
+      title: 'Peringatan Breakout',
+      lines: [
+        'Simbol: BTCUSDT',
+        'Timeframe: 15m',
+        'Tembus naik, penutupan 65.120,35',
+        'Rentang: 63.210,40 - 64.980,00'
+      ]
+    });
+  });
+
+  test('notes a forming candle on LIVE alerts', () => {
+    const { lines } = renderer.render(
+      alert({}, { locale: 'id' }, { ...samplePayloads.BREAKOUT, isFinal: false })
+    );
+    assert.equal(lines.at(-1), 'Candle: masih terbentuk');
+  });
+
+  test('formats RSI levels and composite matches as what they are', () => {
+    const rsi = renderer.render(alert({ type: 'RSI' }, {}, samplePayloads.RSI));
+    assert.ok(rsi.lines.includes('RSI 71.28 crossed 70 up'));
+    const composite = renderer.render(alert({ type: 'COMPOSITE' }, {}, samplePayloads.COMPOSITE));
+    assert.ok(composite.lines.includes('Matched: RSI BTCUSDT, Volume Spike BTCUSDT'));
+  });
+
+  test('prefers the rule template over the owner template for its type', () => {
+    const templates = { BREAKOUT: '{{symbol}} broke {{direction}}', RSI: 'RSI {{rsi}}' };
+    assert.equal(renderer.render(alert({}, { templates })).title, 'BTCUSDT broke up');
+    assert.equal(
+      renderer.render(alert({ template: '{{symbol}} at {{close}}' }, { templates })).title,
+      'BTCUSDT at 65,120.35'
+    );
+  });
+
+  test('sums up a digest one line per alert, without repeating the symbol', () => {
+    const user = alert().user;
+    const eth = alert({ symbol: 'ETHUSDT', type: 'RSI' }, {}, samplePayloads.RSI);
+    assert.deepEqual(renderer.renderDigest({ user, alerts: [alert(), eth] }), {
+      title: '2 alerts since your last update',
+      lines: [
+        'BTCUSDT Breakout Alert | Timeframe: 15m | Broke up, close 65,120.35 | ' +
+          'Range: 63,210.40 - 64,980.00',
+        'ETHUSDT RSI Alert | Timeframe: 1h | RSI 71.28 crossed 70 up | Close: 65,010.10'
+      ]
+    });
+  });
+});
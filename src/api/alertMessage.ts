@@ -0,0 +1,190 @@
+import type {
+  AlertDigest,
+  AlertType,
+  Exchange,
+  Locale,
+  TriggeredAlert
+} from '../types/domain.js';
+import { config } from '../config.js';
+import { en } from './locales/en.js';
+import { id } from './locales/id.js';
+import {
+  formatNumber,
+  formatPrice,
+  renderTemplate,
+  type LocalePack,
+  type RenderedMessage
+} from './messageTemplates.js';
+
+export const locales: Record<Locale, LocalePack> = { en, id };
+
+export const localeNames = Object.keys(locales) as Locale[];
+
+// Tick size of a pair, when known, so prices show the decimals it trades in.
+export type TickSizeLookup = (exchange: Exchange, symbol: string) => number | undefined;
+
+export interface MessageInput {
+  type: AlertType;
+  exchange: Exchange;
+  symbol: string;
+  payload: Record<string, unknown>;
+  locale?: Locale;
+  // The locale's template for the type when unset.
+  template?: string;
+}
+
+const priceKeys = new Set([
+  'price',
+  'previousPrice',
+  'close',
+  'highest',
+  'lowest',
+  'level',
+  'fast',
+  'slow',
+  'upper',
+  'middle',
+  'lower'
+]);
+
+// A rule's own template wins over its owner's for that type.
+const messageInput = (alert: TriggeredAlert): MessageInput => ({
+  type: alert.rule.type,
+  exchange: alert.rule.exchange,
+  symbol: alert.rule.symbol,
+  payload: alert.payload,
+  locale: alert.user.locale,
+  template: alert.rule.template ?? alert.user.templates?.[alert.rule.type]
+});
+
+const packFor = (locale?: Locale) => locales[locale ?? config.defaultLocale] ?? en;
+
+// Turns alerts into plain-text messages; each dispatcher adds its own markup.
+export class AlertRenderer {
+  constructor(private readonly tickSize: TickSizeLookup = () => undefined) {}
+
+  render(alert: TriggeredAlert): RenderedMessage {
+    return this.renderMessage(messageInput(alert));
+  }
+
+  renderMessage(input: MessageInput, omitSymbolLines = false): RenderedMessage {
+    const pack = packFor(input.locale);
+    const template = input.template ?? pack.templates[input.type];
+    return renderTemplate(template, this.values(input, pack), omitSymbolLines);
+  }
+
+  // One line per alert, oldest first.
+  renderDigest(digest: AlertDigest): RenderedMessage {
+    const pack = packFor(digest.user.locale);
+    return {
+      title: renderTemplate(pack.digestTitle, { count: String(digest.alerts.length) }).title,
+      lines: digest.alerts.map((alert) => {
+        const { title, lines } = this.renderMessage(messageInput(alert), true);
+        return [`${alert.rule.symbol} ${title}`, ...lines].join(' | ');
+      })
+    };
+  }
+
+  private values(input: MessageInput, pack: LocalePack): Record<string, string> {
+    const { payload } = input;
+    const locale = pack.numberLocale;
+    const tickSize = this.tickSize(input.exchange, input.symbol);
+    const values: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(payload)) {
+      if (typeof value === 'string') values[key] = value;
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+      // An RSI level is an oscillator value, not a price.
+      if (priceKeys.has(key) && !(input.type === 'RSI' && key === 'level')) {
+        values[key] = formatPrice(value, locale, tickSize);
+      } else if (key === 'change') {
+        values[key] = formatNumber(value, locale, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+          signDisplay: 'exceptZero'
+        });
+      } else if (key === 'rsi' || key === 'previousRsi') {
+        values[key] = formatNumber(value, locale, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2
+        });
+      } else {
+        values[key] = formatNumber(value, locale);
+      }
+    }
+
+    values.symbol = input.symbol;
+    values.exchange = input.exchange;
+    values.type = input.type;
+    values.typeName = pack.typeNames[input.type];
+    const direction = pack.directions[payload.direction as keyof LocalePack['directions']];
+    if (direction) values.direction = direction;
+    if (payload.isFinal === false) values.forming = pack.forming;
+    if (Array.isArray(payload.matched)) {
+      values.conditions = (payload.matched as Array<{ type: AlertType; symbol: string }>)
+        .map((check) => `${pack.typeNames[check.type] ?? check.type} ${check.symbol}`)
+        .join(', ');
+    }
+    return values;
+  }
+}
+
+// What each type's payload looks like, for previewing templates.
+export const samplePayloads: Record<AlertType, Record<string, unknown>> = {
+  EXTREME_MOVE: { windowMin: 15, percent: 3, change: -3.4217, price: 64250.5 },
+  BREAKOUT: {
+    timeframe: '15m',
+    close: 65120.35,
+    highest: 64980,
+    lowest: 63210.4,
+    direction: 'UP'
+  },
+  VOLUME_SPIKE: { timeframe: '5m', volume: 1843.2, avgVolume: 412.734, multiplier: 3 },
+  RSI: {
+    timeframe: '1h',
+    rsi: 71.284,
+    previousRsi: 68.9,
+    level: 70,
+    close: 65010.1,
+    direction: 'UP'
+  },
+  MA_CROSS: {
+    timeframe: '4h',
+    maType: 'EMA',
+    fast: 64800.237,
+    slow: 64650.912,
+    close: 65010.1,
+    direction: 'UP'
+  },
+  MACD_CROSS: {
+    timeframe: '1h',
+    macd: 12.41,
+    signal: 10.07,
+    histogram: 2.34,
+    close: 65010.1,
+    direction: 'UP'
+  },
+  BOLLINGER: {
+    timeframe: '1h',
+    upper: 65500.482,
+    middle: 64200.115,
+    lower: 62899.748,
+    close: 65620.8,
+    direction: 'UP'
+  },
+  PRICE_CROSS: {
+    level: 65000,
+    price: 65012.4,
+    previousPrice: 64990.1,
+    direction: 'ABOVE',
+    oneShot: false
+  },
+  COMPOSITE: {
+    timeframe: '15m',
+    withinCandles: 2,
+    matched: [
+      { type: 'RSI', symbol: 'BTCUSDT', timeframe: '15m' },
+      { type: 'VOLUME_SPIKE', symbol: 'BTCUSDT', timeframe: '15m' }
+    ]
+  }
+};
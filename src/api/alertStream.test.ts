@@ -0,0 +1,182 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { get, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { WebSocket } from 'ws';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import type { AlertEvent, Candle } from '../types/domain.js';
+import {
+  AlertStreamHub,
+  attachAlertSocket,
+  serveEventStream,
+  type StreamMessage,
+  type StreamTransport
+} from './alertStream.js';
+import { Authenticator } from './auth.js';
+
+const event = (id: string, symbol = 'BTCUSDT'): AlertEvent => ({
+  id,
+  ruleId: 'rule',
+  userId: 'user',
+  symbol,
+  type: 'BREAKOUT',
+  triggeredAt: new Date(Date.UTC(2026, 0, 1)),
+  payload: {}
+});
+
+const candle = (openTime: number): Candle => ({
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  interval: '1m',
+  openTime,
+  closeTime: openTime + 59_999,
+  open: 1,
+  high: 1,
+  low: 1,
+  close: 1,
+  volume: 1,
+  isFinal: true
+});
+
+// Waits until `predicate` holds, checking after each chunk of the stream.
+const until = (stream: NodeJS.EventEmitter, predicate: () => boolean, event = 'data') =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timed out waiting on stream')), 2_000);
+    const check = () => {
+      if (!predicate()) return;
+      clearTimeout(timer);
+      stream.off(event, check);
+      resolve();
+    };
+    stream.on(event, check);
+    check();
+  });
+
+// Records writes; a stuck one never drains, so every write reports back-pressure.
+class FakeTransport implements StreamTransport {
+  written: StreamMessage[] = [];
+  closedWith?: string;
+
+  constructor(private readonly stuck = false) {}
+
+  write(message: StreamMessage): boolean {
+    this.written.push(message);
+    return !this.stuck;
+  }
+
+  onDrain(): void {}
+
+  close(reason: string): void {
+    this.closedWith = reason;
+  }
+}
+
+describe('AlertStreamHub', () => {
+  test('cuts off a client that stops reading alerts, with a reason to resume', async () => {
+    const hub = new AlertStreamHub(new InMemoryStore());
+    const transport = new FakeTransport(true);
+    await hub.attach(transport, { candles: false });
+
+    for (let index = 0; index <= 200; index += 1) hub.publish(event(`a${index}`));
+    assert.equal(transport.closedWith, undefined);
+
+    hub.publish(event('overflow'));
+    assert.equal(transport.closedWith, 'Client too slow, reconnect with Last-Event-ID to resume');
+    assert.equal(transport.written.length, 1);
+  });
+
+  test('drops backed-up candles rather than cutting a slow chart off', async () => {
+    const hub = new AlertStreamHub(new InMemoryStore());
+    const transport = new FakeTransport(true);
+    await hub.attach(transport, { candles: true, symbols: ['BTCUSDT'] });
+
+    for (let index = 0; index < 500; index += 1) hub.publishCandle(candle(index * 60_000));
+    hub.publish(event('a1'));
+    assert.equal(transport.closedWith, undefined);
+  });
+
+  test('still streams live when the missed events cannot be loaded', async () => {
+    const store = new InMemoryStore();
+    store.getAlert = async () => {
+      throw new Error('database unavailable');
+    };
+    const hub = new AlertStreamHub(store);
+    const transport = new FakeTransport();
+
+    const detach = await hub.attach(transport, { candles: false }, 'unknown');
+    hub.publish(event('live'));
+    assert.deepEqual(
+      transport.written.map((message) => message.kind === 'alert' && message.id),
+      ['live']
+    );
+    detach();
+    assert.equal(hub.size, 0);
+  });
+});
+
+describe('alert stream endpoints', () => {
+  let app: FastifyInstance;
+  let hub: AlertStreamHub;
+  let base: string;
+
+  before(async () => {
+    const store = new InMemoryStore();
+    hub = new AlertStreamHub(store);
+    const auth = new Authenticator(store, {
+      adminApiKey: 'admin-key',
+      jwtSecret: '',
+      jwtIssuer: '',
+      jwtAudience: ''
+    });
+    app = Fastify();
+    app.decorateRequest('caller', null);
+    app.addHook('onRequest', async (request) => {
+      request.caller = { role: 'ADMIN' };
+    });
+    app.get('/alerts/stream', (request, reply) => serveEventStream(hub, request, reply));
+    attachAlertSocket(app, hub, auth);
+    await app.listen({ port: 0, host: '127.0.0.1' });
+    base = `127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+    for (const id of ['e1', 'e2', 'e3']) hub.publish(event(id));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  test('SSE replays what came after Last-Event-ID, then streams live', async () => {
+    const response = await new Promise<IncomingMessage>((resolve) =>
+      get(`http://${base}/alerts/stream`, { headers: { 'Last-Event-ID': 'e1' } }, resolve)
+    );
+    assert.equal(response.headers['content-type'], 'text/event-stream');
+    let text = '';
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => (text += chunk));
+    const ids = () => [...text.matchAll(/^id: (.+)$/gm)].map((match) => match[1]);
+
+    await until(response, () => ids().length === 2);
+    hub.publish(event('e4'));
+    await until(response, () => ids().length === 3);
+    assert.deepEqual(ids(), ['e2', 'e3', 'e4']);
+    response.destroy();
+  });
+
+  test('WebSocket resumes from ?lastEventId= and streams live', async () => {
+    const socket = new WebSocket(`ws://${base}/alerts/ws?access_token=admin-key&lastEventId=e3`);
+    const ids: string[] = [];
+    socket.on('message', (data) => ids.push(JSON.parse(data.toString()).id));
+    await until(socket, () => ids.length === 1, 'message');
+
+    hub.publish(event('e5'));
+    await until(socket, () => ids.length === 2, 'message');
+    assert.deepEqual(ids, ['e4', 'e5']);
+    socket.close();
+  });
+
+  test('WebSocket turns away callers without credentials', async () => {
+    const socket = new WebSocket(`ws://${base}/alerts/ws`);
+    const error = await new Promise<Error>((resolve) => socket.on('error', resolve));
+    assert.match(error.message, /401/);
+  });
+});
@@ -0,0 +1,341 @@
+import type { ServerResponse } from 'node:http';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AlertEvent, AlertType, Candle, Timeframe } from '../types/domain.js';
+import type { Store } from '../store/store.js';
+import { isAdmin, type Authenticator, type Caller } from './auth.js';
+
+const REPLAY_BUFFER = 1_000;
+const MAX_REPLAY = 500;
+// Messages held for a client whose socket is not draining before it is cut
+// off; it can reconnect with Last-Event-ID and catch up from the buffer.
+const MAX_PENDING = 200;
+const HEARTBEAT_MS = 15_000;
+const SOCKET_HIGH_WATER_BYTES = 1 << 20;
+
+export interface StreamFilter {
+  userId?: string;
+  symbols?: string[];
+  types?: AlertType[];
+  // Candles are only sent when requested, and only for `symbols`.
+  candles: boolean;
+  intervals?: Timeframe[];
+}
+
+export type StreamMessage =
+  | { kind: 'alert'; id: string; data: AlertEvent }
+  | { kind: 'candle'; data: Candle };
+
+// What a transport needs to provide: write a message and report whether the
+// socket accepted it without buffering, and signal when it can take more.
+export interface StreamTransport {
+  write(message: StreamMessage): boolean;
+  onDrain(listener: () => void): void;
+  close(reason: string): void;
+}
+
+const list = (value: unknown) =>
+  typeof value === 'string' && value
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : undefined;
+
+// Users always get their own alerts; admins see everyone's unless ?userId=.
+export const parseStreamFilter = (query: unknown, caller: Caller): StreamFilter => {
+  const params = (query ?? {}) as Record<string, unknown>;
+  return {
+    userId: isAdmin(caller) ? list(params.userId)?.[0] : caller.userId,
+    symbols: list(params.symbol)?.map((symbol) => symbol.toUpperCase()),
+    types: list(params.type)?.map((type) => type.toUpperCase() as AlertType),
+    candles: params.candles === 'true' || params.candles === '1',
+    intervals: list(params.interval) as Timeframe[] | undefined
+  };
+};
+
+const matchesAlert = (filter: StreamFilter, event: AlertEvent) =>
+  (!filter.userId || event.userId === filter.userId) &&
+  (!filter.symbols || filter.symbols.includes(event.symbol)) &&
+  (!filter.types || filter.types.includes(event.type));
+
+const matchesCandle = (filter: StreamFilter, candle: Candle) =>
+  filter.candles &&
+  filter.symbols !== undefined &&
+  filter.symbols.includes(candle.symbol) &&
+  (!filter.intervals || filter.intervals.includes(candle.interval));
+
+class StreamClient {
+  private pending: StreamMessage[] = [];
+  private blocked = false;
+  // Live messages that arrive while a replay is being loaded.
+  private held: StreamMessage[] | null = null;
+  closed = false;
+
+  constructor(
+    private readonly transport: StreamTransport,
+    readonly filter: StreamFilter
+  ) {
+    transport.onDrain(() => this.flush());
+  }
+
+  hold(): void {
+    this.held = [];
+  }
+
+  // Sends the missed events, then whatever was held, minus duplicates.
+  replay(events: AlertEvent[]): void {
+    const held = this.held ?? [];
+    this.held = null;
+    const replayed = new Set(events.map((event) => event.id));
+    for (const event of events) {
+      this.push({ kind: 'alert', id: event.id, data: event });
+    }
+    for (const message of held) {
+      if (message.kind !== 'alert' || !replayed.has(message.id)) this.push(message);
+    }
+  }
+
+  push(message: StreamMessage): void {
+    if (this.closed) return;
+    if (this.held) {
+      this.held.push(message);
+      return;
+    }
+    if (this.blocked) {
+      this.enqueue(message);
+      return;
+    }
+    this.blocked = !this.transport.write(message);
+  }
+
+  close(reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.pending = [];
+    this.transport.close(reason);
+  }
+
+  private enqueue(message: StreamMessage): void {
+    if (this.pending.length < MAX_PENDING) {
+      this.pending.push(message);
+      return;
+    }
+    // Candles are a lossy live view, so a backed-up chart just skips frames.
+    const candleIndex = this.pending.findIndex((item) => item.kind === 'candle');
+    if (candleIndex !== -1) {
+      this.pending.splice(candleIndex, 1);
+      this.pending.push(message);
+      return;
+    }
+    if (message.kind === 'candle') return;
+    this.close('Client too slow, reconnect with Last-Event-ID to resume');
+  }
+
+  private flush(): void {
+    this.blocked = false;
+    while (!this.blocked && this.pending.length > 0) {
+      const message = this.pending.shift() as StreamMessage;
+      this.blocked = !this.transport.write(message);
+    }
+  }
+}
+
+// Fans new alert events and live candles out to SSE and WebSocket clients,
+// keeping a short history so reconnecting clients can resume.
+export class AlertStreamHub {
+  private clients = new Set<StreamClient>();
+  private recent: AlertEvent[] = [];
+
+  constructor(private readonly store: Store) {}
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  // Replays what the client missed since `lastEventId`, then streams live.
+  async attach(
+    transport: StreamTransport,
+    filter: StreamFilter,
+    lastEventId?: string
+  ): Promise<() => void> {
+    const client = new StreamClient(transport, filter);
+    // Registered before the replay so nothing published meanwhile is lost.
+    if (lastEventId) client.hold();
+    this.clients.add(client);
+    if (lastEventId) {
+      // A failed lookup costs the client its backlog, not the live stream.
+      const missed = await this.missedSince(lastEventId, filter).catch(() => []);
+      client.replay(missed);
+    }
+    return () => {
+      this.clients.delete(client);
+    };
+  }
+
+  publish(event: AlertEvent): void {
+    this.recent.push(event);
+    if (this.recent.length > REPLAY_BUFFER) this.recent.shift();
+
+    for (const client of this.clients) {
+      if (client.closed) {
+        this.clients.delete(client);
+        continue;
+      }
+      if (matchesAlert(client.filter, event)) {
+        client.push({ kind: 'alert', id: event.id, data: event });
+      }
+    }
+  }
+
+  publishCandle(candle: Candle): void {
+    for (const client of this.clients) {
+      if (!client.closed && matchesCandle(client.filter, candle)) {
+        client.push({ kind: 'candle', data: candle });
+      }
+    }
+  }
+
+  closeAll(): void {
+    for (const client of this.clients) client.close('Server shutting down');
+    this.clients.clear();
+  }
+
+  private async missedSince(lastEventId: string, filter: StreamFilter): Promise<AlertEvent[]> {
+    const index = this.recent.findIndex((event) => event.id === lastEventId);
+    if (index !== -1) {
+      return this.recent
+        .slice(index + 1)
+        .filter((event) => matchesAlert(filter, event))
+        .slice(-MAX_REPLAY);
+    }
+
+    // Older than the buffer, or from before a restart: fall back to the store.
+    const last = await this.store.getAlert(lastEventId);
+    if (!last) return [];
+    const missed = await this.store.queryAlerts({
+      userId: filter.userId,
+      symbols: filter.symbols,
+      types: filter.types,
+      from: new Date(last.triggeredAt.getTime() + 1),
+      limit: MAX_REPLAY
+    });
+    return missed.reverse();
+  }
+}
+
+const sseFrame = (message: StreamMessage) =>
+  message.kind === 'alert'
+    ? `id: ${message.id}\nevent: alert\ndata: ${JSON.stringify(message.data)}\n\n`
+    : `event: candle\ndata: ${JSON.stringify(message.data)}\n\n`;
+
+const sseTransport = (response: ServerResponse): StreamTransport => ({
+  write: (message) => response.write(sseFrame(message)),
+  onDrain: (listener) => response.on('drain', listener),
+  close: (reason) => {
+    response.end(`event: close\ndata: ${JSON.stringify({ reason })}\n\n`);
+  }
+});
+
+// ws has no drain event; completion callbacks signal when the buffer empties.
+const socketTransport = (socket: WebSocket): StreamTransport => {
+  const listeners: Array<() => void> = [];
+  return {
+    write: (message) => {
+      const frame =
+        message.kind === 'alert'
+          ? { type: 'alert', id: message.id, data: message.data }
+          : { type: 'candle', data: message.data };
+      socket.send(JSON.stringify(frame), () => {
+        if (socket.bufferedAmount < SOCKET_HIGH_WATER_BYTES) {
+          for (const listener of listeners) listener();
+        }
+      });
+      return socket.bufferedAmount < SOCKET_HIGH_WATER_BYTES;
+    },
+    onDrain: (listener) => {
+      listeners.push(listener);
+    },
+    // 1013 "try again later": the client should reconnect and resume.
+    close: (reason) => socket.close(1013, reason.slice(0, 120))
+  };
+};
+
+// GET /alerts/stream: text/event-stream, resumable with Last-Event-ID.
+export const serveEventStream = (
+  hub: AlertStreamHub,
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  const filter = parseStreamFilter(request.query, request.caller);
+  const { lastEventId } = request.query as { lastEventId?: string };
+  const header = request.headers['last-event-id'];
+
+  reply.hijack();
+  const response = reply.raw;
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  response.write('retry: 5000\n\n');
+
+  const detached = hub.attach(
+    sseTransport(response),
+    filter,
+    (typeof header === 'string' ? header : undefined) ?? lastEventId
+  );
+  const heartbeat = setInterval(() => response.write(': ping\n\n'), HEARTBEAT_MS);
+  request.raw.on('close', () => {
+    clearInterval(heartbeat);
+    void detached.then((detach) => detach());
+  });
+};
+
+// WebSocket twin of the event stream at `path`; the same query filters apply
+// and `?lastEventId=` resumes.
+export const attachAlertSocket = (
+  app: FastifyInstance,
+  hub: AlertStreamHub,
+  auth: Authenticator,
+  path = '/alerts/ws'
+) => {
+  const server = new WebSocketServer({ noServer: true });
+
+  app.server.on('upgrade', (request, socket, head) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== path) {
+      socket.destroy();
+      return;
+    }
+
+    const query = Object.fromEntries(url.searchParams);
+    auth.authenticate({ headers: request.headers, query }, true).then(
+      (caller) => {
+        if (!caller) {
+          socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          return;
+        }
+        server.handleUpgrade(request, socket, head, (ws) => {
+          const detached = hub.attach(
+            socketTransport(ws),
+            parseStreamFilter(query, caller),
+            query.lastEventId
+          );
+          const heartbeat = setInterval(() => ws.ping(), HEARTBEAT_MS);
+          ws.on('close', () => {
+            clearInterval(heartbeat);
+            void detached.then((detach) => detach());
+          });
+        });
+      },
+      () => socket.destroy()
+    );
+  });
+
+  app.addHook('preClose', async () => {
+    hub.closeAll();
+    server.close();
+  });
+};
@@ -0,0 +1,92 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import { Authenticator } from './auth.js';
+
+const now = Date.UTC(2026, 0, 1);
+const secret = 'jwt-secret';
+
+const segment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const jwt = (claims: object, header: object = { alg: 'HS256', typ: 'JWT' }, key = secret) => {
+  const unsigned = `${segment(header)}.${segment(claims)}`;
+  return `${unsigned}.${createHmac('sha256', key).update(unsigned).digest('base64url')}`;
+};
+
+const bearer = (token: string) => ({ headers: { authorization: `Bearer ${token}` }, query: {} });
+
+describe('Authenticator', () => {
+  let store: InMemoryStore;
+  let auth: Authenticator;
+  let userId: string;
+
+  beforeEach(async () => {
+    store = new InMemoryStore();
+    auth = new Authenticator(
+      store,
+      { adminApiKey: 'admin-key', jwtSecret: secret, jwtIssuer: 'site', jwtAudience: 'alerts' },
+      () => now
+    );
+    userId = (await store.createUser({ telegramChatId: '100', plan: 'PRO' })).id;
+  });
+
+  test('accepts the admin key as a bearer token, API key or Basic password', async () => {
+    const admin = { role: 'ADMIN' };
+    assert.deepEqual(await auth.authenticate(bearer('admin-key')), admin);
+    assert.deepEqual(
+      await auth.authenticate({ headers: { 'x-api-key': 'admin-key' }, query: {} }),
+      admin
+    );
+    const basic = Buffer.from('anyone:admin-key').toString('base64');
+    assert.deepEqual(
+      await auth.authenticate({ headers: { authorization: `Basic ${basic}` }, query: {} }),
+      admin
+    );
+    assert.equal(await auth.authenticate(bearer('admin-kez')), null);
+    assert.equal(await auth.authenticate({ headers: {}, query: {} }), null);
+  });
+
+  test('takes ?access_token= only where the route allows it', async () => {
+    const request = { headers: {}, query: { access_token: 'admin-key' } };
+    assert.equal(await auth.authenticate(request), null);
+    assert.deepEqual(await auth.authenticate(request, true), { role: 'ADMIN' });
+  });
+
+  test('authenticates API keys as their owner until revoked', async () => {
+    const { key, token } = await auth.issueApiKey(userId, 'ci');
+    assert.match(token, /^csa_/);
+    assert.notEqual(key.hash, token);
+    assert.deepEqual(await auth.authenticate(bearer(token)), { userId, role: 'USER' });
+
+    assert.equal(await auth.authenticate(bearer(`${token.slice(0, -1)}x`)), null);
+    await store.revokeApiKey(key.id, new Date(now));
+    assert.equal(await auth.authenticate(bearer(token)), null);
+  });
+
+  test('authenticates HS256 tokens from the main site', async () => {
+    const claims = { sub: userId, iss: 'site', aud: ['alerts', 'web'], exp: now / 1000 + 60 };
+    assert.deepEqual(await auth.authenticate(bearer(jwt(claims))), { userId, role: 'USER' });
+    assert.deepEqual(await auth.authenticate(bearer(jwt({ ...claims, role: 'ADMIN' }))), {
+      userId,
+      role: 'ADMIN'
+    });
+  });
+
+  test('rejects tokens that are forged, expired or meant for someone else', async () => {
+    const claims = { sub: userId, iss: 'site', aud: 'alerts', exp: now / 1000 + 60 };
+    const rejected = [
+      jwt(claims, { alg: 'HS256' }, 'other-secret'),
+      jwt(claims, { alg: 'none' }),
+      jwt({ ...claims, exp: now / 1000 }),
+      jwt({ ...claims, exp: undefined }),
+      jwt({ ...claims, nbf: now / 1000 + 30 }),
+      jwt({ ...claims, iss: 'elsewhere' }),
+      jwt({ ...claims, aud: 'web' }),
+      jwt({ ...claims, sub: 'no-such-user' })
+    ];
+    for (const token of rejected) {
+      assert.equal(await auth.authenticate(bearer(token)), null, token);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Store } from '../store/store.js';
+import type { ApiKey, Role, TelegramLink } from '../types/domain.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+import { newId } from '../utils/ids.js';
+
+const API_KEY_PREFIX = 'csa_';
+
+export const TELEGRAM_LINK_TTL_MS = 15 * 60 * 1000;
+
+export interface Caller {
+  // Unset for the bootstrap admin key, which belongs to no user.
+  userId?: string;
+  role: Role;
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Skips authentication; the route checks its own credentials, if any.
+    public?: boolean;
+    // Also accepts `?access_token=`, for clients that cannot set headers.
+    queryToken?: boolean;
+  }
+
+  interface FastifyRequest {
+    caller: Caller;
+  }
+}
+
+export interface AuthOptions {
+  adminApiKey: string;
+  jwtSecret: string;
+  jwtIssuer: string;
+  jwtAudience: string;
+}
+
+export const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+export const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> | null => {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+type Credentials = Pick<FastifyRequest, 'headers' | 'query'>;
+
+// Accepts `Bearer <token>`, `X-API-Key`, or Basic auth with the key as the
+// password so the backoffice pages work from a browser prompt. EventSource
+// and browser WebSockets cannot set headers, so their endpoints also take
+// `?access_token=`; anywhere else it would only end up in logs and history.
+const readToken = (request: Credentials, queryToken: boolean): string | null => {
+  const header = request.headers.authorization ?? '';
+  const [scheme, value] = header.split(' ', 2);
+  if (scheme?.toLowerCase() === 'bearer' && value) return value.trim();
+  if (scheme?.toLowerCase() === 'basic' && value) {
+    const decoded = Buffer.from(value, 'base64').toString('utf8');
+    return decoded.slice(decoded.indexOf(':') + 1) || null;
+  }
+  const apiKey = request.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) return apiKey;
+  if (!queryToken) return null;
+  const { access_token: accessToken } = (request.query ?? {}) as { access_token?: unknown };
+  return typeof accessToken === 'string' && accessToken ? accessToken : null;
+};
+
+export class Authenticator {
+  constructor(
+    private readonly store: Store,
+    private readonly options: AuthOptions,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  // The plaintext token is returned once; only its hash is stored.
+  async issueApiKey(userId: string, name?: string): Promise<{ key: ApiKey; token: string }> {
+    const secret = randomBytes(24).toString('base64url');
+    const key: ApiKey = {
+      id: newId(),
+      userId,
+      name,
+      hash: sha256(secret),
+      createdAt: new Date(this.clock())
+    };
+    await this.store.createApiKey(key);
+    return { key, token: `${API_KEY_PREFIX}${key.id}_${secret}` };
+  }
+
+  // A code the account's owner sends to the bot as `/start <code>` to have
+  // alerts delivered to that chat. Like API keys, only its hash is stored.
+  async issueTelegramLink(userId: string): Promise<{ code: string; expiresAt: Date }> {
+    const code = randomBytes(24).toString('base64url');
+    const link: TelegramLink = {
+      hash: sha256(code),
+      userId,
+      expiresAt: new Date(this.clock() + TELEGRAM_LINK_TTL_MS)
+    };
+    await this.store.createTelegramLink(link);
+    return { code, expiresAt: link.expiresAt };
+  }
+
+  async authenticate(request: Credentials, queryToken = false): Promise<Caller | null> {
+    const token = readToken(request, queryToken);
+    if (!token) return null;
+
+    if (this.options.adminApiKey && safeEqual(token, this.options.adminApiKey)) {
+      return { role: 'ADMIN' };
+    }
+    if (token.startsWith(API_KEY_PREFIX)) return this.fromApiKey(token);
+    if (this.options.jwtSecret && token.split('.').length === 3) return this.fromJwt(token);
+    return null;
+  }
+
+  private async fromApiKey(token: string): Promise<Caller | null> {
+    const body = token.slice(API_KEY_PREFIX.length);
+    const separator = body.indexOf('_');
+    if (separator === -1) return null;
+
+    const key = await this.store.getApiKey(body.slice(0, separator));
+    if (!key || key.revokedAt || !safeEqual(key.hash, sha256(body.slice(separator + 1)))) {
+      return null;
+    }
+    return this.callerFor(key.userId);
+  }
+
+  // HS256 tokens signed by the main site; `sub` is the user id here.
+  private async fromJwt(token: string): Promise<Caller | null> {
+    const [header, payload, signature] = token.split('.');
+    const expected = createHmac('sha256', this.options.jwtSecret)
+      .update(`${header}.${payload}`)
+      .digest('base64url');
+    if (!safeEqual(signature, expected)) return null;
+
+    const headerClaims = decodeSegment(header);
+    const claims = decodeSegment(payload);
+    if (headerClaims?.alg !== 'HS256' || !claims || typeof claims.sub !== 'string') return null;
+
+    const now = this.clock() / 1000;
+    if (typeof claims.exp !== 'number' || claims.exp <= now) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf > now) return null;
+    if (this.options.jwtIssuer && claims.iss !== this.options.jwtIssuer) return null;
+    if (this.options.jwtAudience) {
+      const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audience.includes(this.options.jwtAudience)) return null;
+    }
+
+    const caller = await this.callerFor(claims.sub);
+    if (caller && claims.role === 'ADMIN') caller.role = 'ADMIN';
+    return caller;
+  }
+
+  private async callerFor(userId: string): Promise<Caller | null> {
+    const user = await this.store.getUser(userId);
+    return user ? { userId: user.id, role: user.role ?? 'USER' } : null;
+  }
+}
+
+export const isAdmin = (caller: Caller) => caller.role === 'ADMIN';
+
+export const canAccess = (caller: Caller, userId: string) =>
+  isAdmin(caller) || caller.userId === userId;
+
+export const adminOnly = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (!isAdmin(request.caller)) {
+    return reply.status(403).send({ error: 'Admin role required' });
+  }
+};
@@ -0,0 +1,203 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NotificationPreferences, TriggeredAlert } from '../types/domain.js';
+import { planDelivery, quietHoursEnd, validatePreferences } from './deliveryPolicy.js';
+import { alertTypes } from './ruleSchemas.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alertFor = (
+  preferences?: NotificationPreferences,
+  type: TriggeredAlert['rule']['type'] = 'BREAKOUT',
+  mutedUntil?: Date
+): TriggeredAlert => ({
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type,
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: {
+    id: 'user-1',
+    telegramChatId: '100',
+    plan: 'PRO',
+    preferences,
+    mutedUntil,
+    createdAt: now,
+    updatedAt: now
+  },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+});
+
+// 22:00-07:00 in Jakarta (UTC+7) is 15:00-00:00 UTC.
+const jakarta: NotificationPreferences = {
+  timezone: 'Asia/Jakarta',
+  quietHours: [{ start: '22:00', end: '07:00' }]
+};
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('quietHoursEnd', () => {
+  test('ends overnight windows at their local end time', () => {
+    assert.equal(quietHoursEnd(jakarta, at('2026-01-01T16:00:00Z')), at('2026-01-02T00:00:00Z'));
+    // Just past midnight local, still the window that started the day before.
+    assert.equal(quietHoursEnd(jakarta, at('2026-01-01T17:30:00Z')), at('2026-01-02T00:00:00Z'));
+    assert.equal(quietHoursEnd(jakarta, at('2026-01-02T00:00:00Z')), null);
+    assert.equal(quietHoursEnd(jakarta, at('2026-01-01T14:59:00Z')), null);
+  });
+
+  test('only starts windows on the days they name', () => {
+    // 2026-01-01 is a Thursday; the window starts on Fridays only.
+    const fridays = { ...jakarta, quietHours: [{ start: '22:00', end: '07:00', days: [5] }] };
+    assert.equal(quietHoursEnd(fridays, at('2026-01-01T16:00:00Z')), null);
+    assert.equal(quietHoursEnd(fridays, at('2026-01-02T16:00:00Z')), at('2026-01-03T00:00:00Z'));
+    // Saturday morning local is still Friday's window.
+    assert.equal(quietHoursEnd(fridays, at('2026-01-02T22:00:00Z')), at('2026-01-03T00:00:00Z'));
+  });
+
+  test('runs through back-to-back windows', () => {
+    const preferences = {
+      ...jakarta,
+      quietHours: [
+        { start: '22:00', end: '07:00' },
+        { start: '07:00', end: '09:00' }
+      ]
+    };
+    assert.equal(
+      quietHoursEnd(preferences, at('2026-01-01T16:00:00Z')),
+      at('2026-01-02T02:00:00Z')
+    );
+  });
+
+  test('ends at the local end time on the days clocks change', () => {
+    const newYork = {
+      timezone: 'America/New_York',
+      quietHours: [{ start: '00:30', end: '04:00' }]
+    };
+    // Clocks went forward at 02:00 on 2026-03-08: 04:00 EDT is 08:00 UTC.
+    assert.equal(quietHoursEnd(newYork, at('2026-03-08T06:00:00Z')), at('2026-03-08T08:00:00Z'));
+    // And back at 02:00 on 2026-11-01: 04:00 EST is 09:00 UTC.
+    assert.equal(quietHoursEnd(newYork, at('2026-11-01T05:00:00Z')), at('2026-11-01T09:00:00Z'));
+  });
+});
+
+describe('planDelivery', () => {
+  const quiet = at('2026-01-01T16:00:00Z');
+  const awake = at('2026-01-01T10:00:00Z');
+
+  test('sends straight away without preferences', () => {
+    assert.deepEqual(planDelivery(alertFor(), quiet), { action: 'SEND' });
+  });
+
+  test('holds until quiet hours end, or drops in DROP mode', () => {
+    assert.deepEqual(planDelivery(alertFor(jakarta), quiet), {
+      action: 'HOLD',
+      until: at('2026-01-02T00:00:00Z'),
+      reason: 'QUIET_HOURS'
+    });
+    assert.deepEqual(planDelivery(alertFor({ ...jakarta, quietMode: 'DROP' }), quiet), {
+      action: 'DROP',
+      reason: 'QUIET_HOURS'
+    });
+    assert.deepEqual(planDelivery(alertFor(jakarta), awake), { action: 'SEND' });
+  });
+
+  test('lets critical types through quiet hours and digests', () => {
+    const preferences = { ...jakarta, digestWindowSec: 300 };
+    assert.deepEqual(planDelivery(alertFor(preferences, 'EXTREME_MOVE'), quiet), {
+      action: 'SEND'
+    });
+    assert.deepEqual(
+      planDelivery(alertFor({ ...preferences, criticalTypes: ['BREAKOUT'] }), quiet),
+      { action: 'SEND' }
+    );
+    assert.equal(planDelivery(alertFor(preferences, 'RSI'), quiet).action, 'HOLD');
+  });
+
+  test('holds for the end of the epoch-aligned digest window', () => {
+    const preferences = { timezone: 'UTC', digestWindowSec: 300 };
+    assert.deepEqual(planDelivery(alertFor(preferences), awake + 61_000), {
+      action: 'HOLD',
+      until: awake + 300_000,
+      reason: 'DIGEST'
+    });
+    // A digest closing after quiet hours end holds until then instead.
+    const day = { ...jakarta, digestWindowSec: 86_400 };
+    assert.deepEqual(planDelivery(alertFor(day), quiet), {
+      action: 'HOLD',
+      until: at('2026-01-02T00:00:00Z'),
+      reason: 'QUIET_HOURS'
+    });
+    assert.deepEqual(planDelivery(alertFor(day), at('2026-01-01T15:00:00Z') - 1), {
+      action: 'HOLD',
+      until: at('2026-01-02T00:00:00Z'),
+      reason: 'DIGEST'
+    });
+  });
+
+  test('drops everything while muted, critical or not', () => {
+    const mutedUntil = new Date(awake + 3_600_000);
+    assert.deepEqual(planDelivery(alertFor(undefined, 'EXTREME_MOVE', mutedUntil), awake), {
+      action: 'DROP',
+      reason: 'MUTED',
+      until: mutedUntil.getTime()
+    });
+    assert.deepEqual(
+      planDelivery(alertFor(undefined, 'BREAKOUT', mutedUntil), mutedUntil.getTime()),
+      { action: 'SEND' }
+    );
+  });
+});
+
+describe('validatePreferences', () => {
+  test('accepts a full set of preferences', () => {
+    const preferences = {
+      ...jakarta,
+      quietMode: 'HOLD',
+      criticalTypes: ['EXTREME_MOVE', 'PRICE_CROSS'],
+      digestWindowSec: 600
+    };
+    assert.equal(validatePreferences(preferences, alertTypes), null);
+  });
+
+  test('names the first invalid field', () => {
+    const invalid: Array<[unknown, string]> = [
+      [[], 'preferences: must be an object'],
+      [
+        { timezone: 'Mars/Olympus' },
+        'preferences.timezone: must be an IANA time zone such as Asia/Jakarta'
+      ],
+      [
+        { timezone: 'UTC', quietHours: [{ start: '22:00', end: '24:00' }] },
+        'preferences.quietHours[0].end: must be HH:MM'
+      ],
+      [
+        { timezone: 'UTC', quietHours: [{ start: '22:00', end: '22:00' }] },
+        'preferences.quietHours[0]: start and end must differ'
+      ],
+      [
+        { timezone: 'UTC', quietHours: [{ start: '22:00', end: '07:00', days: [7] }] },
+        'preferences.quietHours[0].days: must be weekday numbers 0-6'
+      ],
+      [{ timezone: 'UTC', quietMode: 'SKIP' }, 'preferences.quietMode: must be HOLD or DROP'],
+      [
+        { timezone: 'UTC', criticalTypes: ['MOON'] },
+        'preferences.criticalTypes: must be a list of alert types'
+      ],
+      [
+        { timezone: 'UTC', digestWindowSec: 30 },
+        'preferences.digestWindowSec: must be between 60 and 86400'
+      ]
+    ];
+    for (const [preferences, message] of invalid) {
+      assert.equal(validatePreferences(preferences, alertTypes), message);
+    }
+  });
+});
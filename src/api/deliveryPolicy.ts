@@ -0,0 +1,132 @@
+import type { AlertType, NotificationPreferences, TriggeredAlert } from '../types/domain.js';
+import {
+  isValidTimeZone,
+  localTime,
+  parseClockTime,
+  validateClockWindow,
+  windowCovers
+} from '../utils/timezone.js';
+
+const DEFAULT_CRITICAL_TYPES: AlertType[] = ['EXTREME_MOVE'];
+const MIN_DIGEST_WINDOW_SEC = 60;
+const MAX_DIGEST_WINDOW_SEC = 86_400;
+
+export type DeliveryPlan =
+  | { action: 'SEND' }
+  | { action: 'HOLD'; until: number; reason: 'QUIET_HOURS' | 'DIGEST' }
+  | { action: 'DROP'; reason: 'QUIET_HOURS' }
+  | { action: 'DROP'; reason: 'MUTED'; until: number };
+
+const activeQuietWindow = (preferences: NotificationPreferences, timestamp: number) =>
+  preferences.quietHours?.find((window) =>
+    windowCovers(window, timestamp, preferences.timezone)
+  );
+
+// End of the quiet period covering `now`, or null when none applies. Steps
+// through back-to-back windows and DST shifts by re-checking each candidate.
+export const quietHoursEnd = (
+  preferences: NotificationPreferences,
+  now: number
+): number | null => {
+  let window = activeQuietWindow(preferences, now);
+  if (!window) return null;
+
+  let candidate = now;
+  for (let step = 0; window && step < 8; step += 1) {
+    const end = parseClockTime(window.end) ?? 0;
+    const { minuteOfDay } = localTime(candidate, preferences.timezone);
+    const minutesLeft = (end - minuteOfDay + 1440) % 1440 || 1440;
+    candidate = Math.floor(candidate / 60_000) * 60_000 + minutesLeft * 60_000;
+    // Clocks going forward in between overshoot the end by the skipped time.
+    const overshoot = localTime(candidate, preferences.timezone).minuteOfDay - end;
+    const atEnd = candidate - overshoot * 60_000;
+    if (overshoot > 0 && localTime(atEnd, preferences.timezone).minuteOfDay === end) {
+      candidate = atEnd;
+    }
+    window = activeQuietWindow(preferences, candidate);
+  }
+  return candidate;
+};
+
+export const isCritical = (alert: TriggeredAlert) =>
+  (alert.user.preferences?.criticalTypes ?? DEFAULT_CRITICAL_TYPES).includes(alert.rule.type);
+
+// Decides whether an alert goes out now, waits for quiet hours or the user's
+// digest window to close, or is dropped. Muting drops everything; otherwise
+// critical alerts always go out.
+export const planDelivery = (alert: TriggeredAlert, now: number): DeliveryPlan => {
+  const mutedUntil = alert.user.mutedUntil && new Date(alert.user.mutedUntil).getTime();
+  if (mutedUntil && mutedUntil > now) return { action: 'DROP', reason: 'MUTED', until: mutedUntil };
+
+  const preferences = alert.user.preferences;
+  if (!preferences || isCritical(alert)) return { action: 'SEND' };
+
+  const quietEnd = quietHoursEnd(preferences, now);
+  if (quietEnd !== null && preferences.quietMode === 'DROP') {
+    return { action: 'DROP', reason: 'QUIET_HOURS' };
+  }
+
+  // Digest windows are aligned to the epoch so every alert in the same
+  // window shares one release time.
+  const windowMs = (preferences.digestWindowSec ?? 0) * 1000;
+  const digestEnd = windowMs > 0 ? Math.ceil(now / windowMs) * windowMs : null;
+
+  if (quietEnd !== null && quietEnd >= (digestEnd ?? 0)) {
+    return { action: 'HOLD', until: quietEnd, reason: 'QUIET_HOURS' };
+  }
+  if (digestEnd !== null && digestEnd > now) {
+    return { action: 'HOLD', until: digestEnd, reason: 'DIGEST' };
+  }
+  return { action: 'SEND' };
+};
+
+// Returns a message describing the first invalid field, or null.
+export const validatePreferences = (
+  value: unknown,
+  knownTypes: readonly AlertType[],
+  path = 'preferences'
+): string | null => {
+  const preferences = value as Partial<NotificationPreferences> | null;
+  if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences)) {
+    return `${path}: must be an object`;
+  }
+
+  if (typeof preferences.timezone !== 'string' || !isValidTimeZone(preferences.timezone)) {
+    return `${path}.timezone: must be an IANA time zone such as Asia/Jakarta`;
+  }
+
+  if (preferences.quietHours !== undefined) {
+    if (!Array.isArray(preferences.quietHours)) return `${path}.quietHours: must be an array`;
+    for (const [index, window] of preferences.quietHours.entries()) {
+      const error = validateClockWindow(window, `${path}.quietHours[${index}]`);
+      if (error) return error;
+    }
+  }
+
+  if (
+    preferences.quietMode !== undefined &&
+    preferences.quietMode !== 'HOLD' &&
+    preferences.quietMode !== 'DROP'
+  ) {
+    return `${path}.quietMode: must be HOLD or DROP`;
+  }
+
+  if (
+    preferences.criticalTypes !== undefined &&
+    (!Array.isArray(preferences.criticalTypes) ||
+      !preferences.criticalTypes.every((type) => knownTypes.includes(type)))
+  ) {
+    return `${path}.criticalTypes: must be a list of alert types`;
+  }
+
+  if (
+    preferences.digestWindowSec !== undefined &&
+    (!Number.isInteger(preferences.digestWindowSec) ||
+      preferences.digestWindowSec < MIN_DIGEST_WINDOW_SEC ||
+      preferences.digestWindowSec > MAX_DIGEST_WINDOW_SEC)
+  ) {
+    return `${path}.digestWindowSec: must be between ${MIN_DIGEST_WINDOW_SEC} and ${MAX_DIGEST_WINDOW_SEC}`;
+  }
+
+  return null;
+};
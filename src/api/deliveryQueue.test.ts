@@ -0,0 +1,192 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import type { AlertEvent, TriggeredAlert } from '../types/domain.js';
+import { newId } from '../utils/ids.js';
+import { DeliveryQueue, type DeliveryQueueOptions } from './deliveryQueue.js';
+import { DeliveryError, DispatcherRegistry, type Dispatcher } from './dispatcher.js';
+import { RateLimiter } from './rateLimiter.js';
+
+const start = Date.UTC(2026, 0, 1);
+
+// Records what it was asked to send and fails while `failures` has entries.
+class FakeDispatcher implements Dispatcher {
+  readonly channel = 'TELEGRAM' as const;
+  sent: string[][] = [];
+  failures: unknown[] = [];
+
+  async dispatch(alert: TriggeredAlert): Promise<void> {
+    this.send([alert.payload.id as string]);
+  }
+
+  async dispatchDigest({ alerts }: { alerts: TriggeredAlert[] }): Promise<void> {
+    this.send(alerts.map((alert) => alert.payload.id as string));
+  }
+
+  private send(ids: string[]) {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    this.sent.push(ids);
+  }
+}
+
+describe('DeliveryQueue', () => {
+  let now: number;
+  let store: InMemoryStore;
+  let dispatcher: FakeDispatcher;
+  let alert: TriggeredAlert;
+
+  const queue = (options: Partial<DeliveryQueueOptions> = {}) =>
+    new DeliveryQueue(
+      store,
+      new DispatcherRegistry().register(dispatcher),
+      {
+        limiter: new RateLimiter({}),
+        maxAttempts: 3,
+        baseBackoffMs: 1_000,
+        maxBackoffMs: 60_000,
+        ...options
+      },
+      () => now
+    );
+
+  // Stores an alert for the rule and returns it with its event.
+  const fire = async (): Promise<[TriggeredAlert, AlertEvent]> => {
+    const id = newId();
+    const event: AlertEvent = {
+      id,
+      ruleId: alert.rule.id,
+      userId: alert.user.id,
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      triggeredAt: new Date(now),
+      payload: { id }
+    };
+    await store.addAlert(event);
+    return [{ ...alert, payload: event.payload }, event];
+  };
+
+  const target = { channel: 'TELEGRAM' as const, destination: '100' };
+
+  beforeEach(async () => {
+    now = start;
+    store = new InMemoryStore();
+    dispatcher = new FakeDispatcher();
+    const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+    const rule = await store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      timeframe: '5m',
+      params: { lookback: 20, direction: 'UP' },
+      isEnabled: true,
+      cooldownSec: 300
+    });
+    alert = { rule, user, payload: {} };
+  });
+
+  test('sends due notifications and marks them SENT', async () => {
+    const deliveries = queue();
+    const notification = await deliveries.enqueue(...(await fire()), target);
+
+    await deliveries.drain();
+    assert.deepEqual(dispatcher.sent, [[notification.alertEventId]]);
+    const sent = await store.getNotification(notification.id);
+    assert.equal(sent?.status, 'SENT');
+    assert.equal(sent?.attempts, 1);
+  });
+
+  test('backs off after failures and dead-letters after maxAttempts', async () => {
+    const deliveries = queue();
+    const notification = await deliveries.enqueue(...(await fire()), target);
+    dispatcher.failures = [1, 2, 3].map((attempt) => new DeliveryError(`down ${attempt}`, 503));
+
+    await deliveries.drain();
+    let stored = await store.getNotification(notification.id);
+    assert.equal(stored?.status, 'PENDING');
+    assert.equal(stored?.attempts, 1);
+    assert.equal(stored?.error, 'down 1');
+    const delay = (stored?.nextAttemptAt?.getTime() ?? 0) - now;
+    assert.ok(delay >= 500 && delay <= 1_000, `retried after ${delay}ms`);
+
+    // Not due yet.
+    await deliveries.drain();
+    assert.equal((await store.getNotification(notification.id))?.attempts, 1);
+
+    now += 60_000;
+    await deliveries.drain();
+    now += 60_000;
+    await deliveries.drain();
+    stored = await store.getNotification(notification.id);
+    assert.equal(stored?.status, 'DEAD_LETTER');
+    assert.equal(stored?.attempts, 3);
+    assert.deepEqual(dispatcher.sent, []);
+  });
+
+  test('dead-letters permanent failures straight away', async () => {
+    const deliveries = queue();
+    const notification = await deliveries.enqueue(...(await fire()), target);
+    dispatcher.failures = [new DeliveryError('chat not found', 400)];
+
+    await deliveries.drain();
+    const stored = await store.getNotification(notification.id);
+    assert.equal(stored?.status, 'DEAD_LETTER');
+    assert.equal(stored?.error, 'chat not found');
+  });
+
+  test('waits out 429s without using up attempts', async () => {
+    const deliveries = queue({ maxAttempts: 2 });
+    const notification = await deliveries.enqueue(...(await fire()), target);
+    dispatcher.failures = [1, 2, 3].map(() => new DeliveryError('slow down', 429, 30_000));
+
+    for (let round = 0; round < 3; round += 1) {
+      await deliveries.drain();
+      const stored = await store.getNotification(notification.id);
+      assert.equal(stored?.status, 'PENDING');
+      assert.equal(stored?.attempts, 0);
+      assert.equal(stored?.nextAttemptAt?.getTime(), now + 30_000);
+      now += 30_000;
+    }
+
+    await deliveries.drain();
+    assert.equal((await store.getNotification(notification.id))?.status, 'SENT');
+  });
+
+  test('sends each notification once when workers share a store', async () => {
+    const workers = [queue(), queue()];
+    const ids: string[] = [];
+    for (let index = 0; index < 5; index += 1) {
+      const [triggered, event] = await fire();
+      await workers[0].enqueue(triggered, event, target);
+      ids.push(event.id);
+    }
+
+    await Promise.all(workers.map((worker) => worker.drain()));
+    assert.deepEqual(dispatcher.sent.flat().sort(), ids.sort());
+  });
+
+  test('releases held notifications to a destination as one digest', async () => {
+    const deliveries = queue();
+    const until = start + 60_000;
+    const held = [];
+    for (let index = 0; index < 3; index += 1) {
+      const [triggered, event] = await fire();
+      held.push(
+        await deliveries.enqueue(triggered, event, target, {
+          action: 'HOLD',
+          until,
+          reason: 'DIGEST'
+        })
+      );
+    }
+
+    await deliveries.drain();
+    assert.deepEqual(dispatcher.sent, []);
+
+    now = until;
+    await deliveries.drain();
+    await deliveries.drain();
+    assert.deepEqual(dispatcher.sent, [held.map((notification) => notification.alertEventId)]);
+  });
+});
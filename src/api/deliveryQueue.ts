@@ -0,0 +1,331 @@
+import type {
+  AlertEvent,
+  AlertRule,
+  ChannelTarget,
+  NotificationLog,
+  TriggeredAlert,
+  User
+} from '../types/domain.js';
+import type { Store } from '../store/store.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+import { newId } from '../utils/ids.js';
+import type { DeliveryPlan } from './deliveryPolicy.js';
+import { DeliveryError, type Dispatcher, type DispatcherRegistry } from './dispatcher.js';
+import type { RateLimiter } from './rateLimiter.js';
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const dropReason = (plan: Extract<DeliveryPlan, { action: 'DROP' }>) =>
+  plan.reason === 'MUTED'
+    ? `Dropped while muted until ${new Date(plan.until).toISOString()}`
+    : 'Dropped during quiet hours';
+
+export type DeliveryOutcome = 'SENT' | 'RETRY' | 'DEAD_LETTER';
+
+export interface DeliveryQueueOptions {
+  limiter: RateLimiter;
+  maxAttempts: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  pollMs?: number;
+  batchSize?: number;
+  // How long a claimed batch is reserved for this worker. A worker that dies
+  // mid-batch leaves its notifications to be claimed again after this.
+  leaseMs?: number;
+  onResult?: (outcome: DeliveryOutcome, notification: NotificationLog, error?: unknown) => void;
+}
+
+// Notifications are the queue: each one is persisted as PENDING (or HELD for
+// quiet hours and digests) with a nextAttemptAt, so undelivered alerts
+// survive restarts. Workers claim due notifications before sending them, so
+// several can share a database without sending anything twice.
+export class DeliveryQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private inFlight = new Set<string>();
+
+  constructor(
+    private readonly store: Store,
+    private readonly dispatchers: DispatcherRegistry,
+    private readonly options: DeliveryQueueOptions,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  async enqueue(
+    alert: TriggeredAlert,
+    event: AlertEvent,
+    target: ChannelTarget,
+    plan: DeliveryPlan = { action: 'SEND' }
+  ): Promise<NotificationLog> {
+    const now = new Date(this.clock());
+    const notification: NotificationLog = {
+      id: newId(),
+      alertEventId: event.id,
+      ruleId: alert.rule.id,
+      userId: alert.user.id,
+      channel: target.channel,
+      destination: target.destination,
+      status: plan.action === 'HOLD' ? 'HELD' : plan.action === 'DROP' ? 'DROPPED' : 'PENDING',
+      attempts: 0,
+      nextAttemptAt:
+        plan.action === 'HOLD' ? new Date(plan.until) : plan.action === 'SEND' ? now : undefined,
+      error: plan.action === 'DROP' ? dropReason(plan) : undefined,
+      sentAt: now,
+      createdAt: now
+    };
+    await this.store.addNotification(notification);
+    return notification;
+  }
+
+  // Requeued notifications always go out on their own, even if they were
+  // part of a digest.
+  async requeue(id: string): Promise<NotificationLog | undefined> {
+    const notification = await this.store.getNotification(id);
+    if (!notification || notification.status !== 'DEAD_LETTER') return undefined;
+    return this.store.updateNotification(id, {
+      status: 'PENDING',
+      digestId: undefined,
+      attempts: 0,
+      nextAttemptAt: new Date(this.clock())
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.drain();
+    }, this.options.pollMs ?? 1_000);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.draining;
+  }
+
+  // Runs one batch of due notifications; overlapping calls share the batch.
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.processDue().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async processDue(): Promise<void> {
+    const now = new Date(this.clock());
+    const leaseUntil = new Date(now.getTime() + (this.options.leaseMs ?? 120_000));
+    const batchSize = this.options.batchSize ?? 50;
+    await this.releaseHeld(now, leaseUntil, batchSize);
+
+    const due = await this.store.claimDueNotifications('PENDING', now, leaseUntil, batchSize);
+    const digests = new Map<string, NotificationLog[]>();
+    for (const notification of due) {
+      if (!notification.digestId) continue;
+      digests.set(notification.digestId, [
+        ...(digests.get(notification.digestId) ?? []),
+        notification
+      ]);
+    }
+    await Promise.all([
+      ...due
+        .filter((notification) => !notification.digestId)
+        .map((notification) => this.attempt(notification.id, () => this.deliver(notification))),
+      ...[...digests].map(([digestId, notifications]) =>
+        this.attempt(`digest:${digestId}`, () => this.deliverDigest(notifications))
+      )
+    ]);
+  }
+
+  // Held notifications whose window has closed become PENDING again. Several
+  // for the same user and destination are tied together into one digest.
+  private async releaseHeld(now: Date, leaseUntil: Date, batchSize: number): Promise<void> {
+    const held = await this.store.claimDueNotifications(
+      'HELD',
+      now,
+      leaseUntil,
+      batchSize * 10
+    );
+    const groups = new Map<string, NotificationLog[]>();
+    for (const notification of held) {
+      const key = `${notification.userId}:${notification.channel}:${notification.destination}`;
+      groups.set(key, [...(groups.get(key) ?? []), notification]);
+    }
+
+    for (const group of groups.values()) {
+      const digestId = group.length > 1 ? newId() : undefined;
+      for (const notification of group) {
+        await this.store.updateNotification(notification.id, {
+          status: 'PENDING',
+          digestId,
+          nextAttemptAt: now
+        });
+      }
+    }
+  }
+
+  private async attempt(key: string, run: () => Promise<void>): Promise<void> {
+    if (this.inFlight.has(key)) return;
+    this.inFlight.add(key);
+    try {
+      await run();
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async deliver(notification: NotificationLog): Promise<void> {
+    const [event, rule, user] = await Promise.all([
+      this.store.getAlert(notification.alertEventId),
+      this.store.getRule(notification.ruleId),
+      this.store.getUser(notification.userId)
+    ]);
+    if (!event || !rule || !user) {
+      const error = new Error('Alert, rule or user no longer exists');
+      await this.finish([notification], 'DEAD_LETTER', error);
+      return;
+    }
+
+    const target = this.resolveTarget(notification, rule, user);
+    if (await this.rateLimited([notification], target)) return;
+
+    try {
+      await this.dispatcherFor(notification).dispatch(
+        { rule, user, payload: event.payload, chartCandles: event.chartCandles },
+        target
+      );
+      await this.finish([notification], 'SENT');
+    } catch (error) {
+      await this.handleFailure([notification], error);
+    }
+  }
+
+  // Sends the notifications of one digest this worker claimed.
+  private async deliverDigest(notifications: NotificationLog[]): Promise<void> {
+    const [lead] = notifications;
+    const user = await this.store.getUser(lead.userId);
+    if (!user) {
+      await this.finish(notifications, 'DEAD_LETTER', new Error('User no longer exists'));
+      return;
+    }
+
+    const included: NotificationLog[] = [];
+    const alerts: TriggeredAlert[] = [];
+    for (const notification of notifications) {
+      const [event, rule] = await Promise.all([
+        this.store.getAlert(notification.alertEventId),
+        this.store.getRule(notification.ruleId)
+      ]);
+      if (!event || !rule) {
+        const error = new Error('Alert or rule no longer exists');
+        await this.finish([notification], 'DEAD_LETTER', error);
+        continue;
+      }
+      included.push(notification);
+      alerts.push({ rule, user, payload: event.payload });
+    }
+    if (included.length === 0) return;
+
+    const target = this.resolveTarget(lead, alerts[0].rule, user);
+    if (await this.rateLimited(included, target)) return;
+
+    try {
+      await this.dispatcherFor(lead).dispatchDigest({ user, alerts }, target);
+      await this.finish(included, 'SENT');
+    } catch (error) {
+      await this.handleFailure(included, error);
+    }
+  }
+
+  // Re-resolve so per-target settings such as webhook secrets are current.
+  private resolveTarget(notification: NotificationLog, rule: AlertRule, user: User): ChannelTarget {
+    const destination = notification.destination ?? user.telegramChatId;
+    return (
+      this.dispatchers
+        .resolveTargets({ rule, user })
+        .find(
+          (item) => item.channel === notification.channel && item.destination === destination
+        ) ?? { channel: notification.channel, destination }
+    );
+  }
+
+  private dispatcherFor(notification: NotificationLog): Dispatcher {
+    const dispatcher = this.dispatchers.get(notification.channel);
+    if (!dispatcher) {
+      throw new Error(`No dispatcher registered for ${notification.channel}`);
+    }
+    return dispatcher;
+  }
+
+  // Pushes the notifications back when the destination is over its rate.
+  private async rateLimited(
+    notifications: NotificationLog[],
+    target: ChannelTarget
+  ): Promise<boolean> {
+    const now = this.clock();
+    const wait = this.options.limiter.acquire(target.channel, target.destination, now);
+    if (wait <= 0) return false;
+    for (const notification of notifications) {
+      await this.store.updateNotification(notification.id, {
+        nextAttemptAt: new Date(now + wait)
+      });
+    }
+    return true;
+  }
+
+  // A 429 says the channel is busy, not that the destination is broken, so it
+  // does not use up an attempt and never dead-letters a notification.
+  private async handleFailure(notifications: NotificationLog[], error: unknown): Promise<void> {
+    const now = this.clock();
+    const [lead] = notifications;
+    const rateLimited = error instanceof DeliveryError && error.status === 429;
+    const counted = rateLimited ? 0 : 1;
+    const attempts = lead.attempts + counted;
+    const retryAfterMs = error instanceof DeliveryError ? error.retryAfterMs : undefined;
+
+    if (retryAfterMs && rateLimited) {
+      this.options.limiter.pause(lead.channel, now + retryAfterMs);
+    }
+
+    const permanent = error instanceof DeliveryError && error.permanent;
+    if (permanent || attempts >= this.options.maxAttempts) {
+      await this.finish(notifications, 'DEAD_LETTER', error);
+      return;
+    }
+
+    const ceiling = Math.min(
+      this.options.maxBackoffMs,
+      this.options.baseBackoffMs * 2 ** Math.max(attempts - 1, 0)
+    );
+    const backoff = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+    for (const notification of notifications) {
+      const updated = await this.store.updateNotification(notification.id, {
+        status: 'PENDING',
+        attempts: notification.attempts + counted,
+        nextAttemptAt: new Date(now + Math.max(backoff, retryAfterMs ?? 0)),
+        error: describe(error),
+        sentAt: new Date(now)
+      });
+      if (updated) this.options.onResult?.('RETRY', updated, error);
+    }
+  }
+
+  private async finish(
+    notifications: NotificationLog[],
+    status: 'SENT' | 'DEAD_LETTER',
+    error?: unknown
+  ): Promise<void> {
+    for (const notification of notifications) {
+      const updated = await this.store.updateNotification(notification.id, {
+        status,
+        attempts: notification.attempts + 1,
+        nextAttemptAt: undefined,
+        error: error === undefined ? undefined : describe(error),
+        sentAt: new Date(this.clock())
+      });
+      if (updated) this.options.onResult?.(status, updated, error);
+    }
+  }
+}
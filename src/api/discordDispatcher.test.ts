@@ -0,0 +1,105 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import type { TriggeredAlert } from '../types/domain.js';
+import { DeliveryError } from './dispatcher.js';
+import { DiscordDispatcher } from './discordDispatcher.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert: TriggeredAlert = {
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+};
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+describe('DiscordDispatcher', () => {
+  let handler: Handler;
+  let destination: string;
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  const dispatcher = new DiscordDispatcher();
+  const timeoutMs = config.deliveryTimeoutMs;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    destination = `http://127.0.0.1:${(server.address() as AddressInfo).port}/discord`;
+    config.allowInternalDestinations = true;
+    config.deliveryTimeoutMs = 200;
+  });
+
+  afterEach(() => server.closeAllConnections());
+
+  after(async () => {
+    config.allowInternalDestinations = false;
+    config.deliveryTimeoutMs = timeoutMs;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('posts the rendered alert as an embed, without pinging anyone', async () => {
+    let sent: Record<string, unknown> | undefined;
+    handler = (_request, body, response) => {
+      sent = JSON.parse(body);
+      response.writeHead(204);
+      response.end();
+    };
+
+    await dispatcher.dispatch(alert, { channel: 'DISCORD', destination });
+    const { embeds, allowed_mentions: mentions } = sent as {
+      embeds: Array<{ title: string; description: string }>;
+      allowed_mentions: unknown;
+    };
+    assert.equal(embeds.length, 1);
+    assert.match(embeds[0].description, /BTCUSDT/);
+    assert.deepEqual(mentions, { parse: [] });
+  });
+
+  test('passes on how long Discord asks to wait after a 429', async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(429, { 'Retry-After': '2' });
+      response.end('{"message":"You are being rate limited."}');
+    };
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'DISCORD', destination }),
+      (error: DeliveryError) => {
+        assert.equal(error.status, 429);
+        assert.equal(error.retryAfterMs, 2_000);
+        assert.equal(error.permanent, false);
+        return true;
+      }
+    );
+  });
+
+  test('gives up on a Discord endpoint that never answers, as a retryable failure', async () => {
+    handler = () => {};
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'DISCORD', destination }),
+      (error: DeliveryError) => {
+        assert.equal(error.message, 'Discord send timed out after 0.2s');
+        assert.equal(error.permanent, false);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import type { AlertDigest, ChannelTarget, TriggeredAlert } from '../types/domain.js';
+import { config } from '../config.js';
+import { AlertRenderer } from './alertMessage.js';
+import { postJson, type Dispatcher } from './dispatcher.js';
+
+export class DiscordDispatcher implements Dispatcher {
+  readonly channel = 'DISCORD' as const;
+
+  constructor(private readonly renderer: AlertRenderer = new AlertRenderer()) {}
+
+  async dispatch(alert: TriggeredAlert, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.render(alert);
+    await this.post(target, title, lines);
+  }
+
+  async dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.renderDigest(digest);
+    await this.post(target, title, lines);
+  }
+
+  private async post(target: ChannelTarget, title: string, lines: string[]) {
+    const body = JSON.stringify({
+      embeds: [
+        {
+          title,
+          description: lines.join('\n'),
+          url: config.telegramDefaultLink
+        }
+      ],
+      allowed_mentions: { parse: [] }
+    });
+
+    await postJson('Discord', target.destination, body);
+  }
+}
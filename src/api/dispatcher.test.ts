@@ -0,0 +1,107 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import {
+  BlockedDestinationError,
+  DeliveryError,
+  postJson,
+  validateChannelTargets
+} from './dispatcher.js';
+
+const webhook = (destination: string) => [{ channel: 'WEBHOOK', destination }];
+
+describe('validateChannelTargets', () => {
+  afterEach(() => {
+    config.allowInternalDestinations = false;
+  });
+
+  test('rejects URLs on loopback, private and link-local addresses', () => {
+    for (const destination of [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://api.localhost/hook',
+      'http://10.1.2.3/hook',
+      'http://172.20.0.1/hook',
+      'http://192.168.1.1/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook',
+      'http://[fd00::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook'
+    ]) {
+      assert.equal(
+        validateChannelTargets(webhook(destination)),
+        'channels[0].destination: must not point at a private or loopback address',
+        destination
+      );
+    }
+  });
+
+  test('accepts public URLs, and internal ones when configured to', () => {
+    assert.equal(validateChannelTargets(webhook('https://hooks.example.com/a')), null);
+    assert.equal(validateChannelTargets(webhook('http://8.8.8.8/a')), null);
+
+    config.allowInternalDestinations = true;
+    assert.equal(validateChannelTargets(webhook('http://127.0.0.1:8080/hook')), null);
+  });
+
+  test('checks the shape of every target', () => {
+    assert.equal(validateChannelTargets({}), 'channels: must be an array');
+    assert.equal(
+      validateChannelTargets([{ channel: 'FAX', destination: 'x' }]),
+      'channels[0].channel: must be one of TELEGRAM, WEBHOOK, DISCORD, SLACK, EMAIL'
+    );
+    assert.equal(
+      validateChannelTargets(webhook('ftp://example.com')),
+      'channels[0].destination: must be an http(s) URL'
+    );
+    assert.equal(
+      validateChannelTargets([{ channel: 'EMAIL', destination: 'nobody' }]),
+      'channels[0].destination: must be an email address'
+    );
+  });
+});
+
+describe('postJson', () => {
+  let handler: (request: IncomingMessage, response: ServerResponse) => void;
+  let url: string;
+  let requests = 0;
+  const server = createServer((request, response) => {
+    requests += 1;
+    request.resume();
+    request.on('end', () => handler(request, response));
+  });
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(async () => {
+    config.allowInternalDestinations = false;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('refuses internal destinations for good without sending', async () => {
+    config.allowInternalDestinations = false;
+    requests = 0;
+    await assert.rejects(postJson('Webhook', url, '{}'), (error: DeliveryError) => {
+      assert.ok(error instanceof BlockedDestinationError);
+      assert.equal(error.permanent, true);
+      return true;
+    });
+    assert.equal(requests, 0);
+  });
+
+  test('keeps only the start of a failed response body', async () => {
+    config.allowInternalDestinations = true;
+    handler = (_request, response) => {
+      response.statusCode = 500;
+      response.end('x'.repeat(5_000));
+    };
+    await assert.rejects(postJson('Webhook', url, '{}'), {
+      message: `Webhook send failed: 500 ${'x'.repeat(200)}…`
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { lookup } from 'node:dns/promises';
+import { config } from '../config.js';
+import type {
+  AlertDigest,
+  ChannelTarget,
+  NotificationChannel,
+  TriggeredAlert
+} from '../types/domain.js';
+import { isInternalAddress, isInternalHostname } from '../utils/network.js';
+
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+
+  // Client errors other than timeouts and rate limits will not succeed on retry.
+  get permanent(): boolean {
+    return (
+      this.status !== undefined &&
+      this.status >= 400 &&
+      this.status < 500 &&
+      this.status !== 408 &&
+      this.status !== 429
+    );
+  }
+}
+
+// Refusing to send to a destination is final; retrying will not change it.
+export class BlockedDestinationError extends DeliveryError {
+  override get permanent(): boolean {
+    return true;
+  }
+}
+
+// Failed responses are stored on the notification and shown to its owner, so
+// only the start of the body is kept.
+const RESPONSE_EXCERPT_LENGTH = 200;
+
+export const responseExcerpt = (text: string) =>
+  text.length > RESPONSE_EXCERPT_LENGTH ? `${text.slice(0, RESPONSE_EXCERPT_LENGTH)}…` : text;
+
+export interface Dispatcher {
+  readonly channel: NotificationChannel;
+  dispatch(alert: TriggeredAlert, target: ChannelTarget): Promise<void>;
+  dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void>;
+  // Why the dispatcher cannot send at all, e.g. a missing credential.
+  configurationError?(): string | null;
+}
+
+export const notificationChannels: NotificationChannel[] = [
+  'TELEGRAM',
+  'WEBHOOK',
+  'DISCORD',
+  'SLACK',
+  'EMAIL'
+];
+
+const urlChannels = new Set<NotificationChannel>(['WEBHOOK', 'DISCORD', 'SLACK']);
+
+export class DispatcherRegistry {
+  private dispatchers = new Map<NotificationChannel, Dispatcher>();
+
+  register(dispatcher: Dispatcher): this {
+    this.dispatchers.set(dispatcher.channel, dispatcher);
+    return this;
+  }
+
+  get(channel: NotificationChannel): Dispatcher | undefined {
+    return this.dispatchers.get(channel);
+  }
+
+  configurationErrors(
+    channels: NotificationChannel[]
+  ): Array<{ channel: NotificationChannel; error: string }> {
+    return channels.flatMap((channel) => {
+      const dispatcher = this.dispatchers.get(channel);
+      const error = dispatcher
+        ? dispatcher.configurationError?.()
+        : `No dispatcher registered for ${channel}`;
+      return error ? [{ channel, error }] : [];
+    });
+  }
+
+  // Rule-level channels win over the user's; with neither, alerts go to the
+  // user's Telegram chat as they always have.
+  resolveTargets(alert: Pick<TriggeredAlert, 'rule' | 'user'>): ChannelTarget[] {
+    if (alert.rule.channels && alert.rule.channels.length > 0) return alert.rule.channels;
+    if (alert.user.channels && alert.user.channels.length > 0) return alert.user.channels;
+    return [{ channel: 'TELEGRAM', destination: alert.user.telegramChatId }];
+  }
+}
+
+// Returns a message describing the first invalid target, or null.
+export const validateChannelTargets = (value: unknown, path = 'channels'): string | null => {
+  if (!Array.isArray(value)) return `${path}: must be an array`;
+
+  for (const [index, item] of value.entries()) {
+    const target = item as Partial<ChannelTarget> | null;
+    const at = `${path}[${index}]`;
+    if (!target || typeof target !== 'object') return `${at}: must be an object`;
+    if (!notificationChannels.includes(target.channel as NotificationChannel)) {
+      return `${at}.channel: must be one of ${notificationChannels.join(', ')}`;
+    }
+    if (typeof target.destination !== 'string' || target.destination.length === 0) {
+      return `${at}.destination: is required`;
+    }
+    if (urlChannels.has(target.channel as NotificationChannel)) {
+      let url: URL;
+      try {
+        url = new URL(target.destination);
+      } catch {
+        return `${at}.destination: must be a URL`;
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return `${at}.destination: must be an http(s) URL`;
+      }
+      if (!config.allowInternalDestinations && isInternalHostname(url.hostname)) {
+        return `${at}.destination: must not point at a private or loopback address`;
+      }
+    }
+    if (target.channel === 'EMAIL' && !/^[^@\s]+@[^@\s]+$/.test(target.destination)) {
+      return `${at}.destination: must be an email address`;
+    }
+    if (target.secret !== undefined && typeof target.secret !== 'string') {
+      return `${at}.secret: must be a string`;
+    }
+  }
+
+  return null;
+};
+
+// Deliveries run a batch at a time, so one endpoint that never answers must
+// not hold up everyone else's until the HTTP client gives up; every send is
+// cut off after `config.deliveryTimeoutMs`.
+// A hostname that passed validation may resolve somewhere internal later, so
+// every address it has now is checked before sending.
+const checkDestination = async (label: string, url: URL): Promise<void> => {
+  if (config.allowInternalDestinations) return;
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const internal =
+    isInternalHostname(hostname) ||
+    (await lookup(hostname, { all: true })).some(({ address }) => isInternalAddress(address));
+  if (internal) {
+    throw new BlockedDestinationError(`${label} destination is a private or loopback address`);
+  }
+};
+
+export const postJson = async (
+  label: string,
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<void> => {
+  await checkDestination(label, new URL(url));
+  const timeoutMs = config.deliveryTimeoutMs;
+  const signal = AbortSignal.timeout(timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      // A redirect could lead past the destination check.
+      redirect: 'error',
+      signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new DeliveryError(
+        `${label} send failed: ${response.status} ${responseExcerpt(text)}`,
+        response.status,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+  } catch (error) {
+    // Retried like any other failure without a status.
+    if (signal.aborted) {
+      throw new DeliveryError(`${label} send timed out after ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,131 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo, type Socket } from 'node:net';
+import { config } from '../config.js';
+import type { TriggeredAlert } from '../types/domain.js';
+import { DeliveryError } from './dispatcher.js';
+import { EmailDispatcher } from './emailDispatcher.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert: TriggeredAlert = {
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+};
+
+// Just enough SMTP for nodemailer: no extensions, so no STARTTLS or auth.
+// `silent` never greets; recipients at reject.example are refused.
+const smtpSession = (socket: Socket, messages: string[], silent: boolean) => {
+  if (silent) return;
+  let data: string | null = null;
+  let buffer = '';
+  socket.write('220 stub ESMTP\r\n');
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString();
+    if (data !== null) {
+      const end = buffer.indexOf('\r\n.\r\n');
+      if (end === -1) return;
+      messages.push(buffer.slice(0, end));
+      buffer = buffer.slice(end + 5);
+      data = null;
+      socket.write('250 queued\r\n');
+    }
+    let newline: number;
+    while (data === null && (newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      const verb = line.slice(0, 4).toUpperCase();
+      if (verb === 'RCPT' && line.includes('@reject.example')) {
+        socket.write('550 5.1.1 mailbox unavailable\r\n');
+      } else if (verb === 'DATA') {
+        data = '';
+        socket.write('354 go ahead\r\n');
+      } else if (verb === 'QUIT') {
+        socket.end('221 bye\r\n');
+      } else {
+        socket.write('250 ok\r\n');
+      }
+    }
+  });
+};
+
+describe('EmailDispatcher', () => {
+  const messages: string[] = [];
+  let silent = false;
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    smtpSession(socket, messages, silent);
+  });
+  const saved = { ...config };
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    config.smtpHost = '127.0.0.1';
+    config.smtpPort = (server.address() as AddressInfo).port;
+    config.smtpSecure = false;
+    config.smtpUser = '';
+    config.deliveryTimeoutMs = 200;
+  });
+
+  after(async () => {
+    Object.assign(config, saved);
+    for (const socket of sockets) socket.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('reports a missing SMTP host as a configuration error', () => {
+    config.smtpHost = '';
+    assert.equal(new EmailDispatcher().configurationError(), 'Missing SMTP_HOST');
+    config.smtpHost = '127.0.0.1';
+    assert.equal(new EmailDispatcher().configurationError(), null);
+  });
+
+  test('sends the rendered alert to the target address', async () => {
+    await new EmailDispatcher().dispatch(alert, {
+      channel: 'EMAIL',
+      destination: 'trader@example.com'
+    });
+
+    assert.equal(messages.length, 1);
+    assert.match(messages[0], /^To: trader@example\.com$/m);
+    assert.match(messages[0], /^Subject: .*: BTCUSDT$/m);
+  });
+
+  test('fails when the server refuses the recipient', async () => {
+    await assert.rejects(
+      new EmailDispatcher().dispatch(alert, {
+        channel: 'EMAIL',
+        destination: 'nobody@reject.example'
+      }),
+      /550 5\.1\.1 mailbox unavailable/
+    );
+  });
+
+  test('gives up on a server that never answers, as a retryable failure', async () => {
+    silent = true;
+    await assert.rejects(
+      new EmailDispatcher().dispatch(alert, { channel: 'EMAIL', destination: 'a@example.com' }),
+      (error: DeliveryError) => {
+        assert.ok(error instanceof DeliveryError);
+        assert.equal(error.message, 'Email send timed out after 0.2s');
+        assert.equal(error.permanent, false);
+        return true;
+      }
+    );
+  });
+});
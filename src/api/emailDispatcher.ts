@@ -0,0 +1,62 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { AlertDigest, ChannelTarget, TriggeredAlert } from '../types/domain.js';
+import { config } from '../config.js';
+import { AlertRenderer } from './alertMessage.js';
+import { DeliveryError, type Dispatcher } from './dispatcher.js';
+
+export class EmailDispatcher implements Dispatcher {
+  readonly channel = 'EMAIL' as const;
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly renderer: AlertRenderer = new AlertRenderer()) {}
+
+  configurationError(): string | null {
+    return config.smtpHost ? null : 'Missing SMTP_HOST';
+  }
+
+  async dispatch(alert: TriggeredAlert, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.render(alert);
+    await this.send(target, `${title}: ${alert.rule.symbol}`, lines);
+  }
+
+  async dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.renderDigest(digest);
+    await this.send(target, title, lines);
+  }
+
+  private async send(target: ChannelTarget, subject: string, lines: string[]) {
+    if (!config.smtpHost) {
+      throw new Error('Missing SMTP_HOST');
+    }
+
+    try {
+      await this.getTransporter().sendMail({
+        from: config.smtpFrom,
+        to: target.destination,
+        subject,
+        text: [...lines, '', config.telegramDefaultLink].join('\n')
+      });
+    } catch (error) {
+      // Retried like any other failure without a status.
+      if ((error as { code?: string }).code === 'ETIMEDOUT') {
+        throw new DeliveryError(`Email send timed out after ${config.deliveryTimeoutMs / 1000}s`);
+      }
+      throw error;
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: config.smtpHost,
+        port: config.smtpPort,
+        secure: config.smtpSecure,
+        auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+        connectionTimeout: config.deliveryTimeoutMs,
+        greetingTimeout: config.deliveryTimeoutMs,
+        socketTimeout: config.deliveryTimeoutMs
+      });
+    }
+    return this.transporter;
+  }
+}
@@ -0,0 +1,39 @@
+import type { MarketDataService } from '../market/marketData.js';
+import type { NotificationChannel } from '../types/domain.js';
+import type { DispatcherRegistry } from './dispatcher.js';
+
+export interface ReadinessOptions {
+  marketData: MarketDataService;
+  dispatchers: DispatcherRegistry;
+  // Channels that must be able to send; Telegram is every user's fallback.
+  requiredChannels: NotificationChannel[];
+  staleAfterMs: number;
+}
+
+export interface Readiness {
+  ready: boolean;
+  streams: { subscribed: number; stale: string[] };
+  delivery: { errors: Array<{ channel: NotificationChannel; error: string }> };
+}
+
+// Not ready while any subscribed stream has gone quiet, including sockets
+// stuck reconnecting, or while a required channel cannot deliver.
+export const checkReadiness = (options: ReadinessOptions, now: number): Readiness => {
+  const statuses = options.marketData.listStreamStatuses();
+  const stale = statuses
+    .filter(
+      (status) =>
+        status.state === 'STALE' ||
+        (status.state !== 'OPEN' &&
+          status.lastMessageAt !== null &&
+          now - status.lastMessageAt > options.staleAfterMs)
+    )
+    .map((status) => `${status.exchange}:${status.stream}`);
+  const errors = options.dispatchers.configurationErrors(options.requiredChannels);
+
+  return {
+    ready: stale.length === 0 && errors.length === 0,
+    streams: { subscribed: statuses.length, stale },
+    delivery: { errors }
+  };
+};
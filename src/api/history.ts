@@ -0,0 +1,157 @@
+import type { AlertQuery, HistoryCursor, NotificationQuery } from '../store/store.js';
+import type { AlertType, NotificationChannel, NotificationStatus } from '../types/domain.js';
+import { isAdmin, type Caller } from './auth.js';
+import { notificationChannels } from './dispatcher.js';
+import { alertTypes, type FieldError } from './ruleSchemas.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const notificationStatuses: NotificationStatus[] = [
+  'HELD',
+  'PENDING',
+  'SENT',
+  'DEAD_LETTER',
+  'DROPPED'
+];
+
+const historyProperties = {
+  userId: { type: 'string', minLength: 1 },
+  ruleId: { type: 'string', minLength: 1 },
+  // Comma-separated lists, as on the alert stream.
+  symbol: { type: 'string', minLength: 1 },
+  type: { type: 'string', minLength: 1 },
+  from: { type: 'string', format: 'date-time' },
+  to: { type: 'string', format: 'date-time' },
+  cursor: { type: 'string', minLength: 1 },
+  limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }
+};
+
+export const alertHistorySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: historyProperties
+};
+
+export const notificationHistorySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    ...historyProperties,
+    alertId: { type: 'string', minLength: 1 },
+    status: { type: 'string', minLength: 1 },
+    channel: { type: 'string', minLength: 1 }
+  }
+};
+
+type HistoryParams = Partial<Record<keyof typeof historyProperties, string>> & {
+  limit: number;
+};
+
+type NotificationParams = HistoryParams & {
+  alertId?: string;
+  status?: string;
+  channel?: string;
+};
+
+// Opaque to clients: the position of the last row of the previous page.
+export const encodeCursor = (cursor: HistoryCursor) =>
+  Buffer.from(`${cursor.at.getTime()}:${cursor.id}`).toString('base64url');
+
+const decodeCursor = (value: string): HistoryCursor | null => {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  const at = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  return separator > 0 && Number.isInteger(at) && id ? { at: new Date(at), id } : null;
+};
+
+const list = (value: string | undefined) =>
+  value
+    ?.split(',')
+    .map((item) => item.trim().toUpperCase())
+    .filter(Boolean);
+
+// Parses a comma-separated filter, recording an error for unknown values.
+const members = <T extends string>(
+  field: string,
+  value: string | undefined,
+  allowed: readonly T[],
+  errors: FieldError[]
+): T[] | undefined => {
+  const items = list(value);
+  const unknown = items?.filter((item) => !allowed.includes(item as T));
+  if (unknown?.length) {
+    errors.push({ field, message: `must be one of ${allowed.join(', ')}` });
+  }
+  return items as T[] | undefined;
+};
+
+// Users always query their own history; admins everyone's unless ?userId=.
+export const parseAlertQuery = (
+  params: HistoryParams,
+  caller: Caller
+): { query: AlertQuery; errors: FieldError[] } => {
+  const errors: FieldError[] = [];
+  const before = params.cursor ? decodeCursor(params.cursor) : undefined;
+  if (before === null) errors.push({ field: 'cursor', message: 'is invalid' });
+  const from = params.from ? new Date(params.from) : undefined;
+  const to = params.to ? new Date(params.to) : undefined;
+  if (from && to && from >= to) errors.push({ field: 'to', message: 'must be after from' });
+
+  return {
+    query: {
+      userId: isAdmin(caller) ? params.userId : caller.userId,
+      ruleId: params.ruleId,
+      symbols: list(params.symbol),
+      types: members<AlertType>('type', params.type, alertTypes, errors),
+      from,
+      to,
+      before: before ?? undefined,
+      limit: params.limit
+    },
+    errors
+  };
+};
+
+export const parseNotificationQuery = (
+  params: NotificationParams,
+  caller: Caller
+): { query: NotificationQuery; errors: FieldError[] } => {
+  const { query, errors } = parseAlertQuery(params, caller);
+  return {
+    query: {
+      ...query,
+      alertEventId: params.alertId,
+      statuses: members<NotificationStatus>(
+        'status',
+        params.status,
+        notificationStatuses,
+        errors
+      ),
+      channels: members<NotificationChannel>(
+        'channel',
+        params.channel,
+        notificationChannels,
+        errors
+      )
+    },
+    errors
+  };
+};
+
+// Runs `fetch` for one extra row to tell whether another page follows.
+export const paginate = async <T extends { id: string }>(
+  limit: number,
+  fetch: (limit: number) => Promise<T[]>,
+  position: (item: T) => Date
+): Promise<{ items: T[]; nextCursor: string | null }> => {
+  const rows = await fetch(limit + 1);
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last ? encodeCursor({ at: position(last), id: last.id }) : null
+  };
+};
@@ -0,0 +1,85 @@
+import type { LocalePack } from '../messageTemplates.js';
+
+export const en: LocalePack = {
+  numberLocale: 'en-US',
+  typeNames: {
+    EXTREME_MOVE: 'Extreme Move',
+    BREAKOUT: 'Breakout',
+    VOLUME_SPIKE: 'Volume Spike',
+    RSI: 'RSI',
+    MA_CROSS: 'MA Cross',
+    MACD_CROSS: 'MACD Cross',
+    BOLLINGER: 'Bollinger Band',
+    PRICE_CROSS: 'Price Cross',
+    COMPOSITE: 'Composite'
+  },
+  directions: { UP: 'up', DOWN: 'down', ABOVE: 'above', BELOW: 'below' },
+  forming: 'Candle: still forming',
+  templates: {
+    EXTREME_MOVE: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Change: {{change}}% in {{windowMin}}m',
+      'Price: {{price}}'
+    ].join('\n'),
+    BREAKOUT: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Broke {{direction}}, close {{close}}',
+      'Range: {{lowest}} - {{highest}}',
+      '{{forming}}'
+    ].join('\n'),
+    VOLUME_SPIKE: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Volume: {{volume}}',
+      'Average volume: {{avgVolume}}',
+      '{{forming}}'
+    ].join('\n'),
+    RSI: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'RSI {{rsi}} crossed {{level}} {{direction}}',
+      'Close: {{close}}'
+    ].join('\n'),
+    MA_CROSS: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Fast {{maType}} crossed slow {{maType}} {{direction}}',
+      'Fast: {{fast}}, slow: {{slow}}',
+      'Close: {{close}}'
+    ].join('\n'),
+    MACD_CROSS: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'MACD crossed signal {{direction}}',
+      'MACD: {{macd}}, signal: {{signal}}, histogram: {{histogram}}',
+      'Close: {{close}}'
+    ].join('\n'),
+    BOLLINGER: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Closed outside the band ({{direction}}) at {{close}}',
+      'Bands: {{lower}} / {{middle}} / {{upper}}'
+    ].join('\n'),
+    PRICE_CROSS: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Crossed {{direction}} {{level}}',
+      'Price: {{price}}'
+    ].join('\n'),
+    COMPOSITE: [
+      '{{typeName}} Alert',
+      'Symbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Matched: {{conditions}}'
+    ].join('\n')
+  },
+  digestTitle: '{{count}} alerts since your last update'
+};
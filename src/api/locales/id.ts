@@ -0,0 +1,86 @@
+import type { LocalePack } from '../messageTemplates.js';
+
+// Bahasa Indonesia, for cryptobriefs.net.
+export const id: LocalePack = {
+  numberLocale: 'id-ID',
+  typeNames: {
+    EXTREME_MOVE: 'Pergerakan Ekstrem',
+    BREAKOUT: 'Breakout',
+    VOLUME_SPIKE: 'Lonjakan Volume',
+    RSI: 'RSI',
+    MA_CROSS: 'Persilangan MA',
+    MACD_CROSS: 'Persilangan MACD',
+    BOLLINGER: 'Bollinger Band',
+    PRICE_CROSS: 'Persilangan Harga',
+    COMPOSITE: 'Gabungan'
+  },
+  directions: { UP: 'naik', DOWN: 'turun', ABOVE: 'di atas', BELOW: 'di bawah' },
+  forming: 'Candle: masih terbentuk',
+  templates: {
+    EXTREME_MOVE: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Perubahan: {{change}}% dalam {{windowMin}} menit',
+      'Harga: {{price}}'
+    ].join('\n'),
+    BREAKOUT: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Tembus {{direction}}, penutupan {{close}}',
+      'Rentang: {{lowest}} - {{highest}}',
+      '{{forming}}'
+    ].join('\n'),
+    VOLUME_SPIKE: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Volume: {{volume}}',
+      'Rata-rata volume: {{avgVolume}}',
+      '{{forming}}'
+    ].join('\n'),
+    RSI: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'RSI {{rsi}} melewati {{level}} ({{direction}})',
+      'Penutupan: {{close}}'
+    ].join('\n'),
+    MA_CROSS: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      '{{maType}} cepat memotong {{maType}} lambat ({{direction}})',
+      'Cepat: {{fast}}, lambat: {{slow}}',
+      'Penutupan: {{close}}'
+    ].join('\n'),
+    MACD_CROSS: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'MACD memotong sinyal ({{direction}})',
+      'MACD: {{macd}}, sinyal: {{signal}}, histogram: {{histogram}}',
+      'Penutupan: {{close}}'
+    ].join('\n'),
+    BOLLINGER: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Ditutup di luar band ({{direction}}) pada {{close}}',
+      'Band: {{lower}} / {{middle}} / {{upper}}'
+    ].join('\n'),
+    PRICE_CROSS: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Melewati {{direction}} {{level}}',
+      'Harga: {{price}}'
+    ].join('\n'),
+    COMPOSITE: [
+      'Peringatan {{typeName}}',
+      'Simbol: {{symbol}}',
+      'Timeframe: {{timeframe}}',
+      'Terpenuhi: {{conditions}}'
+    ].join('\n')
+  },
+  digestTitle: '{{count}} peringatan sejak pembaruan terakhir Anda'
+};
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  escapeHtml,
+  escapeMarkdownV2,
+  formatNumber,
+  formatPrice,
+  MAX_TEMPLATE_LENGTH,
+  renderTemplate,
+  toTelegramText,
+  validateTemplate
+} from './messageTemplates.js';
+
+describe('message templates', () => {
+  test('validate length and placeholder names', () => {
+    assert.equal(validateTemplate('{{ symbol }} broke {{direction}}'), null);
+    assert.equal(validateTemplate('  '), 'template: must be a non-empty string');
+    assert.equal(
+      validateTemplate('x'.repeat(MAX_TEMPLATE_LENGTH + 1), 'rules[0].template'),
+      `rules[0].template: must be at most ${MAX_TEMPLATE_LENGTH} characters`
+    );
+    assert.equal(validateTemplate('{{symbol}} {{moon}}'), 'template: unknown placeholder {{moon}}');
+  });
+
+  test('drop body lines naming values the alert lacks, but keep zeros', () => {
+    const template = '{{symbol}} alert\nChange: {{change}}%\nTimeframe: {{timeframe}}\n{{symbol}}';
+    assert.deepEqual(renderTemplate(template, { symbol: 'BTCUSDT', change: '0' }), {
+      title: 'BTCUSDT alert',
+      lines: ['Change: 0%', 'BTCUSDT']
+    });
+    assert.deepEqual(renderTemplate(template, { symbol: 'BTCUSDT', change: '0' }, true), {
+      title: 'BTCUSDT alert',
+      lines: ['Change: 0%']
+    });
+  });
+
+  test('format prices to the tick size in the locale', () => {
+    assert.equal(formatPrice(67123.456, 'en-US', 0.1), '67,123.5');
+    assert.equal(formatPrice(67123.456, 'id-ID', 0.01), '67.123,46');
+    assert.equal(formatPrice(0.000123456, 'en-US', 0.00000001), '0.00012346');
+    // Without one: cents for large prices, four significant digits for small.
+    assert.equal(formatPrice(67123.456, 'en-US'), '67,123.46');
+    assert.equal(formatPrice(1.5, 'en-US'), '1.5000');
+    assert.equal(formatPrice(0.000123456, 'en-US'), '0.0001235');
+    assert.equal(formatNumber(-3.4217, 'en-US', { signDisplay: 'exceptZero' }), '-3.42');
+  });
+
+  test('escape everything Telegram would read as markup', () => {
+    assert.equal(
+      escapeMarkdownV2('MA_CROSS (1h) -0.5% #1!'),
+      'MA\\_CROSS \\(1h\\) \\-0\\.5% \\#1\\!'
+    );
+    assert.equal(escapeHtml('a < b && c > d'), 'a &lt; b &amp;&amp; c &gt; d');
+    const message = { title: 'MA_CROSS', lines: ['Close: 1.5', '<b>'] };
+    assert.equal(toTelegramText(message, 'MarkdownV2'), '*MA\\_CROSS*\nClose: 1\\.5\n<b\\>');
+    assert.equal(toTelegramText(message, 'HTML'), '<b>MA_CROSS</b>\nClose: 1.5\n&lt;b&gt;');
+  });
+});
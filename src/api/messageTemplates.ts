@@ -0,0 +1,155 @@
+import type { AlertType } from '../types/domain.js';
+
+// Everything an alert message says in one language. Templates are plain text:
+// the first line is the title, the rest the body, and `{{name}}` placeholders
+// are filled from the alert (see `placeholders`).
+export interface LocalePack {
+  // BCP 47 tag numbers are formatted for, e.g. `id-ID` writes 1.234,5.
+  numberLocale: string;
+  typeNames: Record<AlertType, string>;
+  directions: Record<'UP' | 'DOWN' | 'ABOVE' | 'BELOW', string>;
+  // Filled into `{{forming}}` when a LIVE alert fires on an open candle.
+  forming: string;
+  templates: Record<AlertType, string>;
+  // Title of a digest; `{{count}}` is the number of alerts in it.
+  digestTitle: string;
+}
+
+export const placeholders = [
+  'symbol',
+  'exchange',
+  'type',
+  'typeName',
+  'timeframe',
+  'direction',
+  'change',
+  'percent',
+  'windowMin',
+  'price',
+  'previousPrice',
+  'close',
+  'highest',
+  'lowest',
+  'level',
+  'volume',
+  'avgVolume',
+  'multiplier',
+  'rsi',
+  'previousRsi',
+  'maType',
+  'fast',
+  'slow',
+  'macd',
+  'signal',
+  'histogram',
+  'upper',
+  'middle',
+  'lower',
+  'withinCandles',
+  'conditions',
+  'forming',
+  'triggeredAt'
+] as const;
+
+export type Placeholder = (typeof placeholders)[number];
+
+export const MAX_TEMPLATE_LENGTH = 1_000;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Returns a message describing the first problem with a template, or null.
+export const validateTemplate = (value: unknown, path = 'template'): string | null => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return `${path}: must be a non-empty string`;
+  }
+  if (value.length > MAX_TEMPLATE_LENGTH) {
+    return `${path}: must be at most ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+  for (const [, name] of value.matchAll(PLACEHOLDER)) {
+    if (!placeholders.includes(name as Placeholder)) {
+      return `${path}: unknown placeholder {{${name}}}`;
+    }
+  }
+  return null;
+};
+
+export interface RenderedMessage {
+  title: string;
+  lines: string[];
+}
+
+// Fills a template. A body line naming a value the alert does not have is left
+// out, so one template covers e.g. alerts with and without a timeframe; values
+// such as 0 are kept. Lines showing nothing but `{{symbol}}` are dropped when
+// `omitSymbolLines` is set, since digest lines already start with it.
+export const renderTemplate = (
+  template: string,
+  values: Partial<Record<string, string>>,
+  omitSymbolLines = false
+): RenderedMessage => {
+  const fill = (line: string) => line.replace(PLACEHOLDER, (_, name) => values[name] ?? '');
+  const [title = '', ...body] = template.split(/\r?\n/);
+  const lines: string[] = [];
+
+  for (const line of body) {
+    const names = [...line.matchAll(PLACEHOLDER)].map(([, name]) => name);
+    if (names.some((name) => values[name] === undefined)) continue;
+    if (omitSymbolLines && names.length > 0 && names.every((name) => name === 'symbol')) continue;
+    const filled = fill(line);
+    if (filled.trim()) lines.push(filled);
+  }
+
+  return { title: fill(title).trim(), lines };
+};
+
+// Decimals a tick size allows: 0.01 -> 2, 0.5 -> 1, 1 -> 0.
+const tickDecimals = (tickSize: number) =>
+  Math.max(0, Math.ceil(-Math.log10(tickSize) - 1e-9));
+
+// Without a tick size, large prices get cents and small ones four significant
+// digits, which is roughly what exchanges quote.
+const fallbackDecimals = (value: number) => {
+  const size = Math.abs(value);
+  if (size >= 1_000) return 2;
+  if (size >= 1 || size === 0) return 4;
+  return Math.min(12, 3 - Math.floor(Math.log10(size)));
+};
+
+export const formatPrice = (value: number, locale: string, tickSize?: number): string => {
+  const valid = tickSize !== undefined && tickSize > 0;
+  const decimals = valid ? tickDecimals(tickSize) : fallbackDecimals(value);
+  const rounded = valid ? Math.round(value / tickSize) * tickSize : value;
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(rounded);
+};
+
+export const formatNumber = (
+  value: number,
+  locale: string,
+  options: Intl.NumberFormatOptions = {}
+): string =>
+  new Intl.NumberFormat(
+    locale,
+    Math.abs(value) >= 1 || value === 0
+      ? { maximumFractionDigits: 2, ...options }
+      : { maximumSignificantDigits: 4, ...options }
+  ).format(value);
+
+export type ParseMode = 'MarkdownV2' | 'HTML';
+
+// Every character MarkdownV2 reserves, backslash included.
+export const escapeMarkdownV2 = (text: string) =>
+  text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The message as Telegram text: everything escaped, the title in bold.
+export const toTelegramText = ({ title, lines }: RenderedMessage, mode: ParseMode): string => {
+  const header =
+    mode === 'HTML' ? `<b>${escapeHtml(title)}</b>` : `*${escapeMarkdownV2(title)}*`;
+  const escape = mode === 'HTML' ? escapeHtml : escapeMarkdownV2;
+  return [header, ...lines.map(escape)].join('\n');
+};
@@ -0,0 +1,205 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type {
+  ExchangeStreamStatus,
+  MarketDataService,
+  Subscription
+} from '../market/marketData.js';
+import { CandleStore } from '../store/candleStore.js';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import { Counter, Histogram, MetricsRegistry } from '../utils/metrics.js';
+import { AlertStreamHub } from './alertStream.js';
+import { DispatcherRegistry, type Dispatcher } from './dispatcher.js';
+import { checkReadiness } from './health.js';
+import { createServiceMetrics } from './metrics.js';
+
+const now = Date.UTC(2026, 0, 1, 0, 10);
+
+const status = (
+  stream: string,
+  state: ExchangeStreamStatus['state'],
+  lastMessageAt: number | null = now
+): ExchangeStreamStatus => ({
+  exchange: 'BINANCE',
+  stream,
+  state,
+  connectionId: 1,
+  lastMessageAt,
+  reconnects: state === 'OPEN' ? 0 : 2
+});
+
+// Only what metrics and readiness read from the service.
+const marketData = (statuses: ExchangeStreamStatus[], subscriptions: Subscription[] = []) =>
+  ({
+    listStreamStatuses: () => statuses,
+    listSubscriptions: () => subscriptions
+  }) as unknown as MarketDataService;
+
+const lines = (text: string, name: string) =>
+  text.split('\n').filter((line) => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+
+describe('MetricsRegistry', () => {
+  test('renders counters and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('requests_total', 'Requests.'));
+    const histogram = registry.register(new Histogram('latency_seconds', 'Latency.', [0.1, 1]));
+    counter.inc({ path: '/a"b\\c\nd' });
+    counter.inc({ path: '/a"b\\c\nd' }, 2);
+    histogram.observe(0.05, { kind: 'candle' });
+    histogram.observe(0.5, { kind: 'candle' });
+    histogram.observe(5, { kind: 'candle' });
+
+    assert.equal(
+      registry.render(),
+      [
+        '# HELP requests_total Requests.',
+        '# TYPE requests_total counter',
+        'requests_total{path="/a\\"b\\\\c\\nd"} 3',
+        '# HELP latency_seconds Latency.',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{kind="candle",le="0.1"} 1',
+        'latency_seconds_bucket{kind="candle",le="1"} 2',
+        'latency_seconds_bucket{kind="candle",le="+Inf"} 3',
+        'latency_seconds_sum{kind="candle"} 5.55',
+        'latency_seconds_count{kind="candle"} 3',
+        ''
+      ].join('\n')
+    );
+  });
+});
+
+describe('createServiceMetrics', () => {
+  test('reports streams, reconnects, candle lag and stream clients', () => {
+    const candleStore = new CandleStore();
+    candleStore.add({
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime: now - 180_000,
+      closeTime: now - 120_001,
+      open: 1,
+      high: 1,
+      low: 1,
+      close: 1,
+      volume: 1,
+      isFinal: true
+    });
+    const subscriptions: Subscription[] = [
+      {
+        key: 'BINANCE:BTCUSDT@kline_1m',
+        exchange: 'BINANCE',
+        stream: 'btcusdt@kline_1m',
+        symbol: 'BTCUSDT',
+        kind: 'kline',
+        interval: '1m'
+      },
+      // No candles yet, so no lag to report.
+      {
+        key: 'BINANCE:ETHUSDT@kline_1m',
+        exchange: 'BINANCE',
+        stream: 'ethusdt@kline_1m',
+        symbol: 'ETHUSDT',
+        kind: 'kline',
+        interval: '1m'
+      }
+    ];
+    const metrics = createServiceMetrics(
+      {
+        marketData: marketData(
+          [
+            status('btcusdt@kline_1m', 'OPEN'),
+            status('ethusdt@kline_1m', 'OPEN'),
+            status('solusdt@kline_1m', 'RECONNECTING')
+          ],
+          subscriptions
+        ),
+        candleStore,
+        alertStream: new AlertStreamHub(new InMemoryStore())
+      },
+      () => now
+    );
+    metrics.triggers.inc({ type: 'BREAKOUT' });
+    metrics.dispatches.inc({ channel: 'TELEGRAM', outcome: 'SENT' });
+    metrics.ruleEvaluation.observe(0.002, { kind: 'candle' });
+
+    const text = metrics.registry.render();
+    assert.deepEqual(lines(text, 'csa_market_streams'), [
+      'csa_market_streams{state="OPEN"} 2',
+      'csa_market_streams{state="RECONNECTING"} 1'
+    ]);
+    assert.deepEqual(lines(text, 'csa_market_stream_reconnects_total'), [
+      'csa_market_stream_reconnects_total{exchange="BINANCE",stream="btcusdt@kline_1m"} 0',
+      'csa_market_stream_reconnects_total{exchange="BINANCE",stream="ethusdt@kline_1m"} 0',
+      'csa_market_stream_reconnects_total{exchange="BINANCE",stream="solusdt@kline_1m"} 2'
+    ]);
+    assert.deepEqual(lines(text, 'csa_candle_lag_seconds'), [
+      'csa_candle_lag_seconds{exchange="BINANCE",symbol="BTCUSDT",timeframe="1m"} 120.001'
+    ]);
+    assert.deepEqual(lines(text, 'csa_alert_stream_clients'), ['csa_alert_stream_clients 0']);
+    assert.deepEqual(lines(text, 'csa_alerts_triggered_total'), [
+      'csa_alerts_triggered_total{type="BREAKOUT"} 1'
+    ]);
+    assert.deepEqual(lines(text, 'csa_dispatch_total'), [
+      'csa_dispatch_total{channel="TELEGRAM",outcome="SENT"} 1'
+    ]);
+    assert.deepEqual(lines(text, 'csa_rule_evaluation_seconds_count'), [
+      'csa_rule_evaluation_seconds_count{kind="candle"} 1'
+    ]);
+  });
+});
+
+describe('checkReadiness', () => {
+  const telegram = (error: string | null): Dispatcher => ({
+    channel: 'TELEGRAM',
+    dispatch: async () => undefined,
+    dispatchDigest: async () => undefined,
+    configurationError: () => error
+  });
+
+  test('is ready while every stream is live and required channels can send', () => {
+    const readiness = checkReadiness(
+      {
+        marketData: marketData([status('btcusdt@kline_1m', 'OPEN')]),
+        dispatchers: new DispatcherRegistry().register(telegram(null)),
+        requiredChannels: ['TELEGRAM'],
+        staleAfterMs: 90_000
+      },
+      now
+    );
+    assert.deepEqual(readiness, {
+      ready: true,
+      streams: { subscribed: 1, stale: [] },
+      delivery: { errors: [] }
+    });
+  });
+
+  test('is not ready with stale streams or channels that cannot send', () => {
+    const readiness = checkReadiness(
+      {
+        marketData: marketData([
+          status('btcusdt@kline_1m', 'STALE'),
+          // Reconnecting, but only for a moment.
+          status('ethusdt@kline_1m', 'RECONNECTING', now - 10_000),
+          status('solusdt@kline_1m', 'RECONNECTING', now - 100_000)
+        ]),
+        dispatchers: new DispatcherRegistry().register(telegram('Missing TELEGRAM_BOT_TOKEN')),
+        requiredChannels: ['TELEGRAM', 'EMAIL'],
+        staleAfterMs: 90_000
+      },
+      now
+    );
+    assert.deepEqual(readiness, {
+      ready: false,
+      streams: {
+        subscribed: 3,
+        stale: ['BINANCE:btcusdt@kline_1m', 'BINANCE:solusdt@kline_1m']
+      },
+      delivery: {
+        errors: [
+          { channel: 'TELEGRAM', error: 'Missing TELEGRAM_BOT_TOKEN' },
+          { channel: 'EMAIL', error: 'No dispatcher registered for EMAIL' }
+        ]
+      }
+    });
+  });
+});
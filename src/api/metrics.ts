@@ -0,0 +1,100 @@
+import type { MarketDataService } from '../market/marketData.js';
+import type { CandleStore } from '../store/candleStore.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+import { Collector, Counter, Histogram, MetricsRegistry, type Sample } from '../utils/metrics.js';
+import type { AlertStreamHub } from './alertStream.js';
+
+const EVALUATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+export interface ServiceMetrics {
+  registry: MetricsRegistry;
+  // Labelled by `kind`: candle, live, extreme_move or tick.
+  ruleEvaluation: Histogram;
+  triggers: Counter;
+  dispatches: Counter;
+}
+
+export const createServiceMetrics = (
+  sources: { marketData: MarketDataService; candleStore: CandleStore; alertStream: AlertStreamHub },
+  clock: Clock = systemClock
+): ServiceMetrics => {
+  const { marketData, candleStore, alertStream } = sources;
+  const registry = new MetricsRegistry();
+
+  registry.register(
+    new Collector('csa_market_streams', 'Subscribed market data streams by state.', () => {
+      const counts = new Map<string, number>();
+      for (const status of marketData.listStreamStatuses()) {
+        counts.set(status.state, (counts.get(status.state) ?? 0) + 1);
+      }
+      return [...counts].map(([state, value]) => ({ labels: { state }, value }));
+    })
+  );
+  registry.register(
+    new Collector(
+      'csa_market_stream_reconnects_total',
+      'Reconnects of the socket carrying each stream since it was subscribed.',
+      () =>
+        marketData
+          .listStreamStatuses()
+          .map((status) => ({
+            labels: { exchange: status.exchange, stream: status.stream },
+            value: status.reconnects
+          })),
+      'counter'
+    )
+  );
+  registry.register(
+    new Collector(
+      'csa_candle_lag_seconds',
+      'Time since the close of the latest stored candle per exchange, symbol and timeframe.',
+      () => {
+        const now = clock();
+        return marketData.listSubscriptions().flatMap((subscription): Sample[] => {
+          if (subscription.kind !== 'kline') return [];
+          const last = candleStore.last(
+            subscription.exchange,
+            subscription.symbol,
+            subscription.interval
+          );
+          if (!last) return [];
+          return [
+            {
+              labels: {
+                exchange: subscription.exchange,
+                symbol: subscription.symbol,
+                timeframe: subscription.interval
+              },
+              value: Math.max(0, (now - last.closeTime) / 1000)
+            }
+          ];
+        });
+      }
+    )
+  );
+  registry.register(
+    new Collector('csa_alert_stream_clients', 'Connected SSE and WebSocket clients.', () => [
+      { labels: {}, value: alertStream.size }
+    ])
+  );
+
+  return {
+    registry,
+    ruleEvaluation: registry.register(
+      new Histogram(
+        'csa_rule_evaluation_seconds',
+        'Time to evaluate the rules for one candle or price tick.',
+        EVALUATION_BUCKETS
+      )
+    ),
+    triggers: registry.register(
+      new Counter('csa_alerts_triggered_total', 'Alerts triggered, by alert type.')
+    ),
+    dispatches: registry.register(
+      new Counter(
+        'csa_dispatch_total',
+        'Delivery attempts by channel and outcome (SENT, RETRY, DEAD_LETTER).'
+      )
+    )
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, telegramRateLimit } from './rateLimiter.js';
+
+describe('RateLimiter', () => {
+  test('spaces sends to one chat, with groups held to a slower pace', () => {
+    const limiter = new RateLimiter({ TELEGRAM: telegramRateLimit(1_000, 30) });
+    assert.equal(limiter.acquire('TELEGRAM', '1', 0), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '1', 400), 600);
+    assert.equal(limiter.acquire('TELEGRAM', '2', 400), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '1', 1_000), 0);
+
+    assert.equal(limiter.acquire('TELEGRAM', '-5', 0), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '-5', 1_000), 2_000);
+  });
+
+  test('caps sends per second across a channel', () => {
+    const limiter = new RateLimiter({ TELEGRAM: telegramRateLimit(1_000, 2) });
+    assert.equal(limiter.acquire('TELEGRAM', '1', 0), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '2', 100), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '3', 200), 800);
+    assert.equal(limiter.acquire('TELEGRAM', '3', 1_000), 0);
+  });
+
+  test('holds a paused channel back and leaves unlimited ones alone', () => {
+    const limiter = new RateLimiter({ TELEGRAM: telegramRateLimit(1_000, 30) });
+    limiter.pause('TELEGRAM', 5_000);
+    assert.equal(limiter.acquire('TELEGRAM', '1', 1_000), 4_000);
+    assert.equal(limiter.acquire('WEBHOOK', 'https://example.com', 1_000), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '1', 5_000), 0);
+  });
+
+  test('still spaces destinations after old ones are pruned', () => {
+    const limiter = new RateLimiter({ TELEGRAM: telegramRateLimit(1_000, 30) });
+    assert.equal(limiter.acquire('TELEGRAM', '1', 0), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '2', 120_000), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '1', 120_000), 0);
+    assert.equal(limiter.acquire('TELEGRAM', '2', 120_500), 500);
+  });
+});
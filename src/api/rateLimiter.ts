@@ -0,0 +1,70 @@
+import type { NotificationChannel } from '../types/domain.js';
+
+export interface ChannelRateLimit {
+  // Minimum spacing between two sends to the same destination.
+  destinationIntervalMs: (destination: string) => number;
+  globalPerSecond: number;
+}
+
+// Destinations whose spacing has run out are forgotten this often, so the
+// map only holds the ones sent to recently.
+const PRUNE_INTERVAL_MS = 60_000;
+
+export class RateLimiter {
+  // When each destination may next be sent to.
+  private nextByDestination = new Map<string, number>();
+  private prunedAt = 0;
+  private recentByChannel = new Map<NotificationChannel, number[]>();
+  private pausedUntil = new Map<NotificationChannel, number>();
+
+  constructor(private readonly limits: Partial<Record<NotificationChannel, ChannelRateLimit>>) {}
+
+  // Returns 0 and records the send when it may start now, otherwise the
+  // number of milliseconds to wait before asking again.
+  acquire(channel: NotificationChannel, destination: string, now: number): number {
+    const paused = this.pausedUntil.get(channel) ?? 0;
+    if (paused > now) return paused - now;
+
+    const limit = this.limits[channel];
+    if (!limit) return 0;
+    this.prune(now);
+
+    const key = `${channel}:${destination}`;
+    const next = this.nextByDestination.get(key) ?? 0;
+    if (next > now) return next - now;
+
+    const recent = (this.recentByChannel.get(channel) ?? []).filter((at) => now - at < 1000);
+    if (recent.length >= limit.globalPerSecond) {
+      this.recentByChannel.set(channel, recent);
+      return 1000 - (now - recent[0]);
+    }
+
+    recent.push(now);
+    this.recentByChannel.set(channel, recent);
+    this.nextByDestination.set(key, now + limit.destinationIntervalMs(destination));
+    return 0;
+  }
+
+  // Holds back every send on a channel, e.g. after a 429 with retry_after.
+  pause(channel: NotificationChannel, until: number): void {
+    this.pausedUntil.set(channel, Math.max(until, this.pausedUntil.get(channel) ?? 0));
+  }
+
+  private prune(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+    for (const [key, next] of this.nextByDestination) {
+      if (next <= now) this.nextByDestination.delete(key);
+    }
+  }
+}
+
+// Telegram allows about one message per second per chat, 20 per minute in
+// groups (negative chat ids) and 30 per second overall.
+export const telegramRateLimit = (
+  perChatIntervalMs: number,
+  globalPerSecond: number
+): ChannelRateLimit => ({
+  destinationIntervalMs: (chatId) => (chatId.startsWith('-') ? 3_000 : perChatIntervalMs),
+  globalPerSecond
+});
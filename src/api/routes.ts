@@ -1,120 +1,889 @@
-import type { FastifyInstance } from 'fastify';
-import type { InMemoryStore } from '../store/inMemoryStore.js';
-import type { AlertRule, AlertType, Timeframe } from '../types/domain.js';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  DEFAULT_EXCHANGE,
+  exchanges as exchangeNames,
+  type ExchangeRegistry
+} from '../market/exchange.js';
+import type { MarketDataService } from '../market/marketData.js';
+import type { SymbolCatalog, SymbolQuery } from '../market/symbolCatalog.js';
+import {
+  BacktestInputError,
+  loadBacktestCandles,
+  runBacktest,
+  type BacktestRule,
+  type BacktestSource
+} from '../rule/backtest.js';
+import { ruleSymbols } from '../rule/composite.js';
+import { hasExpired } from '../rule/lifecycle.js';
+import { hasRuleCapacity } from '../rule/limits.js';
+import { chartsEnabled, type AlertCharts } from './alertChart.js';
+import { samplePayloads, type AlertRenderer } from './alertMessage.js';
+import { attachAlertSocket, serveEventStream, type AlertStreamHub } from './alertStream.js';
+import {
+  adminOnly,
+  canAccess,
+  isAdmin,
+  safeEqual,
+  type Authenticator,
+  type Caller
+} from './auth.js';
+import { validatePreferences } from './deliveryPolicy.js';
+import type { DeliveryQueue } from './deliveryQueue.js';
+import type { Readiness } from './health.js';
+import { validateChannelTargets } from './dispatcher.js';
+import {
+  escapeHtml,
+  toTelegramText,
+  validateTemplate,
+  type ParseMode
+} from './messageTemplates.js';
+import {
+  alertHistorySchema,
+  notificationHistorySchema,
+  paginate,
+  parseAlertQuery,
+  parseNotificationQuery
+} from './history.js';
+import {
+  alertTypes,
+  backtestRuleSchema,
+  backtestSourceSchema,
+  fromMessage,
+  MAX_SNOOZE_SEC,
+  messageSettingsSchema,
+  newRuleSchema,
+  ruleIssues,
+  ruleSchema,
+  ruleUpdateSchema,
+  snoozeSchema,
+  templatePreviewSchema,
+  toFieldErrors,
+  type FieldError
+} from './ruleSchemas.js';
+import type { TelegramUpdate } from './telegramApi.js';
+import type { TelegramBot } from './telegramBot.js';
+import type { NewAlertRule, Store } from '../store/store.js';
+import type { MetricsRegistry } from '../utils/metrics.js';
+import type {
+  AlertRule,
+  AlertType,
+  ChannelTarget,
+  Exchange,
+  Locale,
+  NotificationChannel,
+  NotificationPreferences,
+  Role
+} from '../types/domain.js';
 import { config } from '../config.js';
 
-const isAlertType = (value: string): value is AlertType =>
-  value === 'EXTREME_MOVE' || value === 'BREAKOUT' || value === 'VOLUME_SPIKE';
+const mutableRuleFields = [
+  'exchange',
+  'symbol',
+  'type',
+  'timeframe',
+  'params',
+  'isEnabled',
+  'cooldownSec',
+  'rearmPolicy',
+  'hysteresisPct',
+  'evaluateOn',
+  'channels',
+  'template',
+  'chart',
+  'oneShot',
+  'expiresAt',
+  'schedule'
+] as const;
 
-const isTimeframe = (value: string): value is Timeframe =>
-  value === '1m' || value === '5m' || value === '15m';
+const REQUEUE_BATCH = 200;
+const BACKOFFICE_ROWS = 500;
+
+// A table row for the admin pages. Values are escaped: destinations, errors
+// and symbols come from users and from the webhooks they register.
+const tableRow = (values: Array<string | number>) =>
+  `<tr>${values.map((value) => `<td>${escapeHtml(String(value))}</td>`).join('')}</tr>`;
+
+const symbolSearchSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    exchange: { type: 'string', enum: exchangeNames },
+    q: { type: 'string', minLength: 1, maxLength: 20 },
+    quote: { type: 'string', minLength: 1, maxLength: 10 },
+    status: { type: 'string', enum: ['TRADING', 'HALTED'] },
+    limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 }
+  }
+};
+
+// Dates arrive as ISO strings; null clears the optional fields that allow it.
+type RuleUpdate = Partial<
+  Omit<Pick<AlertRule, (typeof mutableRuleFields)[number]>, 'expiresAt'> & {
+    expiresAt: string | null;
+  }
+>;
+
+interface TemplatePreview {
+  type: AlertType;
+  template?: string;
+  locale?: Locale;
+  format?: 'TEXT' | ParseMode;
+  exchange?: Exchange;
+  symbol?: string;
+  payload?: Record<string, unknown>;
+}
+
+const sendInvalid = (reply: FastifyReply, fields: FieldError[]) =>
+  reply.status(400).send({ error: 'Validation failed', fields });
+
+// Admins see everything (optionally narrowed by ?userId=), users only their own.
+const scoped = <T extends { userId: string }>(
+  items: T[],
+  caller: Caller,
+  userId?: string
+): T[] => {
+  const owner = isAdmin(caller) ? userId : caller.userId;
+  return owner ? items.filter((item) => item.userId === owner) : items;
+};
+
+// Rules may name their symbol the way the exchange writes it (`btc/usdt`,
+// `BTC-USDT`); it is stored in the adapter's canonical form.
+const normalizeRuleSymbol = (
+  exchanges: ExchangeRegistry,
+  rule: { exchange?: unknown; symbol?: unknown } | undefined
+) => {
+  if (!rule || typeof rule.symbol !== 'string') return;
+  const exchange = (rule.exchange ?? DEFAULT_EXCHANGE) as Exchange;
+  if (exchanges.has(exchange)) rule.symbol = exchanges.get(exchange).normalizeSymbol(rule.symbol);
+};
+
+// A rule cannot be set to expire in the past, nor switched back on once expired.
+const expiryIssues = (
+  expiresAt: string | Date | null | undefined,
+  checked: boolean
+): FieldError[] =>
+  checked && expiresAt && new Date(expiresAt).getTime() <= Date.now()
+    ? [{ field: 'expiresAt', message: 'must be in the future' }]
+    : [];
+
+const exchangeIssue = (
+  exchanges: ExchangeRegistry,
+  exchange: Exchange | undefined,
+  field = 'exchange'
+): FieldError[] =>
+  exchange && !exchanges.has(exchange) ? [{ field, message: 'is not enabled' }] : [];
+
+// Symbols the rule reads that its exchange does not list, or has halted. Run
+// after ruleIssues, which guarantees a composite's condition can be walked.
+const symbolIssues = (
+  symbols: SymbolCatalog,
+  rule: Pick<NewAlertRule, 'symbol' | 'type' | 'params'> & { exchange?: Exchange },
+  prefix = ''
+): FieldError[] =>
+  ruleSymbols(rule).flatMap((symbol) => {
+    const problem = symbols.check(rule.exchange ?? DEFAULT_EXCHANGE, symbol);
+    if (!problem) return [];
+    return symbol === rule.symbol
+      ? [{ field: `${prefix}symbol`, message: problem }]
+      : [{ field: `${prefix}params.condition`, message: `${symbol} ${problem}` }];
+  });
+
+export interface RouteDeps {
+  store: Store;
+  marketData: MarketDataService;
+  exchanges: ExchangeRegistry;
+  symbols: SymbolCatalog;
+  renderer: AlertRenderer;
+  charts: AlertCharts;
+  telegramBot?: TelegramBot;
+  deliveryQueue: DeliveryQueue;
+  auth: Authenticator;
+  alertStream: AlertStreamHub;
+  metrics: MetricsRegistry;
+  readiness: () => Readiness;
+}
 
 export const registerRoutes = async (
   app: FastifyInstance,
-  store: InMemoryStore
+  {
+    store,
+    marketData,
+    exchanges,
+    symbols,
+    renderer,
+    charts,
+    telegramBot,
+    deliveryQueue,
+    auth,
+    alertStream,
+    metrics,
+    readiness
+  }: RouteDeps
 ): Promise<void> => {
-  app.get('/health', async () => ({ status: 'ok' }));
+  app.decorateRequest('caller', null);
+  app.addHook('onRequest', async (request, reply) => {
+    if (request.routeOptions.config.public) return;
+    const caller = await auth.authenticate(request, request.routeOptions.config.queryToken);
+    if (!caller) {
+      return reply
+        .status(401)
+        .header('WWW-Authenticate', 'Basic realm="crypto-smart-alert"')
+        .send({ error: 'Authentication required' });
+    }
+    request.caller = caller;
+  });
+
+  // Missing and foreign rules both answer 404 so ids cannot be probed.
+  const findOwnRule = async (caller: Caller, id: string) => {
+    const rule = await store.getRule(id);
+    return rule && canAccess(caller, rule.userId) ? rule : undefined;
+  };
+
+  const normalizeBodySymbol = async (request: FastifyRequest) => {
+    normalizeRuleSymbol(exchanges, request.body as { symbol?: unknown } | undefined);
+  };
+
+  app.setErrorHandler((error, _request, reply) => {
+    if (error.validation) {
+      return sendInvalid(reply, toFieldErrors(error.validation));
+    }
+    return reply.send(error);
+  });
+
+  app.get('/health', { config: { public: true } }, async () => ({ status: 'ok' }));
+
+  app.get('/health/live', { config: { public: true } }, async () => ({ status: 'ok' }));
+
+  app.get('/health/ready', { config: { public: true } }, async (_request, reply) => {
+    const result = readiness();
+    return reply
+      .status(result.ready ? 200 : 503)
+      .send({ status: result.ready ? 'ok' : 'unavailable', ...result });
+  });
+
+  app.get('/metrics', { config: { public: true } }, async (_request, reply) =>
+    reply.type('text/plain; version=0.0.4').send(metrics.render())
+  );
+
+  app.get('/streams', { preHandler: adminOnly }, async () => ({
+    streams: marketData.listStreamStatuses()
+  }));
+
+  app.get('/symbols', { schema: { querystring: symbolSearchSchema } }, async (request, reply) => {
+    const query = request.query as SymbolQuery;
+    const issues = exchangeIssue(exchanges, query.exchange);
+    if (issues.length > 0) return sendInvalid(reply, issues);
+    return { symbols: symbols.search(query) };
+  });
+
+  if (telegramBot && config.telegramBotMode === 'webhook') {
+    app.post('/telegram/webhook', { config: { public: true } }, async (request, reply) => {
+      const secret = request.headers['x-telegram-bot-api-secret-token'];
+      const expected = config.telegramWebhookSecret;
+      if (!expected || typeof secret !== 'string' || !safeEqual(secret, expected)) {
+        return reply.status(401).send({ error: 'Invalid secret token' });
+      }
+      await telegramBot.handleUpdate(request.body as TelegramUpdate);
+      return reply.send({ ok: true });
+    });
+  }
 
-  app.get('/users', async () => ({ users: store.listUsers() }));
+  app.get('/users', async (request) => {
+    const { caller } = request;
+    const users = await store.listUsers();
+    return {
+      users: isAdmin(caller) ? users : users.filter((user) => user.id === caller.userId)
+    };
+  });
 
-  app.post('/users', async (request, reply) => {
+  app.post('/users', { preHandler: adminOnly }, async (request, reply) => {
     const body = request.body as {
       email?: string;
       telegramChatId: string;
       plan?: 'FREE' | 'PRO';
+      role?: Role;
+      channels?: ChannelTarget[];
+      preferences?: NotificationPreferences;
     };
 
     if (!body.telegramChatId) {
       return reply.status(400).send({ error: 'telegramChatId is required' });
     }
 
-    const user = store.createUser({
+    if (body.channels !== undefined) {
+      const error = validateChannelTargets(body.channels);
+      if (error) return reply.status(400).send({ error });
+    }
+
+    if (body.preferences !== undefined) {
+      const error = validatePreferences(body.preferences, alertTypes);
+      if (error) return reply.status(400).send({ error });
+    }
+
+    const user = await store.createUser({
       email: body.email,
       telegramChatId: body.telegramChatId,
-      plan: body.plan ?? 'FREE'
+      plan: body.plan ?? 'FREE',
+      role: body.role === 'ADMIN' ? 'ADMIN' : undefined,
+      channels: body.channels,
+      preferences: body.preferences
     });
 
     return reply.status(201).send(user);
   });
 
-  app.get('/rules', async () => ({ rules: store.listRules() }));
+  app.get('/users/:id/api-keys', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canAccess(request.caller, id)) return reply.status(404).send({ error: 'User not found' });
+    const keys = await store.listApiKeys(id);
+    return { apiKeys: keys.map(({ hash: _hash, ...key }) => key) };
+  });
 
-  app.post('/rules', async (request, reply) => {
-    const body = request.body as Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>;
+  app.post('/users/:id/api-keys', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = (request.body ?? {}) as { name?: string };
+    if (!canAccess(request.caller, id) || !(await store.getUser(id))) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    const { key, token } = await auth.issueApiKey(id, body.name);
+    const { hash: _hash, ...visible } = key;
+    return reply.status(201).send({ ...visible, token });
+  });
 
-    if (!body.userId || !body.symbol || !body.type) {
-      return reply.status(400).send({ error: 'userId, symbol, type are required' });
+  app.post('/users/:id/telegram-link', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canAccess(request.caller, id) || !(await store.getUser(id))) {
+      return reply.status(404).send({ error: 'User not found' });
     }
 
-    if (!isAlertType(body.type)) {
-      return reply.status(400).send({ error: 'Invalid rule type' });
+    const { code, expiresAt } = await auth.issueTelegramLink(id);
+    return reply.status(201).send({ code, command: `/start ${code}`, expiresAt });
+  });
+
+  const findOwnApiKey = async (caller: Caller, id: string) => {
+    const key = await store.getApiKey(id);
+    return key && canAccess(caller, key.userId) ? key : undefined;
+  };
+
+  // Issues a replacement under the same name and revokes the old key at once.
+  app.post('/api-keys/:id/rotate', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const existing = await findOwnApiKey(request.caller, id);
+    if (!existing || existing.revokedAt) {
+      return reply.status(404).send({ error: 'API key not found' });
     }
 
-    if (body.timeframe && !isTimeframe(body.timeframe)) {
-      return reply.status(400).send({ error: 'Invalid timeframe' });
+    const { key, token } = await auth.issueApiKey(existing.userId, existing.name);
+    await store.revokeApiKey(id, new Date());
+    const { hash: _hash, ...visible } = key;
+    return reply.status(201).send({ ...visible, token });
+  });
+
+  app.delete('/api-keys/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!(await findOwnApiKey(request.caller, id))) {
+      return reply.status(404).send({ error: 'API key not found' });
     }
+    await store.revokeApiKey(id, new Date());
+    return reply.status(204).send();
+  });
 
-    const user = store.getUser(body.userId);
-    if (!user) {
-      return reply.status(404).send({ error: 'User not found' });
+  app.put('/users/:id/channels', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canAccess(request.caller, id)) return reply.status(404).send({ error: 'User not found' });
+    const body = request.body as { channels?: ChannelTarget[] };
+
+    const error = validateChannelTargets(body?.channels);
+    if (error) return reply.status(400).send({ error });
+
+    const user = await store.updateUser(id, { channels: body.channels });
+    if (!user) return reply.status(404).send({ error: 'User not found' });
+    return reply.send(user);
+  });
+
+  app.put('/users/:id/preferences', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canAccess(request.caller, id)) return reply.status(404).send({ error: 'User not found' });
+    const body = request.body as { preferences?: NotificationPreferences | null };
+
+    // null clears the preferences: immediate delivery, no quiet hours.
+    if (body?.preferences !== null) {
+      const error = validatePreferences(body?.preferences, alertTypes);
+      if (error) return reply.status(400).send({ error });
     }
 
-    const maxRules = user.plan === 'PRO' ? config.maxRulesPro : config.maxRulesFree;
-    const activeRules = store
-      .listRules()
-      .filter((rule) => rule.userId === user.id).length;
-    if (activeRules >= maxRules) {
-      return reply.status(403).send({ error: 'Rule limit exceeded' });
+    const user = await store.updateUser(id, { preferences: body.preferences ?? undefined });
+    if (!user) return reply.status(404).send({ error: 'User not found' });
+    return reply.send(user);
+  });
+
+  app.put(
+    '/users/:id/templates',
+    { schema: { body: messageSettingsSchema } },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      if (!canAccess(request.caller, id)) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+      const body = request.body as {
+        locale?: Locale | null;
+        templates?: Partial<Record<AlertType, string>> | null;
+      };
+
+      const issues = Object.entries(body.templates ?? {}).flatMap(([type, template]) => {
+        const error = validateTemplate(template, `templates.${type}`);
+        return error ? [fromMessage(error)] : [];
+      });
+      if (issues.length > 0) return sendInvalid(reply, issues);
+
+      // Only the fields sent change; null clears one.
+      const updates: { locale?: Locale; templates?: Partial<Record<AlertType, string>> } = {};
+      if (body.locale !== undefined) updates.locale = body.locale ?? undefined;
+      if (body.templates !== undefined) updates.templates = body.templates ?? undefined;
+      const user = await store.updateUser(id, updates);
+      if (!user) return reply.status(404).send({ error: 'User not found' });
+      return reply.send(user);
     }
+  );
 
-    const rule = store.createRule({
-      userId: body.userId,
-      symbol: body.symbol,
-      type: body.type,
-      timeframe: body.timeframe ?? null,
-      params: body.params,
-      isEnabled: body.isEnabled ?? true,
-      cooldownSec: body.cooldownSec ?? 900
-    });
+  // Defaults to the caller's own locale and template for the type, so users
+  // see what their alerts would look like.
+  app.post(
+    '/templates/preview',
+    { schema: { body: templatePreviewSchema } },
+    async (request, reply) => {
+      const body = request.body as TemplatePreview;
+      if (body.template !== undefined) {
+        const error = validateTemplate(body.template);
+        if (error) return sendInvalid(reply, [fromMessage(error)]);
+      }
+
+      const user = request.caller.userId ? await store.getUser(request.caller.userId) : undefined;
+      const message = renderer.renderMessage({
+        type: body.type,
+        exchange: body.exchange ?? DEFAULT_EXCHANGE,
+        symbol: body.symbol ?? 'BTCUSDT',
+        payload: { ...samplePayloads[body.type], ...body.payload },
+        locale: body.locale ?? user?.locale,
+        template: body.template ?? user?.templates?.[body.type]
+      });
+      const format = body.format ?? config.telegramParseMode;
+      const text =
+        format === 'TEXT'
+          ? [message.title, ...message.lines].join('\n')
+          : toTelegramText(message, format);
+      return reply.send({ ...message, format, text });
+    }
+  );
+
+  app.get('/rules', async (request) => {
+    const { userId } = request.query as { userId?: string };
+    return { rules: scoped(await store.listRules(), request.caller, userId) };
+  });
+
+  app.post(
+    '/rules',
+    { schema: { body: newRuleSchema }, preValidation: normalizeBodySymbol },
+    async (request, reply) => {
+      const body = request.body as Omit<NewAlertRule, 'userId' | 'exchange' | 'expiresAt'> & {
+        userId?: string;
+        exchange?: Exchange;
+        expiresAt?: string;
+      };
+      const userId = body.userId ?? request.caller.userId;
+      if (!userId) {
+        return sendInvalid(reply, [{ field: 'userId', message: 'is required' }]);
+      }
+      if (!canAccess(request.caller, userId)) {
+        return reply.status(403).send({ error: 'Rules can only be created for yourself' });
+      }
+
+      const exchange = body.exchange ?? DEFAULT_EXCHANGE;
+      const issues = [
+        ...exchangeIssue(exchanges, exchange),
+        ...ruleIssues(body),
+        ...expiryIssues(body.expiresAt, true)
+      ];
+      if (issues.length === 0) issues.push(...symbolIssues(symbols, { ...body, exchange }));
+      if (body.channels !== undefined) {
+        const error = validateChannelTargets(body.channels);
+        if (error) issues.push(fromMessage(error));
+      }
+      if (issues.length > 0) return sendInvalid(reply, issues);
+
+      const user = await store.getUser(userId);
+      if (!user) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+
+      if (!(await hasRuleCapacity(store, user))) {
+        return reply.status(403).send({ error: 'Rule limit exceeded' });
+      }
+
+      const rule = await store.createRule({
+        userId,
+        exchange,
+        symbol: body.symbol,
+        type: body.type,
+        timeframe: body.timeframe ?? null,
+        params: body.params,
+        isEnabled: body.isEnabled ?? true,
+        cooldownSec: body.cooldownSec ?? 900,
+        rearmPolicy: body.rearmPolicy,
+        hysteresisPct: body.hysteresisPct,
+        evaluateOn: body.evaluateOn,
+        channels: body.channels,
+        template: body.template ?? undefined,
+        chart: body.chart ?? undefined,
+        oneShot: body.oneShot,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+        schedule: body.schedule ?? undefined
+      });
+
+      return reply.status(201).send(rule);
+    }
+  );
+
+  // `shown` replaces the rule in the response, so a stored rule's channels
+  // and other settings are not echoed back.
+  const backtest = async (
+    rule: BacktestRule,
+    source: BacktestSource,
+    reply: FastifyReply,
+    shown?: Record<string, unknown>
+  ) => {
+    try {
+      const history = exchanges.get(rule.exchange ?? DEFAULT_EXCHANGE);
+      const candles = await loadBacktestCandles(rule, source, history);
+      const result = await runBacktest(rule, candles);
+      return reply.send(shown ? { ...result, rule: shown } : result);
+    } catch (error) {
+      if (error instanceof BacktestInputError) {
+        return reply.status(400).send({ error: error.message });
+      }
+      throw error;
+    }
+  };
+
+  app.post(
+    '/rules/backtest',
+    {
+      schema: { body: backtestRuleSchema },
+      preValidation: async (request) => {
+        normalizeRuleSymbol(exchanges, (request.body as { rule?: { symbol?: unknown } })?.rule);
+      }
+    },
+    async (request, reply) => {
+      const body = request.body as { rule: BacktestRule } & BacktestSource;
+      const rule = body.rule;
+
+      const issues = [
+        ...exchangeIssue(exchanges, rule.exchange, 'rule.exchange'),
+        ...ruleIssues(rule, 'rule.')
+      ];
+      if (issues.length === 0) issues.push(...symbolIssues(symbols, rule, 'rule.'));
+      if (issues.length > 0) return sendInvalid(reply, issues);
+
+      return backtest(
+        {
+          exchange: rule.exchange ?? DEFAULT_EXCHANGE,
+          symbol: rule.symbol,
+          type: rule.type,
+          timeframe: rule.timeframe ?? null,
+          params: rule.params,
+          cooldownSec: rule.cooldownSec ?? 900,
+          rearmPolicy: rule.rearmPolicy,
+          hysteresisPct: rule.hysteresisPct
+        },
+        body,
+        reply
+      );
+    }
+  );
+
+  app.post(
+    '/rules/:id/backtest',
+    { schema: { body: backtestSourceSchema } },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const rule = await findOwnRule(request.caller, id);
+      if (!rule) return reply.status(404).send({ error: 'Rule not found' });
+      return backtest(rule, request.body as BacktestSource, reply, {
+        id: rule.id,
+        params: rule.params
+      });
+    }
+  );
+
+  app.patch(
+    '/rules/:id',
+    { schema: { body: ruleUpdateSchema }, preValidation: normalizeBodySymbol },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const updates = request.body as RuleUpdate;
+      const existing = await findOwnRule(request.caller, id);
+      if (!existing) return reply.status(404).send({ error: 'Rule not found' });
+
+      // Each field is valid on its own; the merged rule must still be coherent,
+      // e.g. a new type needs params of that type.
+      const merged: RuleUpdate = {};
+      for (const field of mutableRuleFields) {
+        const value = updates[field] !== undefined ? updates[field] : existing[field];
+        if (value instanceof Date) Object.assign(merged, { [field]: value.toISOString() });
+        else if (value !== undefined) Object.assign(merged, { [field]: value });
+      }
+      const validate = request.compileValidationSchema(ruleSchema);
+      if (!validate(merged)) {
+        return sendInvalid(reply, toFieldErrors(validate.errors ?? []));
+      }
+
+      const rule = merged as NewAlertRule;
+      const issues = [
+        ...exchangeIssue(exchanges, updates.exchange),
+        ...ruleIssues(rule),
+        ...expiryIssues(
+          merged.expiresAt,
+          updates.expiresAt !== undefined || updates.isEnabled === true
+        )
+      ];
+      // Unchanged symbols are only rechecked when the rule is switched back on,
+      // so a halted pair does not block editing anything else.
+      const rechecksSymbols =
+        updates.exchange !== undefined ||
+        updates.symbol !== undefined ||
+        updates.params !== undefined ||
+        updates.isEnabled === true;
+      if (issues.length === 0 && rechecksSymbols) issues.push(...symbolIssues(symbols, rule));
+      if (updates.channels !== undefined) {
+        const error = validateChannelTargets(updates.channels);
+        if (error) issues.push(fromMessage(error));
+      }
+      if (issues.length > 0) return sendInvalid(reply, issues);
+
+      const { expiresAt, ...rest } = updates;
+      const changes: Partial<AlertRule> = { ...rest };
+      // Switching a rule back on clears why the service had switched it off.
+      if (updates.isEnabled) changes.disabledReason = undefined;
+      if (changes.template === null) changes.template = undefined;
+      if (changes.chart === null) changes.chart = undefined;
+      if (changes.schedule === null) changes.schedule = undefined;
+      if (expiresAt !== undefined) changes.expiresAt = expiresAt ? new Date(expiresAt) : undefined;
+      const updated = await store.updateRule(id, changes);
+      if (!updated) return reply.status(404).send({ error: 'Rule not found' });
+      return reply.send(updated);
+    }
+  );
+
+  app.post('/rules/:id/snooze', { schema: { body: snoozeSchema } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as { until?: string; seconds?: number };
+    if (!(await findOwnRule(request.caller, id))) {
+      return reply.status(404).send({ error: 'Rule not found' });
+    }
+    const snoozedUntil = body.until
+      ? new Date(body.until)
+      : new Date(Date.now() + (body.seconds ?? 0) * 1000);
+    if (snoozedUntil.getTime() <= Date.now()) {
+      return sendInvalid(reply, [{ field: 'until', message: 'must be in the future' }]);
+    }
+    if (snoozedUntil.getTime() > Date.now() + MAX_SNOOZE_SEC * 1000) {
+      return sendInvalid(reply, [
+        { field: 'until', message: `must be within ${MAX_SNOOZE_SEC / 86_400} days` }
+      ]);
+    }
+    const updated = await store.updateRule(id, { snoozedUntil });
+    if (!updated) return reply.status(404).send({ error: 'Rule not found' });
+    return reply.send(updated);
+  });
 
-    return reply.status(201).send(rule);
+  app.post('/rules/:id/unsnooze', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!(await findOwnRule(request.caller, id))) {
+      return reply.status(404).send({ error: 'Rule not found' });
+    }
+    const updated = await store.updateRule(id, { snoozedUntil: undefined });
+    if (!updated) return reply.status(404).send({ error: 'Rule not found' });
+    return reply.send(updated);
   });
 
-  app.patch('/rules/:id', async (request, reply) => {
+  // Lets a rule fire on its next match: switches it back on, e.g. after a
+  // one-shot alert, and drops any snooze, running cooldown or wait for reset.
+  app.post('/rules/:id/rearm', async (request, reply) => {
     const { id } = request.params as { id: string };
-    const updates = request.body as Partial<AlertRule>;
-    const rule = store.updateRule(id, updates);
+    const rule = await findOwnRule(request.caller, id);
     if (!rule) return reply.status(404).send({ error: 'Rule not found' });
-    return reply.send(rule);
+    if (hasExpired(rule, Date.now())) {
+      return reply.status(409).send({ error: 'Rule has expired; set a later expiresAt first' });
+    }
+    const issues = symbolIssues(symbols, rule);
+    if (issues.length > 0) return sendInvalid(reply, issues);
+
+    await store.clearRuleState(id);
+    const updated = await store.updateRule(id, {
+      isEnabled: true,
+      disabledReason: undefined,
+      snoozedUntil: undefined
+    });
+    if (!updated) return reply.status(404).send({ error: 'Rule not found' });
+    return reply.send(updated);
   });
 
   app.delete('/rules/:id', async (request, reply) => {
     const { id } = request.params as { id: string };
-    const removed = store.deleteRule(id);
+    if (!(await findOwnRule(request.caller, id))) {
+      return reply.status(404).send({ error: 'Rule not found' });
+    }
+    const removed = await store.deleteRule(id);
     if (!removed) return reply.status(404).send({ error: 'Rule not found' });
     return reply.status(204).send();
   });
 
-  app.get('/alerts', async () => ({ alerts: store.listAlerts() }));
+  app.get('/alerts', { schema: { querystring: alertHistorySchema } }, async (request, reply) => {
+    const { query, errors } = parseAlertQuery(
+      request.query as Parameters<typeof parseAlertQuery>[0],
+      request.caller
+    );
+    if (errors.length > 0) return sendInvalid(reply, errors);
+    const page = await paginate(
+      query.limit,
+      (limit) => store.queryAlerts({ ...query, limit }),
+      (event) => event.triggeredAt
+    );
+    return { alerts: page.items, nextCursor: page.nextCursor };
+  });
 
-  app.get('/notifications', async () => ({
-    notifications: store.listNotifications()
-  }));
+  app.get('/alerts/stream', { config: { queryToken: true } }, async (request, reply) =>
+    serveEventStream(alertStream, request, reply)
+  );
+
+  attachAlertSocket(app, alertStream, auth);
+
+  app.get('/alerts/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const alert = await store.getAlert(id);
+    if (!alert || !canAccess(request.caller, alert.userId)) {
+      return reply.status(404).send({ error: 'Alert not found' });
+    }
+    return reply.send(alert);
+  });
 
-  app.get('/backoffice/notifications', async (_request, reply) => {
-    const notifications = store.listNotifications();
+  // The chart Telegram gets with the alert. Alerts stored before their candles
+  // were kept fall back to CandleStore, while it still holds them.
+  app.get('/alerts/:id/chart', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const alert = await store.getAlert(id);
+    if (!alert || !canAccess(request.caller, alert.userId)) {
+      return reply.status(404).send({ error: 'Alert not found' });
+    }
+    const [rule, user] = await Promise.all([
+      store.getRule(alert.ruleId),
+      store.getUser(alert.userId)
+    ]);
+    if (!user || !chartsEnabled(rule ?? {}, user)) {
+      return reply.status(403).send({ error: 'Charts are not enabled for this rule' });
+    }
+    const png = charts.render({
+      exchange: (alert.payload.exchange as Exchange | undefined) ?? DEFAULT_EXCHANGE,
+      symbol: alert.symbol,
+      type: alert.type,
+      payload: alert.payload,
+      candles: alert.chartCandles
+    });
+    if (!png) return reply.status(404).send({ error: 'Chart no longer available' });
+    return reply.type('image/png').send(png);
+  });
+
+  app.get(
+    '/rules/:id/alerts',
+    { schema: { querystring: alertHistorySchema } },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      if (!(await findOwnRule(request.caller, id))) {
+        return reply.status(404).send({ error: 'Rule not found' });
+      }
+      const { query, errors } = parseAlertQuery(
+        request.query as Parameters<typeof parseAlertQuery>[0],
+        request.caller
+      );
+      if (errors.length > 0) return sendInvalid(reply, errors);
+      // The rule's owner, not the caller, is whose alerts these are.
+      const page = await paginate(
+        query.limit,
+        (limit) => store.queryAlerts({ ...query, userId: undefined, ruleId: id, limit }),
+        (event) => event.triggeredAt
+      );
+      return { alerts: page.items, nextCursor: page.nextCursor };
+    }
+  );
+
+  app.get(
+    '/notifications',
+    { schema: { querystring: notificationHistorySchema } },
+    async (request, reply) => {
+      const { query, errors } = parseNotificationQuery(
+        request.query as Parameters<typeof parseNotificationQuery>[0],
+        request.caller
+      );
+      if (errors.length > 0) return sendInvalid(reply, errors);
+      const page = await paginate(
+        query.limit,
+        (limit) => store.queryNotifications({ ...query, limit }),
+        (notification) => notification.createdAt
+      );
+      return { notifications: page.items, nextCursor: page.nextCursor };
+    }
+  );
+
+  app.post('/notifications/:id/requeue', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const existing = await store.getNotification(id);
+    const notification =
+      existing && canAccess(request.caller, existing.userId)
+        ? await deliveryQueue.requeue(id)
+        : undefined;
+    if (!notification) {
+      return reply.status(404).send({ error: 'Dead-lettered notification not found' });
+    }
+    void deliveryQueue.drain();
+    return reply.send(notification);
+  });
+
+  app.post('/notifications/requeue', async (request) => {
+    const body = (request.body ?? {}) as { userId?: string; channel?: NotificationChannel };
+    let requeued = 0;
+    // Requeued rows leave DEAD_LETTER, so each batch starts from the top again.
+    for (;;) {
+      const batch = await store.queryNotifications({
+        userId: isAdmin(request.caller) ? body.userId : request.caller.userId,
+        statuses: ['DEAD_LETTER'],
+        channels: body.channel ? [body.channel] : undefined,
+        limit: REQUEUE_BATCH
+      });
+      let progressed = 0;
+      for (const item of batch) {
+        if (await deliveryQueue.requeue(item.id)) progressed += 1;
+      }
+      requeued += progressed;
+      if (batch.length < REQUEUE_BATCH || progressed === 0) break;
+    }
+    void deliveryQueue.drain();
+    return { requeued };
+  });
+
+  app.get('/backoffice/notifications', { preHandler: adminOnly }, async (_request, reply) => {
+    const notifications = await store.queryNotifications({ limit: BACKOFFICE_ROWS });
     const rows = notifications
-      .map(
-        (item) => `
-          <tr>
-            <td>${item.sentAt.toISOString()}</td>
-            <td>${item.userId}</td>
-            <td>${item.ruleId}</td>
-            <td>${item.channel}</td>
-            <td>${item.status}</td>
-            <td>${item.error ?? ''}</td>
-          </tr>
-        `
+      .map((item) =>
+        tableRow([
+          item.sentAt.toISOString(),
+          item.userId,
+          item.ruleId,
+          item.channel,
+          item.destination ?? '',
+          item.status,
+          item.attempts,
+          item.error ?? ''
+        ])
       )
       .join('');
 
@@ -132,8 +901,8 @@ export const registerRoutes = async (
             </style>
           </head>
           <body>
-            <h1>Telegram Notification Monitor</h1>
-            <p>Total notifications: ${notifications.length}</p>
+            <h1>Notification Monitor</h1>
+            <p>Latest ${notifications.length} notifications</p>
             <table>
               <thead>
                 <tr>
@@ -141,46 +910,38 @@ export const registerRoutes = async (
                   <th>User</th>
                   <th>Rule</th>
                   <th>Channel</th>
+                  <th>Destination</th>
                   <th>Status</th>
+                  <th>Attempts</th>
                   <th>Error</th>
                 </tr>
               </thead>
               <tbody>
-                ${rows || '<tr><td colspan=\"6\">No notifications yet.</td></tr>'}
+                ${rows || '<tr><td colspan=\"8\">No notifications yet.</td></tr>'}
               </tbody>
             </table>
           </body>
         </html>`);
   });
 
-  app.get('/settings', async (_request, reply) => {
-    const users = store.listUsers();
-    const rules = store.listRules();
+  app.get('/settings', { preHandler: adminOnly }, async (_request, reply) => {
+    const users = await store.listUsers();
+    const rules = await store.listRules();
     const rows = rules
-      .map(
-        (rule) => `
-          <tr>
-            <td>${rule.userId}</td>
-            <td>${rule.symbol}</td>
-            <td>${rule.type}</td>
-            <td>${rule.timeframe ?? '-'}</td>
-            <td>${rule.isEnabled ? 'Enabled' : 'Disabled'}</td>
-            <td>${rule.cooldownSec}s</td>
-          </tr>
-        `
+      .map((rule) =>
+        tableRow([
+          rule.userId,
+          rule.symbol,
+          rule.type,
+          rule.timeframe ?? '-',
+          rule.isEnabled ? 'Enabled' : 'Disabled',
+          `${rule.cooldownSec}s`
+        ])
       )
       .join('');
 
     const userRows = users
-      .map(
-        (user) => `
-          <tr>
-            <td>${user.id}</td>
-            <td>${user.telegramChatId}</td>
-            <td>${user.plan}</td>
-          </tr>
-        `
-      )
+      .map((user) => tableRow([user.id, user.telegramChatId, user.plan]))
       .join('');
 
     return reply
@@ -0,0 +1,156 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { config } from '../config.js';
+import type { AlertRule } from '../types/domain.js';
+import {
+  backtestRuleSchema,
+  backtestSourceSchema,
+  checkRuleSchema,
+  newRuleSchema,
+  ruleIssues,
+  ruleUpdateSchema,
+  toFieldErrors
+} from './ruleSchemas.js';
+
+// The options the app gives Fastify, so bodies are checked as the routes do.
+const ajv = new Ajv({ coerceTypes: 'array', useDefaults: true, allErrors: true });
+addFormats(ajv);
+
+const errorsFor = (schema: object, body: unknown) => {
+  const validate = ajv.compile(schema);
+  return validate(body) ? [] : toFieldErrors(validate.errors ?? []);
+};
+
+const breakout = {
+  symbol: 'BTCUSDT',
+  type: 'BREAKOUT',
+  timeframe: '1h',
+  params: { lookback: 20, direction: 'UP' }
+};
+
+describe('backtest schemas', () => {
+  test('accept each candle source', () => {
+    assert.deepEqual(errorsFor(backtestSourceSchema, { candles: [{ openTime: 0 }] }), []);
+    assert.deepEqual(errorsFor(backtestSourceSchema, { csv: 'openTime,close\n0,1' }), []);
+    assert.deepEqual(
+      errorsFor(backtestRuleSchema, { rule: breakout, range: { startTime: 0, endTime: 1 } }),
+      []
+    );
+  });
+
+  test('reject malformed sources with field errors', () => {
+    assert.deepEqual(errorsFor(backtestSourceSchema, { candles: { 0: {} } }), [
+      { field: 'candles', message: 'must be array' }
+    ]);
+    assert.deepEqual(errorsFor(backtestSourceSchema, { range: { startTime: 0 } }), [
+      { field: 'range.endTime', message: 'is required' }
+    ]);
+    assert.deepEqual(errorsFor(backtestRuleSchema, { rule: breakout, csv: {} }), [
+      { field: 'csv', message: 'must be string' }
+    ]);
+  });
+});
+
+describe('rule schemas', () => {
+  test('accept a complete rule', () => {
+    assert.deepEqual(errorsFor(newRuleSchema, { ...breakout, cooldownSec: 600 }), []);
+  });
+
+  test('check params against the schema of the chosen type', () => {
+    assert.deepEqual(errorsFor(newRuleSchema, { ...breakout, params: { direction: 'UP' } }), [
+      { field: 'params.lookback', message: 'is required' }
+    ]);
+    assert.deepEqual(
+      errorsFor(newRuleSchema, {
+        symbol: 'BTCUSDT',
+        type: 'EXTREME_MOVE',
+        timeframe: '1m',
+        params: { windowMin: 5, percent: 0, direction: 'UP', extra: true }
+      }),
+      [
+        { field: 'params.extra', message: 'is not allowed' },
+        { field: 'params.percent', message: 'must be > 0' }
+      ]
+    );
+  });
+
+  test('bound the symbol format and cooldown', () => {
+    assert.deepEqual(
+      errorsFor(newRuleSchema, { ...breakout, symbol: 'btc/usdt', cooldownSec: -1 }),
+      [
+        { field: 'symbol', message: 'must match pattern "^[A-Z0-9]{2,20}$"' },
+        { field: 'cooldownSec', message: 'must be >= 0' }
+      ]
+    );
+  });
+
+  test('only let updates change the fields a client owns', () => {
+    assert.deepEqual(errorsFor(ruleUpdateSchema, { cooldownSec: 60, isEnabled: false }), []);
+    assert.deepEqual(errorsFor(ruleUpdateSchema, { id: 'x', userId: 'y', createdAt: 'z' }), [
+      { field: 'id', message: 'is not allowed' },
+      { field: 'userId', message: 'is not allowed' },
+      { field: 'createdAt', message: 'is not allowed' }
+    ]);
+    assert.deepEqual(errorsFor(ruleUpdateSchema, {}), [
+      { field: '', message: 'must NOT have fewer than 1 properties' }
+    ]);
+  });
+
+  test('checkRuleSchema returns the rule or the same field errors', () => {
+    assert.deepEqual(checkRuleSchema({ ...breakout }), { rule: breakout });
+    assert.deepEqual(checkRuleSchema({ ...breakout, params: { lookback: 1, direction: 'UP' } }), {
+      errors: [{ field: 'params.lookback', message: 'must be >= 2' }]
+    });
+  });
+});
+
+describe('ruleIssues', () => {
+  const rule = (
+    type: AlertRule['type'],
+    timeframe: AlertRule['timeframe'],
+    params: object,
+    extra: Partial<AlertRule> = {}
+  ) => ({ type, timeframe, params: params as AlertRule['params'], ...extra });
+
+  test('match the timeframe to the type', () => {
+    assert.deepEqual(ruleIssues(rule('RSI', null, { period: 14, level: 70, direction: 'UP' })), [
+      { field: 'timeframe', message: 'is required for RSI' }
+    ]);
+    assert.deepEqual(
+      ruleIssues(rule('EXTREME_MOVE', '5m', { windowMin: 5, percent: 2, direction: 'UP' })),
+      [{ field: 'timeframe', message: 'EXTREME_MOVE runs on 1m candles only' }]
+    );
+    assert.deepEqual(ruleIssues(rule('PRICE_CROSS', '1h', { price: 1, direction: 'ABOVE' })), [
+      { field: 'timeframe', message: 'must be null for PRICE_CROSS' }
+    ]);
+    assert.deepEqual(
+      ruleIssues(
+        rule('RSI', '1m', { period: 14, level: 70, direction: 'UP' }, { evaluateOn: 'LIVE' })
+      ),
+      [{ field: 'evaluateOn', message: 'LIVE is only supported for BREAKOUT, VOLUME_SPIKE' }]
+    );
+  });
+
+  test('cap lookbacks by the history kept for the timeframe', () => {
+    const limits = config.candleLimits;
+    config.candleLimits = { '1d': 101 };
+    try {
+      assert.deepEqual(ruleIssues(rule('BREAKOUT', '1d', { lookback: 100, direction: 'UP' })), []);
+      assert.deepEqual(ruleIssues(rule('BREAKOUT', '1d', { lookback: 101, direction: 'UP' })), [
+        { field: 'params.lookback', message: 'must be <= 100 on 1d' }
+      ]);
+      assert.deepEqual(ruleIssues(rule('BREAKOUT', '1h', { lookback: 101, direction: 'UP' })), []);
+    } finally {
+      config.candleLimits = limits;
+    }
+  });
+
+  test('need a fast period below the slow one', () => {
+    const params = { maType: 'EMA', fastPeriod: 50, slowPeriod: 20, direction: 'UP' };
+    assert.deepEqual(ruleIssues(rule('MA_CROSS', '1h', params), 'rules[0].'), [
+      { field: 'rules[0].params.fastPeriod', message: 'must be less than slowPeriod' }
+    ]);
+  });
+});
@@ -0,0 +1,511 @@
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import type { FastifyError } from 'fastify';
+import { MAX_CONDITION_CHECKS, validateCompositeParams } from '../rule/composite.js';
+import { exchanges } from '../market/exchange.js';
+import { MAX_BACKTEST_CANDLES } from '../rule/backtest.js';
+import { candleTypes, liveTypes } from '../rule/ruleEngine.js';
+import { config } from '../config.js';
+import { MAX_CANDLES } from '../store/candleStore.js';
+import type {
+  AlertRule,
+  AlertType,
+  MacdCrossParams,
+  MaCrossParams,
+  RearmPolicy,
+  RuleSchedule,
+  Timeframe
+} from '../types/domain.js';
+import { timeframes } from '../utils/timeframes.js';
+import { isValidTimeZone, validateClockWindow } from '../utils/timezone.js';
+import { localeNames } from './alertMessage.js';
+import { notificationChannels } from './dispatcher.js';
+import { MAX_TEMPLATE_LENGTH, validateTemplate } from './messageTemplates.js';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+type SchemaError = NonNullable<FastifyError['validation']>[number];
+
+export const MAX_COOLDOWN_SEC = 7 * 86_400;
+export const MAX_SNOOZE_SEC = 30 * 86_400;
+export const MAX_HYSTERESIS_PCT = 50;
+
+const rearmPolicies: RearmPolicy[] = ['COOLDOWN', 'REARM_ON_RESET', 'BOTH'];
+
+const candleLimit = (timeframe: Timeframe) => config.candleLimits[timeframe] ?? MAX_CANDLES;
+
+// Candle history needed on top of the lookback itself (the closing candle).
+// The schema allows the longest history of any timeframe; `ruleIssues` checks
+// the rule's own.
+const maxLookback = (timeframe: Timeframe) => candleLimit(timeframe) - 1;
+const MAX_LOOKBACK = Math.max(...timeframes.map(maxLookback));
+
+// The param that sets how much history each candle rule reads.
+const lookbackParams: Partial<Record<AlertType, string>> = {
+  BREAKOUT: 'lookback',
+  VOLUME_SPIKE: 'lookback',
+  RSI: 'period',
+  MA_CROSS: 'slowPeriod',
+  BOLLINGER: 'period'
+};
+
+const symbolSchema = { type: 'string', pattern: '^[A-Z0-9]{2,20}$' } as const;
+const timeframeSchema = { type: 'string', enum: timeframes } as const;
+const directionSchema = { type: 'string', enum: ['UP', 'DOWN', 'BOTH'] } as const;
+const periodSchema = { type: 'integer', minimum: 1, maximum: MAX_LOOKBACK } as const;
+
+const paramsObject = (
+  properties: Record<string, object>,
+  required: string[] = Object.keys(properties)
+) => ({ type: 'object', additionalProperties: false, required, properties });
+
+export const paramsSchemas: Record<AlertType, object> = {
+  EXTREME_MOVE: paramsObject({
+    // Measured on 1m candles, so the window cannot exceed the stored history.
+    windowMin: { type: 'integer', minimum: 1, maximum: maxLookback('1m') },
+    percent: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+    direction: directionSchema
+  }),
+  BREAKOUT: paramsObject({
+    lookback: { type: 'integer', minimum: 2, maximum: MAX_LOOKBACK },
+    direction: directionSchema
+  }),
+  VOLUME_SPIKE: paramsObject({
+    lookback: { type: 'integer', minimum: 2, maximum: MAX_LOOKBACK },
+    multiplier: { type: 'number', exclusiveMinimum: 1, maximum: 100 }
+  }),
+  RSI: paramsObject({
+    period: { type: 'integer', minimum: 2, maximum: MAX_LOOKBACK },
+    level: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 100 },
+    direction: directionSchema
+  }),
+  MA_CROSS: paramsObject({
+    maType: { type: 'string', enum: ['SMA', 'EMA'] },
+    fastPeriod: periodSchema,
+    slowPeriod: periodSchema,
+    direction: directionSchema
+  }),
+  MACD_CROSS: paramsObject({
+    fastPeriod: periodSchema,
+    slowPeriod: periodSchema,
+    signalPeriod: periodSchema,
+    direction: directionSchema
+  }),
+  BOLLINGER: paramsObject({
+    period: { type: 'integer', minimum: 2, maximum: MAX_LOOKBACK },
+    stdDev: { type: 'number', exclusiveMinimum: 0, maximum: 10 },
+    direction: directionSchema
+  }),
+  PRICE_CROSS: paramsObject(
+    {
+      price: { type: 'number', exclusiveMinimum: 0 },
+      direction: { type: 'string', enum: ['ABOVE', 'BELOW', 'EITHER'] },
+      oneShot: { type: 'boolean' }
+    },
+    ['price', 'direction']
+  ),
+  COMPOSITE: paramsObject(
+    {
+      condition: { $ref: '#/$defs/condition' },
+      withinCandles: { type: 'integer', minimum: 0, maximum: MAX_LOOKBACK }
+    },
+    ['condition']
+  )
+};
+
+export const alertTypes = Object.keys(paramsSchemas) as AlertType[];
+const checkTypes = alertTypes.filter((type) => type !== 'PRICE_CROSS' && type !== 'COMPOSITE');
+
+// `if`/`then` on the discriminator keeps errors pointed at the params of the
+// chosen type instead of listing every `oneOf` branch.
+const paramsByType = (types: AlertType[]) =>
+  types.map((type) => ({
+    if: { required: ['type'], properties: { type: { const: type } } },
+    then: { properties: { params: paramsSchemas[type] } }
+  }));
+
+const conditionSchema = {
+  type: 'object',
+  required: ['op'],
+  properties: { op: { type: 'string', enum: ['AND', 'OR', 'NOT', 'CHECK'] } },
+  allOf: [
+    {
+      if: { required: ['op'], properties: { op: { const: 'CHECK' } } },
+      then: {
+        required: ['type', 'params'],
+        additionalProperties: false,
+        properties: {
+          op: {},
+          type: { type: 'string', enum: checkTypes },
+          symbol: symbolSchema,
+          timeframe: timeframeSchema,
+          params: { type: 'object' }
+        },
+        allOf: paramsByType(checkTypes)
+      }
+    },
+    {
+      if: { required: ['op'], properties: { op: { enum: ['AND', 'OR'] } } },
+      then: {
+        required: ['conditions'],
+        additionalProperties: false,
+        properties: {
+          op: {},
+          conditions: {
+            type: 'array',
+            minItems: 2,
+            maxItems: MAX_CONDITION_CHECKS,
+            items: { $ref: '#/$defs/condition' }
+          }
+        }
+      }
+    },
+    {
+      if: { required: ['op'], properties: { op: { const: 'NOT' } } },
+      then: {
+        required: ['condition'],
+        additionalProperties: false,
+        properties: { op: {}, condition: { $ref: '#/$defs/condition' } }
+      }
+    }
+  ]
+};
+
+const channelsSchema = {
+  type: 'array',
+  maxItems: 10,
+  items: {
+    type: 'object',
+    required: ['channel', 'destination'],
+    additionalProperties: false,
+    properties: {
+      channel: { type: 'string', enum: notificationChannels },
+      destination: { type: 'string', minLength: 1 },
+      secret: { type: 'string' }
+    }
+  }
+};
+
+const templateSchema = { type: 'string', minLength: 1, maxLength: MAX_TEMPLATE_LENGTH } as const;
+
+const clockTimeSchema = { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' } as const;
+
+// `ruleIssues` checks the time zone and that windows do not start as they end.
+const scheduleSchema = {
+  type: 'object',
+  required: ['timezone', 'windows'],
+  additionalProperties: false,
+  properties: {
+    timezone: { type: 'string', minLength: 1, maxLength: 64 },
+    windows: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 14,
+      items: {
+        type: 'object',
+        required: ['start', 'end'],
+        additionalProperties: false,
+        properties: {
+          start: clockTimeSchema,
+          end: clockTimeSchema,
+          days: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 7,
+            uniqueItems: true,
+            items: { type: 'integer', minimum: 0, maximum: 6 }
+          }
+        }
+      }
+    }
+  }
+} as const;
+
+const ruleProperties = {
+  exchange: { type: 'string', enum: exchanges },
+  symbol: symbolSchema,
+  type: { type: 'string', enum: alertTypes },
+  // A type list rather than anyOf so type coercion never turns null into ''.
+  timeframe: { type: ['string', 'null'], enum: [...timeframeSchema.enum, null] },
+  params: { type: 'object' },
+  isEnabled: { type: 'boolean' },
+  cooldownSec: { type: 'integer', minimum: 0, maximum: MAX_COOLDOWN_SEC },
+  rearmPolicy: { type: 'string', enum: rearmPolicies },
+  hysteresisPct: { type: 'number', minimum: 0, maximum: MAX_HYSTERESIS_PCT },
+  evaluateOn: { type: 'string', enum: ['CLOSE', 'LIVE'] },
+  channels: channelsSchema,
+  // null on update goes back to the owner's or the locale's template.
+  template: { ...templateSchema, type: ['string', 'null'] },
+  // null on update goes back to what the owner's plan includes.
+  chart: { type: ['boolean', 'null'] },
+  oneShot: { type: 'boolean' },
+  // null on update removes the expiry or schedule.
+  expiresAt: { type: ['string', 'null'], format: 'date-time' },
+  schedule: { ...scheduleSchema, type: ['object', 'null'] }
+};
+
+// A complete rule definition; also used to re-check a rule after a PATCH is
+// merged into it.
+export const ruleSchema = {
+  type: 'object',
+  required: ['symbol', 'type', 'params'],
+  additionalProperties: false,
+  properties: ruleProperties,
+  allOf: paramsByType(alertTypes),
+  $defs: { condition: conditionSchema }
+};
+
+// userId defaults to the caller; only admins may set someone else's.
+export const newRuleSchema = {
+  ...ruleSchema,
+  properties: { userId: { type: 'string', minLength: 1 }, ...ruleProperties }
+};
+
+// Fields a client may change; everything else is owned by the server.
+export const ruleUpdateSchema = {
+  type: 'object',
+  minProperties: 1,
+  additionalProperties: false,
+  properties: ruleProperties
+};
+
+// Where backtest candles come from; `loadBacktestCandles` checks each candle.
+const backtestSourceProperties = {
+  candles: { type: 'array', maxItems: MAX_BACKTEST_CANDLES, items: { type: 'object' } },
+  csv: { type: 'string', minLength: 1 },
+  range: {
+    type: 'object',
+    required: ['startTime', 'endTime'],
+    additionalProperties: false,
+    properties: {
+      startTime: { type: 'integer', minimum: 0 },
+      endTime: { type: 'integer', minimum: 0 }
+    }
+  }
+};
+
+export const backtestSourceSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: backtestSourceProperties
+};
+
+export const backtestRuleSchema = {
+  type: 'object',
+  required: ['rule'],
+  additionalProperties: false,
+  properties: {
+    ...backtestSourceProperties,
+    rule: {
+      type: 'object',
+      required: ['symbol', 'type', 'params'],
+      additionalProperties: false,
+      properties: {
+        exchange: ruleProperties.exchange,
+        symbol: ruleProperties.symbol,
+        type: ruleProperties.type,
+        timeframe: ruleProperties.timeframe,
+        params: ruleProperties.params,
+        cooldownSec: ruleProperties.cooldownSec,
+        rearmPolicy: ruleProperties.rearmPolicy,
+        hysteresisPct: ruleProperties.hysteresisPct
+      },
+      allOf: paramsByType(alertTypes)
+    }
+  },
+  $defs: { condition: conditionSchema }
+};
+
+// Fastify's defaults with the overrides the app sets, so rules that do not
+// arrive as a route body, such as /add in Telegram, are checked the same way.
+const ajv = new Ajv({
+  coerceTypes: 'array',
+  useDefaults: true,
+  allErrors: true,
+  removeAdditional: false
+});
+addFormats(ajv);
+const validateRule = ajv.compile<Pick<AlertRule, 'symbol' | 'type' | 'params'>>(ruleSchema);
+
+// The rule, typed as having passed the create route's schema, or what that
+// route would reject about it before `ruleIssues` runs.
+export const checkRuleSchema = <T extends object>(
+  rule: T
+): { rule: T & Pick<AlertRule, 'params'>; errors?: undefined } | { errors: FieldError[] } =>
+  validateRule(rule) ? { rule } : { errors: toFieldErrors(validateRule.errors ?? []) };
+
+// Cross-field rules JSON schema cannot express. Expects a rule that already
+// passed `ruleSchema`.
+export const ruleIssues = (
+  rule: Pick<AlertRule, 'type' | 'timeframe' | 'params' | 'evaluateOn'> & {
+    template?: string | null;
+    schedule?: RuleSchedule | null;
+    rearmPolicy?: RearmPolicy;
+  },
+  path = ''
+): FieldError[] => {
+  const at = (field: string) => `${path}${field}`;
+  const issues: FieldError[] = [];
+
+  if (candleTypes.has(rule.type) && !rule.timeframe) {
+    issues.push({ field: at('timeframe'), message: `is required for ${rule.type}` });
+  }
+  if (rule.type === 'EXTREME_MOVE' && rule.timeframe && rule.timeframe !== '1m') {
+    issues.push({ field: at('timeframe'), message: 'EXTREME_MOVE runs on 1m candles only' });
+  }
+  if (rule.type === 'PRICE_CROSS' && rule.timeframe) {
+    issues.push({ field: at('timeframe'), message: 'must be null for PRICE_CROSS' });
+  }
+  if (rule.evaluateOn === 'LIVE' && !liveTypes.has(rule.type)) {
+    issues.push({
+      field: at('evaluateOn'),
+      message: `LIVE is only supported for ${[...liveTypes].join(', ')}`
+    });
+  }
+
+  const lookbackParam = lookbackParams[rule.type];
+  if (lookbackParam && rule.timeframe) {
+    const lookback = (rule.params as unknown as Record<string, number>)[lookbackParam];
+    if (lookback > maxLookback(rule.timeframe)) {
+      issues.push({
+        field: at(`params.${lookbackParam}`),
+        message: `must be <= ${maxLookback(rule.timeframe)} on ${rule.timeframe}`
+      });
+    }
+  }
+
+  if (rule.type === 'MA_CROSS' || rule.type === 'MACD_CROSS') {
+    const params = rule.params as MaCrossParams | MacdCrossParams;
+    if (params.fastPeriod >= params.slowPeriod) {
+      issues.push({ field: at('params.fastPeriod'), message: 'must be less than slowPeriod' });
+    }
+  }
+  if (rule.type === 'MACD_CROSS' && rule.timeframe) {
+    const params = rule.params as MacdCrossParams;
+    const limit = maxLookback(rule.timeframe);
+    if (params.slowPeriod + params.signalPeriod > limit) {
+      issues.push({
+        field: at('params.signalPeriod'),
+        message: `slowPeriod + signalPeriod must be <= ${limit} on ${rule.timeframe}`
+      });
+    }
+  }
+
+  if (rule.type === 'COMPOSITE') {
+    const error = validateCompositeParams(rule.params);
+    if (error) issues.push(fromMessage(error, path));
+  }
+
+  if (typeof rule.template === 'string') {
+    const error = validateTemplate(rule.template);
+    if (error) issues.push(fromMessage(error, path));
+  }
+
+  // A composite's checks each keep their own hits, so it has no one condition
+  // to watch reset.
+  if (rule.type === 'COMPOSITE' && rule.rearmPolicy && rule.rearmPolicy !== 'COOLDOWN') {
+    issues.push({ field: at('rearmPolicy'), message: 'must be COOLDOWN for COMPOSITE' });
+  }
+
+  if (rule.schedule) {
+    if (!isValidTimeZone(rule.schedule.timezone)) {
+      issues.push({
+        field: at('schedule.timezone'),
+        message: 'must be an IANA time zone such as America/New_York'
+      });
+    }
+    rule.schedule.windows.forEach((window, index) => {
+      const error = validateClockWindow(window, `schedule.windows[${index}]`);
+      if (error) issues.push(fromMessage(error, path));
+    });
+  }
+
+  return issues;
+};
+
+// Either a moment to snooze until or a duration from now.
+export const snoozeSchema = {
+  type: 'object',
+  minProperties: 1,
+  maxProperties: 1,
+  additionalProperties: false,
+  properties: {
+    until: { type: 'string', format: 'date-time' },
+    seconds: { type: 'integer', minimum: 60, maximum: MAX_SNOOZE_SEC }
+  }
+};
+
+// A user's message locale and per-type templates; null clears either.
+export const messageSettingsSchema = {
+  type: 'object',
+  minProperties: 1,
+  additionalProperties: false,
+  properties: {
+    locale: { type: ['string', 'null'], enum: [...localeNames, null] },
+    templates: {
+      type: ['object', 'null'],
+      propertyNames: { enum: alertTypes },
+      additionalProperties: templateSchema
+    }
+  }
+};
+
+// Renders a template, or the locale's default for the type, against a sample
+// payload of that type; `payload` overrides individual sample values.
+export const templatePreviewSchema = {
+  type: 'object',
+  required: ['type'],
+  additionalProperties: false,
+  properties: {
+    type: ruleProperties.type,
+    template: templateSchema,
+    locale: { type: 'string', enum: localeNames },
+    format: { type: 'string', enum: ['TEXT', 'MarkdownV2', 'HTML'] },
+    exchange: ruleProperties.exchange,
+    symbol: symbolSchema,
+    payload: { type: 'object', maxProperties: 50 }
+  }
+};
+
+// Splits the `field: message` strings returned by the older validators.
+export const fromMessage = (error: string, path = ''): FieldError => {
+  const index = error.indexOf(': ');
+  return index === -1
+    ? { field: path.replace(/\.$/, ''), message: error }
+    : { field: `${path}${error.slice(0, index)}`, message: error.slice(index + 2) };
+};
+
+const toField = (instancePath: string) =>
+  instancePath
+    .split('/')
+    .filter(Boolean)
+    .map((segment, index) =>
+      /^\d+$/.test(segment) ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+
+const joinField = (base: string, name: string) => (base ? `${base}.${name}` : name);
+
+export const toFieldErrors = (errors: SchemaError[]): FieldError[] =>
+  errors
+    // `if` failures only restate the `then` errors reported alongside them.
+    .filter((error) => error.keyword !== 'if')
+    .map((error) => {
+      const field = toField(error.instancePath);
+      if (error.keyword === 'required') {
+        return {
+          field: joinField(field, String(error.params.missingProperty)),
+          message: 'is required'
+        };
+      }
+      if (error.keyword === 'additionalProperties') {
+        return {
+          field: joinField(field, String(error.params.additionalProperty)),
+          message: 'is not allowed'
+        };
+      }
+      return { field, message: error.message ?? 'is invalid' };
+    });
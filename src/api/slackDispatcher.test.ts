@@ -0,0 +1,99 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import type { TriggeredAlert } from '../types/domain.js';
+import { DeliveryError } from './dispatcher.js';
+import { SlackDispatcher } from './slackDispatcher.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert: TriggeredAlert = {
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+};
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+describe('SlackDispatcher', () => {
+  let handler: Handler;
+  let destination: string;
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  const dispatcher = new SlackDispatcher();
+  const timeoutMs = config.deliveryTimeoutMs;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    destination = `http://127.0.0.1:${(server.address() as AddressInfo).port}/slack`;
+    config.allowInternalDestinations = true;
+    config.deliveryTimeoutMs = 200;
+  });
+
+  afterEach(() => server.closeAllConnections());
+
+  after(async () => {
+    config.allowInternalDestinations = false;
+    config.deliveryTimeoutMs = timeoutMs;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('posts the rendered alert as blocks with a text fallback', async () => {
+    let sent: Record<string, unknown> | undefined;
+    handler = (_request, body, response) => {
+      sent = JSON.parse(body);
+      response.end('ok');
+    };
+
+    await dispatcher.dispatch(alert, { channel: 'SLACK', destination });
+    const { text, blocks } = sent as { text: string; blocks: Array<{ type: string }> };
+    assert.match(text, /: BTCUSDT$/);
+    assert.deepEqual(blocks.map((block) => block.type), ['header', 'section', 'context']);
+  });
+
+  test('fails for good when Slack rejects the webhook', async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(404);
+      response.end('no_service');
+    };
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'SLACK', destination }),
+      (error: DeliveryError) => {
+        assert.equal(error.message, 'Slack send failed: 404 no_service');
+        assert.equal(error.permanent, true);
+        return true;
+      }
+    );
+  });
+
+  test('gives up on a Slack endpoint that never answers, as a retryable failure', async () => {
+    handler = () => {};
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'SLACK', destination }),
+      (error: DeliveryError) => {
+        assert.equal(error.message, 'Slack send timed out after 0.2s');
+        assert.equal(error.permanent, false);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import type { AlertDigest, ChannelTarget, TriggeredAlert } from '../types/domain.js';
+import { config } from '../config.js';
+import { AlertRenderer } from './alertMessage.js';
+import { postJson, type Dispatcher } from './dispatcher.js';
+
+export class SlackDispatcher implements Dispatcher {
+  readonly channel = 'SLACK' as const;
+
+  constructor(private readonly renderer: AlertRenderer = new AlertRenderer()) {}
+
+  async dispatch(alert: TriggeredAlert, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.render(alert);
+    await this.post(target, `${title}: ${alert.rule.symbol}`, title, lines);
+  }
+
+  async dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void> {
+    const { title, lines } = this.renderer.renderDigest(digest);
+    await this.post(target, title, title, lines);
+  }
+
+  private async post(target: ChannelTarget, text: string, title: string, lines: string[]) {
+    const body = JSON.stringify({
+      text,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: title } },
+        { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+        {
+          type: 'context',
+          elements: [
+            { type: 'mrkdwn', text: `<${config.telegramDefaultLink}|View on CryptoBriefs>` }
+          ]
+        }
+      ]
+    });
+
+    await postJson('Slack', target.destination, body);
+  }
+}
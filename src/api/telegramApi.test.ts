@@ -0,0 +1,69 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import { DeliveryError } from './dispatcher.js';
+import { TelegramApi } from './telegramApi.js';
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+describe('TelegramApi', () => {
+  let handler: Handler;
+  let api: TelegramApi;
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  const timeoutMs = config.deliveryTimeoutMs;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    api = new TelegramApi('token', `http://127.0.0.1:${port}`);
+    config.deliveryTimeoutMs = 200;
+  });
+
+  after(async () => {
+    config.deliveryTimeoutMs = timeoutMs;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('posts JSON to the bot method and returns the result', async () => {
+    let seen: [string | undefined, unknown] | undefined;
+    handler = (request, body, response) => {
+      seen = [request.url, JSON.parse(body)];
+      response.end(JSON.stringify({ ok: true, result: true }));
+    };
+
+    await api.sendMessage('42', 'hi');
+    assert.deepEqual(seen, ['/bottoken/sendMessage', { chat_id: '42', text: 'hi' }]);
+  });
+
+  test('reports 429s with the retry_after Telegram asks for', async () => {
+    handler = (_request, _body, response) => {
+      response.statusCode = 429;
+      response.end(JSON.stringify({ ok: false, parameters: { retry_after: 3 } }));
+    };
+
+    await assert.rejects(api.sendMessage('42', 'hi'), (error: DeliveryError) => {
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterMs, 3000);
+      assert.equal(error.permanent, false);
+      return true;
+    });
+  });
+
+  test('gives up on a call that never answers, as a retryable failure', async () => {
+    handler = () => {};
+
+    await assert.rejects(api.sendMessage('42', 'hi'), (error: DeliveryError) => {
+      assert.ok(error instanceof DeliveryError);
+      assert.equal(error.message, 'Telegram sendMessage timed out after 0.2s');
+      assert.equal(error.permanent, false);
+      return true;
+    });
+  });
+});
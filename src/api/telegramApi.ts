@@ -0,0 +1,129 @@
+import { config } from '../config.js';
+import { DeliveryError, responseExcerpt } from './dispatcher.js';
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    chat: { id: number };
+    text?: string;
+  };
+  callback_query?: {
+    id: string;
+    data?: string;
+    message?: { message_id: number; chat: { id: number } };
+  };
+}
+
+export const CAPTION_LIMIT = 1024;
+
+export type InlineKeyboard = Array<Array<{ text: string; url?: string; callback_data?: string }>>;
+
+// 429 responses carry `parameters.retry_after` (seconds) in the JSON body.
+const parseRetryAfter = (text: string): number | undefined => {
+  try {
+    const body = JSON.parse(text) as { parameters?: { retry_after?: number } };
+    const seconds = body.parameters?.retry_after;
+    return seconds ? seconds * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export class TelegramApi {
+  constructor(
+    private readonly token: string = config.telegramBotToken,
+    private readonly baseUrl: string = config.telegramApiUrl
+  ) {}
+
+  get configured(): boolean {
+    return Boolean(this.token);
+  }
+
+  // Uploads go as multipart FormData, everything else as JSON. Calls time out
+  // like other deliveries, plus `waitMs` for methods that long-poll.
+  async call<T>(
+    method: string,
+    body: Record<string, unknown> | FormData,
+    signal?: AbortSignal,
+    waitMs = 0
+  ): Promise<T> {
+    if (!this.token) {
+      throw new Error('Missing TELEGRAM_BOT_TOKEN');
+    }
+
+    const timeoutMs = config.deliveryTimeoutMs + waitMs;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const multipart = body instanceof FormData;
+    try {
+      const response = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+        method: 'POST',
+        // fetch sets the multipart boundary itself.
+        headers: multipart ? undefined : { 'Content-Type': 'application/json' },
+        body: multipart ? body : JSON.stringify(body),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new DeliveryError(
+          `Telegram ${method} failed: ${response.status} ${responseExcerpt(text)}`,
+          response.status,
+          parseRetryAfter(text)
+        );
+      }
+
+      const json = (await response.json()) as { result: T };
+      return json.result;
+    } catch (error) {
+      // Retried like any other failure without a status.
+      if (timeout.aborted) {
+        throw new DeliveryError(`Telegram ${method} timed out after ${timeoutMs / 1000}s`);
+      }
+      throw error;
+    }
+  }
+
+  async sendMessage(
+    chatId: string,
+    text: string,
+    options: { parseMode?: string; keyboard?: InlineKeyboard } = {}
+  ): Promise<void> {
+    await this.call('sendMessage', {
+      chat_id: chatId,
+      text,
+      parse_mode: options.parseMode,
+      reply_markup: options.keyboard ? { inline_keyboard: options.keyboard } : undefined
+    });
+  }
+
+  // Telegram rejects captions longer than CAPTION_LIMIT.
+  async sendPhoto(
+    chatId: string,
+    png: Buffer,
+    options: { caption?: string; parseMode?: string; keyboard?: InlineKeyboard } = {}
+  ): Promise<void> {
+    const form = new FormData();
+    form.append('chat_id', chatId);
+    form.append('photo', new Blob([new Uint8Array(png)], { type: 'image/png' }), 'chart.png');
+    if (options.caption) form.append('caption', options.caption);
+    if (options.parseMode) form.append('parse_mode', options.parseMode);
+    if (options.keyboard) {
+      form.append('reply_markup', JSON.stringify({ inline_keyboard: options.keyboard }));
+    }
+    await this.call('sendPhoto', form);
+  }
+
+  async getUpdates(offset: number, timeoutSec: number, signal?: AbortSignal) {
+    return this.call<TelegramUpdate[]>(
+      'getUpdates',
+      { offset, timeout: timeoutSec, allowed_updates: ['message', 'callback_query'] },
+      signal,
+      timeoutSec * 1000
+    );
+  }
+
+  async answerCallbackQuery(id: string, text: string): Promise<void> {
+    await this.call('answerCallbackQuery', { callback_query_id: id, text });
+  }
+}
@@ -0,0 +1,193 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import { Authenticator } from './auth.js';
+import { TelegramApi, type TelegramUpdate } from './telegramApi.js';
+import { TelegramBot } from './telegramBot.js';
+
+interface Call {
+  method: string;
+  body: Record<string, unknown>;
+}
+
+describe('TelegramBot', () => {
+  // The fake Bot API records every call; getUpdates hands out `updates` once,
+  // then long-polls until the client gives up.
+  let calls: Call[];
+  let updates: TelegramUpdate[];
+  let api: TelegramApi;
+  const server = createServer((request, response: ServerResponse) => {
+    let text = '';
+    request.on('data', (chunk) => (text += chunk));
+    request.on('end', () => {
+      const method = (request.url ?? '').split('/').pop() ?? '';
+      calls.push({ method, body: JSON.parse(text) });
+      if (method === 'getUpdates') {
+        if (updates.length === 0) return;
+        response.end(JSON.stringify({ ok: true, result: updates.splice(0) }));
+        return;
+      }
+      response.end(JSON.stringify({ ok: true, result: true }));
+    });
+  });
+
+  let store: InMemoryStore;
+  let bot: TelegramBot;
+  let errors: unknown[];
+  let nextUpdateId = 1;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    api = new TelegramApi('token', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    calls = [];
+    updates = [];
+    errors = [];
+    store = new InMemoryStore();
+    bot = new TelegramBot(api, store, (error) => errors.push(error));
+  });
+
+  afterEach(() => assert.deepEqual(errors, []));
+
+  const message = (chatId: number, text: string): TelegramUpdate => ({
+    update_id: nextUpdateId++,
+    message: { message_id: nextUpdateId, chat: { id: chatId }, text }
+  });
+
+  // Sends `text` from the chat and returns the bot's reply.
+  const send = async (chatId: number, text: string): Promise<string> => {
+    calls = [];
+    await bot.handleUpdate(message(chatId, text));
+    const reply = calls.find((call) => call.method === 'sendMessage');
+    assert.ok(reply);
+    assert.equal(reply.body.chat_id, String(chatId));
+    return reply.body.text as string;
+  };
+
+  test('registers a chat once on /start', async () => {
+    assert.match(await send(100, '/start'), /^Welcome! Your FREE account allows \d+ rules\./);
+    assert.match(await send(100, '/start'), /^This chat is already registered \(FREE plan\)/);
+    assert.equal((await store.listUsers()).length, 1);
+  });
+
+  test('asks unregistered chats to /start first', async () => {
+    assert.equal(await send(100, '/rules'), 'This chat is not registered yet. Send /start first.');
+  });
+
+  test('creates, lists, pauses and deletes rules', async () => {
+    await send(100, '/start');
+    const created = await send(100, '/add BREAKOUT btc/usdt 5m lookback=20 direction=UP');
+    assert.match(created, /^Created [0-9a-f]{8} BREAKOUT BTCUSDT 5m \(active\)$/);
+
+    const [rule] = await store.listRules();
+    assert.deepEqual(rule.params, { lookback: 20, direction: 'UP' });
+    assert.equal(rule.cooldownSec, 900);
+    const id = rule.id.slice(0, 8);
+
+    assert.match(await send(100, '/rules'), new RegExp(`^Your rules \\(1/\\d+\\):\\n${id}`));
+    assert.match(await send(100, `/pause ${id}`), /\(paused\)$/);
+    assert.equal((await store.getRule(rule.id))?.isEnabled, false);
+    assert.equal(await send(100, `/delete ${id}`), `Deleted ${id}`);
+    assert.deepEqual(await store.listRules(), []);
+  });
+
+  test('refuses /add params the rule schema rejects', async () => {
+    await send(100, '/start');
+    const reply = await send(100, '/add BREAKOUT BTCUSDT 5m lookback=twenty direction=SIDEWAYS');
+    assert.match(reply, /params\.lookback must be integer/);
+    assert.match(reply, /params\.direction must be equal to one of the allowed values/);
+    assert.equal(
+      await send(100, '/add RSI BTCUSDT period=14 level=70 direction=UP'),
+      'timeframe is required for RSI'
+    );
+    assert.deepEqual(await store.listRules(), []);
+  });
+
+  test('mutes for a while, but not for longer than the limit', async () => {
+    await send(100, '/start');
+    assert.match(await send(100, '/mute 2h'), /^Alerts muted until \d{4}-/);
+    const [user] = await store.listUsers();
+    const mutedFor = ((await store.getUser(user.id))?.mutedUntil?.getTime() ?? 0) - Date.now();
+    assert.ok(mutedFor > 7_000_000 && mutedFor <= 7_200_000);
+
+    assert.equal(await send(100, '/mute 99999999999999d'), 'Alerts can be muted for 30d at most.');
+    assert.equal(await send(100, '/mute 31d'), 'Alerts can be muted for 30d at most.');
+    assert.equal(await send(100, '/mute soon'), 'Usage: /mute 30m | 2h | 1d | off');
+    assert.equal(await send(100, '/mute off'), 'Alerts unmuted.');
+  });
+
+  test('links an account with a code, but never takes over a chat', async () => {
+    const auth = new Authenticator(store, {
+      adminApiKey: '',
+      jwtSecret: '',
+      jwtIssuer: '',
+      jwtAudience: ''
+    });
+    const owner = await store.createUser({ telegramChatId: '', plan: 'PRO' });
+    await send(200, '/start');
+    const [other] = (await store.listUsers()).filter((user) => user.id !== owner.id);
+
+    const taken = await auth.issueTelegramLink(owner.id);
+    assert.equal(
+      await send(200, `/start ${taken.code}`),
+      'This chat already belongs to another account. Link from a chat of your own.'
+    );
+    assert.equal((await store.findUserByTelegramChatId('200'))?.id, other.id);
+
+    const { code } = await auth.issueTelegramLink(owner.id);
+    assert.match(await send(300, `/start ${code}`), /^Linked this chat to your account \(PRO/);
+    assert.equal((await store.getUser(owner.id))?.telegramChatId, '300');
+    assert.match(await send(300, `/start ${code}`), /^That link code is invalid or has expired/);
+  });
+
+  test('only snoozes for the duration the button offers', async () => {
+    await send(100, '/start');
+    await send(100, '/add BREAKOUT BTCUSDT 5m lookback=20 direction=UP');
+    const [rule] = await store.listRules();
+    const press = (data: string) =>
+      bot.handleUpdate({
+        update_id: nextUpdateId++,
+        callback_query: { id: data, data, message: { message_id: 1, chat: { id: 100 } } }
+      });
+
+    calls = [];
+    await press(`snooze:${rule.id}:99999999`);
+    assert.equal(calls[0].body.text, 'Unknown snooze duration.');
+    assert.equal((await store.getRule(rule.id))?.snoozedUntil, undefined);
+
+    await press(`snooze:${rule.id}:3600`);
+    assert.match(calls[1].body.text as string, /^Snoozed until /);
+    assert.ok((await store.getRule(rule.id))?.snoozedUntil);
+  });
+
+  test('answers commands it long-polls for until stopped', async () => {
+    const help = message(100, '/help');
+    updates = [help];
+    const polling = bot.startPolling(5);
+    const polls = () => calls.filter((call) => call.method === 'getUpdates');
+    // The reply goes out before the next poll.
+    for (let waited = 0; polls().length < 2; waited += 10) {
+      assert.ok(waited < 2_000, 'did not poll again');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    bot.stop();
+    await polling;
+
+    const [first, second] = polls();
+    assert.equal(first.body.offset, 0);
+    assert.equal(second.body.offset, help.update_id + 1);
+    assert.match(
+      calls.find((call) => call.method === 'sendMessage')?.body.text as string,
+      /^Commands:/
+    );
+  });
+});
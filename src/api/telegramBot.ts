@@ -0,0 +1,333 @@
+import type { AlertRule, AlertType, Exchange, Timeframe, User } from '../types/domain.js';
+import { compactSymbol, DEFAULT_EXCHANGE, exchanges } from '../market/exchange.js';
+import type { SymbolCatalog } from '../market/symbolCatalog.js';
+import { timeframes } from '../utils/timeframes.js';
+import type { Store } from '../store/store.js';
+import { ruleSymbols } from '../rule/composite.js';
+import { hasExpired, isSnoozed } from '../rule/lifecycle.js';
+import { hasRuleCapacity, maxRulesFor } from '../rule/limits.js';
+import { sha256 } from './auth.js';
+import { checkRuleSchema, MAX_SNOOZE_SEC, ruleIssues, type FieldError } from './ruleSchemas.js';
+import type { TelegramApi, TelegramUpdate } from './telegramApi.js';
+import { SNOOZE_BUTTON_SEC } from './telegramDispatcher.js';
+
+// Types that can be created from chat; composite rules need the REST API.
+const chatTypes: AlertType[] = [
+  'EXTREME_MOVE',
+  'BREAKOUT',
+  'VOLUME_SPIKE',
+  'RSI',
+  'MA_CROSS',
+  'MACD_CROSS',
+  'BOLLINGER',
+  'PRICE_CROSS'
+];
+
+const HELP = [
+  'Commands:',
+  '/add TYPE [EXCHANGE:]SYMBOL [timeframe] key=value ...',
+  '  e.g. /add BREAKOUT BTCUSDT 5m lookback=20 direction=UP',
+  '  e.g. /add VOLUME_SPIKE BYBIT:SOLUSDT 15m lookback=20 multiplier=3',
+  '  e.g. /add PRICE_CROSS BTCUSDT price=100000 direction=ABOVE oneShot=true',
+  '/rules - list your rules',
+  '/pause ID, /resume ID, /delete ID',
+  '/mute 2h (or 30m, 1d, off)'
+].join('\n');
+
+const parseValue = (value: string): string | number | boolean => {
+  if (value === 'true' || value === 'false') return value === 'true';
+  const parsed = Number(value);
+  return value !== '' && !Number.isNaN(parsed) ? parsed : value;
+};
+
+// Mutes are held to the longest snooze a rule allows.
+const MAX_MUTE_DAYS = MAX_SNOOZE_SEC / 86_400;
+
+const parseDuration = (value: string): number | null => {
+  const match = /^(\d+)([mhd])$/.exec(value);
+  if (!match) return null;
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+};
+
+// `BYBIT:SOL/USDT` picks an exchange; a bare symbol is on the default one.
+const parseMarket = (value: string): { exchange: Exchange; symbol: string } | null => {
+  const separator = value.indexOf(':');
+  if (separator < 0) return { exchange: DEFAULT_EXCHANGE, symbol: compactSymbol(value) };
+  const exchange = value.slice(0, separator).toUpperCase() as Exchange;
+  if (!exchanges.includes(exchange)) return null;
+  return { exchange, symbol: compactSymbol(value.slice(separator + 1)) };
+};
+
+const describeErrors = (errors: FieldError[]) =>
+  errors.map((error) => `${error.field} ${error.message}`).join('\n');
+
+const shortId = (rule: AlertRule) => rule.id.slice(0, 8);
+
+const ruleState = (rule: AlertRule) => {
+  if (rule.isEnabled && rule.snoozedUntil && isSnoozed(rule, Date.now())) {
+    return `(snoozed until ${new Date(rule.snoozedUntil).toISOString()})`;
+  }
+  if (rule.isEnabled) return '(active)';
+  return rule.disabledReason ? `(disabled: ${rule.disabledReason})` : '(paused)';
+};
+
+const describeRule = (rule: AlertRule) =>
+  [
+    shortId(rule),
+    rule.type,
+    rule.exchange === DEFAULT_EXCHANGE ? rule.symbol : `${rule.exchange}:${rule.symbol}`,
+    rule.timeframe ?? '',
+    ruleState(rule)
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+export class TelegramBot {
+  private offset = 0;
+  private polling: AbortController | null = null;
+
+  constructor(
+    private readonly api: TelegramApi,
+    private readonly store: Store,
+    private readonly onError: (error: unknown) => void = () => undefined,
+    private readonly symbols?: SymbolCatalog
+  ) {}
+
+  async startPolling(timeoutSec = 30): Promise<void> {
+    const controller = new AbortController();
+    this.polling = controller;
+
+    while (!controller.signal.aborted) {
+      try {
+        const updates = await this.api.getUpdates(this.offset, timeoutSec, controller.signal);
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          await this.handleUpdate(update);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        this.onError(error);
+        await new Promise((resolve) => setTimeout(resolve, 5_000));
+      }
+    }
+  }
+
+  stop(): void {
+    this.polling?.abort();
+    this.polling = null;
+  }
+
+  async handleUpdate(update: TelegramUpdate): Promise<void> {
+    try {
+      if (update.callback_query) {
+        await this.handleCallback(update.callback_query);
+        return;
+      }
+
+      const message = update.message;
+      if (!message?.text?.startsWith('/')) return;
+
+      const chatId = String(message.chat.id);
+      const reply = await this.handleCommand(chatId, message.text.trim());
+      await this.api.sendMessage(chatId, reply);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  private async handleCommand(chatId: string, text: string): Promise<string> {
+    const [head, ...args] = text.split(/\s+/);
+    const command = head.slice(1).split('@')[0].toLowerCase();
+
+    if (command === 'start') return this.start(chatId, args[0]);
+    if (command === 'help') return HELP;
+
+    const user = await this.store.findUserByTelegramChatId(chatId);
+    if (!user) return 'This chat is not registered yet. Send /start first.';
+
+    switch (command) {
+      case 'add':
+        return this.addRule(user, args);
+      case 'rules':
+        return this.listRules(user);
+      case 'pause':
+      case 'resume':
+        return this.setEnabled(user, args[0], command === 'resume');
+      case 'delete':
+        return this.deleteRule(user, args[0]);
+      case 'mute':
+        return this.mute(user, args[0]);
+      default:
+        return `Unknown command /${command}.\n\n${HELP}`;
+    }
+  }
+
+  // `/start` alone registers the chat; `/start <code>` links an existing
+  // account (e.g. one created through cryptobriefs.net) to this chat. Codes
+  // come from POST /users/:id/telegram-link, so only the owner can link, and
+  // a chat another account already has is never taken over.
+  private async start(chatId: string, code?: string): Promise<string> {
+    const existing = await this.store.findUserByTelegramChatId(chatId);
+    if (code) {
+      const link = await this.store.consumeTelegramLink(sha256(code), new Date());
+      const user = link && (await this.store.getUser(link.userId));
+      if (!user) return 'That link code is invalid or has expired. Request a new one.';
+      if (existing && existing.id !== user.id) {
+        return 'This chat already belongs to another account. Link from a chat of your own.';
+      }
+      await this.store.updateUser(user.id, { telegramChatId: chatId });
+      return `Linked this chat to your account (${user.plan} plan).\n\n${HELP}`;
+    }
+
+    if (existing) {
+      return `This chat is already registered (${existing.plan} plan).\n\n${HELP}`;
+    }
+
+    await this.store.createUser({ telegramChatId: chatId, plan: 'FREE' });
+    const limit = maxRulesFor({ plan: 'FREE' });
+    return `Welcome! Your FREE account allows ${limit} rules.\n\n${HELP}`;
+  }
+
+  private async addRule(user: User, args: string[]): Promise<string> {
+    const [type, symbol, ...rest] = args;
+    if (!type || !symbol) return `Usage: /add TYPE [EXCHANGE:]SYMBOL [timeframe] key=value ...`;
+
+    const upperType = type.toUpperCase() as AlertType;
+    if (!chatTypes.includes(upperType)) {
+      return `Unknown type. Use one of: ${chatTypes.join(', ')}`;
+    }
+
+    const market = parseMarket(symbol);
+    if (!market) return `Unknown exchange. Use one of: ${exchanges.join(', ')}`;
+
+    let timeframe: Timeframe | null = null;
+    const params: Record<string, string | number | boolean> = {};
+    for (const token of rest) {
+      if (timeframes.includes(token as Timeframe)) {
+        timeframe = token as Timeframe;
+        continue;
+      }
+      const [key, value] = token.split('=');
+      if (!key || value === undefined) return `Could not read "${token}", expected key=value.`;
+      params[key] = parseValue(value);
+    }
+
+    // The same checks as POST /rules, so a rule that cannot fire is refused.
+    const checked = checkRuleSchema({
+      exchange: market.exchange,
+      symbol: market.symbol,
+      type: upperType,
+      timeframe,
+      params
+    });
+    if (checked.errors) return describeErrors(checked.errors);
+    const candidate = checked.rule;
+    const issues = ruleIssues(candidate);
+    if (issues.length > 0) return describeErrors(issues);
+
+    const problem = this.symbols?.check(market.exchange, market.symbol);
+    if (problem) return `${market.symbol} ${problem}.`;
+
+    if (!(await hasRuleCapacity(this.store, user))) {
+      return `Rule limit reached (${maxRulesFor(user)} on the ${user.plan} plan).`;
+    }
+
+    const rule = await this.store.createRule({
+      userId: user.id,
+      exchange: market.exchange,
+      symbol: market.symbol,
+      type: upperType,
+      timeframe,
+      params: candidate.params,
+      isEnabled: true,
+      cooldownSec: 900
+    });
+    return `Created ${describeRule(rule)}`;
+  }
+
+  private async listRules(user: User): Promise<string> {
+    const rules = (await this.store.listRules()).filter((rule) => rule.userId === user.id);
+    if (rules.length === 0) return 'You have no rules yet. Use /add to create one.';
+    const header = `Your rules (${rules.length}/${maxRulesFor(user)}):`;
+    return [header, ...rules.map(describeRule)].join('\n');
+  }
+
+  private async findOwnRule(user: User, id?: string): Promise<AlertRule | undefined> {
+    // Short ids from /rules are prefixes; require enough of one to be unambiguous.
+    if (!id || id.length < 4) return undefined;
+    const rules = (await this.store.listRules()).filter((rule) => rule.userId === user.id);
+    return rules.find((rule) => rule.id === id || rule.id.startsWith(id));
+  }
+
+  private async setEnabled(user: User, id: string | undefined, isEnabled: boolean) {
+    const rule = await this.findOwnRule(user, id);
+    if (!rule) return 'Rule not found. Use /rules to see your rule ids.';
+    if (isEnabled && hasExpired(rule, Date.now())) return 'Cannot resume: the rule has expired.';
+    for (const symbol of isEnabled ? ruleSymbols(rule) : []) {
+      const problem = this.symbols?.check(rule.exchange, symbol);
+      if (problem) return `Cannot resume: ${symbol} ${problem}.`;
+    }
+    const updated = await this.store.updateRule(
+      rule.id,
+      isEnabled ? { isEnabled, disabledReason: undefined } : { isEnabled }
+    );
+    return updated ? `Updated ${describeRule(updated)}` : 'Rule not found.';
+  }
+
+  private async deleteRule(user: User, id?: string): Promise<string> {
+    const rule = await this.findOwnRule(user, id);
+    if (!rule) return 'Rule not found. Use /rules to see your rule ids.';
+    await this.store.deleteRule(rule.id);
+    return `Deleted ${shortId(rule)}`;
+  }
+
+  private async mute(user: User, duration?: string): Promise<string> {
+    if (duration === 'off') {
+      await this.store.updateUser(user.id, { mutedUntil: undefined });
+      return 'Alerts unmuted.';
+    }
+
+    const ms = duration ? parseDuration(duration) : null;
+    if (!ms) return 'Usage: /mute 30m | 2h | 1d | off';
+    if (ms > MAX_SNOOZE_SEC * 1000) return `Alerts can be muted for ${MAX_MUTE_DAYS}d at most.`;
+
+    const mutedUntil = new Date(Date.now() + ms);
+    await this.store.updateUser(user.id, { mutedUntil });
+    return `Alerts muted until ${mutedUntil.toISOString()}.`;
+  }
+
+  private async handleCallback(
+    query: NonNullable<TelegramUpdate['callback_query']>
+  ): Promise<void> {
+    const [action, ruleId, seconds] = (query.data ?? '').split(':');
+    const chatId = query.message ? String(query.message.chat.id) : '';
+    const user = chatId ? await this.store.findUserByTelegramChatId(chatId) : undefined;
+    const rule = ruleId ? await this.store.getRule(ruleId) : undefined;
+
+    if (!user || !rule || rule.userId !== user.id) {
+      await this.api.answerCallbackQuery(query.id, 'Rule not found.');
+      return;
+    }
+
+    if (action === 'snooze') {
+      // Callback data can be forged; only the duration the button offers goes.
+      if (Number(seconds) !== SNOOZE_BUTTON_SEC) {
+        await this.api.answerCallbackQuery(query.id, 'Unknown snooze duration.');
+        return;
+      }
+      const snoozedUntil = new Date(Date.now() + SNOOZE_BUTTON_SEC * 1000);
+      await this.store.updateRule(rule.id, { snoozedUntil });
+      await this.api.answerCallbackQuery(query.id, `Snoozed until ${snoozedUntil.toISOString()}`);
+      return;
+    }
+
+    if (action === 'disable') {
+      await this.store.updateRule(rule.id, { isEnabled: false });
+      await this.api.answerCallbackQuery(query.id, 'Rule disabled. Use /resume to re-enable.');
+      return;
+    }
+
+    await this.api.answerCallbackQuery(query.id, 'Unknown action.');
+  }
+}
@@ -0,0 +1,146 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import { CandleStore } from '../store/candleStore.js';
+import type { TriggeredAlert } from '../types/domain.js';
+import { AlertCharts } from './alertChart.js';
+import { DeliveryError } from './dispatcher.js';
+import { TelegramApi } from './telegramApi.js';
+import { TelegramDispatcher } from './telegramDispatcher.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert: TriggeredAlert = {
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+};
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+describe('TelegramDispatcher', () => {
+  let handler: Handler;
+  let dispatcher: TelegramDispatcher;
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  const timeoutMs = config.deliveryTimeoutMs;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    dispatcher = new TelegramDispatcher(new TelegramApi('token', `http://127.0.0.1:${port}`));
+    config.deliveryTimeoutMs = 200;
+  });
+
+  afterEach(() => server.closeAllConnections());
+
+  after(async () => {
+    config.deliveryTimeoutMs = timeoutMs;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('sends the alert to the user chat with snooze and disable buttons', async () => {
+    let sent: { url?: string; body: Record<string, unknown> } | undefined;
+    handler = (request, body, response) => {
+      sent = { url: request.url, body: JSON.parse(body) };
+      response.end(JSON.stringify({ ok: true, result: { message_id: 1 } }));
+    };
+
+    await dispatcher.dispatch(alert);
+    assert.equal(sent?.url, '/bottoken/sendMessage');
+    assert.equal(sent?.body.chat_id, '100');
+    assert.match(sent?.body.text as string, /BTCUSDT/);
+    const { inline_keyboard: keyboard } = sent?.body.reply_markup as {
+      inline_keyboard: Array<Array<{ callback_data?: string }>>;
+    };
+    assert.deepEqual(
+      keyboard[1].map((button) => button.callback_data),
+      ['snooze:rule-1:3600', 'disable:rule-1']
+    );
+  });
+
+  test('sends the chart captured with the alert as a photo under the message', async () => {
+    const candles = new CandleStore();
+    const charts = new AlertCharts(candles);
+    for (let index = 0; index < 5; index += 1) {
+      candles.add({
+        exchange: 'BINANCE',
+        symbol: 'BTCUSDT',
+        interval: '15m',
+        openTime: now.getTime() + index * 900_000,
+        closeTime: now.getTime() + (index + 1) * 900_000 - 1,
+        open: 65000,
+        high: 65200,
+        low: 64900,
+        close: 65100 + index,
+        volume: 1,
+        isFinal: true
+      });
+    }
+    const withChart = { ...alert, payload: { ...alert.payload, timeframe: '15m' } };
+    const chartCandles = charts.capture(withChart);
+
+    const urls: Array<string | undefined> = [];
+    let form = '';
+    handler = (request, body, response) => {
+      urls.push(request.url);
+      form = body;
+      // Not kept alive, so the next test does not reuse a socket closed under it.
+      response.setHeader('Connection', 'close');
+      response.end(JSON.stringify({ ok: true, result: { message_id: 1 } }));
+    };
+    const { port } = server.address() as AddressInfo;
+    const api = new TelegramApi('token', `http://127.0.0.1:${port}`);
+    await new TelegramDispatcher(api, undefined, charts).dispatch({ ...withChart, chartCandles });
+    assert.deepEqual(urls, ['/bottoken/sendPhoto']);
+    assert.match(form, /image\/png/);
+    assert.match(form, /BTCUSDT/);
+
+    urls.length = 0;
+    await new TelegramDispatcher(api, undefined, charts).dispatch(withChart);
+    assert.deepEqual(urls, ['/bottoken/sendMessage']);
+  });
+
+  test('fails for good when Telegram rejects the chat', async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(400);
+      response.end(JSON.stringify({ ok: false, description: 'Bad Request: chat not found' }));
+    };
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'TELEGRAM', destination: '404' }),
+      (error: DeliveryError) => {
+        assert.equal(error.status, 400);
+        assert.equal(error.permanent, true);
+        return true;
+      }
+    );
+  });
+
+  test('gives up on a call that never answers, as a retryable failure', async () => {
+    handler = () => {};
+
+    await assert.rejects(dispatcher.dispatch(alert), (error: DeliveryError) => {
+      assert.equal(error.message, 'Telegram sendMessage timed out after 0.2s');
+      assert.equal(error.permanent, false);
+      return true;
+    });
+  });
+});
@@ -1,59 +1,64 @@
-import type { TriggeredAlert } from '../types/domain.js';
+import type { AlertDigest, ChannelTarget, TriggeredAlert } from '../types/domain.js';
 import { config } from '../config.js';
+import type { AlertCharts } from './alertChart.js';
+import { AlertRenderer } from './alertMessage.js';
+import type { Dispatcher } from './dispatcher.js';
+import { toTelegramText } from './messageTemplates.js';
+import { CAPTION_LIMIT, TelegramApi, type InlineKeyboard } from './telegramApi.js';
 
-export class TelegramDispatcher {
-  async dispatch(alert: TriggeredAlert): Promise<void> {
-    if (!config.telegramBotToken) {
-      throw new Error('Missing TELEGRAM_BOT_TOKEN');
-    }
+export const SNOOZE_BUTTON_SEC = 3600;
 
-    const message = this.buildMessage(alert);
-    const body = {
-      chat_id: alert.user.telegramChatId,
-      text: message,
-      parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [
-          [
-            {
-              text: 'View on CryptoBriefs',
-              url: config.telegramDefaultLink
-            }
-          ]
-        ]
-      }
-    };
+export class TelegramDispatcher implements Dispatcher {
+  readonly channel = 'TELEGRAM' as const;
 
-    const response = await fetch(
-      `https://api.telegram.org/bot${config.telegramBotToken}/sendMessage`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      }
-    );
+  constructor(
+    private readonly api: TelegramApi = new TelegramApi(),
+    private readonly renderer: AlertRenderer = new AlertRenderer(),
+    private readonly charts?: AlertCharts
+  ) {}
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Telegram send failed: ${response.status} ${text}`);
+  configurationError(): string | null {
+    return this.api.configured ? null : 'Missing TELEGRAM_BOT_TOKEN';
+  }
+
+  async dispatch(alert: TriggeredAlert, target?: ChannelTarget): Promise<void> {
+    const chatId = target?.destination ?? alert.user.telegramChatId;
+    const text = toTelegramText(this.renderer.render(alert), config.telegramParseMode);
+    const keyboard: InlineKeyboard = [
+      [
+        {
+          text: 'View on CryptoBriefs',
+          url: config.telegramDefaultLink
+        }
+      ],
+      [
+        { text: 'Snooze 1h', callback_data: `snooze:${alert.rule.id}:${SNOOZE_BUTTON_SEC}` },
+        { text: 'Disable rule', callback_data: `disable:${alert.rule.id}` }
+      ]
+    ];
+
+    const chart = this.charts?.forAlert(alert);
+    if (chart && text.length <= CAPTION_LIMIT) {
+      await this.api.sendPhoto(chatId, chart, {
+        caption: text,
+        parseMode: config.telegramParseMode,
+        keyboard
+      });
+      return;
     }
+    // Text too long for a caption follows the chart as its own message.
+    if (chart) await this.api.sendPhoto(chatId, chart);
+    await this.api.sendMessage(chatId, text, { parseMode: config.telegramParseMode, keyboard });
   }
 
-  private buildMessage(alert: TriggeredAlert): string {
-    const payload = alert.payload as Record<string, unknown>;
-    return [
-      `*${alert.rule.type.replace('_', ' ')} Alert*`,
-      `Symbol: ${alert.rule.symbol}`,
-      payload.timeframe ? `Timeframe: ${payload.timeframe}` : null,
-      payload.change ? `Change: ${Number(payload.change).toFixed(2)}%` : null,
-      payload.price
-        ? `Price: ${Number(payload.price).toFixed(4)}`
-        : payload.close
-          ? `Close: ${Number(payload.close).toFixed(4)}`
-          : null,
-      payload.volume ? `Volume: ${payload.volume}` : null
-    ]
-      .filter(Boolean)
-      .join('\n');
+  async dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void> {
+    await this.api.sendMessage(
+      target.destination,
+      toTelegramText(this.renderer.renderDigest(digest), config.telegramParseMode),
+      {
+        parseMode: config.telegramParseMode,
+        keyboard: [[{ text: 'View on CryptoBriefs', url: config.telegramDefaultLink }]]
+      }
+    );
   }
 }
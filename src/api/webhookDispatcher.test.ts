@@ -0,0 +1,108 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../config.js';
+import type { TriggeredAlert } from '../types/domain.js';
+import { DeliveryError } from './dispatcher.js';
+import { signWebhook, WebhookDispatcher } from './webhookDispatcher.js';
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const alert: TriggeredAlert = {
+  rule: {
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '15m',
+    params: { lookback: 20, direction: 'UP' },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  },
+  user: { id: 'user-1', telegramChatId: '100', plan: 'PRO', createdAt: now, updatedAt: now },
+  payload: { close: 65120.35, highest: 64980, direction: 'UP' }
+};
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+describe('WebhookDispatcher', () => {
+  let handler: Handler;
+  let destination: string;
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  const dispatcher = new WebhookDispatcher();
+  const timeoutMs = config.deliveryTimeoutMs;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    destination = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    config.allowInternalDestinations = true;
+    config.deliveryTimeoutMs = 200;
+  });
+
+  afterEach(() => server.closeAllConnections());
+
+  after(async () => {
+    config.allowInternalDestinations = false;
+    config.deliveryTimeoutMs = timeoutMs;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('posts the alert signed with the target secret', async () => {
+    let seen: { headers: IncomingMessage['headers']; body: string } | undefined;
+    handler = (request, body, response) => {
+      seen = { headers: request.headers, body };
+      response.end('ok');
+    };
+
+    await dispatcher.dispatch(alert, { channel: 'WEBHOOK', destination, secret: 'shh' });
+    assert.ok(seen);
+    const timestamp = Number(seen.headers['x-alert-timestamp']);
+    assert.equal(
+      seen.headers['x-alert-signature'],
+      `sha256=${signWebhook('shh', timestamp, seen.body)}`
+    );
+    assert.deepEqual(JSON.parse(seen.body), {
+      event: 'alert.triggered',
+      rule: { id: 'rule-1', type: 'BREAKOUT', symbol: 'BTCUSDT', timeframe: '15m' },
+      userId: 'user-1',
+      payload: alert.payload
+    });
+  });
+
+  test('fails with the status of a non-2xx response', async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(410);
+      response.end('gone');
+    };
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'WEBHOOK', destination, secret: 'shh' }),
+      (error: DeliveryError) => {
+        assert.equal(error.message, 'Webhook send failed: 410 gone');
+        assert.equal(error.permanent, true);
+        return true;
+      }
+    );
+  });
+
+  test('gives up on a receiver that never answers, as a retryable failure', async () => {
+    handler = () => {};
+
+    await assert.rejects(
+      dispatcher.dispatch(alert, { channel: 'WEBHOOK', destination, secret: 'shh' }),
+      (error: DeliveryError) => {
+        assert.equal(error.message, 'Webhook send timed out after 0.2s');
+        assert.equal(error.permanent, false);
+        return true;
+      }
+    );
+  });
+});
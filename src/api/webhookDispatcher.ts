@@ -0,0 +1,52 @@
+import { createHmac } from 'node:crypto';
+import type { AlertDigest, ChannelTarget, TriggeredAlert } from '../types/domain.js';
+import { config } from '../config.js';
+import { postJson, type Dispatcher } from './dispatcher.js';
+
+// Receivers verify with HMAC-SHA256(secret, `${timestamp}.${body}`) and should
+// reject timestamps outside a few minutes to stop replays.
+export const signWebhook = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const ruleSummary = (alert: TriggeredAlert) => ({
+  id: alert.rule.id,
+  type: alert.rule.type,
+  symbol: alert.rule.symbol,
+  timeframe: alert.rule.timeframe
+});
+
+export class WebhookDispatcher implements Dispatcher {
+  readonly channel = 'WEBHOOK' as const;
+
+  async dispatch(alert: TriggeredAlert, target: ChannelTarget): Promise<void> {
+    await this.post(target, {
+      event: 'alert.triggered',
+      rule: ruleSummary(alert),
+      userId: alert.user.id,
+      payload: alert.payload
+    });
+  }
+
+  async dispatchDigest(digest: AlertDigest, target: ChannelTarget): Promise<void> {
+    await this.post(target, {
+      event: 'alert.digest',
+      userId: digest.user.id,
+      alerts: digest.alerts.map((alert) => ({ rule: ruleSummary(alert), payload: alert.payload }))
+    });
+  }
+
+  private async post(target: ChannelTarget, message: Record<string, unknown>) {
+    const secret = target.secret ?? config.webhookSigningSecret;
+    if (!secret) {
+      throw new Error('Missing WEBHOOK_SIGNING_SECRET');
+    }
+
+    const body = JSON.stringify(message);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    await postJson('Webhook', target.destination, body, {
+      'X-Alert-Timestamp': String(timestamp),
+      'X-Alert-Signature': `sha256=${signWebhook(secret, timestamp, body)}`
+    });
+  }
+}
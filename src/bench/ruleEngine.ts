@@ -0,0 +1,74 @@
+// Synthetic load for RuleEngine: 10k rules over 50 symbols, fed a random walk
+// of 1m candles. Run with `npm run bench`; RULES, SYMBOLS and MINUTES override
+// the defaults.
+import { CandleStore } from '../store/candleStore.js';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import { RuleEngine } from '../rule/ruleEngine.js';
+import { candleFeed, randomRule, seededRandom, symbolNames } from './synthetic.js';
+
+const RULES = Number(process.env.RULES ?? 10_000);
+const SYMBOLS = Number(process.env.SYMBOLS ?? 50);
+const MINUTES = Number(process.env.MINUTES ?? 600);
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+const main = async () => {
+  const start = Date.UTC(2026, 0, 1);
+  let now = start;
+  const random = seededRandom(42);
+  const symbols = symbolNames(SYMBOLS);
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => now);
+  const user = await store.createUser({ telegramChatId: 'bench', plan: 'PRO' });
+  for (let index = 0; index < RULES; index += 1) {
+    await store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      isEnabled: true,
+      cooldownSec: 900,
+      ...randomRule(random, symbols)
+    });
+  }
+
+  const latencies: number[] = [];
+  let fired = 0;
+  const started = process.hrtime.bigint();
+
+  for (const candle of candleFeed(random, symbols, MINUTES, start)) {
+    now = candle.closeTime + 1;
+    const { symbol, close } = candle;
+
+    const begin = process.hrtime.bigint();
+    fired += (await engine.evaluateCandle(candle)).length;
+    fired += (await engine.evaluateExtremeMove(candle)).length;
+    fired += (
+      await engine.evaluatePrice({ exchange: 'BINANCE', symbol, price: close, eventTime: now })
+    ).length;
+    latencies.push(Number(process.hrtime.bigint() - begin) / 1e6);
+  }
+
+  const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+  latencies.sort((a, b) => a - b);
+  console.log(
+    JSON.stringify(
+      {
+        rules: RULES,
+        symbols: SYMBOLS,
+        candles: latencies.length,
+        alerts: fired,
+        elapsedMs: Math.round(elapsedMs),
+        candlesPerSec: Math.round((latencies.length / elapsedMs) * 1000),
+        latencyMs: {
+          p50: percentile(latencies, 50).toFixed(3),
+          p99: percentile(latencies, 99).toFixed(3),
+          max: latencies[latencies.length - 1].toFixed(3)
+        }
+      },
+      null,
+      2
+    )
+  );
+};
+
+await main();
@@ -0,0 +1,101 @@
+// Seeded rules and candles for exercising RuleEngine at scale; shared by the
+// benchmark and the engine tests so both run the same workload.
+import type { NewAlertRule } from '../store/store.js';
+import type { Candle } from '../types/domain.js';
+
+export type RuleShape = Pick<NewAlertRule, 'symbol' | 'type' | 'timeframe' | 'params'>;
+
+const MINUTE = 60_000;
+
+// mulberry32, so runs with the same seed are comparable.
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+};
+
+export const symbolNames = (count: number) =>
+  Array.from({ length: count }, (_, index) => `SYM${index}USDT`);
+
+const directions = ['UP', 'DOWN', 'BOTH'] as const;
+
+export const randomRule = (random: () => number, symbols: string[]): RuleShape => {
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const symbol = pick(symbols);
+
+  switch (pick(['BREAKOUT', 'VOLUME_SPIKE', 'RSI', 'EXTREME_MOVE', 'PRICE_CROSS'] as const)) {
+    case 'BREAKOUT':
+      return {
+        symbol,
+        type: 'BREAKOUT',
+        timeframe: '1m',
+        params: { lookback: pick([20, 50, 100, 200]), direction: pick(directions) }
+      };
+    case 'VOLUME_SPIKE':
+      return {
+        symbol,
+        type: 'VOLUME_SPIKE',
+        timeframe: '1m',
+        params: { lookback: pick([20, 50, 100]), multiplier: pick([2, 3, 5]) }
+      };
+    case 'RSI':
+      return {
+        symbol,
+        type: 'RSI',
+        timeframe: '1m',
+        params: { period: 14, level: pick([30, 70]), direction: pick(directions) }
+      };
+    case 'EXTREME_MOVE':
+      return {
+        symbol,
+        type: 'EXTREME_MOVE',
+        timeframe: '1m',
+        params: {
+          windowMin: pick([5, 15, 60, 240]),
+          percent: pick([1, 2, 5]),
+          direction: 'BOTH'
+        }
+      };
+    case 'PRICE_CROSS':
+      return {
+        symbol,
+        type: 'PRICE_CROSS',
+        timeframe: null,
+        params: { price: 100 * (0.95 + random() * 0.1), direction: 'EITHER' }
+      };
+  }
+};
+
+// A random walk of closed 1m candles starting at 100, every symbol once per
+// minute, with the occasional volume spike.
+export function* candleFeed(
+  random: () => number,
+  symbols: string[],
+  minutes: number,
+  start: number
+): Generator<Candle> {
+  const prices = new Map(symbols.map((symbol) => [symbol, 100]));
+
+  for (let minute = 0; minute < minutes; minute += 1) {
+    const openTime = start + minute * MINUTE;
+    for (const symbol of symbols) {
+      const open = prices.get(symbol) ?? 100;
+      const close = open * (1 + (random() - 0.5) * 0.01);
+      prices.set(symbol, close);
+      yield {
+        exchange: 'BINANCE',
+        symbol,
+        interval: '1m',
+        openTime,
+        closeTime: openTime + MINUTE - 1,
+        open,
+        high: Math.max(open, close) * (1 + random() * 0.002),
+        low: Math.min(open, close) * (1 - random() * 0.002),
+        close,
+        volume: 10 + random() * (random() < 0.02 ? 500 : 50),
+        isFinal: true
+      };
+    }
+  }
+}
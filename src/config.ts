@@ -1,14 +1,114 @@
+import type { Locale, Timeframe } from './types/domain.js';
+import { timeframes } from './utils/timeframes.js';
+
 const readNumber = (value: string | undefined, fallback: number) => {
   if (!value) return fallback;
   const parsed = Number(value);
   return Number.isNaN(parsed) ? fallback : parsed;
 };
 
+// `1m=1440,1h=1000` caps how many candles CandleStore keeps per timeframe.
+const readCandleLimits = (value: string | undefined) => {
+  const limits: Partial<Record<Timeframe, number>> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [timeframe, limit] = entry.split('=').map((part) => part.trim());
+    const parsed = Number(limit);
+    if (timeframes.includes(timeframe as Timeframe) && Number.isInteger(parsed) && parsed > 1) {
+      limits[timeframe as Timeframe] = parsed;
+    }
+  }
+  return limits;
+};
+
+const readSymbolSource = (value: string | undefined): 'live' | 'snapshot' =>
+  value === 'snapshot' ? value : 'live';
+
+const readLocale = (value: string | undefined): Locale => (value === 'id' ? value : 'en');
+
+const readParseMode = (value: string | undefined): 'MarkdownV2' | 'HTML' =>
+  value === 'HTML' ? value : 'MarkdownV2';
+
+// Persistent by default; 'memory' loses everything on restart.
+const readStoreDriver = (value: string | undefined): 'memory' | 'sqlite' | 'postgres' =>
+  value === 'memory' || value === 'postgres' ? value : 'sqlite';
+
 export const config = {
   port: readNumber(process.env.PORT, 3000),
   telegramBotToken: process.env.TELEGRAM_BOT_TOKEN ?? '',
+  telegramApiUrl: process.env.TELEGRAM_API_URL ?? 'https://api.telegram.org',
+  // 'polling' runs a getUpdates loop, 'webhook' expects POST /telegram/webhook.
+  telegramBotMode: process.env.TELEGRAM_BOT_MODE ?? 'off',
+  telegramWebhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET ?? '',
   telegramDefaultLink: process.env.TELEGRAM_DEFAULT_LINK ?? 'https://cryptobriefs.net',
+  // How alert messages are marked up for Telegram: 'MarkdownV2' or 'HTML'.
+  telegramParseMode: readParseMode(process.env.TELEGRAM_PARSE_MODE),
+  // Locale of users who have not picked one: 'en' or 'id'.
+  defaultLocale: readLocale(process.env.DEFAULT_LOCALE),
+  telegramPerChatIntervalMs: readNumber(process.env.TELEGRAM_PER_CHAT_INTERVAL_MS, 1_000),
+  telegramGlobalPerSec: readNumber(process.env.TELEGRAM_GLOBAL_PER_SEC, 30),
+  deliveryMaxAttempts: readNumber(process.env.DELIVERY_MAX_ATTEMPTS, 8),
+  deliveryBaseBackoffMs: readNumber(process.env.DELIVERY_BASE_BACKOFF_MS, 5_000),
+  deliveryMaxBackoffMs: readNumber(process.env.DELIVERY_MAX_BACKOFF_MS, 15 * 60_000),
+  // How long one outbound send may take before it is abandoned and retried.
+  deliveryTimeoutMs: readNumber(process.env.DELIVERY_TIMEOUT_MS, 10_000),
+  // Days of alert and notification history to keep; 0 keeps it forever.
+  alertRetentionDays: readNumber(process.env.ALERT_RETENTION_DAYS, 90),
+  notificationRetentionDays: readNumber(process.env.NOTIFICATION_RETENTION_DAYS, 30),
+  retentionIntervalMs: readNumber(process.env.RETENTION_INTERVAL_MS, 60 * 60_000),
+  // Pruned history is appended here as NDJSON; empty deletes without archiving.
+  retentionArchiveDir: process.env.RETENTION_ARCHIVE_DIR ?? '',
+  // How often expired rules are disabled and lapsed snoozes cleared.
+  ruleSchedulerIntervalMs: readNumber(process.env.RULE_SCHEDULER_INTERVAL_MS, 60_000),
+  webhookSigningSecret: process.env.WEBHOOK_SIGNING_SECRET ?? '',
+  // Lets webhook, Discord and Slack targets point at loopback and private
+  // networks. Off outside local testing: users choose those URLs.
+  allowInternalDestinations: process.env.ALLOW_INTERNAL_DESTINATIONS === 'true',
+  smtpHost: process.env.SMTP_HOST ?? '',
+  smtpPort: readNumber(process.env.SMTP_PORT, 587),
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  smtpUser: process.env.SMTP_USER ?? '',
+  smtpPass: process.env.SMTP_PASS ?? '',
+  smtpFrom: process.env.SMTP_FROM ?? 'alerts@cryptobriefs.net',
+  // Static key with the admin role, for bootstrapping users and the backoffice.
+  adminApiKey: process.env.ADMIN_API_KEY ?? '',
+  // HS256 secret shared with cryptobriefs.net; JWT auth is off when empty.
+  authJwtSecret: process.env.AUTH_JWT_SECRET ?? '',
+  authJwtIssuer: process.env.AUTH_JWT_ISSUER ?? '',
+  authJwtAudience: process.env.AUTH_JWT_AUDIENCE ?? '',
   maxRulesFree: readNumber(process.env.MAX_RULES_FREE, 3),
   maxRulesPro: readNumber(process.env.MAX_RULES_PRO, 20),
-  logLevel: process.env.LOG_LEVEL ?? 'info'
+  // Plans whose alerts come with a chart unless a rule says otherwise.
+  chartPlans: (process.env.CHART_PLANS ?? 'PRO')
+    .split(',')
+    .map((plan) => plan.trim().toUpperCase())
+    .filter(Boolean),
+  binanceWsUrl: process.env.BINANCE_WS_URL ?? 'wss://stream.binance.com:9443',
+  wsMaxStreamsPerConnection: readNumber(process.env.WS_MAX_STREAMS_PER_CONNECTION, 200),
+  wsStaleAfterMs: readNumber(process.env.WS_STALE_AFTER_MS, 90_000),
+  binanceRestUrl: process.env.BINANCE_REST_URL ?? 'https://api.binance.com',
+  binanceExchangeInfoUrl:
+    process.env.BINANCE_EXCHANGE_INFO_URL ??
+    `${process.env.BINANCE_REST_URL ?? 'https://api.binance.com'}/api/v3/exchangeInfo`,
+  bybitWsUrl: process.env.BYBIT_WS_URL ?? 'wss://stream.bybit.com',
+  bybitRestUrl: process.env.BYBIT_REST_URL ?? 'https://api.bybit.com',
+  // Exchanges rules may target, comma-separated.
+  enabledExchanges: (process.env.ENABLED_EXCHANGES ?? 'BINANCE,BYBIT')
+    .split(',')
+    .map((exchange) => exchange.trim().toUpperCase())
+    .filter(Boolean),
+  // 'live' loads each exchange's listing over REST, falling back to the bundled
+  // Binance snapshot; 'snapshot' only ever uses the snapshot.
+  symbolCatalogSource: readSymbolSource(process.env.SYMBOL_CATALOG_SOURCE),
+  symbolRefreshMs: readNumber(process.env.SYMBOL_REFRESH_MS, 6 * 60 * 60_000),
+  backfillLimit: readNumber(process.env.BACKFILL_LIMIT, 500),
+  candleLimits: readCandleLimits(process.env.CANDLE_LIMITS),
+  // Channels /health/ready requires to be configured, comma-separated.
+  readyRequiredChannels: (process.env.READY_REQUIRED_CHANNELS ?? 'TELEGRAM')
+    .split(',')
+    .map((channel) => channel.trim().toUpperCase())
+    .filter(Boolean),
+  logLevel: process.env.LOG_LEVEL ?? 'info',
+  storeDriver: readStoreDriver(process.env.STORE_DRIVER),
+  sqlitePath: process.env.SQLITE_PATH ?? 'data/alerts.db',
+  databaseUrl: process.env.DATABASE_URL ?? ''
 };
@@ -1,19 +1,157 @@
 import Fastify from 'fastify';
 import { config } from './config.js';
 import { registerRoutes } from './api/routes.js';
+import { AlertCharts } from './api/alertChart.js';
+import { AlertRenderer } from './api/alertMessage.js';
+import { AlertStreamHub } from './api/alertStream.js';
+import { Authenticator } from './api/auth.js';
+import { DiscordDispatcher } from './api/discordDispatcher.js';
+import { planDelivery } from './api/deliveryPolicy.js';
+import { DeliveryQueue } from './api/deliveryQueue.js';
+import { DispatcherRegistry } from './api/dispatcher.js';
+import { EmailDispatcher } from './api/emailDispatcher.js';
+import { checkReadiness } from './api/health.js';
+import { createServiceMetrics } from './api/metrics.js';
+import { RateLimiter, telegramRateLimit } from './api/rateLimiter.js';
+import { SlackDispatcher } from './api/slackDispatcher.js';
+import { TelegramApi } from './api/telegramApi.js';
+import { TelegramBot } from './api/telegramBot.js';
 import { TelegramDispatcher } from './api/telegramDispatcher.js';
-import { MarketDataService } from './market/marketData.js';
+import { WebhookDispatcher } from './api/webhookDispatcher.js';
+import { BinanceAdapter } from './market/binance.js';
+import { BybitAdapter } from './market/bybit.js';
+import { ExchangeRegistry } from './market/exchange.js';
+import { KlineRestClient } from './market/klineRest.js';
+import { klineKey, MarketDataService, tickerKey } from './market/marketData.js';
+import { binanceSymbols } from './market/binanceSymbols.js';
+import { SymbolCatalog } from './market/symbolCatalog.js';
+import { checkSymbol, checkTimeframe, collectChecks } from './rule/composite.js';
+import { disableDelistedRules } from './rule/delisting.js';
+import { RuleScheduler } from './rule/lifecycle.js';
 import { RuleEngine } from './rule/ruleEngine.js';
 import { CandleStore } from './store/candleStore.js';
-import { InMemoryStore } from './store/inMemoryStore.js';
-import type { AlertEvent, NotificationLog, Timeframe, TriggeredAlert } from './types/domain.js';
+import { createStore } from './store/createStore.js';
+import { RetentionJob } from './store/retention.js';
+import type {
+  AlertEvent,
+  AlertRule,
+  Candle,
+  CompositeParams,
+  Exchange,
+  NotificationChannel,
+  PriceTick,
+  Timeframe,
+  TriggeredAlert
+} from './types/domain.js';
 import { newId } from './utils/ids.js';
 
-const app = Fastify({ logger: { level: config.logLevel } });
-const store = new InMemoryStore();
-const candleStore = new CandleStore();
+// The webhook route is public: the secret is all that keeps others from
+// posting updates as any chat.
+if (config.telegramBotMode === 'webhook' && !config.telegramWebhookSecret) {
+  throw new Error('Missing TELEGRAM_WEBHOOK_SECRET for TELEGRAM_BOT_MODE=webhook');
+}
+
+const app = Fastify({
+  logger: { level: config.logLevel },
+  // Report every invalid field, and reject unknown ones instead of stripping
+  // them. Bodies are bounded by maxItems in the schemas.
+  ajv: { customOptions: { allErrors: true, removeAdditional: false } }
+});
+const store = await createStore();
+const candleStore = new CandleStore(config.candleLimits);
 const ruleEngine = new RuleEngine(store, candleStore);
-const dispatcher = new TelegramDispatcher();
+const telegramApi = new TelegramApi();
+// Prices in messages use the pair's tick size once the catalog has loaded.
+const tickSize = (exchange: Exchange, symbol: string) =>
+  symbolCatalog.lookup(exchange, symbol)?.tickSize;
+const renderer = new AlertRenderer(tickSize);
+const charts = new AlertCharts(candleStore, tickSize);
+const dispatchers = new DispatcherRegistry()
+  .register(new TelegramDispatcher(telegramApi, renderer, charts))
+  .register(new WebhookDispatcher())
+  .register(new DiscordDispatcher(renderer))
+  .register(new SlackDispatcher(renderer))
+  .register(new EmailDispatcher(renderer));
+const deliveryQueue = new DeliveryQueue(store, dispatchers, {
+  limiter: new RateLimiter({
+    TELEGRAM: telegramRateLimit(config.telegramPerChatIntervalMs, config.telegramGlobalPerSec)
+  }),
+  maxAttempts: config.deliveryMaxAttempts,
+  baseBackoffMs: config.deliveryBaseBackoffMs,
+  maxBackoffMs: config.deliveryMaxBackoffMs,
+  onResult: (outcome, notification, error) => {
+    const context = {
+      err: error,
+      notificationId: notification.id,
+      ruleId: notification.ruleId,
+      channel: notification.channel,
+      attempts: notification.attempts
+    };
+    metrics.dispatches.inc({ channel: notification.channel, outcome });
+    if (outcome === 'SENT') app.log.info(context, 'Alert dispatched');
+    if (outcome === 'RETRY') app.log.warn(context, 'Alert dispatch failed, will retry');
+    if (outcome === 'DEAD_LETTER') app.log.error(context, 'Alert dispatch dead-lettered');
+  }
+});
+const exchanges = new ExchangeRegistry();
+for (const adapter of [
+  new BinanceAdapter({
+    wsUrl: config.binanceWsUrl,
+    maxStreamsPerConnection: config.wsMaxStreamsPerConnection,
+    exchangeInfoUrl: config.binanceExchangeInfoUrl,
+    rest: new KlineRestClient()
+  }),
+  new BybitAdapter({
+    wsUrl: config.bybitWsUrl,
+    restUrl: config.bybitRestUrl,
+    maxStreamsPerConnection: config.wsMaxStreamsPerConnection
+  })
+]) {
+  if (config.enabledExchanges.includes(adapter.exchange)) exchanges.register(adapter);
+}
+// Tells a rule's owner that the service switched the rule off, and why.
+const notifyDisabled = async (rule: AlertRule) => {
+  app.log.warn({ ruleId: rule.id, reason: rule.disabledReason }, 'Rule disabled');
+  const user = await store.getUser(rule.userId);
+  if (!user?.telegramChatId) return;
+  await telegramApi
+    .sendMessage(
+      user.telegramChatId,
+      `Your ${rule.type} rule ${rule.id.slice(0, 8)} was disabled: ${rule.disabledReason}.`
+    )
+    .catch((error) => {
+      app.log.error({ err: error, ruleId: rule.id }, 'Failed to notify rule owner');
+    });
+};
+
+const symbolCatalog = new SymbolCatalog(exchanges, {
+  source: config.symbolCatalogSource,
+  refreshMs: config.symbolRefreshMs,
+  snapshots: { BINANCE: binanceSymbols },
+  onRefresh: async (exchange) => {
+    for (const rule of await disableDelistedRules(store, symbolCatalog, exchange)) {
+      await notifyDisabled(rule);
+    }
+  },
+  onError: (error, exchange) => {
+    app.log.error({ err: error, exchange }, 'Failed to load symbol listing');
+  }
+});
+const telegramBot = new TelegramBot(
+  telegramApi,
+  store,
+  (error) => {
+    app.log.error({ err: error }, 'Telegram bot update failed');
+  },
+  symbolCatalog
+);
+const alertStream = new AlertStreamHub(store);
+const auth = new Authenticator(store, {
+  adminApiKey: config.adminApiKey,
+  jwtSecret: config.authJwtSecret,
+  jwtIssuer: config.authJwtIssuer,
+  jwtAudience: config.authJwtAudience
+});
 
 const handleTriggeredAlerts = async (
   alerts: TriggeredAlert[],
@@ -22,46 +160,25 @@ const handleTriggeredAlerts = async (
   await Promise.all(
     alerts.map(async (alert, index) => {
       const event = events[index];
-      store.addAlert(event);
-      try {
-        await dispatcher.dispatch({ rule: alert.rule, user: alert.user, payload: event.payload });
-        const notification: NotificationLog = {
-          id: newId(),
-          alertEventId: event.id,
-          ruleId: alert.rule.id,
-          userId: alert.user.id,
-          channel: 'TELEGRAM',
-          status: 'SENT',
-          sentAt: new Date()
-        };
-        store.addNotification(notification);
-        app.log.info({ ruleId: alert.rule.id }, 'Alert dispatched');
-      } catch (error) {
-        const notification: NotificationLog = {
-          id: newId(),
-          alertEventId: event.id,
-          ruleId: alert.rule.id,
-          userId: alert.user.id,
-          channel: 'TELEGRAM',
-          status: 'FAILED',
-          error: error instanceof Error ? error.message : String(error),
-          sentAt: new Date()
-        };
-        store.addNotification(notification);
-        app.log.error({ err: error, ruleId: alert.rule.id }, 'Failed to dispatch alert');
+      await store.addAlert(event);
+      alertStream.publish(event);
+      const plan = planDelivery(alert, Date.now());
+      if (plan.action !== 'SEND') {
+        app.log.info({ ruleId: alert.rule.id, plan }, 'Alert deferred by user preferences');
       }
+      await Promise.all(
+        dispatchers
+          .resolveTargets(alert)
+          .map((target) => deliveryQueue.enqueue(alert, event, target, plan))
+      );
     })
   );
+  await deliveryQueue.drain();
 };
 
-const marketData = new MarketDataService((candle) => {
-  if (!candle.isFinal) return;
-
-  const triggered = ruleEngine.evaluateCandle(candle);
-  const extremeTriggered = candle.interval === '1m' ? ruleEngine.evaluateExtremeMove(candle) : [];
-  const allTriggered = [...triggered, ...extremeTriggered];
-
+const recordTriggered = async (allTriggered: TriggeredAlert[]) => {
   if (allTriggered.length === 0) return;
+  for (const alert of allTriggered) metrics.triggers.inc({ type: alert.rule.type });
 
   const events = allTriggered.map((alert) => ({
     id: newId(),
@@ -70,32 +187,182 @@ const marketData = new MarketDataService((candle) => {
     symbol: alert.rule.symbol,
     type: alert.rule.type,
     triggeredAt: new Date(),
-    payload: alert.payload
+    payload: alert.payload,
+    chartCandles: charts.capture(alert)
   } satisfies AlertEvent));
 
-  void handleTriggeredAlerts(allTriggered, events);
-});
+  await handleTriggeredAlerts(allTriggered, events);
+};
+
+const handleCandle = async (candle: Candle) => {
+  const triggered = await metrics.ruleEvaluation.time({ kind: 'candle' }, () =>
+    ruleEngine.evaluateCandle(candle)
+  );
+  const extremeTriggered =
+    candle.interval === '1m'
+      ? await metrics.ruleEvaluation.time({ kind: 'extreme_move' }, () =>
+          ruleEngine.evaluateExtremeMove(candle)
+        )
+      : [];
+  await recordTriggered([...triggered, ...extremeTriggered]);
+};
 
-const reconcileSubscriptions = () => {
-  const rules = store.listRules();
+const handleLiveCandle = async (candle: Candle) => {
+  await recordTriggered(
+    await metrics.ruleEvaluation.time({ kind: 'live' }, () =>
+      ruleEngine.evaluateLiveCandle(candle)
+    )
+  );
+};
+
+const handleTick = async (tick: PriceTick) => {
+  await recordTriggered(
+    await metrics.ruleEvaluation.time({ kind: 'tick' }, () => ruleEngine.evaluatePrice(tick))
+  );
+};
+
+const marketData = new MarketDataService(
+  (candle) => {
+    alertStream.publishCandle(candle);
+
+    const handle = candle.isFinal ? handleCandle : handleLiveCandle;
+    handle(candle).catch((error) => {
+      app.log.error({ err: error, symbol: candle.symbol }, 'Failed to evaluate candle');
+    });
+  },
+  {
+    candleStore,
+    exchanges,
+    backfillLimit: config.backfillLimit,
+    onTick: (tick) => {
+      handleTick(tick).catch((error) => {
+        app.log.error({ err: error, symbol: tick.symbol }, 'Failed to evaluate price tick');
+      });
+    },
+    connection: {
+      onReconnect: (connectionId, attempt, delayMs) => {
+        app.log.warn({ connectionId, attempt, delayMs }, 'Market data connection reconnecting');
+      }
+    },
+    onError: (error, stream) => {
+      app.log.error({ err: error, stream }, 'Kline backfill failed');
+    }
+  }
+);
+
+const metrics = createServiceMetrics({ marketData, candleStore, alertStream });
+
+const reconcileSubscriptions = async () => {
+  const rules = await store.listRules();
   const targets = new Set<string>();
 
   for (const rule of rules) {
+    // Disabled rules, and rules on an exchange that has since been disabled,
+    // stay dormant; streams nothing else needs are dropped below.
+    if (!rule.isEnabled || !exchanges.has(rule.exchange)) continue;
+
+    if (rule.type === 'PRICE_CROSS') {
+      targets.add(tickerKey(rule.exchange, rule.symbol));
+      marketData.subscribeTicker(rule.exchange, rule.symbol);
+      continue;
+    }
+
+    if (rule.type === 'COMPOSITE') {
+      for (const { check } of collectChecks((rule.params as CompositeParams).condition)) {
+        const symbol = checkSymbol(check, rule);
+        const timeframe = checkTimeframe(check, rule);
+        targets.add(klineKey(rule.exchange, symbol, timeframe));
+        marketData.subscribe(rule.exchange, symbol, timeframe);
+      }
+      continue;
+    }
+
     const timeframe: Timeframe = rule.type === 'EXTREME_MOVE' ? '1m' : (rule.timeframe ?? '1m');
-    targets.add(`${rule.symbol}:${timeframe}`);
+    targets.add(klineKey(rule.exchange, rule.symbol, timeframe));
+    marketData.subscribe(rule.exchange, rule.symbol, timeframe);
   }
 
-  for (const target of targets) {
-    const [symbol, timeframe] = target.split(':') as [string, Timeframe];
-    marketData.subscribe(symbol, timeframe);
+  for (const subscription of marketData.listSubscriptions()) {
+    if (targets.has(subscription.key)) continue;
+    if (subscription.kind === 'ticker') {
+      marketData.unsubscribeTicker(subscription.exchange, subscription.symbol);
+    } else {
+      marketData.unsubscribe(subscription.exchange, subscription.symbol, subscription.interval);
+    }
   }
 };
 
-await registerRoutes(app, store);
+const retention = new RetentionJob(store, {
+  alertDays: config.alertRetentionDays,
+  notificationDays: config.notificationRetentionDays,
+  intervalMs: config.retentionIntervalMs,
+  archiveDir: config.retentionArchiveDir || undefined,
+  onPruned: (counts) => app.log.info(counts, 'Pruned expired history'),
+  onError: (error) => app.log.error({ err: error }, 'History retention failed')
+});
+
+const ruleScheduler = new RuleScheduler(store, {
+  intervalMs: config.ruleSchedulerIntervalMs,
+  onExpired: notifyDisabled,
+  onError: (error) => app.log.error({ err: error }, 'Rule scheduler failed')
+});
+
+await registerRoutes(app, {
+  store,
+  marketData,
+  exchanges,
+  symbols: symbolCatalog,
+  renderer,
+  charts,
+  telegramBot,
+  deliveryQueue,
+  auth,
+  alertStream,
+  metrics: metrics.registry,
+  readiness: () =>
+    checkReadiness(
+      {
+        marketData,
+        dispatchers,
+        requiredChannels: config.readyRequiredChannels as NotificationChannel[],
+        staleAfterMs: config.wsStaleAfterMs
+      },
+      Date.now()
+    )
+});
 
 app.addHook('onReady', async () => {
-  reconcileSubscriptions();
-  setInterval(reconcileSubscriptions, 30_000).unref();
+  await symbolCatalog.start();
+  await reconcileSubscriptions();
+  setInterval(() => {
+    reconcileSubscriptions().catch((error) => {
+      app.log.error({ err: error }, 'Failed to reconcile subscriptions');
+    });
+    // Picks up rules changed by other instances sharing the database.
+    if (config.storeDriver !== 'memory') {
+      ruleEngine.syncRules().catch((error) => {
+        app.log.error({ err: error }, 'Failed to reload rules');
+      });
+    }
+  }, 30_000).unref();
+
+  deliveryQueue.start();
+  retention.start();
+  ruleScheduler.start();
+
+  if (config.telegramBotMode === 'polling') {
+    void telegramBot.startPolling();
+  }
+});
+
+app.addHook('onClose', async () => {
+  telegramBot.stop();
+  await symbolCatalog.stop();
+  await deliveryQueue.stop();
+  await retention.stop();
+  await ruleScheduler.stop();
+  marketData.close();
+  await store.close();
 });
 
 app.listen({ port: config.port, host: '0.0.0.0' }).catch((error) => {
@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { BinanceAdapter } from './binance.js';
+
+// Frames as recorded from the combined-stream endpoint.
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/binance/${name}.json`, import.meta.url), 'utf8');
+
+const adapter = new BinanceAdapter({
+  wsUrl: 'wss://stream.binance.com:9443',
+  maxStreamsPerConnection: 200,
+  exchangeInfoUrl: 'https://api.binance.com/api/v3/exchangeInfo'
+});
+
+describe('BinanceAdapter', () => {
+  test('parses kline frames into candles on the stream they were subscribed as', () => {
+    assert.deepEqual(adapter.parseMessage(fixture('kline')), [
+      {
+        stream: adapter.klineStream('BTCUSDT', '1m'),
+        kind: 'candle',
+        candle: {
+          exchange: 'BINANCE',
+          symbol: 'BTCUSDT',
+          interval: '1m',
+          openTime: 1700000040000,
+          closeTime: 1700000099999,
+          open: 37100.01,
+          high: 37120,
+          low: 37095.1,
+          close: 37112.5,
+          volume: 12.345,
+          isFinal: true
+        }
+      }
+    ]);
+  });
+
+  test('parses miniTicker frames into ticks', () => {
+    assert.deepEqual(adapter.parseMessage(fixture('miniTicker')), [
+      {
+        stream: adapter.tickerStream('BTCUSDT'),
+        kind: 'tick',
+        tick: { exchange: 'BINANCE', symbol: 'BTCUSDT', price: 37113, eventTime: 1700000061000 }
+      }
+    ]);
+  });
+
+  test('ignores subscription results, errors and malformed frames', () => {
+    // Binance keeps connections alive with protocol-level pings, which never
+    // reach parseMessage.
+    assert.deepEqual(adapter.parseMessage(fixture('subscribe')), []);
+    assert.deepEqual(adapter.parseMessage(fixture('error')), []);
+    assert.deepEqual(adapter.parseMessage('not json'), []);
+  });
+
+  test('names streams in lowercase and subscribes them in the URL', () => {
+    const streams = [adapter.klineStream('BTCUSDT', '5m'), adapter.tickerStream('ETHUSDT')];
+    assert.deepEqual(streams, ['btcusdt@kline_5m', 'ethusdt@miniTicker']);
+    assert.equal(
+      adapter.connectUrl(streams),
+      'wss://stream.binance.com:9443/stream?streams=btcusdt@kline_5m/ethusdt@miniTicker'
+    );
+    assert.deepEqual(adapter.controlFrames('UNSUBSCRIBE', streams, 7), [
+      '{"method":"UNSUBSCRIBE","params":["btcusdt@kline_5m","ethusdt@miniTicker"],"id":7}'
+    ]);
+  });
+
+  test('normalizes the separators users type between assets', () => {
+    for (const input of ['BTCUSDT', 'btcusdt', 'btc/usdt', 'BTC-USDT', 'btc_usdt', ' BTC:USDT']) {
+      assert.equal(adapter.normalizeSymbol(input), 'BTCUSDT');
+    }
+  });
+});
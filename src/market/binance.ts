@@ -0,0 +1,170 @@
+import type { Candle, SymbolInfo, Timeframe } from '../types/domain.js';
+import {
+  compactSymbol,
+  REST_TIMEOUT_MS,
+  type ExchangeAdapter,
+  type KlineQuery,
+  type StreamEvent
+} from './exchange.js';
+import { KlineRestClient } from './klineRest.js';
+
+interface KlineEvent {
+  k: {
+    t: number;
+    T: number;
+    s: string;
+    i: Timeframe;
+    o: string;
+    h: string;
+    l: string;
+    c: string;
+    v: string;
+    x: boolean;
+  };
+}
+
+interface MiniTickerEvent {
+  E: number;
+  s: string;
+  c: string;
+}
+
+interface ExchangeInfo {
+  symbols: {
+    symbol: string;
+    status: string;
+    baseAsset: string;
+    quoteAsset: string;
+    isSpotTradingAllowed?: boolean;
+    filters: { filterType: string; tickSize?: string }[];
+  }[];
+}
+
+export interface BinanceOptions {
+  wsUrl: string;
+  maxStreamsPerConnection: number;
+  exchangeInfoUrl: string;
+  rest?: KlineRestClient;
+  restTimeoutMs?: number;
+}
+
+// Combined streams: `<symbol>@kline_<interval>` and `<symbol>@miniTicker`,
+// framed as `{ stream, data }`.
+export class BinanceAdapter implements ExchangeAdapter {
+  readonly exchange = 'BINANCE' as const;
+  readonly subscribesInUrl = true;
+  readonly maxStreamsPerConnection: number;
+  private readonly rest: KlineRestClient;
+
+  constructor(private readonly options: BinanceOptions) {
+    this.maxStreamsPerConnection = options.maxStreamsPerConnection;
+    this.rest = options.rest ?? new KlineRestClient({ timeoutMs: options.restTimeoutMs });
+  }
+
+  klineStream(symbol: string, interval: Timeframe): string {
+    return `${symbol.toLowerCase()}@kline_${interval}`;
+  }
+
+  tickerStream(symbol: string): string {
+    return `${symbol.toLowerCase()}@miniTicker`;
+  }
+
+  connectUrl(streams: string[]): string {
+    return `${this.options.wsUrl}/stream?streams=${streams.join('/')}`;
+  }
+
+  controlFrames(
+    action: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    streams: string[],
+    requestId: number
+  ): string[] {
+    return [JSON.stringify({ method: action, params: streams, id: requestId })];
+  }
+
+  parseMessage(raw: string): StreamEvent[] {
+    let parsed: { stream?: string; data?: unknown };
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+    // Subscription acknowledgements ({ result, id }) carry no stream.
+    const { stream } = parsed;
+    if (!stream || !parsed.data) return [];
+
+    if (stream.endsWith('@miniTicker')) {
+      const ticker = parsed.data as MiniTickerEvent;
+      return [
+        {
+          stream,
+          kind: 'tick',
+          tick: {
+            exchange: this.exchange,
+            symbol: ticker.s,
+            price: Number(ticker.c),
+            eventTime: ticker.E
+          }
+        }
+      ];
+    }
+
+    const { k } = parsed.data as KlineEvent;
+    if (!k) return [];
+    const candle: Candle = {
+      exchange: this.exchange,
+      symbol: k.s,
+      interval: k.i,
+      openTime: k.t,
+      closeTime: k.T,
+      open: Number(k.o),
+      high: Number(k.h),
+      low: Number(k.l),
+      close: Number(k.c),
+      volume: Number(k.v),
+      isFinal: k.x
+    };
+    return [{ stream, kind: 'candle', candle }];
+  }
+
+  normalizeSymbol(symbol: string): string {
+    return compactSymbol(symbol);
+  }
+
+  async fetchSymbols(): Promise<SymbolInfo[]> {
+    const response = await fetch(this.options.exchangeInfoUrl, {
+      signal: AbortSignal.timeout(this.options.restTimeoutMs ?? REST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Exchange info fetch failed: ${response.status} ${text}`);
+    }
+
+    const { symbols } = (await response.json()) as ExchangeInfo;
+    return symbols
+      .filter((item) => item.isSpotTradingAllowed !== false)
+      .map((item) => {
+        const price = item.filters.find((filter) => filter.filterType === 'PRICE_FILTER');
+        return {
+          exchange: this.exchange,
+          symbol: item.symbol,
+          baseAsset: item.baseAsset,
+          quoteAsset: item.quoteAsset,
+          tickSize: Number(price?.tickSize ?? 0),
+          status: item.status === 'TRADING' ? 'TRADING' : 'HALTED'
+        };
+      });
+  }
+
+  fetchKlines(query: KlineQuery): Promise<Candle[]> {
+    return this.rest.fetchKlines(query);
+  }
+
+  fetchRange(
+    symbol: string,
+    interval: Timeframe,
+    startTime: number,
+    endTime: number
+  ): Promise<Candle[]> {
+    return this.rest.fetchRange(symbol, interval, startTime, endTime);
+  }
+}
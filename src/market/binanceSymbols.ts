@@ -0,0 +1,51 @@
+import type { SymbolInfo } from '../types/domain.js';
+
+// [symbol, baseAsset, quoteAsset, tickSize] from Binance spot exchangeInfo.
+// Used for search and tick sizes when the live listing cannot be loaded. With
+// SYMBOL_CATALOG_SOURCE=snapshot it is the whole catalog and symbols outside
+// it are rejected, so add pairs here as they are needed; refresh it by hand.
+const pairs: [string, string, string, number][] = [
+  ['BTCUSDT', 'BTC', 'USDT', 0.01],
+  ['ETHUSDT', 'ETH', 'USDT', 0.01],
+  ['BNBUSDT', 'BNB', 'USDT', 0.01],
+  ['SOLUSDT', 'SOL', 'USDT', 0.01],
+  ['XRPUSDT', 'XRP', 'USDT', 0.0001],
+  ['DOGEUSDT', 'DOGE', 'USDT', 0.00001],
+  ['ADAUSDT', 'ADA', 'USDT', 0.0001],
+  ['TRXUSDT', 'TRX', 'USDT', 0.0001],
+  ['AVAXUSDT', 'AVAX', 'USDT', 0.01],
+  ['LINKUSDT', 'LINK', 'USDT', 0.01],
+  ['DOTUSDT', 'DOT', 'USDT', 0.001],
+  ['LTCUSDT', 'LTC', 'USDT', 0.01],
+  ['BCHUSDT', 'BCH', 'USDT', 0.1],
+  ['UNIUSDT', 'UNI', 'USDT', 0.001],
+  ['ATOMUSDT', 'ATOM', 'USDT', 0.001],
+  ['NEARUSDT', 'NEAR', 'USDT', 0.001],
+  ['APTUSDT', 'APT', 'USDT', 0.001],
+  ['ARBUSDT', 'ARB', 'USDT', 0.0001],
+  ['OPUSDT', 'OP', 'USDT', 0.001],
+  ['SUIUSDT', 'SUI', 'USDT', 0.0001],
+  ['TONUSDT', 'TON', 'USDT', 0.001],
+  ['FILUSDT', 'FIL', 'USDT', 0.001],
+  ['ETCUSDT', 'ETC', 'USDT', 0.01],
+  ['XLMUSDT', 'XLM', 'USDT', 0.0001],
+  ['INJUSDT', 'INJ', 'USDT', 0.01],
+  ['PEPEUSDT', 'PEPE', 'USDT', 0.00000001],
+  ['SHIBUSDT', 'SHIB', 'USDT', 0.00000001],
+  ['BTCFDUSD', 'BTC', 'FDUSD', 0.01],
+  ['ETHFDUSD', 'ETH', 'FDUSD', 0.01],
+  ['ETHBTC', 'ETH', 'BTC', 0.00001],
+  ['BNBBTC', 'BNB', 'BTC', 0.000001],
+  ['SOLBTC', 'SOL', 'BTC', 0.0000001]
+];
+
+export const binanceSymbols: SymbolInfo[] = pairs.map(
+  ([symbol, baseAsset, quoteAsset, tickSize]) => ({
+    exchange: 'BINANCE',
+    symbol,
+    baseAsset,
+    quoteAsset,
+    tickSize,
+    status: 'TRADING'
+  })
+);
@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { BybitAdapter } from './bybit.js';
+
+// Frames as recorded from the spot v5 public endpoint.
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/bybit/${name}.json`, import.meta.url), 'utf8');
+
+const adapter = new BybitAdapter({
+  wsUrl: 'wss://stream.bybit.com',
+  restUrl: 'https://api.bybit.com'
+});
+
+describe('BybitAdapter', () => {
+  test('parses kline frames into candles on the topic they were subscribed as', () => {
+    assert.deepEqual(adapter.parseMessage(fixture('kline')), [
+      {
+        stream: adapter.klineStream('BTCUSDT', '1m'),
+        kind: 'candle',
+        candle: {
+          exchange: 'BYBIT',
+          symbol: 'BTCUSDT',
+          interval: '1m',
+          openTime: 1700000040000,
+          closeTime: 1700000099999,
+          open: 37100.01,
+          high: 37120,
+          low: 37095.1,
+          close: 37112.5,
+          volume: 12.345,
+          isFinal: false
+        }
+      }
+    ]);
+  });
+
+  test('parses ticker frames into ticks stamped with the frame time', () => {
+    assert.deepEqual(adapter.parseMessage(fixture('tickers')), [
+      {
+        stream: adapter.tickerStream('BTCUSDT'),
+        kind: 'tick',
+        tick: { exchange: 'BYBIT', symbol: 'BTCUSDT', price: 37113, eventTime: 1700000061000 }
+      }
+    ]);
+  });
+
+  test('ignores subscription results, pongs and malformed frames', () => {
+    assert.deepEqual(adapter.parseMessage(fixture('subscribe')), []);
+    assert.deepEqual(adapter.parseMessage(fixture('pong')), []);
+    assert.deepEqual(adapter.parseMessage('not json'), []);
+  });
+
+  test('ignores klines for interval codes it does not map', () => {
+    const frame = JSON.parse(fixture('kline'));
+    frame.topic = 'kline.W.BTCUSDT';
+    assert.deepEqual(adapter.parseMessage(JSON.stringify(frame)), []);
+  });
+
+  test('maps timeframes onto Bybit interval codes', () => {
+    assert.equal(adapter.klineStream('btcusdt', '1h'), 'kline.60.BTCUSDT');
+    assert.equal(adapter.klineStream('BTCUSDT', '1d'), 'kline.D.BTCUSDT');
+    assert.equal(adapter.tickerStream('ethusdt'), 'tickers.ETHUSDT');
+  });
+
+  test('splits subscriptions into requests of at most 10 topics', () => {
+    const topics = Array.from({ length: 12 }, (_, index) => `tickers.T${index}USDT`);
+    const frames = adapter.controlFrames('SUBSCRIBE', topics, 3).map((frame) => JSON.parse(frame));
+    assert.deepEqual(
+      frames.map((frame) => [frame.req_id, frame.op, frame.args.length]),
+      [
+        ['3-0', 'subscribe', 10],
+        ['3-1', 'subscribe', 2]
+      ]
+    );
+    assert.equal(adapter.keepaliveFrame(), '{"op":"ping"}');
+  });
+
+  test('normalizes the separators users type between assets', () => {
+    for (const input of ['SOLUSDT', 'solusdt', 'sol/usdt', 'SOL-USDT', 'sol_usdt', ' SOL:USDT']) {
+      assert.equal(adapter.normalizeSymbol(input), 'SOLUSDT');
+    }
+  });
+});
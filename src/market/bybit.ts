@@ -0,0 +1,290 @@
+import type { Candle, SymbolInfo, Timeframe } from '../types/domain.js';
+import { toMs } from '../utils/timeframes.js';
+import {
+  compactSymbol,
+  REST_TIMEOUT_MS,
+  type ExchangeAdapter,
+  type KlineQuery,
+  type StreamEvent
+} from './exchange.js';
+
+// Bybit caps /v5/market/kline at 1000 rows and a spot subscribe request at
+// 10 topics.
+const MAX_LIMIT = 1000;
+const MAX_TOPICS_PER_REQUEST = 10;
+
+const intervalCodes: Record<Timeframe, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '4h': '240',
+  '1d': 'D'
+};
+
+const timeframeFor = (code: string) =>
+  (Object.keys(intervalCodes) as Timeframe[]).find(
+    (timeframe) => intervalCodes[timeframe] === code
+  );
+
+interface BybitKline {
+  start: number;
+  end: number;
+  interval: string;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: string;
+  confirm: boolean;
+}
+
+interface BybitTicker {
+  symbol: string;
+  lastPrice: string;
+}
+
+interface BybitFrame {
+  topic?: string;
+  ts?: number;
+  data?: unknown;
+}
+
+// [startTime, open, high, low, close, volume, turnover], newest first.
+type BybitKlineRow = [string, string, string, string, string, string, string];
+
+interface BybitKlineResponse {
+  retCode: number;
+  retMsg: string;
+  result?: { list?: BybitKlineRow[] };
+}
+
+interface BybitInstrument {
+  symbol: string;
+  baseCoin: string;
+  quoteCoin: string;
+  status: string;
+  priceFilter?: { tickSize?: string };
+}
+
+interface BybitInstrumentsResponse {
+  retCode: number;
+  retMsg: string;
+  result?: { list?: BybitInstrument[]; nextPageCursor?: string };
+}
+
+export interface BybitOptions {
+  wsUrl: string;
+  restUrl: string;
+  maxStreamsPerConnection?: number;
+  restTimeoutMs?: number;
+}
+
+// Spot v5 public topics `kline.<code>.<SYMBOL>` and `tickers.<SYMBOL>`. Bybit
+// subscribes only after connecting and expects a JSON ping every 20 seconds.
+export class BybitAdapter implements ExchangeAdapter {
+  readonly exchange = 'BYBIT' as const;
+  readonly subscribesInUrl = false;
+  readonly heartbeatMs = 20_000;
+  readonly maxStreamsPerConnection: number;
+
+  constructor(private readonly options: BybitOptions) {
+    this.maxStreamsPerConnection = options.maxStreamsPerConnection ?? 200;
+  }
+
+  klineStream(symbol: string, interval: Timeframe): string {
+    return `kline.${intervalCodes[interval]}.${symbol.toUpperCase()}`;
+  }
+
+  tickerStream(symbol: string): string {
+    return `tickers.${symbol.toUpperCase()}`;
+  }
+
+  connectUrl(): string {
+    return `${this.options.wsUrl}/v5/public/spot`;
+  }
+
+  controlFrames(
+    action: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    streams: string[],
+    requestId: number
+  ): string[] {
+    const frames: string[] = [];
+    for (let index = 0; index < streams.length; index += MAX_TOPICS_PER_REQUEST) {
+      frames.push(
+        JSON.stringify({
+          req_id: `${requestId}-${index / MAX_TOPICS_PER_REQUEST}`,
+          op: action.toLowerCase(),
+          args: streams.slice(index, index + MAX_TOPICS_PER_REQUEST)
+        })
+      );
+    }
+    return frames;
+  }
+
+  keepaliveFrame(): string {
+    return JSON.stringify({ op: 'ping' });
+  }
+
+  parseMessage(raw: string): StreamEvent[] {
+    let frame: BybitFrame;
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+    // Subscription results and pongs carry `op` instead of a topic.
+    const { topic } = frame;
+    if (!topic || !frame.data) return [];
+
+    if (topic.startsWith('tickers.')) {
+      const ticker = frame.data as BybitTicker;
+      return [
+        {
+          stream: topic,
+          kind: 'tick',
+          tick: {
+            exchange: this.exchange,
+            symbol: ticker.symbol,
+            price: Number(ticker.lastPrice),
+            eventTime: frame.ts ?? Date.now()
+          }
+        }
+      ];
+    }
+
+    const [, code, symbol] = topic.split('.');
+    const interval = timeframeFor(code);
+    if (!topic.startsWith('kline.') || !interval || !Array.isArray(frame.data)) return [];
+    return (frame.data as BybitKline[]).map((kline) => ({
+      stream: topic,
+      kind: 'candle' as const,
+      candle: {
+        exchange: this.exchange,
+        symbol,
+        interval,
+        openTime: kline.start,
+        closeTime: kline.end,
+        open: Number(kline.open),
+        high: Number(kline.high),
+        low: Number(kline.low),
+        close: Number(kline.close),
+        volume: Number(kline.volume),
+        isFinal: kline.confirm
+      }
+    }));
+  }
+
+  normalizeSymbol(symbol: string): string {
+    return compactSymbol(symbol);
+  }
+
+  // Spot instruments come back in one page today; the cursor is followed anyway.
+  async fetchSymbols(): Promise<SymbolInfo[]> {
+    const symbols: SymbolInfo[] = [];
+    let cursor = '';
+
+    do {
+      const params = new URLSearchParams({ category: 'spot', limit: '1000' });
+      if (cursor) params.set('cursor', cursor);
+      const response = await fetch(
+        `${this.options.restUrl}/v5/market/instruments-info?${params.toString()}`,
+        { signal: this.timeout() }
+      );
+      const body = response.ok ? ((await response.json()) as BybitInstrumentsResponse) : null;
+      if (!body || body.retCode !== 0) {
+        const reason = body ? `${body.retCode} ${body.retMsg}` : await response.text();
+        throw new Error(`Instruments fetch failed: ${response.status} ${reason}`);
+      }
+
+      for (const item of body.result?.list ?? []) {
+        symbols.push({
+          exchange: this.exchange,
+          symbol: item.symbol,
+          baseAsset: item.baseCoin,
+          quoteAsset: item.quoteCoin,
+          tickSize: Number(item.priceFilter?.tickSize ?? 0),
+          status: item.status === 'Trading' ? 'TRADING' : 'HALTED'
+        });
+      }
+      cursor = body.result?.nextPageCursor ?? '';
+    } while (cursor);
+
+    return symbols;
+  }
+
+  async fetchKlines(query: KlineQuery): Promise<Candle[]> {
+    const symbol = query.symbol.toUpperCase();
+    const params = new URLSearchParams({
+      category: 'spot',
+      symbol,
+      interval: intervalCodes[query.interval],
+      limit: String(Math.min(query.limit ?? 500, MAX_LIMIT))
+    });
+    if (query.startTime !== undefined) params.set('start', String(query.startTime));
+    if (query.endTime !== undefined) params.set('end', String(query.endTime));
+
+    const response = await fetch(`${this.options.restUrl}/v5/market/kline?${params.toString()}`, {
+      signal: this.timeout()
+    });
+    const body = response.ok ? ((await response.json()) as BybitKlineResponse) : null;
+    if (!body || body.retCode !== 0) {
+      const reason = body ? `${body.retCode} ${body.retMsg}` : await response.text();
+      throw new Error(`Kline fetch failed: ${response.status} ${reason}`);
+    }
+
+    const step = toMs(query.interval);
+    const now = Date.now();
+    return (body.result?.list ?? [])
+      .map((row) => {
+        const openTime = Number(row[0]);
+        return {
+          exchange: this.exchange,
+          symbol,
+          interval: query.interval,
+          openTime,
+          closeTime: openTime + step - 1,
+          open: Number(row[1]),
+          high: Number(row[2]),
+          low: Number(row[3]),
+          close: Number(row[4]),
+          volume: Number(row[5]),
+          isFinal: openTime + step - 1 < now
+        };
+      })
+      .reverse();
+  }
+
+  // Bybit returns the newest rows of a range first, so this pages backwards
+  // from endTime.
+  async fetchRange(
+    symbol: string,
+    interval: Timeframe,
+    startTime: number,
+    endTime: number
+  ): Promise<Candle[]> {
+    const pages: Candle[][] = [];
+    let cursor = endTime;
+
+    while (cursor >= startTime) {
+      const page = await this.fetchKlines({
+        symbol,
+        interval,
+        startTime,
+        endTime: cursor,
+        limit: MAX_LIMIT
+      });
+      if (page.length === 0) break;
+      pages.unshift(page.filter((candle) => candle.isFinal));
+      cursor = page[0].openTime - 1;
+      if (page.length < MAX_LIMIT) break;
+    }
+
+    return pages.flat();
+  }
+
+  private timeout(): AbortSignal {
+    return AbortSignal.timeout(this.options.restTimeoutMs ?? REST_TIMEOUT_MS);
+  }
+}
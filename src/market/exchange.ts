@@ -0,0 +1,99 @@
+import type {
+  Candle,
+  Exchange,
+  PriceTick,
+  SymbolInfo,
+  Timeframe
+} from '../types/domain.js';
+
+export const exchanges: Exchange[] = ['BINANCE', 'BYBIT'];
+
+export const DEFAULT_EXCHANGE: Exchange = 'BINANCE';
+
+// How long a REST call to an exchange may take, body included, before it is
+// abandoned as failed.
+export const REST_TIMEOUT_MS = 10_000;
+
+export interface KlineQuery {
+  symbol: string;
+  interval: Timeframe;
+  limit?: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+// One update decoded from a socket frame, tagged with the stream it belongs to.
+export type StreamEvent =
+  | { stream: string; kind: 'candle'; candle: Candle }
+  | { stream: string; kind: 'tick'; tick: PriceTick };
+
+// Candle history over REST; also what backtests replay.
+export interface CandleHistory {
+  fetchKlines(query: KlineQuery): Promise<Candle[]>;
+  // Closed candles only, paging through the whole [startTime, endTime] range.
+  fetchRange(
+    symbol: string,
+    interval: Timeframe,
+    startTime: number,
+    endTime: number
+  ): Promise<Candle[]>;
+}
+
+// Everything exchange-specific about market data: stream naming, how a socket
+// is opened and subscribed, how frames decode into candles and ticks, how
+// users' symbols map onto the exchange's, what it lists, and REST history.
+export interface ExchangeAdapter extends CandleHistory {
+  readonly exchange: Exchange;
+  readonly maxStreamsPerConnection: number;
+
+  klineStream(symbol: string, interval: Timeframe): string;
+  tickerStream(symbol: string): string;
+
+  // URL for a new socket. When `subscribesInUrl`, the initial streams are
+  // part of the URL; otherwise they are subscribed once the socket opens.
+  readonly subscribesInUrl: boolean;
+  connectUrl(streams: string[]): string;
+  controlFrames(
+    action: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    streams: string[],
+    requestId: number
+  ): string[];
+  // Application-level keepalive for exchanges that ignore protocol pings,
+  // sent every `heartbeatMs` when set.
+  keepaliveFrame?(): string;
+  readonly heartbeatMs?: number;
+
+  parseMessage(raw: string): StreamEvent[];
+
+  // Canonical symbol for user input such as `btc/usdt` or `BTC-USDT`.
+  normalizeSymbol(symbol: string): string;
+
+  // Every spot pair the exchange lists, including ones not trading right now.
+  fetchSymbols(): Promise<SymbolInfo[]>;
+}
+
+export class ExchangeRegistry {
+  private adapters = new Map<Exchange, ExchangeAdapter>();
+
+  register(adapter: ExchangeAdapter): this {
+    this.adapters.set(adapter.exchange, adapter);
+    return this;
+  }
+
+  get(exchange: Exchange): ExchangeAdapter {
+    const adapter = this.adapters.get(exchange);
+    if (!adapter) throw new Error(`Exchange ${exchange} is not configured`);
+    return adapter;
+  }
+
+  has(exchange: Exchange): boolean {
+    return this.adapters.has(exchange);
+  }
+
+  list(): ExchangeAdapter[] {
+    return [...this.adapters.values()];
+  }
+}
+
+// Strips the separators users type between base and quote asset.
+export const compactSymbol = (symbol: string) => symbol.replace(/[\s/_:-]/g, '').toUpperCase();
@@ -0,0 +1,134 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { KlineFetchError, KlineRestClient } from './klineRest.js';
+
+const MINUTE = 60_000;
+const start = Date.UTC(2026, 0, 1);
+
+// A /api/v3/klines row for the minute opening at `openTime`.
+const row = (openTime: number) => [
+  openTime,
+  '1.0',
+  '2.0',
+  '0.5',
+  '1.5',
+  '10.0',
+  openTime + MINUTE - 1,
+  '15.0',
+  3
+];
+
+describe('KlineRestClient', () => {
+  // Each request is answered by the next failure queued, else from the series.
+  let failures: Array<(response: ServerResponse) => void>;
+  let requests: URLSearchParams[];
+  let client: KlineRestClient;
+  const server = createServer((request, response) => {
+    const params = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    requests.push(params);
+    const failure = failures.shift();
+    if (failure) return failure(response);
+
+    // Binance answers from the first candle opening at or after startTime.
+    const from = Math.ceil(Number(params.get('startTime')) / MINUTE) * MINUTE;
+    const to = Number(params.get('endTime'));
+    const rows = [];
+    for (let openTime = from; openTime <= to; openTime += MINUTE) {
+      if (rows.length === Number(params.get('limit'))) break;
+      rows.push(row(openTime));
+    }
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify(rows));
+  });
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new KlineRestClient({ baseUrl: `http://127.0.0.1:${port}`, baseBackoffMs: 10 });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    failures = [];
+    requests = [];
+  });
+
+  const fail =
+    (status: number, headers: Record<string, string> = {}) =>
+    (response: ServerResponse) => {
+      response.writeHead(status, headers);
+      response.end(`{"code":-1,"msg":"status ${status}"}`);
+    };
+
+  test('pages through a range 1000 candles at a time', async () => {
+    const end = start + 2_499 * MINUTE;
+    const candles = await client.fetchRange('btcusdt', '1m', start, end);
+
+    assert.equal(candles.length, 2_500);
+    assert.ok(candles.every((candle, index) => candle.openTime === start + index * MINUTE));
+    assert.deepEqual(candles[0], {
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime: start,
+      closeTime: start + MINUTE - 1,
+      open: 1,
+      high: 2,
+      low: 0.5,
+      close: 1.5,
+      volume: 10,
+      isFinal: true
+    });
+    assert.deepEqual(
+      requests.map((params) => Number(params.get('startTime'))),
+      [start, start + 999 * MINUTE + 1, start + 1_999 * MINUTE + 1]
+    );
+    assert.ok(requests.every((params) => params.get('limit') === '1000'));
+  });
+
+  test('retries server errors and rate limits, then succeeds', async () => {
+    failures = [fail(503), fail(429, { 'Retry-After': '1' })];
+    const began = Date.now();
+    const candles = await client.fetchKlines({
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      startTime: start,
+      endTime: start + 4 * MINUTE
+    });
+
+    assert.equal(candles.length, 5);
+    assert.equal(requests.length, 3);
+    assert.ok(Date.now() - began >= 1_000, 'waited out Retry-After');
+  });
+
+  test('gives up after maxAttempts', async () => {
+    failures = [fail(500), fail(502), fail(503), fail(504)];
+    await assert.rejects(
+      client.fetchKlines({ symbol: 'BTCUSDT', interval: '1m', startTime: start }),
+      (error: KlineFetchError) => {
+        assert.equal(error.status, 503);
+        return true;
+      }
+    );
+    assert.equal(requests.length, 3);
+  });
+
+  test('does not retry a bad request, or a ban longer than it will wait', async () => {
+    failures = [fail(400)];
+    await assert.rejects(client.fetchKlines({ symbol: 'NOPE', interval: '1m' }), {
+      message: 'Kline fetch failed: 400 {"code":-1,"msg":"status 400"}'
+    });
+    assert.equal(requests.length, 1);
+
+    failures = [fail(418, { 'Retry-After': '120' })];
+    await assert.rejects(client.fetchKlines({ symbol: 'BTCUSDT', interval: '1m' }), {
+      status: 418
+    });
+    assert.equal(requests.length, 2);
+  });
+});
@@ -0,0 +1,132 @@
+import type { Candle, Timeframe } from '../types/domain.js';
+import { config } from '../config.js';
+import { REST_TIMEOUT_MS, type CandleHistory, type KlineQuery } from './exchange.js';
+
+// Binance caps a single /api/v3/klines response at 1000 rows.
+const MAX_LIMIT = 1000;
+
+// A Retry-After longer than this (an IP ban after 418s, typically) fails the
+// call rather than holding up a backfill.
+const MAX_RETRY_WAIT_MS = 30_000;
+
+type KlineRow = [number, string, string, string, string, string, number, ...unknown[]];
+
+export interface KlineRestOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  // Attempts per request, counting the first, when rate limited, when the
+  // server errors or when the request fails outright.
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+}
+
+export class KlineFetchError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'KlineFetchError';
+  }
+
+  // 429 and 418 are Binance's rate limit and ban; 5xx is on their side.
+  get retryable(): boolean {
+    return this.status === 429 || this.status === 418 || this.status >= 500;
+  }
+}
+
+// Binance spot REST history.
+export class KlineRestClient implements CandleHistory {
+  private readonly options: Required<KlineRestOptions>;
+
+  constructor(options: KlineRestOptions = {}) {
+    this.options = {
+      baseUrl: options.baseUrl ?? config.binanceRestUrl,
+      timeoutMs: options.timeoutMs ?? REST_TIMEOUT_MS,
+      maxAttempts: options.maxAttempts ?? 3,
+      baseBackoffMs: options.baseBackoffMs ?? 500
+    };
+  }
+
+  async fetchKlines(query: KlineQuery): Promise<Candle[]> {
+    const params = new URLSearchParams({
+      symbol: query.symbol.toUpperCase(),
+      interval: query.interval,
+      limit: String(Math.min(query.limit ?? 500, MAX_LIMIT))
+    });
+    if (query.startTime !== undefined) params.set('startTime', String(query.startTime));
+    if (query.endTime !== undefined) params.set('endTime', String(query.endTime));
+    const url = `${this.options.baseUrl}/api/v3/klines?${params.toString()}`;
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.fetchPage(url, query);
+      } catch (error) {
+        // Network failures and timeouts are retried like server errors.
+        const failure = error instanceof KlineFetchError ? error : undefined;
+        if (attempt >= this.options.maxAttempts || (failure && !failure.retryable)) throw error;
+        const delay =
+          failure?.retryAfterMs ?? this.options.baseBackoffMs * 2 ** (attempt - 1);
+        if (delay > MAX_RETRY_WAIT_MS) throw error;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Pages through the range [startTime, endTime] and returns closed candles only.
+  async fetchRange(
+    symbol: string,
+    interval: Timeframe,
+    startTime: number,
+    endTime: number
+  ): Promise<Candle[]> {
+    const candles: Candle[] = [];
+    let cursor = startTime;
+
+    while (cursor <= endTime) {
+      const page = await this.fetchKlines({
+        symbol,
+        interval,
+        startTime: cursor,
+        endTime,
+        limit: MAX_LIMIT
+      });
+      if (page.length === 0) break;
+      candles.push(...page.filter((candle) => candle.isFinal));
+      cursor = page[page.length - 1].openTime + 1;
+      if (page.length < MAX_LIMIT) break;
+    }
+
+    return candles;
+  }
+
+  private async fetchPage(url: string, query: KlineQuery): Promise<Candle[]> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.options.timeoutMs) });
+    if (!response.ok) {
+      const text = await response.text();
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new KlineFetchError(
+        `Kline fetch failed: ${response.status} ${text}`,
+        response.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+
+    const rows = (await response.json()) as KlineRow[];
+    const now = Date.now();
+    return rows.map((row) => ({
+      exchange: 'BINANCE' as const,
+      symbol: query.symbol.toUpperCase(),
+      interval: query.interval,
+      openTime: row[0],
+      closeTime: row[6],
+      open: Number(row[1]),
+      high: Number(row[2]),
+      low: Number(row[3]),
+      close: Number(row[4]),
+      volume: Number(row[5]),
+      isFinal: row[6] < now
+    }));
+  }
+}
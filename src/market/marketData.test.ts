@@ -0,0 +1,157 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { CandleStore } from '../store/candleStore.js';
+import type { Candle, PriceTick } from '../types/domain.js';
+import { BinanceAdapter } from './binance.js';
+import { ExchangeRegistry } from './exchange.js';
+import { KlineRestClient } from './klineRest.js';
+import { MarketDataService } from './marketData.js';
+
+const MINUTE = 60_000;
+const start = Date.UTC(2026, 0, 1);
+const minute = (index: number) => start + index * MINUTE;
+
+const restRow = (openTime: number) => [openTime, '1', '1', '1', '1', '1', openTime + MINUTE - 1];
+
+const klineFrame = (openTime: number) =>
+  JSON.stringify({
+    stream: 'btcusdt@kline_1m',
+    data: {
+      e: 'kline',
+      E: openTime + MINUTE,
+      s: 'BTCUSDT',
+      k: {
+        t: openTime,
+        T: openTime + MINUTE - 1,
+        s: 'BTCUSDT',
+        i: '1m',
+        o: '1',
+        c: '1',
+        h: '1',
+        l: '1',
+        v: '1',
+        x: true
+      }
+    }
+  });
+
+describe('MarketDataService', () => {
+  // REST history runs up to `latest`; a seed gets the newest rows before it.
+  let latest = minute(9);
+  const ranges: Array<[number, number]> = [];
+  const rest = createServer((request, response) => {
+    const params = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const limit = Number(params.get('limit'));
+    const to = Math.min(Number(params.get('endTime') ?? latest), latest);
+    const from = params.has('startTime')
+      ? Number(params.get('startTime'))
+      : to - (limit - 1) * MINUTE;
+    if (params.has('startTime')) ranges.push([from, to]);
+
+    const rows = [];
+    for (let openTime = Math.max(from, start); openTime <= to; openTime += MINUTE) {
+      rows.push(restRow(openTime));
+    }
+    response.end(JSON.stringify(rows.slice(0, limit)));
+  });
+  let sockets: WebSocketServer;
+  let socket: Promise<WebSocket>;
+
+  const candleStore = new CandleStore();
+  const received: Candle[] = [];
+  const ticks: PriceTick[] = [];
+  let service: MarketDataService;
+
+  before(async () => {
+    await new Promise<void>((resolve) => rest.listen(0, '127.0.0.1', resolve));
+    await new Promise((resolve) => {
+      sockets = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () => resolve(undefined));
+    });
+    socket = new Promise((resolve) => sockets.once('connection', resolve));
+
+    const exchanges = new ExchangeRegistry().register(
+      new BinanceAdapter({
+        wsUrl: `ws://127.0.0.1:${(sockets.address() as AddressInfo).port}`,
+        maxStreamsPerConnection: 200,
+        exchangeInfoUrl: 'http://127.0.0.1/unused',
+        rest: new KlineRestClient({
+          baseUrl: `http://127.0.0.1:${(rest.address() as AddressInfo).port}`
+        })
+      })
+    );
+    // The rule engine stores live candles as it evaluates them.
+    const onCandle = (candle: Candle) => {
+      received.push(candle);
+      candleStore.add(candle);
+    };
+    service = new MarketDataService(onCandle, {
+      candleStore,
+      exchanges,
+      onTick: (tick) => ticks.push(tick),
+      connection: { subscribeDebounceMs: 0 }
+    });
+  });
+
+  after(async () => {
+    service.close();
+    await new Promise((resolve) => sockets.close(resolve));
+    await new Promise((resolve) => rest.close(resolve));
+  });
+
+  // Resolves once the service has handed on `count` live candles.
+  const receivedCount = async (count: number) => {
+    for (let waited = 0; received.length < count; waited += 10) {
+      if (waited > 2_000) throw new Error(`only ${received.length} candles arrived`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  const stored = () =>
+    candleStore.get('BINANCE', 'BTCUSDT', '1m').map((candle) => (candle.openTime - start) / MINUTE);
+
+  test('seeds history on subscribe and backfills a gap before the candle after it', async () => {
+    service.subscribe('BINANCE', 'BTCUSDT', '1m');
+    const live = await socket;
+
+    live.send(klineFrame(minute(10)));
+    await receivedCount(1);
+    assert.deepEqual(stored(), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.deepEqual(ranges, []);
+
+    // Minutes 11-14 are missed, say across a reconnect.
+    latest = minute(14);
+    live.send(klineFrame(minute(15)));
+    await receivedCount(2);
+
+    assert.deepEqual(ranges, [[minute(11), minute(14)]]);
+    assert.deepEqual(stored(), Array.from({ length: 16 }, (_, index) => index));
+    // Backfilled candles are stored, not handed on as if they were live.
+    assert.deepEqual(received.map((candle) => (candle.openTime - start) / MINUTE), [10, 15]);
+  });
+
+  test('subscribes tickers on the open socket and hands on their ticks', async () => {
+    const live = await socket;
+    const frames: unknown[] = [];
+    live.on('message', (raw) => frames.push(JSON.parse(raw.toString())));
+
+    service.subscribeTicker('BINANCE', 'BTCUSDT');
+    for (let waited = 0; frames.length === 0; waited += 10) {
+      assert.ok(waited < 2_000, 'never subscribed');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(frames, [{ method: 'SUBSCRIBE', params: ['btcusdt@miniTicker'], id: 1 }]);
+
+    const data = { e: '24hrMiniTicker', E: minute(16), s: 'BTCUSDT', c: '100000.5' };
+    live.send(JSON.stringify({ stream: 'btcusdt@miniTicker', data }));
+    for (let waited = 0; ticks.length === 0; waited += 10) {
+      assert.ok(waited < 2_000, 'no tick arrived');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(ticks, [
+      { exchange: 'BINANCE', symbol: 'BTCUSDT', price: 100000.5, eventTime: minute(16) }
+    ]);
+  });
+});
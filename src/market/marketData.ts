@@ -1,68 +1,278 @@
-import WebSocket from 'ws';
-import type { Candle, Timeframe } from '../types/domain.js';
+import type { Candle, Exchange, PriceTick, Timeframe } from '../types/domain.js';
+import type { BucketUpdate, CandleStore } from '../store/candleStore.js';
+import { MAX_CANDLES } from '../store/candleStore.js';
+import { config } from '../config.js';
+import { isAggregated, streamTimeframes, toMs } from '../utils/timeframes.js';
+import type { ExchangeAdapter, ExchangeRegistry, StreamEvent } from './exchange.js';
+import {
+  StreamConnectionManager,
+  type StreamConnectionOptions,
+  type StreamStatus
+} from './streamConnections.js';
 
 export type CandleHandler = (candle: Candle) => void;
 
-const intervals: Timeframe[] = ['1m', '5m', '15m'];
+export type TickHandler = (tick: PriceTick) => void;
+
+// `key` identifies the subscription across exchanges; `stream` is the
+// exchange's own name for it. Aggregated timeframes ride on the 1m stream.
+export type Subscription =
+  | {
+      key: string;
+      exchange: Exchange;
+      stream: string;
+      symbol: string;
+      kind: 'kline';
+      interval: Timeframe;
+    }
+  | { key: string; exchange: Exchange; stream: string; symbol: string; kind: 'ticker' };
+
+export type ExchangeStreamStatus = StreamStatus & { exchange: Exchange };
+
+export interface MarketDataOptions {
+  candleStore: CandleStore;
+  exchanges: ExchangeRegistry;
+  backfillLimit?: number;
+  connection?: Partial<StreamConnectionOptions>;
+  onTick?: TickHandler;
+  onError?: (error: unknown, stream: string) => void;
+}
+
+export const klineKey = (exchange: Exchange, symbol: string, interval: Timeframe) =>
+  `${exchange}:${symbol}@kline_${interval}`;
+
+export const tickerKey = (exchange: Exchange, symbol: string) => `${exchange}:${symbol}@ticker`;
 
 export class MarketDataService {
-  private sockets = new Map<string, WebSocket>();
-
-  constructor(private readonly onCandle: CandleHandler) {}
-
-  subscribe(symbol: string, interval: Timeframe): void {
-    const key = `${symbol.toLowerCase()}@kline_${interval}`;
-    if (this.sockets.has(key)) return;
-
-    const socket = new WebSocket(`wss://stream.binance.com:9443/ws/${key}`);
-    socket.on('message', (data) => {
-      const parsed = JSON.parse(data.toString()) as {
-        k: {
-          t: number;
-          T: number;
-          s: string;
-          i: Timeframe;
-          o: string;
-          h: string;
-          l: string;
-          c: string;
-          v: string;
-          x: boolean;
-        };
-      };
-
-      const candle: Candle = {
-        symbol: parsed.k.s,
-        interval: parsed.k.i,
-        openTime: parsed.k.t,
-        closeTime: parsed.k.T,
-        open: Number(parsed.k.o),
-        high: Number(parsed.k.h),
-        low: Number(parsed.k.l),
-        close: Number(parsed.k.c),
-        volume: Number(parsed.k.v),
-        isFinal: parsed.k.x
-      };
+  private readonly connections = new Map<Exchange, StreamConnectionManager>();
+  private subscriptions = new Map<string, Subscription>();
+  private seeded = new Set<string>();
+  private queues = new Map<string, Promise<void>>();
+  private readonly candleStore: CandleStore;
+  private readonly exchanges: ExchangeRegistry;
+  private readonly backfillLimit: number;
+  private readonly onError: (error: unknown, stream: string) => void;
+  private readonly onTick: TickHandler;
+
+  constructor(
+    private readonly onCandle: CandleHandler,
+    private readonly options: MarketDataOptions
+  ) {
+    this.candleStore = options.candleStore;
+    this.exchanges = options.exchanges;
+    this.backfillLimit = options.backfillLimit ?? MAX_CANDLES;
+    this.onError = options.onError ?? (() => undefined);
+    this.onTick = options.onTick ?? (() => undefined);
+  }
+
+  subscribe(exchange: Exchange, symbol: string, interval: Timeframe): void {
+    const key = klineKey(exchange, symbol, interval);
+    if (this.subscriptions.has(key)) return;
+
+    const adapter = this.exchanges.get(exchange);
+    const stream = adapter.klineStream(symbol, isAggregated(interval) ? '1m' : interval);
+    this.subscriptions.set(key, { key, exchange, stream, symbol, kind: 'kline', interval });
+
+    this.seedOnce(adapter, symbol, interval);
+    // Aggregated buckets start from the 1m history, so a restart mid-bucket
+    // loses as little of it as possible.
+    if (isAggregated(interval)) this.seedOnce(adapter, symbol, '1m');
+
+    this.connectionsFor(adapter).add(stream);
+  }
+
+  unsubscribe(exchange: Exchange, symbol: string, interval: Timeframe): void {
+    const key = klineKey(exchange, symbol, interval);
+    this.remove(key);
+    this.seeded.delete(key);
+  }
+
+  subscribeTicker(exchange: Exchange, symbol: string): void {
+    const key = tickerKey(exchange, symbol);
+    if (this.subscriptions.has(key)) return;
+
+    const adapter = this.exchanges.get(exchange);
+    const stream = adapter.tickerStream(symbol);
+    this.subscriptions.set(key, { key, exchange, stream, symbol, kind: 'ticker' });
+    this.connectionsFor(adapter).add(stream);
+  }
+
+  unsubscribeTicker(exchange: Exchange, symbol: string): void {
+    this.remove(tickerKey(exchange, symbol));
+  }
+
+  listSubscriptions(): Subscription[] {
+    return [...this.subscriptions.values()];
+  }
+
+  getStreamStatus(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe
+  ): StreamStatus | undefined {
+    const subscription = this.subscriptions.get(klineKey(exchange, symbol, interval));
+    return subscription && this.connections.get(exchange)?.status(subscription.stream);
+  }
+
+  listStreamStatuses(): ExchangeStreamStatus[] {
+    return [...this.connections].flatMap(([exchange, connections]) =>
+      connections.statuses().map((status) => ({ exchange, ...status }))
+    );
+  }
+
+  close(): void {
+    for (const connections of this.connections.values()) connections.close();
+  }
 
+  subscribeDefaults(exchange: Exchange, symbols: string[]): void {
+    for (const symbol of symbols) {
+      for (const interval of streamTimeframes) {
+        this.subscribe(exchange, symbol, interval);
+      }
+    }
+  }
+
+  private remove(key: string): void {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return;
+    this.subscriptions.delete(key);
+    const shared = [...this.subscriptions.values()].some(
+      (item) => item.exchange === subscription.exchange && item.stream === subscription.stream
+    );
+    if (!shared) this.connections.get(subscription.exchange)?.remove(subscription.stream);
+  }
+
+  private seedOnce(adapter: ExchangeAdapter, symbol: string, interval: Timeframe): void {
+    const key = klineKey(adapter.exchange, symbol, interval);
+    if (this.seeded.has(key)) return;
+    this.seeded.add(key);
+    this.enqueue(key, () => this.seed(adapter, symbol, interval));
+  }
+
+  private isSubscribed(candle: Candle): boolean {
+    return this.subscriptions.has(klineKey(candle.exchange, candle.symbol, candle.interval));
+  }
+
+  // One set of sockets per exchange, opened on first use.
+  private connectionsFor(adapter: ExchangeAdapter): StreamConnectionManager {
+    let connections = this.connections.get(adapter.exchange);
+    if (!connections) {
+      connections = new StreamConnectionManager(
+        adapter,
+        (event) => this.handleEvent(adapter, event),
+        {
+          staleAfterMs: config.wsStaleAfterMs,
+          ...(adapter.heartbeatMs ? { heartbeatMs: adapter.heartbeatMs } : {}),
+          ...this.options.connection
+        }
+      );
+      this.connections.set(adapter.exchange, connections);
+    }
+    return connections;
+  }
+
+  // Candles for one stream are handled strictly in order, so a backfill
+  // always lands in CandleStore before the live candle that revealed the gap.
+  private enqueue(key: string, work: () => Promise<void>): void {
+    const next = (this.queues.get(key) ?? Promise.resolve())
+      .then(work)
+      .catch((error) => this.onError(error, key));
+    this.queues.set(key, next);
+  }
+
+  private handleEvent(adapter: ExchangeAdapter, event: StreamEvent): void {
+    if (event.kind === 'tick') {
+      this.onTick(event.tick);
+      return;
+    }
+
+    const { candle } = event;
+    const key = klineKey(candle.exchange, candle.symbol, candle.interval);
+    this.enqueue(key, async () => {
+      if (candle.isFinal) await this.repairGap(adapter, key, candle);
       this.onCandle(candle);
+      for (const update of this.candleStore.aggregate(candle)) {
+        if (!this.isSubscribed(update.candle)) continue;
+        this.onCandle(await this.settle(adapter, key, update));
+      }
     });
+  }
 
-    socket.on('close', () => {
-      this.sockets.delete(key);
-    });
+  // A bucket that closed without all its minutes (first seen mid-way, or
+  // minutes lost for good) is taken from the exchange's own history instead,
+  // falling back to what was built locally.
+  private async settle(
+    adapter: ExchangeAdapter,
+    key: string,
+    { candle, complete }: BucketUpdate
+  ): Promise<Candle> {
+    if (!candle.isFinal || complete) return candle;
+    try {
+      const [closed] = await adapter.fetchRange(
+        candle.symbol,
+        candle.interval,
+        candle.openTime,
+        candle.closeTime
+      );
+      return closed?.openTime === candle.openTime ? closed : candle;
+    } catch (error) {
+      this.onError(error, key);
+      return candle;
+    }
+  }
 
-    socket.on('error', () => {
-      socket.close();
+  private async seed(
+    adapter: ExchangeAdapter,
+    symbol: string,
+    interval: Timeframe
+  ): Promise<void> {
+    const candles = await adapter.fetchKlines({
+      symbol,
+      interval,
+      limit: Math.min(this.backfillLimit, this.candleStore.limit(interval))
     });
-
-    this.sockets.set(key, socket);
+    for (const candle of candles) {
+      if (!candle.isFinal) continue;
+      this.candleStore.add(candle);
+      this.candleStore.aggregate(candle);
+    }
   }
 
-  subscribeDefaults(symbols: string[]): void {
-    for (const symbol of symbols) {
-      for (const interval of intervals) {
-        this.subscribe(symbol, interval);
+  private async repairGap(
+    adapter: ExchangeAdapter,
+    key: string,
+    candle: Candle
+  ): Promise<void> {
+    const last = this.candleStore.last(candle.exchange, candle.symbol, candle.interval);
+    if (!last) return;
+
+    const step = toMs(candle.interval);
+    if (candle.openTime - last.openTime <= step) return;
+
+    const startTime = Math.max(
+      last.openTime + step,
+      candle.openTime - this.backfillLimit * step
+    );
+
+    try {
+      const missing = await adapter.fetchRange(
+        candle.symbol,
+        candle.interval,
+        startTime,
+        candle.openTime - 1
+      );
+      for (const item of missing) {
+        this.candleStore.add(item);
+        // Buckets closed by the backfill are stored, not evaluated, the same
+        // as the backfilled candles themselves.
+        for (const update of this.candleStore.aggregate(item)) {
+          if (update.candle.isFinal && this.isSubscribed(update.candle)) {
+            this.candleStore.add(await this.settle(adapter, key, update));
+          }
+        }
       }
+    } catch (error) {
+      this.onError(error, key);
     }
   }
 }
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { StreamEvent } from './exchange.js';
+import { BinanceAdapter } from './binance.js';
+import { StreamConnectionManager, type StreamConnectionOptions } from './streamConnections.js';
+
+const kline = (stream: string, openTime: number) =>
+  JSON.stringify({
+    stream,
+    data: {
+      e: 'kline',
+      E: openTime,
+      s: 'BTCUSDT',
+      k: {
+        t: openTime,
+        T: openTime + 59_999,
+        s: 'BTCUSDT',
+        i: '1m',
+        o: '1',
+        c: '1',
+        h: '1',
+        l: '1',
+        v: '1',
+        x: true
+      }
+    }
+  });
+
+const until = async (predicate: () => boolean, what: string) => {
+  for (let waited = 0; !predicate(); waited += 10) {
+    if (waited > 3_000) throw new Error(`timed out waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('StreamConnectionManager', () => {
+  // A fake combined-stream endpoint; it never answers pings, so only stream
+  // messages show a socket is alive.
+  let server: WebSocketServer;
+  let sockets: Array<{ socket: WebSocket; url: string; frames: unknown[] }>;
+  let events: StreamEvent[];
+  let manager: StreamConnectionManager;
+
+  const connect = (options: StreamConnectionOptions = {}) => {
+    const adapter = new BinanceAdapter({
+      wsUrl: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      maxStreamsPerConnection: 2,
+      exchangeInfoUrl: 'http://127.0.0.1/unused'
+    });
+    manager = new StreamConnectionManager(adapter, (event) => events.push(event), {
+      subscribeDebounceMs: 0,
+      baseBackoffMs: 20,
+      maxBackoffMs: 40,
+      ...options
+    });
+    return manager;
+  };
+
+  beforeEach(async () => {
+    sockets = [];
+    events = [];
+    await new Promise<void>((resolve) => {
+      server = new WebSocketServer({ port: 0, host: '127.0.0.1', autoPong: false }, resolve);
+    });
+    server.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+      const entry = { socket, url: request.url ?? '', frames: [] as unknown[] };
+      socket.on('message', (raw) => entry.frames.push(JSON.parse(raw.toString())));
+      sockets.push(entry);
+    });
+  });
+
+  afterEach(async () => {
+    manager.close();
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('combines streams into as few sockets as the per-connection cap allows', async () => {
+    connect().add('btcusdt@kline_1m');
+    manager.add('ethusdt@kline_1m');
+    manager.add('solusdt@kline_1m');
+    await until(() => sockets.length === 2, 'two sockets');
+
+    assert.deepEqual(sockets.map((entry) => entry.url).sort(), [
+      '/stream?streams=btcusdt@kline_1m',
+      '/stream?streams=solusdt@kline_1m'
+    ]);
+    // The stream added while the first socket was connecting is subscribed on open.
+    const first = sockets.find((entry) => entry.url.includes('btcusdt'));
+    await until(() => first?.frames.length === 1, 'SUBSCRIBE');
+    assert.deepEqual(first?.frames, [{ method: 'SUBSCRIBE', params: ['ethusdt@kline_1m'], id: 1 }]);
+
+    manager.remove('ethusdt@kline_1m');
+    await until(() => first?.frames.length === 2, 'UNSUBSCRIBE');
+    assert.deepEqual(first?.frames[1], {
+      method: 'UNSUBSCRIBE',
+      params: ['ethusdt@kline_1m'],
+      id: 2
+    });
+  });
+
+  test('reconnects with backoff after the server drops the socket', async () => {
+    const reconnects: number[] = [];
+    connect({ onReconnect: (_id, attempt) => reconnects.push(attempt) }).add('btcusdt@kline_1m');
+    await until(() => sockets.length === 1, 'a socket');
+    sockets[0].socket.send(kline('btcusdt@kline_1m', 0));
+    await until(() => events.length === 1, 'the first candle');
+
+    sockets[0].socket.terminate();
+    await until(() => sockets.length === 2, 'a reconnect');
+    assert.deepEqual(reconnects, [1]);
+    assert.equal(manager.status('btcusdt@kline_1m')?.reconnects, 1);
+    assert.equal(sockets[1].url, '/stream?streams=btcusdt@kline_1m');
+
+    await until(() => manager.status('btcusdt@kline_1m')?.state === 'OPEN', 'OPEN');
+    sockets[1].socket.send(kline('btcusdt@kline_1m', 60_000));
+    await until(() => events.length === 2, 'a candle after reconnecting');
+  });
+
+  test('drops a silent socket once it goes stale and opens another', async () => {
+    connect({ staleAfterMs: 100, heartbeatMs: 25 }).add('btcusdt@kline_1m');
+    await until(() => sockets.length === 1, 'a socket');
+    await until(() => manager.status('btcusdt@kline_1m')?.state === 'STALE', 'STALE');
+    await until(() => sockets.length === 2, 'a replacement socket');
+  });
+
+  test('ignores frames for streams it did not ask for', async () => {
+    connect().add('btcusdt@kline_1m');
+    await until(() => sockets.length === 1, 'a socket');
+    sockets[0].socket.send(kline('ethusdt@kline_1m', 0));
+    sockets[0].socket.send('{"result":null,"id":1}');
+    sockets[0].socket.send(kline('btcusdt@kline_1m', 0));
+    await until(() => events.length === 1, 'the subscribed candle');
+    assert.equal(events[0].stream, 'btcusdt@kline_1m');
+  });
+});
@@ -0,0 +1,309 @@
+import WebSocket from 'ws';
+import type { ExchangeAdapter, StreamEvent } from './exchange.js';
+
+export type StreamState = 'CONNECTING' | 'OPEN' | 'STALE' | 'RECONNECTING';
+
+export interface StreamStatus {
+  stream: string;
+  state: StreamState;
+  connectionId: number;
+  lastMessageAt: number | null;
+  reconnects: number;
+}
+
+export type StreamEventHandler = (event: StreamEvent) => void;
+
+export interface StreamConnectionOptions {
+  maxStreamsPerConnection?: number;
+  staleAfterMs?: number;
+  heartbeatMs?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Binance drops every connection after 24h; recycle a little before that.
+  maxLifetimeMs?: number;
+  // Binance allows 5 incoming control messages per second per connection.
+  subscribeDebounceMs?: number;
+  onReconnect?: (connectionId: number, attempt: number, delayMs: number) => void;
+}
+
+interface Connection {
+  id: number;
+  streams: Set<string>;
+  // Streams the server currently knows about on this socket.
+  live: Set<string>;
+  socket: WebSocket | null;
+  state: 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+  attempts: number;
+  openedAt: number;
+  lastSeenAt: number;
+  requestId: number;
+  reconnectTimer?: NodeJS.Timeout;
+  flushTimer?: NodeJS.Timeout;
+}
+
+export class StreamConnectionManager {
+  private connections = new Map<number, Connection>();
+  private byStream = new Map<string, Connection>();
+  private lastMessageAt = new Map<string, number>();
+  private reconnectCounts = new Map<string, number>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private nextId = 1;
+  private readonly options: Required<Omit<StreamConnectionOptions, 'onReconnect'>> &
+    Pick<StreamConnectionOptions, 'onReconnect'>;
+
+  constructor(
+    private readonly adapter: ExchangeAdapter,
+    private readonly onEvent: StreamEventHandler,
+    options: StreamConnectionOptions = {}
+  ) {
+    this.options = {
+      maxStreamsPerConnection: adapter.maxStreamsPerConnection,
+      staleAfterMs: 90_000,
+      heartbeatMs: 30_000,
+      baseBackoffMs: 1_000,
+      maxBackoffMs: 60_000,
+      maxLifetimeMs: 23 * 60 * 60 * 1000,
+      subscribeDebounceMs: 250,
+      ...options
+    };
+  }
+
+  add(stream: string): void {
+    if (this.byStream.has(stream)) return;
+
+    let connection = [...this.connections.values()].find(
+      (item) => item.streams.size < this.options.maxStreamsPerConnection
+    );
+    if (!connection) {
+      connection = this.createConnection();
+    }
+
+    connection.streams.add(stream);
+    this.byStream.set(stream, connection);
+    this.ensureHeartbeat();
+
+    // A connection waiting out its backoff takes the stream along when the
+    // scheduled reconnect opens it.
+    if (!connection.socket && !connection.reconnectTimer) {
+      this.connect(connection);
+    } else {
+      this.scheduleFlush(connection);
+    }
+  }
+
+  remove(stream: string): void {
+    const connection = this.byStream.get(stream);
+    if (!connection) return;
+
+    connection.streams.delete(stream);
+    this.byStream.delete(stream);
+    this.lastMessageAt.delete(stream);
+    this.reconnectCounts.delete(stream);
+
+    if (connection.streams.size === 0) {
+      this.closeConnection(connection);
+    } else {
+      this.scheduleFlush(connection);
+    }
+  }
+
+  has(stream: string): boolean {
+    return this.byStream.has(stream);
+  }
+
+  streams(): string[] {
+    return [...this.byStream.keys()];
+  }
+
+  status(stream: string): StreamStatus | undefined {
+    const connection = this.byStream.get(stream);
+    if (!connection) return undefined;
+
+    const lastMessageAt = this.lastMessageAt.get(stream) ?? null;
+    let state: StreamState = connection.state === 'OPEN' ? 'OPEN' : 'CONNECTING';
+    if (connection.state === 'RECONNECTING') state = 'RECONNECTING';
+    if (connection.state === 'OPEN') {
+      const since = lastMessageAt ?? connection.openedAt;
+      if (Date.now() - since > this.options.staleAfterMs) state = 'STALE';
+    }
+
+    return {
+      stream,
+      state,
+      connectionId: connection.id,
+      lastMessageAt,
+      reconnects: this.reconnectCounts.get(stream) ?? 0
+    };
+  }
+
+  statuses(): StreamStatus[] {
+    return this.streams()
+      .map((stream) => this.status(stream))
+      .filter((item): item is StreamStatus => Boolean(item));
+  }
+
+  close(): void {
+    for (const connection of this.connections.values()) {
+      this.closeConnection(connection);
+    }
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private createConnection(): Connection {
+    const connection: Connection = {
+      id: this.nextId++,
+      streams: new Set(),
+      live: new Set(),
+      socket: null,
+      state: 'CONNECTING',
+      attempts: 0,
+      openedAt: 0,
+      lastSeenAt: 0,
+      requestId: 1
+    };
+    this.connections.set(connection.id, connection);
+    return connection;
+  }
+
+  private connect(connection: Connection): void {
+    const initial = [...connection.streams];
+    const socket = new WebSocket(this.adapter.connectUrl(initial));
+    connection.socket = socket;
+    connection.state = 'CONNECTING';
+    // Streams not in the URL are subscribed by the flush once it opens.
+    connection.live = new Set(this.adapter.subscribesInUrl ? initial : []);
+
+    socket.on('open', () => {
+      if (connection.socket !== socket) return;
+      connection.state = 'OPEN';
+      connection.attempts = 0;
+      connection.openedAt = Date.now();
+      connection.lastSeenAt = connection.openedAt;
+      this.flush(connection);
+    });
+
+    socket.on('message', (raw) => {
+      if (connection.socket !== socket) return;
+      connection.lastSeenAt = Date.now();
+
+      // Acknowledgements and pongs decode to no events.
+      for (const event of this.adapter.parseMessage(raw.toString())) {
+        if (!connection.streams.has(event.stream)) continue;
+        this.lastMessageAt.set(event.stream, connection.lastSeenAt);
+        this.onEvent(event);
+      }
+    });
+
+    socket.on('pong', () => {
+      connection.lastSeenAt = Date.now();
+    });
+
+    socket.on('close', () => {
+      if (connection.socket !== socket) return;
+      connection.socket = null;
+      if (connection.state !== 'CLOSED') {
+        this.scheduleReconnect(connection);
+      }
+    });
+
+    socket.on('error', () => {
+      socket.terminate();
+    });
+  }
+
+  private scheduleReconnect(connection: Connection): void {
+    connection.state = 'RECONNECTING';
+    connection.attempts += 1;
+
+    const ceiling = Math.min(
+      this.options.maxBackoffMs,
+      this.options.baseBackoffMs * 2 ** (connection.attempts - 1)
+    );
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+
+    for (const stream of connection.streams) {
+      this.reconnectCounts.set(stream, (this.reconnectCounts.get(stream) ?? 0) + 1);
+    }
+    this.options.onReconnect?.(connection.id, connection.attempts, delay);
+
+    connection.reconnectTimer = setTimeout(() => {
+      connection.reconnectTimer = undefined;
+      if (connection.state === 'CLOSED') return;
+      this.connect(connection);
+    }, delay);
+    connection.reconnectTimer.unref();
+  }
+
+  private scheduleFlush(connection: Connection): void {
+    if (connection.state !== 'OPEN' || connection.flushTimer) return;
+    connection.flushTimer = setTimeout(() => {
+      connection.flushTimer = undefined;
+      this.flush(connection);
+    }, this.options.subscribeDebounceMs);
+    connection.flushTimer.unref();
+  }
+
+  // Brings the server-side subscription set in line with `streams` using
+  // batched SUBSCRIBE and UNSUBSCRIBE requests.
+  private flush(connection: Connection): void {
+    const socket = connection.socket;
+    if (!socket || connection.state !== 'OPEN') return;
+
+    const added = [...connection.streams].filter((stream) => !connection.live.has(stream));
+    const removed = [...connection.live].filter((stream) => !connection.streams.has(stream));
+
+    if (added.length > 0) {
+      for (const frame of this.adapter.controlFrames('SUBSCRIBE', added, connection.requestId++)) {
+        socket.send(frame);
+      }
+    }
+    if (removed.length > 0) {
+      for (const frame of this.adapter.controlFrames(
+        'UNSUBSCRIBE',
+        removed,
+        connection.requestId++
+      )) {
+        socket.send(frame);
+      }
+    }
+    connection.live = new Set(connection.streams);
+  }
+
+  private closeConnection(connection: Connection): void {
+    connection.state = 'CLOSED';
+    clearTimeout(connection.reconnectTimer);
+    clearTimeout(connection.flushTimer);
+    connection.socket?.close();
+    connection.socket = null;
+    this.connections.delete(connection.id);
+  }
+
+  private ensureHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => this.checkConnections(), this.options.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  private checkConnections(): void {
+    const now = Date.now();
+    for (const connection of this.connections.values()) {
+      const socket = connection.socket;
+      if (!socket || connection.state !== 'OPEN') continue;
+
+      const silent = now - connection.lastSeenAt > this.options.staleAfterMs;
+      const expiring = now - connection.openedAt > this.options.maxLifetimeMs;
+      if (silent || expiring) {
+        // The close handler schedules the reconnect.
+        socket.terminate();
+        continue;
+      }
+
+      socket.ping();
+      const keepalive = this.adapter.keepaliveFrame?.();
+      if (keepalive) socket.send(keepalive);
+    }
+  }
+}
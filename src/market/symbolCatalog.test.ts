@@ -0,0 +1,95 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { BinanceAdapter } from './binance.js';
+import { binanceSymbols } from './binanceSymbols.js';
+import { ExchangeRegistry } from './exchange.js';
+import { SymbolCatalog, type SymbolCatalogOptions } from './symbolCatalog.js';
+
+const exchangeInfo = {
+  symbols: [
+    {
+      symbol: 'PEPEUSDT',
+      baseAsset: 'PEPE',
+      quoteAsset: 'USDT',
+      status: 'TRADING',
+      filters: [{ filterType: 'PRICE_FILTER', tickSize: '0.00000001' }]
+    },
+    {
+      symbol: 'LUNAUSDT',
+      baseAsset: 'LUNA',
+      quoteAsset: 'USDT',
+      status: 'BREAK',
+      filters: []
+    }
+  ]
+};
+
+describe('SymbolCatalog', () => {
+  let handler: (request: IncomingMessage, response: ServerResponse) => void;
+  let url: string;
+  const server = createServer((request, response) => handler(request, response));
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v3/exchangeInfo`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const catalog = (options: Partial<SymbolCatalogOptions> = {}) => {
+    const exchanges = new ExchangeRegistry().register(
+      new BinanceAdapter({
+        wsUrl: 'wss://stream.binance.com:9443',
+        maxStreamsPerConnection: 200,
+        exchangeInfoUrl: url,
+        restTimeoutMs: 100
+      })
+    );
+    return new SymbolCatalog(exchanges, {
+      source: 'live',
+      refreshMs: 60_000,
+      snapshots: { BINANCE: binanceSymbols },
+      ...options
+    });
+  };
+
+  test('checks symbols against the live listing, however they are written', async () => {
+    handler = (_request, response) => response.end(JSON.stringify(exchangeInfo));
+    const symbols = catalog();
+    await symbols.refresh();
+
+    assert.equal(symbols.isLive('BINANCE'), true);
+    assert.equal(symbols.check('BINANCE', 'pepe/usdt'), null);
+    assert.equal(symbols.lookup('BINANCE', 'PEPE-USDT')?.tickSize, 0.00000001);
+    assert.equal(symbols.check('BINANCE', 'LUNAUSDT'), 'is not trading on BINANCE');
+    assert.equal(symbols.check('BINANCE', 'BTCUSDT'), 'is not listed on BINANCE');
+    assert.equal(symbols.check('BYBIT', 'ANYTHING'), null);
+  });
+
+  test('rejects typos against the snapshot when that is the source', async () => {
+    handler = () => assert.fail('the snapshot source should not fetch');
+    const symbols = catalog({ source: 'snapshot' });
+    await symbols.refresh();
+
+    assert.equal(symbols.check('BINANCE', 'btc/usdt'), null);
+    assert.equal(symbols.check('BINANCE', 'BTCUSD'), 'is not listed on BINANCE');
+  });
+
+  test('falls back to the snapshot when the listing times out, without rejecting', async () => {
+    handler = () => {};
+    const errors: unknown[] = [];
+    const symbols = catalog({ onError: (error) => errors.push(error) });
+    await symbols.refresh();
+
+    assert.equal(errors.length, 1);
+    assert.equal((errors[0] as Error).name, 'TimeoutError');
+    assert.equal(symbols.isLive('BINANCE'), false);
+    assert.equal(symbols.lookup('BINANCE', 'ETHUSDT')?.baseAsset, 'ETH');
+    assert.equal(symbols.check('BINANCE', 'PEPEUSDT'), null);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Exchange, SymbolInfo, SymbolStatus } from '../types/domain.js';
+import { compactSymbol, type ExchangeRegistry } from './exchange.js';
+
+export interface SymbolCatalogOptions {
+  // 'live' fetches each exchange's listing and refreshes it every `refreshMs`;
+  // 'snapshot' only loads `snapshots`.
+  source: 'live' | 'snapshot';
+  refreshMs: number;
+  // Used until a live listing loads, or for good when it never does.
+  snapshots?: Partial<Record<Exchange, SymbolInfo[]>>;
+  // Called after an exchange's live listing has loaded.
+  onRefresh?: (exchange: Exchange) => Promise<void>;
+  onError?: (error: unknown, exchange: Exchange) => void;
+}
+
+export interface SymbolQuery {
+  exchange?: Exchange;
+  // Matched against the symbol and its base asset.
+  q?: string;
+  quote?: string;
+  status?: SymbolStatus;
+  limit: number;
+}
+
+interface Listing {
+  symbols: Map<string, SymbolInfo>;
+  live: boolean;
+}
+
+// What each exchange lists, so rules can be checked against real pairs. A
+// live listing rejects symbols, as does the snapshot when it is the configured
+// source. A snapshot standing in for a live listing that failed to load does
+// not, and an exchange with no listing at all accepts any symbol rather than none.
+export class SymbolCatalog {
+  private listings = new Map<Exchange, Listing>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private readonly exchanges: ExchangeRegistry,
+    private readonly options: SymbolCatalogOptions
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.refresh();
+    if (this.options.source !== 'live') return;
+    this.timer = setInterval(() => {
+      void this.refresh();
+    }, this.options.refreshMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  refresh(): Promise<void> {
+    if (!this.running) {
+      this.running = this.load().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // Finds a pair however the user wrote it (`btc/usdt`, `BTC-USDT`).
+  lookup(exchange: Exchange, input: string): SymbolInfo | undefined {
+    if (!this.exchanges.has(exchange)) return undefined;
+    const symbol = this.exchanges.get(exchange).normalizeSymbol(input);
+    return this.listings.get(exchange)?.symbols.get(symbol);
+  }
+
+  // Why a rule may not use the symbol, phrased to follow it, or null.
+  check(exchange: Exchange, symbol: string): string | null {
+    const listing = this.listings.get(exchange);
+    if (!listing || (!listing.live && this.options.source === 'live')) return null;
+    const info = this.lookup(exchange, symbol);
+    if (!info) return `is not listed on ${exchange}`;
+    if (info.status !== 'TRADING') return `is not trading on ${exchange}`;
+    return null;
+  }
+
+  // True once the exchange's listing came from the exchange itself rather
+  // than a snapshot, i.e. a missing symbol really is gone.
+  isLive(exchange: Exchange): boolean {
+    return this.listings.get(exchange)?.live ?? false;
+  }
+
+  search(query: SymbolQuery): SymbolInfo[] {
+    const text = query.q ? compactSymbol(query.q) : undefined;
+    const quote = query.quote?.toUpperCase();
+    const matches: SymbolInfo[] = [];
+
+    for (const [exchange, listing] of this.listings) {
+      if (query.exchange && exchange !== query.exchange) continue;
+      for (const info of listing.symbols.values()) {
+        if (quote && info.quoteAsset !== quote) continue;
+        if (query.status && info.status !== query.status) continue;
+        if (text && !info.symbol.includes(text) && !info.baseAsset.includes(text)) continue;
+        matches.push(info);
+      }
+    }
+
+    // Exact and prefix matches first, so `q=btc` leads with BTC pairs.
+    const rank = (info: SymbolInfo) => {
+      if (!text || info.symbol === text) return 0;
+      if (info.baseAsset === text) return 1;
+      return info.symbol.startsWith(text) ? 2 : 3;
+    };
+    return matches
+      .sort((a, b) => rank(a) - rank(b) || a.symbol.localeCompare(b.symbol))
+      .slice(0, query.limit);
+  }
+
+  private async load(): Promise<void> {
+    for (const { exchange } of this.exchanges.list()) {
+      if (this.options.source === 'live' && (await this.loadLive(exchange))) continue;
+      // A stale live listing is still better than the snapshot.
+      const snapshot = this.options.snapshots?.[exchange];
+      if (snapshot && !this.listings.has(exchange)) this.set(exchange, snapshot, false);
+    }
+  }
+
+  private async loadLive(exchange: Exchange): Promise<boolean> {
+    try {
+      const symbols = await this.exchanges.get(exchange).fetchSymbols();
+      // An empty answer is an outage, not every pair being delisted.
+      if (symbols.length === 0) throw new Error(`${exchange} listed no symbols`);
+      this.set(exchange, symbols, true);
+      await this.options.onRefresh?.(exchange);
+      return true;
+    } catch (error) {
+      this.options.onError?.(error, exchange);
+      return this.listings.has(exchange);
+    }
+  }
+
+  private set(exchange: Exchange, symbols: SymbolInfo[], live: boolean): void {
+    this.listings.set(exchange, {
+      symbols: new Map(symbols.map((info) => [info.symbol, info])),
+      live
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CandleHistory } from '../market/exchange.js';
+import type { Candle } from '../types/domain.js';
+import {
+  BacktestInputError,
+  loadBacktestCandles,
+  MAX_BACKTEST_CANDLES,
+  runBacktest,
+  type BacktestRule
+} from './backtest.js';
+
+const MINUTE = 60_000;
+
+const rule: BacktestRule = {
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  type: 'BREAKOUT',
+  timeframe: '1m',
+  params: { lookback: 3, direction: 'UP' },
+  cooldownSec: 0
+};
+
+const candle = (index: number, close: number): Candle => ({
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  interval: '1m',
+  openTime: index * MINUTE,
+  closeTime: (index + 1) * MINUTE - 1,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  isFinal: true
+});
+
+// Records the ranges asked for and answers with nothing.
+const recordingHistory = () => {
+  const ranges: Array<[number, number]> = [];
+  const history: CandleHistory = {
+    fetchKlines: async () => [],
+    fetchRange: async (_symbol, _interval, startTime, endTime) => {
+      ranges.push([startTime, endTime]);
+      return [];
+    }
+  };
+  return { history, ranges };
+};
+
+describe('loadBacktestCandles', () => {
+  test('rejects a range longer than the candle cap before fetching it', async () => {
+    const { history, ranges } = recordingHistory();
+    await assert.rejects(
+      loadBacktestCandles(
+        rule,
+        { range: { startTime: 0, endTime: (MAX_BACKTEST_CANDLES + 1) * MINUTE } },
+        history
+      ),
+      BacktestInputError
+    );
+    assert.deepEqual(ranges, []);
+  });
+
+  test('fetches a range within the cap', async () => {
+    const { history, ranges } = recordingHistory();
+    await loadBacktestCandles(rule, { range: { startTime: 0, endTime: 60 * MINUTE } }, history);
+    assert.deepEqual(ranges, [[0, 60 * MINUTE]]);
+  });
+
+  test('parses CSV in any column order and sorts by open time', async () => {
+    const csv = [
+      'close,openTime,closeTime,open,high,low,volume',
+      '2,60000,119999,2,2,2,1',
+      '1,0,59999,1,1,1,1'
+    ].join('\n');
+    const candles = await loadBacktestCandles(rule, { csv }, recordingHistory().history);
+    assert.deepEqual(
+      candles.map((item) => [item.openTime, item.close]),
+      [
+        [0, 1],
+        [MINUTE, 2]
+      ]
+    );
+  });
+
+  test('names the first candle with a missing field', async () => {
+    await assert.rejects(
+      loadBacktestCandles(
+        rule,
+        { candles: [candle(0, 1), { openTime: MINUTE }] },
+        recordingHistory().history
+      ),
+      { message: 'Candle 1: invalid closeTime' }
+    );
+  });
+});
+
+describe('runBacktest', () => {
+  test('reports the candles a rule would have fired on', async () => {
+    const closes = [10, 11, 10, 12, 11, 13];
+    const result = await runBacktest(
+      rule,
+      closes.map((close, index) => candle(index, close))
+    );
+    assert.deepEqual(
+      result.triggers.map((trigger) => trigger.openTime),
+      [3 * MINUTE, 5 * MINUTE]
+    );
+    assert.equal(result.stats.candles, 6);
+    assert.deepEqual(result.stats.directions, { UP: 2 });
+  });
+});
@@ -0,0 +1,224 @@
+import type { AlertRule, Candle, Exchange, Timeframe } from '../types/domain.js';
+import { DEFAULT_EXCHANGE, type CandleHistory } from '../market/exchange.js';
+import { config } from '../config.js';
+import { CandleStore } from '../store/candleStore.js';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import { toMs } from '../utils/timeframes.js';
+import { RuleEngine } from './ruleEngine.js';
+
+export const MAX_BACKTEST_CANDLES = 50_000;
+
+export type BacktestRule = Pick<
+  AlertRule,
+  'symbol' | 'type' | 'timeframe' | 'params' | 'cooldownSec' | 'rearmPolicy' | 'hysteresisPct'
+> & { exchange?: Exchange };
+
+export interface BacktestSource {
+  candles?: Array<Partial<Candle>>;
+  csv?: string;
+  range?: { startTime: number; endTime: number };
+}
+
+export interface BacktestTrigger {
+  openTime: number;
+  closeTime: number;
+  payload: Record<string, unknown>;
+}
+
+export interface BacktestResult {
+  rule: BacktestRule;
+  triggers: BacktestTrigger[];
+  stats: {
+    candles: number;
+    triggers: number;
+    from: number | null;
+    to: number | null;
+    triggersPerDay: number;
+    minGapSec: number | null;
+    directions: Record<string, number>;
+  };
+}
+
+export class BacktestInputError extends Error {}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Extreme-move rules are always evaluated on 1m candles.
+export const backtestTimeframe = (rule: BacktestRule): Timeframe =>
+  rule.type === 'EXTREME_MOVE' ? '1m' : (rule.timeframe ?? '1m');
+
+const toCandle = (
+  raw: Partial<Candle>,
+  rule: BacktestRule,
+  interval: Timeframe,
+  index: number
+): Candle => {
+  const candle: Candle = {
+    exchange: rule.exchange ?? DEFAULT_EXCHANGE,
+    symbol: rule.symbol,
+    interval,
+    openTime: Number(raw.openTime),
+    closeTime: Number(raw.closeTime),
+    open: Number(raw.open),
+    high: Number(raw.high),
+    low: Number(raw.low),
+    close: Number(raw.close),
+    volume: Number(raw.volume),
+    isFinal: true
+  };
+
+  const invalid = Object.entries(candle).find(
+    ([, value]) => typeof value === 'number' && !Number.isFinite(value)
+  );
+  if (invalid) {
+    throw new BacktestInputError(`Candle ${index}: invalid ${invalid[0]}`);
+  }
+  return candle;
+};
+
+// Expects a header row naming at least openTime, closeTime, open, high, low,
+// close and volume; column order is free and extra columns are ignored.
+export const parseCandleCsv = (csv: string): Array<Partial<Candle>> => {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map((column) => column.trim());
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',');
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = cells[index]?.trim() ?? '';
+    });
+    return row as unknown as Partial<Candle>;
+  });
+};
+
+export const loadBacktestCandles = async (
+  rule: BacktestRule,
+  source: BacktestSource,
+  history: CandleHistory
+): Promise<Candle[]> => {
+  const interval = backtestTimeframe(rule);
+  let raw: Array<Partial<Candle>>;
+
+  if (source.candles) {
+    raw = source.candles;
+  } else if (source.csv) {
+    raw = parseCandleCsv(source.csv);
+  } else if (source.range) {
+    const { startTime, endTime } = source.range;
+    if (!(startTime < endTime)) {
+      throw new BacktestInputError('range.startTime must be before range.endTime');
+    }
+    // Checked before fetching, which pages through the whole range.
+    if ((endTime - startTime) / toMs(interval) > MAX_BACKTEST_CANDLES) {
+      throw new BacktestInputError(
+        `range spans more than ${MAX_BACKTEST_CANDLES} ${interval} candles`
+      );
+    }
+    raw = await history.fetchRange(rule.symbol, interval, startTime, endTime);
+  } else {
+    throw new BacktestInputError('One of candles, csv or range is required');
+  }
+
+  if (raw.length > MAX_BACKTEST_CANDLES) {
+    throw new BacktestInputError(`At most ${MAX_BACKTEST_CANDLES} candles are allowed`);
+  }
+
+  return raw
+    .map((item, index) => toCandle(item, rule, interval, index))
+    .sort((a, b) => a.openTime - b.openTime);
+};
+
+// Replays the candles through a RuleEngine wired to its own store, candle
+// history and a clock pinned to each candle's close, so cooldowns behave as
+// they would have live.
+export const runBacktest = async (
+  rule: BacktestRule,
+  candles: Candle[]
+): Promise<BacktestResult> => {
+  const store = new InMemoryStore();
+  let now = 0;
+  const engine = new RuleEngine(store, new CandleStore(config.candleLimits), () => now);
+
+  const user = await store.createUser({ telegramChatId: 'backtest', plan: 'PRO' });
+  await store.createRule({
+    userId: user.id,
+    exchange: rule.exchange ?? DEFAULT_EXCHANGE,
+    symbol: rule.symbol,
+    type: rule.type,
+    timeframe: rule.type === 'EXTREME_MOVE' ? rule.timeframe : backtestTimeframe(rule),
+    params: rule.params,
+    isEnabled: true,
+    cooldownSec: rule.cooldownSec,
+    rearmPolicy: rule.rearmPolicy,
+    hysteresisPct: rule.hysteresisPct
+  });
+
+  const triggers: BacktestTrigger[] = [];
+  for (const candle of candles) {
+    now = candle.closeTime;
+    const fired = await engine.evaluateCandle(candle);
+    if (candle.interval === '1m') {
+      fired.push(...(await engine.evaluateExtremeMove(candle)));
+    }
+    // Closes stand in for the live ticker when replaying price crossings.
+    fired.push(
+      ...(await engine.evaluatePrice({
+        exchange: candle.exchange,
+        symbol: candle.symbol,
+        price: candle.close,
+        eventTime: candle.closeTime
+      }))
+    );
+    for (const alert of fired) {
+      triggers.push({
+        openTime: candle.openTime,
+        closeTime: candle.closeTime,
+        payload: alert.payload
+      });
+    }
+  }
+
+  return { rule, triggers, stats: summarise(candles, triggers) };
+};
+
+const summarise = (
+  candles: Candle[],
+  triggers: BacktestTrigger[]
+): BacktestResult['stats'] => {
+  const from = candles[0]?.openTime ?? null;
+  const to = candles[candles.length - 1]?.closeTime ?? null;
+  const days = from !== null && to !== null ? Math.max((to - from) / DAY_MS, 1 / 24) : 0;
+
+  let minGapSec: number | null = null;
+  const directions: Record<string, number> = {};
+  triggers.forEach((trigger, index) => {
+    if (index > 0) {
+      const gap = (trigger.closeTime - triggers[index - 1].closeTime) / 1000;
+      minGapSec = minGapSec === null ? gap : Math.min(minGapSec, gap);
+    }
+    const direction =
+      typeof trigger.payload.direction === 'string'
+        ? trigger.payload.direction
+        : typeof trigger.payload.change === 'number'
+          ? trigger.payload.change >= 0
+            ? 'UP'
+            : 'DOWN'
+          : 'NONE';
+    directions[direction] = (directions[direction] ?? 0) + 1;
+  });
+
+  return {
+    candles: candles.length,
+    triggers: triggers.length,
+    from,
+    to,
+    triggersPerDay: days > 0 ? triggers.length / days : 0,
+    minGapSec,
+    directions
+  };
+};
@@ -0,0 +1,109 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlertRule, CompositeParams, ConditionNode } from '../types/domain.js';
+import { timeframes } from '../utils/timeframes.js';
+import {
+  collectChecks,
+  MAX_CONDITION_CHECKS,
+  referencedSeries,
+  ruleSymbols,
+  validateCompositeParams
+} from './composite.js';
+
+const check = (symbol?: string, timeframe?: '5m' | '1h'): ConditionNode => ({
+  op: 'CHECK',
+  type: 'BREAKOUT',
+  symbol,
+  timeframe,
+  params: { lookback: 20, direction: 'UP' }
+});
+
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const composite = (condition: ConditionNode) =>
+  ({
+    id: 'rule-1',
+    userId: 'user-1',
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'COMPOSITE',
+    timeframe: '5m',
+    params: { condition },
+    isEnabled: true,
+    cooldownSec: 300,
+    createdAt: now,
+    updatedAt: now
+  }) as AlertRule & { params: CompositeParams };
+
+describe('composite conditions', () => {
+  const condition: ConditionNode = {
+    op: 'OR',
+    conditions: [
+      check(),
+      { op: 'NOT', condition: check('ETHUSDT', '1h') },
+      { op: 'CHECK', type: 'EXTREME_MOVE', params: { windowMin: 5, percent: 2, direction: 'BOTH' } }
+    ]
+  };
+
+  test('path each check by its position in the tree', () => {
+    assert.deepEqual(
+      collectChecks(condition).map(({ path }) => path),
+      ['0.0', '0.1.0', '0.2']
+    );
+  });
+
+  test('read the rule symbol and timeframe unless a check names its own', () => {
+    assert.deepEqual(referencedSeries(composite(condition)), [
+      { symbol: 'BTCUSDT', timeframe: '5m' },
+      { symbol: 'ETHUSDT', timeframe: '1h' },
+      // Extreme moves are measured on 1m candles whatever the rule says.
+      { symbol: 'BTCUSDT', timeframe: '1m' }
+    ]);
+    assert.deepEqual(ruleSymbols(composite(condition)), ['BTCUSDT', 'ETHUSDT']);
+  });
+
+  test('accept a well-formed tree', () => {
+    assert.equal(validateCompositeParams({ condition, withinCandles: 3 }), null);
+  });
+
+  test('name the first structural problem', () => {
+    const invalid: Array<[unknown, string]> = [
+      [
+        { condition: check(), withinCandles: -1 },
+        'params.withinCandles: must be a non-negative integer'
+      ],
+      [{ condition: { op: 'XOR' } }, 'params.condition.op: must be one of AND, OR, NOT, CHECK'],
+      [
+        { condition: { op: 'AND', conditions: [check()] } },
+        'params.condition.conditions: AND needs at least two conditions'
+      ],
+      [
+        { condition: { op: 'NOT', condition: { op: 'CHECK', type: 'PRICE_CROSS', params: {} } } },
+        'params.condition.condition.type: must be one of EXTREME_MOVE, BREAKOUT, VOLUME_SPIKE, ' +
+          'RSI, MA_CROSS, MACD_CROSS, BOLLINGER'
+      ],
+      [
+        { condition: { ...check(), timeframe: '2m' } },
+        `params.condition.timeframe: must be one of ${timeframes.join(', ')}`
+      ]
+    ];
+    for (const [params, message] of invalid) {
+      assert.equal(validateCompositeParams(params), message);
+    }
+  });
+
+  test('limit nesting and the number of checks', () => {
+    let deep: ConditionNode = check();
+    for (let depth = 0; depth < 5; depth += 1) deep = { op: 'NOT', condition: deep };
+    assert.match(validateCompositeParams({ condition: deep }) ?? '', /nesting deeper than 5/);
+
+    const wide: ConditionNode = {
+      op: 'OR',
+      conditions: Array.from({ length: MAX_CONDITION_CHECKS + 1 }, () => check())
+    };
+    assert.equal(
+      validateCompositeParams({ condition: wide }),
+      `params.condition: at most ${MAX_CONDITION_CHECKS} checks are allowed`
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import type {
+  AlertRule,
+  ConditionCheck,
+  ConditionCheckType,
+  ConditionNode,
+  Timeframe
+} from '../types/domain.js';
+import { timeframes } from '../utils/timeframes.js';
+
+export const MAX_CONDITION_DEPTH = 5;
+export const MAX_CONDITION_CHECKS = 10;
+
+const checkTypes: ConditionCheckType[] = [
+  'EXTREME_MOVE',
+  'BREAKOUT',
+  'VOLUME_SPIKE',
+  'RSI',
+  'MA_CROSS',
+  'MACD_CROSS',
+  'BOLLINGER'
+];
+
+export const checkSymbol = (check: ConditionCheck, rule: Pick<AlertRule, 'symbol'>) =>
+  check.symbol ?? rule.symbol;
+
+export const checkTimeframe = (
+  check: ConditionCheck,
+  rule: Pick<AlertRule, 'timeframe'>
+): Timeframe =>
+  check.type === 'EXTREME_MOVE' ? '1m' : (check.timeframe ?? rule.timeframe ?? '1m');
+
+// Leaves paired with a stable path ("0.1.0") used to key per-check state.
+export const collectChecks = (
+  node: ConditionNode,
+  path = '0'
+): Array<{ path: string; check: ConditionCheck }> => {
+  if (node.op === 'CHECK') return [{ path, check: node }];
+  if (node.op === 'NOT') return collectChecks(node.condition, `${path}.0`);
+  return node.conditions.flatMap((child, index) => collectChecks(child, `${path}.${index}`));
+};
+
+// Distinct symbol/timeframe series the rule's checks read.
+export const referencedSeries = (
+  rule: AlertRule & { params: { condition: ConditionNode } }
+): Array<{ symbol: string; timeframe: Timeframe }> => {
+  const series = new Map<string, { symbol: string; timeframe: Timeframe }>();
+  for (const { check } of collectChecks(rule.params.condition)) {
+    const symbol = checkSymbol(check, rule);
+    const timeframe = checkTimeframe(check, rule);
+    series.set(`${symbol}:${timeframe}`, { symbol, timeframe });
+  }
+  return [...series.values()];
+};
+
+// Every symbol a rule reads: its own, or each one its composite checks name.
+export const ruleSymbols = (rule: Pick<AlertRule, 'symbol' | 'type' | 'params'>): string[] => {
+  if (rule.type !== 'COMPOSITE') return [rule.symbol];
+  const { condition } = rule.params as { condition: ConditionNode };
+  return [...new Set(collectChecks(condition).map(({ check }) => checkSymbol(check, rule)))];
+};
+
+// Returns a message describing the first structural problem, or null.
+export const validateCondition = (node: unknown, path = 'condition', depth = 1): string | null => {
+  if (depth > MAX_CONDITION_DEPTH) {
+    return `${path}: nesting deeper than ${MAX_CONDITION_DEPTH} levels`;
+  }
+  if (!node || typeof node !== 'object') return `${path}: must be an object`;
+
+  const item = node as Record<string, unknown>;
+  switch (item.op) {
+    case 'AND':
+    case 'OR': {
+      if (!Array.isArray(item.conditions) || item.conditions.length < 2) {
+        return `${path}.conditions: ${item.op} needs at least two conditions`;
+      }
+      for (const [index, child] of item.conditions.entries()) {
+        const error = validateCondition(child, `${path}.conditions[${index}]`, depth + 1);
+        if (error) return error;
+      }
+      break;
+    }
+    case 'NOT': {
+      const error = validateCondition(item.condition, `${path}.condition`, depth + 1);
+      if (error) return error;
+      break;
+    }
+    case 'CHECK': {
+      if (!checkTypes.includes(item.type as ConditionCheckType)) {
+        return `${path}.type: must be one of ${checkTypes.join(', ')}`;
+      }
+      if (item.symbol !== undefined && typeof item.symbol !== 'string') {
+        return `${path}.symbol: must be a string`;
+      }
+      if (item.timeframe !== undefined && !timeframes.includes(item.timeframe as Timeframe)) {
+        return `${path}.timeframe: must be one of ${timeframes.join(', ')}`;
+      }
+      if (!item.params || typeof item.params !== 'object') {
+        return `${path}.params: must be an object`;
+      }
+      break;
+    }
+    default:
+      return `${path}.op: must be one of AND, OR, NOT, CHECK`;
+  }
+
+  if (depth === 1 && collectChecks(node as ConditionNode).length > MAX_CONDITION_CHECKS) {
+    return `${path}: at most ${MAX_CONDITION_CHECKS} checks are allowed`;
+  }
+  return null;
+};
+
+export const validateCompositeParams = (params: unknown): string | null => {
+  if (!params || typeof params !== 'object') return 'params: must be an object';
+  const { condition, withinCandles } = params as Record<string, unknown>;
+  if (
+    withinCandles !== undefined &&
+    (!Number.isInteger(withinCandles) || (withinCandles as number) < 0)
+  ) {
+    return 'params.withinCandles: must be a non-negative integer';
+  }
+  return validateCondition(condition, 'params.condition');
+};
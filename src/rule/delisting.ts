@@ -0,0 +1,34 @@
+import type { SymbolCatalog } from '../market/symbolCatalog.js';
+import type { Store } from '../store/store.js';
+import type { AlertRule, Exchange } from '../types/domain.js';
+import { ruleSymbols } from './composite.js';
+
+const delistingReason = (catalog: SymbolCatalog, rule: AlertRule): string | null => {
+  for (const symbol of ruleSymbols(rule)) {
+    const info = catalog.lookup(rule.exchange, symbol);
+    if (!info) return `${symbol} was delisted from ${rule.exchange}`;
+    if (info.status !== 'TRADING') return `${symbol} stopped trading on ${rule.exchange}`;
+  }
+  return null;
+};
+
+// Disables the exchange's enabled rules whose symbols it no longer trades and
+// records why; returns them so their owners can be told. Only a live listing
+// is trusted for this, since the bundled snapshot may simply be out of date.
+export const disableDelistedRules = async (
+  store: Store,
+  catalog: SymbolCatalog,
+  exchange: Exchange
+): Promise<AlertRule[]> => {
+  if (!catalog.isLive(exchange)) return [];
+
+  const disabled: AlertRule[] = [];
+  for (const rule of await store.listRules()) {
+    if (!rule.isEnabled || rule.exchange !== exchange) continue;
+    const disabledReason = delistingReason(catalog, rule);
+    if (!disabledReason) continue;
+    const updated = await store.updateRule(rule.id, { isEnabled: false, disabledReason });
+    if (updated) disabled.push(updated);
+  }
+  return disabled;
+};
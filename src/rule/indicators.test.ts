@@ -0,0 +1,106 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CandleStore } from '../store/candleStore.js';
+import type { Candle } from '../types/domain.js';
+import { Bollinger, Ema, IndicatorCache, Macd, Rsi, Sma } from './indicators.js';
+
+const push = <T>(calculator: { push(close: number): T | null }, closes: number[]) =>
+  closes.map((close) => calculator.push(close));
+
+const candle = (minute: number, close: number): Candle => ({
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  interval: '1m',
+  openTime: minute * 60_000,
+  closeTime: minute * 60_000 + 59_999,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  isFinal: true
+});
+
+describe('calculators', () => {
+  test('SMA averages the last period values', () => {
+    assert.deepEqual(push(new Sma(3), [1, 2, 3, 4, 8]), [null, null, 2, 3, 5]);
+  });
+
+  test('EMA is seeded with the SMA of the first period values', () => {
+    assert.deepEqual(push(new Ema(3), [1, 2, 3, 5, 1]), [null, null, 2, 3.5, 2.25]);
+  });
+
+  test('RSI uses simple averages, then Wilder smoothing', () => {
+    const [first, second, third, fourth] = push(new Rsi(2), [1, 2, 1, 3]);
+    assert.equal(first, null);
+    assert.equal(second, null);
+    assert.equal(third, 50);
+    // avgGain (0.5 + 2) / 2, avgLoss 0.5 / 2: RS 5.
+    assert.equal(fourth?.toFixed(4), (100 - 100 / 6).toFixed(4));
+    assert.deepEqual(push(new Rsi(2), [1, 2, 3]).at(-1), 100);
+    assert.deepEqual(push(new Rsi(2), [1, 1, 1]).at(-1), 50);
+  });
+
+  test('MACD waits for the slow EMA and then the signal line', () => {
+    const values = push(new Macd(2, 3, 2), [1, 1, 1, 1, 1]);
+    assert.deepEqual(values.slice(0, 3), [null, null, null]);
+    assert.deepEqual(values[3], { macd: 0, signal: 0, histogram: 0 });
+  });
+
+  test('Bollinger bands sit stdDev population deviations around the SMA', () => {
+    const [, , bands] = push(new Bollinger(3, 2), [1, 2, 3]);
+    const band = 2 * Math.sqrt(2 / 3);
+    assert.equal(bands?.middle, 2);
+    assert.equal(bands?.upper.toFixed(6), (2 + band).toFixed(6));
+    assert.equal(bands?.lower.toFixed(6), (2 - band).toFixed(6));
+  });
+});
+
+describe('IndicatorCache', () => {
+  test('feeds each series only the candles it has not seen', () => {
+    const candles = new CandleStore();
+    const cache = new IndicatorCache(candles);
+    const closes = [10, 11, 9, 12, 13, 8, 10];
+    const expected = push(new Rsi(3), closes);
+
+    for (const [minute, close] of closes.slice(0, 5).entries()) {
+      candles.add(candle(minute, close));
+    }
+    assert.deepEqual(cache.rsi('BINANCE', 'BTCUSDT', '1m', 3), {
+      current: expected[4],
+      previous: expected[3]
+    });
+    // Reading again without new candles changes nothing.
+    assert.deepEqual(cache.rsi('BINANCE', 'BTCUSDT', '1m', 3), {
+      current: expected[4],
+      previous: expected[3]
+    });
+
+    candles.add(candle(5, closes[5]));
+    candles.add(candle(6, closes[6]));
+    assert.deepEqual(cache.rsi('BINANCE', 'BTCUSDT', '1m', 3), {
+      current: expected[6],
+      previous: expected[5]
+    });
+  });
+
+  test('keeps separate series per indicator and parameters', () => {
+    const candles = new CandleStore();
+    const cache = new IndicatorCache(candles);
+    for (const [minute, close] of [1, 2, 3, 4].entries()) candles.add(candle(minute, close));
+
+    assert.deepEqual(cache.movingAverage('BINANCE', 'BTCUSDT', '1m', 'SMA', 2), {
+      current: 3.5,
+      previous: 2.5
+    });
+    assert.deepEqual(cache.movingAverage('BINANCE', 'BTCUSDT', '1m', 'SMA', 4), {
+      current: 2.5,
+      previous: null
+    });
+    const ema = push(new Ema(2), [1, 2, 3, 4]);
+    assert.deepEqual(cache.movingAverage('BINANCE', 'BTCUSDT', '1m', 'EMA', 2), {
+      current: ema[3],
+      previous: ema[2]
+    });
+  });
+});
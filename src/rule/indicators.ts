@@ -0,0 +1,253 @@
+import type { Candle, Exchange, Timeframe } from '../types/domain.js';
+import type { CandleStore } from '../store/candleStore.js';
+
+interface Calculator<T> {
+  push(close: number): T | null;
+}
+
+export class Sma implements Calculator<number> {
+  private window: number[] = [];
+  private sum = 0;
+
+  constructor(private readonly period: number) {}
+
+  push(value: number): number | null {
+    this.window.push(value);
+    this.sum += value;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift() ?? 0;
+    }
+    return this.window.length === this.period ? this.sum / this.period : null;
+  }
+}
+
+// Seeded with the SMA of the first `period` values, as most charting tools do.
+export class Ema implements Calculator<number> {
+  private readonly alpha: number;
+  private readonly seed: Sma;
+  private current: number | null = null;
+
+  constructor(period: number) {
+    this.alpha = 2 / (period + 1);
+    this.seed = new Sma(period);
+  }
+
+  push(value: number): number | null {
+    if (this.current === null) {
+      this.current = this.seed.push(value);
+      return this.current;
+    }
+    this.current = value * this.alpha + this.current * (1 - this.alpha);
+    return this.current;
+  }
+}
+
+// Wilder's RSI: simple averages for the first period, then Wilder smoothing.
+export class Rsi implements Calculator<number> {
+  private previousClose: number | null = null;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private count = 0;
+
+  constructor(private readonly period: number) {}
+
+  push(close: number): number | null {
+    if (this.previousClose === null) {
+      this.previousClose = close;
+      return null;
+    }
+
+    const delta = close - this.previousClose;
+    this.previousClose = close;
+    const gain = Math.max(delta, 0);
+    const loss = Math.max(-delta, 0);
+    this.count += 1;
+
+    if (this.count <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.count < this.period) return null;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    if (this.avgLoss === 0) return this.avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + this.avgGain / this.avgLoss);
+  }
+}
+
+export interface MacdValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export class Macd implements Calculator<MacdValue> {
+  private readonly fast: Ema;
+  private readonly slow: Ema;
+  private readonly signal: Ema;
+
+  constructor(fastPeriod: number, slowPeriod: number, signalPeriod: number) {
+    this.fast = new Ema(fastPeriod);
+    this.slow = new Ema(slowPeriod);
+    this.signal = new Ema(signalPeriod);
+  }
+
+  push(close: number): MacdValue | null {
+    const fast = this.fast.push(close);
+    const slow = this.slow.push(close);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.push(macd);
+    if (signal === null) return null;
+    return { macd, signal, histogram: macd - signal };
+  }
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export class Bollinger implements Calculator<BollingerValue> {
+  private window: number[] = [];
+  private sum = 0;
+  private sumSquares = 0;
+
+  constructor(
+    private readonly period: number,
+    private readonly stdDev: number
+  ) {}
+
+  push(close: number): BollingerValue | null {
+    this.window.push(close);
+    this.sum += close;
+    this.sumSquares += close * close;
+    if (this.window.length > this.period) {
+      const dropped = this.window.shift() ?? 0;
+      this.sum -= dropped;
+      this.sumSquares -= dropped * dropped;
+    }
+    if (this.window.length < this.period) return null;
+
+    const middle = this.sum / this.period;
+    const variance = Math.max(this.sumSquares / this.period - middle * middle, 0);
+    const band = Math.sqrt(variance) * this.stdDev;
+    return { upper: middle + band, middle, lower: middle - band };
+  }
+}
+
+export interface IndicatorReading<T> {
+  current: T | null;
+  previous: T | null;
+}
+
+interface Series<T> {
+  calculator: Calculator<T>;
+  lastOpenTime: number;
+  current: T | null;
+  previous: T | null;
+}
+
+// Keeps one calculator per series and indicator and feeds it only the candles
+// it has not seen yet, so rules sharing an indicator share the work and a
+// close costs O(1) instead of a rescan of the candle buffer.
+export class IndicatorCache {
+  private series = new Map<string, Series<unknown>>();
+
+  constructor(private readonly candleStore: CandleStore) {}
+
+  rsi(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    period: number
+  ): IndicatorReading<number> {
+    return this.read(exchange, symbol, interval, `RSI:${period}`, () => new Rsi(period));
+  }
+
+  movingAverage(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    maType: 'SMA' | 'EMA',
+    period: number
+  ): IndicatorReading<number> {
+    return this.read(exchange, symbol, interval, `${maType}:${period}`, () =>
+      maType === 'SMA' ? new Sma(period) : new Ema(period)
+    );
+  }
+
+  macd(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    fastPeriod: number,
+    slowPeriod: number,
+    signalPeriod: number
+  ): IndicatorReading<MacdValue> {
+    return this.read(
+      exchange,
+      symbol,
+      interval,
+      `MACD:${fastPeriod}:${slowPeriod}:${signalPeriod}`,
+      () => new Macd(fastPeriod, slowPeriod, signalPeriod)
+    );
+  }
+
+  bollinger(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    period: number,
+    stdDev: number
+  ): IndicatorReading<BollingerValue> {
+    return this.read(
+      exchange,
+      symbol,
+      interval,
+      `BOLLINGER:${period}:${stdDev}`,
+      () => new Bollinger(period, stdDev)
+    );
+  }
+
+  private read<T>(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    name: string,
+    create: () => Calculator<T>
+  ): IndicatorReading<T> {
+    const key = `${exchange}:${symbol}:${interval}:${name}`;
+    let series = this.series.get(key) as Series<T> | undefined;
+    if (!series) {
+      series = { calculator: create(), lastOpenTime: -1, current: null, previous: null };
+      this.series.set(key, series as Series<unknown>);
+    }
+
+    for (const candle of this.unseen(exchange, symbol, interval, series.lastOpenTime)) {
+      series.previous = series.current;
+      series.current = series.calculator.push(candle.close);
+      series.lastOpenTime = candle.openTime;
+    }
+
+    return { current: series.current, previous: series.previous };
+  }
+
+  private unseen(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    lastOpenTime: number
+  ): Candle[] {
+    const history = this.candleStore.get(exchange, symbol, interval);
+    let start = history.length;
+    while (start > 0 && history[start - 1].openTime > lastOpenTime) {
+      start -= 1;
+    }
+    return history.slice(start);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import type { AlertRule } from '../types/domain.js';
+import { isActive, isOneShot, RuleScheduler } from './lifecycle.js';
+
+// A Thursday, 22:00 in New York.
+const now = Date.parse('2026-01-02T03:00:00Z');
+const minutes = (count: number) => new Date(now + count * 60_000);
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule-1',
+  userId: 'user-1',
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  type: 'BREAKOUT',
+  timeframe: '15m',
+  params: { lookback: 20, direction: 'UP' },
+  isEnabled: true,
+  cooldownSec: 300,
+  createdAt: new Date(now),
+  updatedAt: new Date(now),
+  ...overrides
+});
+
+describe('rule lifecycle', () => {
+  test('treats the rule flag and the older PRICE_CROSS param as one-shot', () => {
+    assert.equal(isOneShot(rule()), false);
+    assert.equal(isOneShot(rule({ oneShot: true })), true);
+    const priceCross = { type: 'PRICE_CROSS' as const, timeframe: null };
+    assert.equal(
+      isOneShot(rule({ ...priceCross, params: { price: 1, direction: 'ABOVE', oneShot: true } })),
+      true
+    );
+    assert.equal(
+      isOneShot(rule({ ...priceCross, params: { price: 1, direction: 'ABOVE' } })),
+      false
+    );
+  });
+
+  test('stops rules from firing once expired or while snoozed', () => {
+    assert.equal(isActive(rule(), now), true);
+    assert.equal(isActive(rule({ expiresAt: minutes(1) }), now), true);
+    assert.equal(isActive(rule({ expiresAt: minutes(0) }), now), false);
+    assert.equal(isActive(rule({ snoozedUntil: minutes(1) }), now), false);
+    assert.equal(isActive(rule({ snoozedUntil: minutes(0) }), now), true);
+  });
+
+  test('fires only inside schedule windows, in the schedule timezone', () => {
+    const scheduled = (start: string, end: string, days?: number[]) =>
+      rule({ schedule: { timezone: 'America/New_York', windows: [{ start, end, days }] } });
+    assert.equal(isActive(scheduled('09:30', '16:00'), now), false);
+    assert.equal(isActive(scheduled('21:00', '23:00'), now), true);
+    // Overnight windows count from the day they start on.
+    assert.equal(isActive(scheduled('20:00', '02:00', [4]), now), true);
+    assert.equal(isActive(scheduled('20:00', '02:00', [5]), now), false);
+    assert.equal(isActive(scheduled('20:00', '02:00', [3]), now + 3 * 3_600_000), false);
+    assert.equal(isActive(scheduled('20:00', '02:00', [4]), now + 3 * 3_600_000), true);
+  });
+});
+
+describe('RuleScheduler', () => {
+  test('disables expired rules with a reason and clears lapsed snoozes', async () => {
+    const store = new InMemoryStore();
+    const add = (overrides: Partial<AlertRule>) => {
+      const { id, createdAt, updatedAt, ...fields } = rule(overrides);
+      return store.createRule(fields);
+    };
+    const expired = await add({ expiresAt: minutes(-1), snoozedUntil: minutes(30) });
+    const expiring = await add({ expiresAt: minutes(1) });
+    const lapsed = await add({ snoozedUntil: minutes(-1) });
+    const snoozed = await add({ snoozedUntil: minutes(30) });
+    const disabled = await add({ isEnabled: false, expiresAt: minutes(-1) });
+
+    const notified: AlertRule[] = [];
+    const scheduler = new RuleScheduler(
+      store,
+      { intervalMs: 60_000, onExpired: async (item) => void notified.push(item) },
+      () => now
+    );
+    await scheduler.run();
+
+    const after = async ({ id }: AlertRule) => store.getRule(id);
+    assert.deepEqual(notified.map((item) => item.id), [expired.id]);
+    assert.equal((await after(expired))?.isEnabled, false);
+    assert.equal((await after(expired))?.disabledReason, 'expired at 2026-01-02T02:59:00.000Z');
+    assert.equal((await after(expired))?.snoozedUntil, undefined);
+    assert.equal((await after(expiring))?.isEnabled, true);
+    assert.equal((await after(lapsed))?.snoozedUntil, undefined);
+    assert.deepEqual((await after(snoozed))?.snoozedUntil, minutes(30));
+    assert.equal((await after(disabled))?.disabledReason, undefined);
+  });
+});
@@ -0,0 +1,87 @@
+import type { AlertRule, PriceCrossParams } from '../types/domain.js';
+import type { Store } from '../store/store.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+import { windowCovers } from '../utils/timezone.js';
+
+export const ONE_SHOT_REASON = 'one-shot alert sent';
+
+// PRICE_CROSS rules could be one-shot through their params before any rule could.
+export const isOneShot = (rule: AlertRule) =>
+  rule.oneShot === true ||
+  (rule.type === 'PRICE_CROSS' && (rule.params as PriceCrossParams).oneShot === true);
+
+export const hasExpired = (rule: Pick<AlertRule, 'expiresAt'>, now: number) =>
+  rule.expiresAt !== undefined && new Date(rule.expiresAt).getTime() <= now;
+
+export const isSnoozed = (rule: Pick<AlertRule, 'snoozedUntil'>, now: number) =>
+  rule.snoozedUntil !== undefined && new Date(rule.snoozedUntil).getTime() > now;
+
+export const inSchedule = ({ schedule }: Pick<AlertRule, 'schedule'>, now: number) =>
+  !schedule || schedule.windows.some((window) => windowCovers(window, now, schedule.timezone));
+
+export const rearmPolicy = (rule: Pick<AlertRule, 'rearmPolicy'>) =>
+  rule.rearmPolicy ?? 'COOLDOWN';
+
+// Whether an enabled rule may fire at `now`; cooldowns are checked separately.
+export const isActive = (rule: AlertRule, now: number) =>
+  !hasExpired(rule, now) && !isSnoozed(rule, now) && inSchedule(rule, now);
+
+export interface RuleSchedulerOptions {
+  intervalMs: number;
+  // Called for each rule disabled because it expired, so its owner can be told.
+  onExpired?: (rule: AlertRule) => Promise<void>;
+  onError?: (error: unknown) => void;
+}
+
+// The engine already ignores expired and snoozed rules when they match; this
+// makes the transitions visible: expired rules are disabled with a reason and
+// lapsed snoozes are cleared.
+export class RuleScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private readonly store: Store,
+    private readonly options: RuleSchedulerOptions,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.run().catch((error) => this.options.onError?.(error));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.running?.catch(() => undefined);
+  }
+
+  run(): Promise<void> {
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async sweep(): Promise<void> {
+    const now = this.clock();
+    for (const rule of await this.store.listRules()) {
+      if (rule.isEnabled && rule.expiresAt && hasExpired(rule, now)) {
+        const updated = await this.store.updateRule(rule.id, {
+          isEnabled: false,
+          disabledReason: `expired at ${new Date(rule.expiresAt).toISOString()}`,
+          snoozedUntil: undefined
+        });
+        if (updated) await this.options.onExpired?.(updated);
+      } else if (rule.snoozedUntil && !isSnoozed(rule, now)) {
+        await this.store.updateRule(rule.id, { snoozedUntil: undefined });
+      }
+    }
+  }
+}
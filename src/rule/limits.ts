@@ -0,0 +1,16 @@
+import type { User } from '../types/domain.js';
+import type { Store } from '../store/store.js';
+import { config } from '../config.js';
+
+export const maxRulesFor = (user: Pick<User, 'plan'>) =>
+  user.plan === 'PRO' ? config.maxRulesPro : config.maxRulesFree;
+
+export const chartsIncluded = (user: Pick<User, 'plan'>) =>
+  config.chartPlans.includes(user.plan);
+
+export const hasRuleCapacity = async (store: Store, user: User): Promise<boolean> => {
+  const activeRules = (await store.listRules()).filter(
+    (rule) => rule.userId === user.id
+  ).length;
+  return activeRules < maxRulesFor(user);
+};
@@ -0,0 +1,134 @@
+import type { Candle, Exchange, Timeframe } from '../types/domain.js';
+import type { CandleStore } from '../store/candleStore.js';
+
+interface Entry {
+  seq: number;
+  value: number;
+}
+
+// Monotonic deque: the front is always the extreme of the entries still in
+// the window, so each push and each read is amortised O(1).
+class ExtremeDeque {
+  private entries: Entry[] = [];
+  private head = 0;
+
+  constructor(private readonly better: (a: number, b: number) => boolean) {}
+
+  push(seq: number, value: number): void {
+    while (
+      this.entries.length > this.head &&
+      !this.better(this.entries[this.entries.length - 1].value, value)
+    ) {
+      this.entries.pop();
+    }
+    this.entries.push({ seq, value });
+  }
+
+  evictBefore(seq: number): void {
+    while (this.head < this.entries.length && this.entries[this.head].seq < seq) {
+      this.head += 1;
+    }
+    // Drop the consumed prefix now and then instead of shifting every time.
+    if (this.head > 64 && this.head * 2 > this.entries.length) {
+      this.entries = this.entries.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  get front(): number | null {
+    return this.head < this.entries.length ? this.entries[this.head].value : null;
+  }
+}
+
+// High, low and volume over the last `size` candles pushed.
+export class RollingWindow {
+  private readonly highs = new ExtremeDeque((a, b) => a > b);
+  private readonly lows = new ExtremeDeque((a, b) => a < b);
+  private volumes: number[] = [];
+  private volumeSum = 0;
+  private seq = 0;
+
+  constructor(readonly size: number) {}
+
+  push(candle: Candle): void {
+    this.seq += 1;
+    this.highs.push(this.seq, candle.high);
+    this.lows.push(this.seq, candle.low);
+    this.highs.evictBefore(this.seq - this.size + 1);
+    this.lows.evictBefore(this.seq - this.size + 1);
+
+    this.volumes.push(candle.volume);
+    this.volumeSum += candle.volume;
+    if (this.volumes.length > this.size) {
+      this.volumeSum -= this.volumes.shift() ?? 0;
+    }
+  }
+
+  get count(): number {
+    return this.volumes.length;
+  }
+
+  get highest(): number | null {
+    return this.highs.front;
+  }
+
+  get lowest(): number | null {
+    return this.lows.front;
+  }
+
+  get averageVolume(): number | null {
+    return this.count > 0 ? this.volumeSum / this.count : null;
+  }
+}
+
+interface Series {
+  window: RollingWindow;
+  last: Candle | null;
+}
+
+// Rolling windows over stored candle history, one per series and lookback,
+// shared by every rule that asks for the same one. A window covers the
+// `lookback` candles before the one being evaluated.
+export class WindowCache {
+  private series = new Map<string, Series>();
+
+  constructor(private readonly candleStore: CandleStore) {}
+
+  before(
+    exchange: Exchange,
+    symbol: string,
+    interval: Timeframe,
+    lookback: number,
+    candle: Candle
+  ): RollingWindow {
+    const key = `${exchange}:${symbol}:${interval}:${lookback}`;
+    const history = this.candleStore.get(exchange, symbol, interval);
+    let series = this.series.get(key);
+
+    // Find where the window left off. A candle replaced or backfilled behind
+    // that point, or an older candle asked about, means rebuilding it.
+    let start = 0;
+    if (series?.last) {
+      start = history.length;
+      while (start > 0 && history[start - 1].openTime > series.last.openTime) start -= 1;
+      if (history[start - 1] !== series.last || series.last.openTime >= candle.openTime) {
+        series = undefined;
+      }
+    }
+    if (!series) {
+      series = { window: new RollingWindow(lookback), last: null };
+      this.series.set(key, series);
+      let end = history.length;
+      while (end > 0 && history[end - 1].openTime >= candle.openTime) end -= 1;
+      start = Math.max(0, end - lookback);
+    }
+
+    for (let index = start; index < history.length; index += 1) {
+      const item = history[index];
+      if (item.openTime >= candle.openTime) break;
+      series.window.push(item);
+      series.last = item;
+    }
+    return series.window;
+  }
+}
@@ -0,0 +1,548 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { candleFeed, randomRule, seededRandom, symbolNames } from '../bench/synthetic.js';
+import { CandleStore } from '../store/candleStore.js';
+import { InMemoryStore } from '../store/inMemoryStore.js';
+import type {
+  AlertRule,
+  AlertType,
+  BreakoutParams,
+  Candle,
+  ConditionNode,
+  ExtremeMoveParams,
+  PriceCrossParams,
+  RsiParams,
+  TriggeredAlert,
+  VolumeSpikeParams
+} from '../types/domain.js';
+import { Rsi } from './indicators.js';
+import { RuleEngine } from './ruleEngine.js';
+
+const RULES = 10_000;
+const SYMBOLS = 50;
+// Long enough for the 200-candle breakouts and 240-minute moves to fire.
+const MINUTES = 260;
+const COOLDOWN_MS = 900_000;
+// About 5s on one core with `npm run bench`, four times that under node:test,
+// whose async hooks wrap every await.
+const BUDGET_MS = 45_000;
+
+const start = Date.UTC(2026, 0, 1);
+
+const crossing = (previous: number, current: number, level: number) => {
+  if (previous <= level && current > level) return 'UP';
+  if (previous >= level && current < level) return 'DOWN';
+  return null;
+};
+
+const wants = (direction: string, moved: 'UP' | 'DOWN' | null) =>
+  moved !== null && (direction === 'BOTH' || direction === 'EITHER' || direction === moved);
+
+// The reference implementation: every rule is checked against every candle,
+// recomputing its condition from the full history of its symbol.
+const naiveScan = (rules: AlertRule[], candles: Candle[]) => {
+  const history = new Map<string, Candle[]>();
+  const rsi = new Map<
+    string,
+    { calculator: Rsi; previous: number | null; current: number | null }
+  >();
+  const lastPrices = new Map<string, number>();
+  const lastFired = new Map<string, number>();
+  const fired: string[] = [];
+
+  for (const candle of candles) {
+    const now = candle.closeTime + 1;
+    const past = history.get(candle.symbol) ?? [];
+    history.set(candle.symbol, [...past, candle]);
+
+    const series = rsi.get(candle.symbol) ?? {
+      calculator: new Rsi(14),
+      previous: null,
+      current: null
+    };
+    series.previous = series.current;
+    series.current = series.calculator.push(candle.close);
+    rsi.set(candle.symbol, series);
+
+    const previousPrice = lastPrices.get(candle.symbol);
+    lastPrices.set(candle.symbol, candle.close);
+
+    const matches = (rule: AlertRule) => {
+      switch (rule.type) {
+        case 'BREAKOUT': {
+          const { lookback, direction } = rule.params as BreakoutParams;
+          if (past.length < lookback) return false;
+          const window = past.slice(-lookback);
+          const highest = Math.max(...window.map((item) => item.high));
+          const lowest = Math.min(...window.map((item) => item.low));
+          const moved = candle.close > highest ? 'UP' : candle.close < lowest ? 'DOWN' : null;
+          return wants(direction, moved);
+        }
+        case 'VOLUME_SPIKE': {
+          const { lookback, multiplier } = rule.params as VolumeSpikeParams;
+          if (past.length < lookback) return false;
+          const volume = past.slice(-lookback).reduce((sum, item) => sum + item.volume, 0);
+          return candle.volume >= (volume / lookback) * multiplier;
+        }
+        case 'RSI': {
+          const { level, direction } = rule.params as RsiParams;
+          const { previous, current } = series;
+          if (previous === null || current === null) return false;
+          return wants(direction, crossing(previous, current, level));
+        }
+        case 'EXTREME_MOVE': {
+          const { windowMin, percent } = rule.params as ExtremeMoveParams;
+          const cutoff = candle.closeTime - windowMin * 60_000;
+          const before = past.filter((item) => item.closeTime <= cutoff).at(-1);
+          if (!before) return false;
+          return Math.abs(((candle.close - before.close) / before.close) * 100) >= percent;
+        }
+        case 'PRICE_CROSS': {
+          const { price, direction } = rule.params as PriceCrossParams;
+          if (previousPrice === undefined || previousPrice === candle.close) return false;
+          return wants(direction, crossing(previousPrice, candle.close, price));
+        }
+        default:
+          return false;
+      }
+    };
+
+    for (const rule of rules) {
+      if (rule.symbol !== candle.symbol || !matches(rule)) continue;
+      const last = lastFired.get(rule.id);
+      if (last !== undefined && now - last < COOLDOWN_MS) continue;
+      lastFired.set(rule.id, now);
+      fired.push(`${candle.openTime}:${rule.id}`);
+    }
+  }
+
+  return fired;
+};
+
+test('fires the same alerts as a scan over every rule, within budget', async () => {
+  let now = start;
+  const random = seededRandom(42);
+  const symbols = symbolNames(SYMBOLS);
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => now);
+  const user = await store.createUser({ telegramChatId: 'bench', plan: 'PRO' });
+  for (let index = 0; index < RULES; index += 1) {
+    await store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      isEnabled: true,
+      cooldownSec: COOLDOWN_MS / 1000,
+      ...randomRule(random, symbols)
+    });
+  }
+  const rules = await store.listRules();
+  const candles = [...candleFeed(random, symbols, MINUTES, start)];
+
+  const fired: string[] = [];
+  const types = new Set<AlertType>();
+  const started = performance.now();
+  for (const candle of candles) {
+    now = candle.closeTime + 1;
+    const { symbol, close } = candle;
+    const tick = { exchange: 'BINANCE' as const, symbol, price: close, eventTime: now };
+    const alerts = [
+      ...(await engine.evaluateCandle(candle)),
+      ...(await engine.evaluateExtremeMove(candle)),
+      ...(await engine.evaluatePrice(tick))
+    ];
+    for (const { rule } of alerts) {
+      fired.push(`${candle.openTime}:${rule.id}`);
+      types.add(rule.type);
+    }
+  }
+  const elapsedMs = performance.now() - started;
+
+  // Every type has to fire for the comparison to cover it.
+  assert.deepEqual(
+    [...types].sort(),
+    ['BREAKOUT', 'EXTREME_MOVE', 'PRICE_CROSS', 'RSI', 'VOLUME_SPIKE']
+  );
+  assert.deepEqual(fired.sort(), naiveScan(rules, candles).sort());
+  assert.ok(
+    elapsedMs < BUDGET_MS,
+    `took ${Math.round(elapsedMs)}ms for ${candles.length} candles`
+  );
+});
+
+test('fires indicator rules on the candle their indicator crosses', async () => {
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => start);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const add = (symbol: string, type: AlertType, params: AlertRule['params']) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol,
+      type,
+      timeframe: '1m',
+      params,
+      isEnabled: true,
+      cooldownSec: 0
+    });
+  await add('MAUSDT', 'MA_CROSS', { maType: 'SMA', fastPeriod: 2, slowPeriod: 3, direction: 'UP' });
+  await add('MACDUSDT', 'MACD_CROSS', {
+    fastPeriod: 2,
+    slowPeriod: 3,
+    signalPeriod: 2,
+    direction: 'UP'
+  });
+  await add('BBUSDT', 'BOLLINGER', { period: 3, stdDev: 1, direction: 'UP' });
+
+  // Returns the close of every candle the symbol's rule fired on.
+  const feed = async (symbol: string, closes: number[]) => {
+    const fired: Array<Record<string, unknown>> = [];
+    for (const [minute, close] of closes.entries()) {
+      const openTime = start + minute * 60_000;
+      const candle: Candle = {
+        exchange: 'BINANCE',
+        symbol,
+        interval: '1m',
+        openTime,
+        closeTime: openTime + 59_999,
+        open: close,
+        high: close,
+        low: close,
+        close,
+        volume: 1,
+        isFinal: true
+      };
+      for (const { payload } of await engine.evaluateCandle(candle)) fired.push(payload);
+    }
+    return fired;
+  };
+
+  // SMA(2) - SMA(3): -0.5, -0.5, then +0.5.
+  const [maCross, ...moreMa] = await feed('MAUSDT', [10, 9, 8, 7, 12]);
+  assert.deepEqual(moreMa, []);
+  assert.equal(maCross.close, 12);
+  assert.equal(maCross.fast, 9.5);
+  assert.equal(maCross.slow, 9);
+
+  const [macdCross, ...moreMacd] = await feed('MACDUSDT', [10, 9, 8, 7, 6, 9, 12]);
+  assert.deepEqual(moreMacd, []);
+  assert.equal(macdCross.close, 9);
+  assert.ok((macdCross.histogram as number) > 0);
+
+  const [bollinger, ...moreBollinger] = await feed('BBUSDT', [10, 10, 10, 20, 10]);
+  assert.deepEqual(moreBollinger, []);
+  assert.equal(bollinger.close, 20);
+  assert.equal(bollinger.direction, 'UP');
+  assert.ok((bollinger.upper as number) < 20);
+});
+
+test('fires price crosses on ticks and disables one-shot rules after the first', async () => {
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => start);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const add = (direction: PriceCrossParams['direction'], oneShot?: boolean) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'PRICE_CROSS',
+      timeframe: null,
+      params: { price: 100_000, direction },
+      isEnabled: true,
+      cooldownSec: 0,
+      oneShot
+    });
+  const above = await add('ABOVE');
+  const below = await add('BELOW');
+  const either = await add('EITHER', true);
+
+  const tick = async (price: number) => {
+    const alerts = await engine.evaluatePrice({
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      price,
+      eventTime: start
+    });
+    return alerts.map(({ rule, payload }) => [rule.id, payload.direction]);
+  };
+
+  // The first tick only sets the previous price.
+  assert.deepEqual(await tick(100_500), []);
+  assert.deepEqual(await tick(99_000), [
+    [below.id, 'BELOW'],
+    [either.id, 'BELOW']
+  ]);
+  const disabled = await store.getRule(either.id);
+  assert.equal(disabled?.isEnabled, false);
+  assert.equal(disabled?.disabledReason, 'one-shot alert sent');
+  assert.deepEqual(await tick(99_500), []);
+  assert.deepEqual(await tick(100_000.01), [[above.id, 'ABOVE']]);
+});
+
+test('skips snoozed, expired and out-of-schedule rules, and disables one-shot ones', async () => {
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => start + 5 * 60_000);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const add = (lifecycle: Partial<AlertRule>) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      timeframe: '1m',
+      params: { lookback: 2, direction: 'UP' },
+      isEnabled: true,
+      cooldownSec: 0,
+      ...lifecycle
+    });
+  const plain = await add({});
+  const oneShot = await add({ oneShot: true });
+  await add({ snoozedUntil: new Date(start + 3_600_000) });
+  await add({ expiresAt: new Date(start) });
+  // 00:05 UTC is outside 09:00-17:00.
+  await add({ schedule: { timezone: 'UTC', windows: [{ start: '09:00', end: '17:00' }] } });
+  const scheduled = await add({
+    schedule: { timezone: 'UTC', windows: [{ start: '23:00', end: '01:00' }] }
+  });
+
+  const fired: string[][] = [];
+  for (const [minute, close] of [10, 10, 10, 20, 30].entries()) {
+    const openTime = start + minute * 60_000;
+    const alerts = await engine.evaluateCandle({
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime,
+      closeTime: openTime + 59_999,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1,
+      isFinal: true
+    });
+    fired.push(alerts.map(({ rule }) => rule.id).sort());
+  }
+
+  assert.deepEqual(fired, [
+    [],
+    [],
+    [],
+    [plain.id, oneShot.id, scheduled.id].sort(),
+    [plain.id, scheduled.id].sort()
+  ]);
+  const disabled = await store.getRule(oneShot.id);
+  assert.equal(disabled?.isEnabled, false);
+  assert.equal(disabled?.disabledReason, 'one-shot alert sent');
+});
+
+test('re-arms rules on their cooldown, on their condition resetting, or both', async () => {
+  const store = new InMemoryStore();
+  let now = start;
+  const engine = new RuleEngine(store, new CandleStore(), () => now);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const add = (rearm: Partial<AlertRule>) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'PRICE_CROSS',
+      timeframe: null,
+      params: { price: 100, direction: 'ABOVE' },
+      isEnabled: true,
+      cooldownSec: 0,
+      ...rearm
+    });
+  const cooldown = await add({});
+  // Reset means back below 99; the cooldown alone never re-arms it.
+  const onReset = await add({ rearmPolicy: 'REARM_ON_RESET', hysteresisPct: 1, cooldownSec: 3600 });
+  const both = await add({ rearmPolicy: 'BOTH', hysteresisPct: 1, cooldownSec: 600 });
+
+  const tick = async (price: number) => {
+    const alerts = await engine.evaluatePrice({
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      price,
+      eventTime: now
+    });
+    return alerts.map(({ rule, payload }) => [rule.id, payload.rearmPolicy, payload.armed]);
+  };
+
+  await tick(99.5);
+  assert.deepEqual(await tick(100.5), [
+    [cooldown.id, 'COOLDOWN', true],
+    [onReset.id, 'REARM_ON_RESET', false],
+    [both.id, 'BOTH', false]
+  ]);
+  // Dipping inside the band does not count as a reset.
+  await tick(99.5);
+  assert.deepEqual(await tick(100.5), [[cooldown.id, 'COOLDOWN', true]]);
+  assert.equal((await store.getRuleState(onReset.id))?.armed, false);
+
+  await tick(98.9);
+  assert.equal((await store.getRuleState(onReset.id))?.armed, true);
+  // BOTH also waits out its cooldown.
+  assert.deepEqual((await tick(100.5)).map(([id]) => id), [cooldown.id, onReset.id]);
+  now += 600_000;
+  await tick(99.5);
+  assert.deepEqual((await tick(100.5)).map(([id]) => id), [cooldown.id, both.id]);
+});
+
+test('lets a BOTH breakout re-armed on reset fire the other way at once', async () => {
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => start);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  await store.createRule({
+    userId: user.id,
+    exchange: 'BINANCE',
+    symbol: 'BTCUSDT',
+    type: 'BREAKOUT',
+    timeframe: '1m',
+    params: { lookback: 2, direction: 'BOTH' },
+    isEnabled: true,
+    cooldownSec: 3600,
+    rearmPolicy: 'REARM_ON_RESET'
+  });
+
+  const fired: unknown[] = [];
+  for (const [minute, close] of [10, 10, 10, 20, 25, 5].entries()) {
+    const openTime = start + minute * 60_000;
+    const alerts = await engine.evaluateCandle({
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime,
+      closeTime: openTime + 59_999,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1,
+      isFinal: true
+    });
+    fired.push(...alerts.map(({ payload }) => [payload.close, payload.direction]));
+  }
+  // 25 breaks out UP again without the close falling back first.
+  assert.deepEqual(fired, [
+    [20, 'UP'],
+    [5, 'DOWN']
+  ]);
+});
+
+test('fires composites once their checks match within the window', async () => {
+  const store = new InMemoryStore();
+  const engine = new RuleEngine(store, new CandleStore(), () => start);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const spike: ConditionNode = {
+    op: 'CHECK',
+    type: 'VOLUME_SPIKE',
+    params: { lookback: 2, multiplier: 3 }
+  };
+  const breakout: ConditionNode = {
+    op: 'CHECK',
+    type: 'BREAKOUT',
+    params: { lookback: 2, direction: 'UP' }
+  };
+  const add = (condition: ConditionNode, withinCandles?: number) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'COMPOSITE',
+      timeframe: '1m',
+      params: { condition, withinCandles },
+      isEnabled: true,
+      cooldownSec: 0
+    });
+  const windowed = await add({ op: 'AND', conditions: [spike, breakout] }, 1);
+  await add({ op: 'AND', conditions: [spike, breakout] });
+  const quiet = await add({ op: 'AND', conditions: [breakout, { op: 'NOT', condition: spike }] });
+
+  const fired: Array<[number, string, string[]]> = [];
+  // The volume spikes on minute 2 and the price breaks out on minute 3.
+  for (const [minute, [close, volume]] of [
+    [10, 1],
+    [10, 1],
+    [10, 5],
+    [11, 1]
+  ].entries()) {
+    const openTime = start + minute * 60_000;
+    const candle: Candle = {
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime,
+      closeTime: openTime + 59_999,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume,
+      isFinal: true
+    };
+    for (const { rule, payload } of await engine.evaluateCandle(candle)) {
+      const matched = payload.matched as Array<{ path: string }>;
+      fired.push([minute, rule.id, matched.map(({ path }) => path)]);
+    }
+  }
+
+  assert.deepEqual(fired.sort(), [
+    [3, quiet.id, ['0.0']],
+    [3, windowed.id, ['0.0', '0.1']]
+  ].sort());
+});
+
+test('fires LIVE rules once per forming candle, keeping it out of history', async () => {
+  const store = new InMemoryStore();
+  const candles = new CandleStore();
+  const engine = new RuleEngine(store, candles, () => start);
+  const user = await store.createUser({ telegramChatId: '100', plan: 'PRO' });
+  const add = (evaluateOn: AlertRule['evaluateOn']) =>
+    store.createRule({
+      userId: user.id,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      timeframe: '1m',
+      params: { lookback: 2, direction: 'UP' },
+      isEnabled: true,
+      cooldownSec: 0,
+      evaluateOn
+    });
+  const live = await add('LIVE');
+  const close = await add('CLOSE');
+
+  const candle = (minute: number, price: number, isFinal: boolean): Candle => {
+    const openTime = start + minute * 60_000;
+    return {
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      interval: '1m',
+      openTime,
+      closeTime: openTime + 59_999,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume: 1,
+      isFinal
+    };
+  };
+  const fired = async (alerts: Promise<TriggeredAlert[]>) =>
+    (await alerts).map(({ rule, payload }) => [rule.id, payload.candleOpenTime]);
+
+  await engine.evaluateCandle(candle(0, 10, true));
+  await engine.evaluateCandle(candle(1, 10, true));
+  assert.deepEqual(await fired(engine.evaluateLiveCandle(candle(2, 11, false))), [
+    [live.id, start + 120_000]
+  ]);
+  // The same candle breaking out further, then closing, fires only the CLOSE rule.
+  assert.deepEqual(await fired(engine.evaluateLiveCandle(candle(2, 12, false))), []);
+  assert.equal(candles.get('BINANCE', 'BTCUSDT', '1m').length, 2);
+  assert.deepEqual(await fired(engine.evaluateCandle(candle(2, 12, true))), [
+    [close.id, undefined]
+  ]);
+
+  assert.deepEqual(await fired(engine.evaluateLiveCandle(candle(3, 13, false))), [
+    [live.id, start + 180_000]
+  ]);
+});
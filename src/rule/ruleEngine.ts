@@ -1,83 +1,337 @@
 import type {
   AlertRule,
+  AlertType,
   Candle,
   TriggeredAlert,
   ExtremeMoveParams,
   BreakoutParams,
-  VolumeSpikeParams
+  VolumeSpikeParams,
+  RsiParams,
+  MaCrossParams,
+  MacdCrossParams,
+  BollingerParams,
+  PriceCrossParams,
+  PriceTick,
+  CompositeParams,
+  ConditionNode,
+  RuleParams
 } from '../types/domain.js';
+import { systemClock, type Clock } from '../utils/clock.js';
 import { newId } from '../utils/ids.js';
+import { toMs } from '../utils/timeframes.js';
 import type { CandleStore } from '../store/candleStore.js';
-import type { InMemoryStore } from '../store/inMemoryStore.js';
+import type { RuleChange, RuleState, Store } from '../store/store.js';
+import { checkSymbol, checkTimeframe } from './composite.js';
+import { IndicatorCache } from './indicators.js';
+import { isActive, isOneShot, ONE_SHOT_REASON, rearmPolicy } from './lifecycle.js';
+import { WindowCache } from './rollingWindows.js';
+import { RuleIndex } from './ruleIndex.js';
+
+type Direction = 'UP' | 'DOWN' | 'BOTH';
+
+type Details = Record<string, unknown>;
+
+// Rule types evaluated directly against the closing candle of their own
+// symbol/timeframe. EXTREME_MOVE runs separately on 1m closes and
+// PRICE_CROSS on ticker updates.
+export const candleTypes = new Set<AlertType>([
+  'BREAKOUT',
+  'VOLUME_SPIKE',
+  'RSI',
+  'MA_CROSS',
+  'MACD_CROSS',
+  'BOLLINGER'
+]);
+
+// Types that may be evaluated on the forming candle.
+export const liveTypes = new Set<AlertType>(['BREAKOUT', 'VOLUME_SPIKE']);
+
+// Which way `value` moved through `level` between two readings, if at all.
+const crossing = (previous: number, current: number, level: number) => {
+  if (previous <= level && current > level) return 'UP';
+  if (previous >= level && current < level) return 'DOWN';
+  return null;
+};
+
+const matchesDirection = (direction: Direction, moved: 'UP' | 'DOWN' | null) =>
+  moved !== null && (direction === 'BOTH' || direction === moved);
+
+// Whether a disarmed rule's condition has reset, given its state.
+type ResetCheck = (state: RuleState) => boolean;
+
+const hysteresis = (rule: AlertRule) => (rule.hysteresisPct ?? 0) / 100;
+
+// Whether `value` is back on the near side of `level` after an alert that
+// went `direction`, by at least `band` (a fraction of the level).
+const crossedBack = (
+  direction: RuleState['direction'],
+  value: number,
+  level: number,
+  band: number
+) =>
+  direction === 'DOWN'
+    ? value >= level + Math.abs(level) * band
+    : value <= level - Math.abs(level) * band;
+
+// PRICE_CROSS reports ABOVE/BELOW where other types say UP/DOWN.
+const firedDirection = (direction: unknown): RuleState['direction'] => {
+  if (direction === 'UP' || direction === 'ABOVE') return 'UP';
+  if (direction === 'DOWN' || direction === 'BELOW') return 'DOWN';
+  return undefined;
+};
 
 export class RuleEngine {
+  private readonly indicators: IndicatorCache;
+  private readonly windows: WindowCache;
+  private readonly index = new RuleIndex();
+  private loaded: Promise<void> | null = null;
+  // Changes that arrive while the rule list is being read, replayed after it.
+  private pendingChanges = new Set<RuleChange[]>();
+  private lastPrices = new Map<string, number>();
+  // openTime of the candle each LIVE rule last fired on.
+  private liveFired = new Map<string, number>();
+  // Last time each composite sub-condition matched, keyed `${ruleId}:${path}`.
+  private conditionHits = new Map<string, { closeTime: number; details: Details }>();
+
   constructor(
-    private readonly store: InMemoryStore,
-    private readonly candleStore: CandleStore
-  ) {}
+    private readonly store: Store,
+    private readonly candleStore: CandleStore,
+    private readonly clock: Clock = systemClock
+  ) {
+    this.indicators = new IndicatorCache(candleStore);
+    this.windows = new WindowCache(candleStore);
+    store.watchRules((change) => {
+      for (const pending of this.pendingChanges) pending.push(change);
+      this.index.apply(change);
+      if (change.type === 'DELETE') this.liveFired.delete(change.id);
+    });
+  }
+
+  // Rebuilds the rule index from the store, picking up changes other
+  // processes made to a shared database.
+  async syncRules(): Promise<void> {
+    const pending: RuleChange[] = [];
+    this.pendingChanges.add(pending);
+    try {
+      this.index.reset(await this.store.listRules());
+      for (const change of pending) this.index.apply(change);
+    } finally {
+      this.pendingChanges.delete(pending);
+    }
+  }
 
-  evaluateCandle(candle: Candle): TriggeredAlert[] {
+  // Matching runs before the cooldown lookup, which may go to the database,
+  // so only rules that match pay for it (and rules waiting for their condition
+  // to reset, which need every reading). Composites are the exception: they
+  // record sub-condition hits, which must not happen while cooling down.
+  async evaluateCandle(candle: Candle): Promise<TriggeredAlert[]> {
     this.candleStore.add(candle);
-    const rules = this.store
-      .listRules()
-      .filter(
-        (rule) =>
-          rule.isEnabled &&
-          rule.symbol === candle.symbol &&
-          rule.timeframe === candle.interval
-      );
+    await this.rulesLoaded();
 
     const triggered: TriggeredAlert[] = [];
 
-    for (const rule of rules) {
-      if (!this.canTrigger(rule)) continue;
-
-      if (rule.type === 'BREAKOUT') {
-        const params = rule.params as BreakoutParams;
-        const result = this.checkBreakout(rule, params, candle);
+    for (const rule of this.index.candleRules(candle)) {
+      if (rule.type !== 'COMPOSITE') {
+        const result = await this.triggerCandleRule(rule, candle);
         if (result) triggered.push(result);
+        continue;
       }
 
-      if (rule.type === 'VOLUME_SPIKE') {
-        const params = rule.params as VolumeSpikeParams;
-        const result = this.checkVolumeSpike(rule, params, candle);
-        if (result) triggered.push(result);
-      }
+      if (!(await this.canTrigger(rule))) continue;
+      const details = this.matchComposite(rule, rule.params as CompositeParams, candle);
+      if (!details) continue;
+      const result = await this.fire(rule, details);
+      if (result) triggered.push(result);
     }
 
     return triggered;
   }
 
-  evaluateExtremeMove(candle: Candle): TriggeredAlert[] {
-    const rules = this.store
-      .listRules()
-      .filter(
-        (rule) =>
-          rule.isEnabled && rule.symbol === candle.symbol && rule.type === 'EXTREME_MOVE'
-      );
+  // Checks LIVE rules against a candle that is still forming. The candle is
+  // not added to CandleStore: history holds closed candles only.
+  async evaluateLiveCandle(candle: Candle): Promise<TriggeredAlert[]> {
+    await this.rulesLoaded();
+
+    const triggered: TriggeredAlert[] = [];
+    for (const rule of this.index.liveRules(candle)) {
+      const result = await this.triggerCandleRule(rule, candle);
+      if (result) triggered.push(result);
+    }
+    return triggered;
+  }
+
+  async evaluateExtremeMove(candle: Candle): Promise<TriggeredAlert[]> {
+    await this.rulesLoaded();
 
     const triggered: TriggeredAlert[] = [];
-    for (const rule of rules) {
-      if (!this.canTrigger(rule)) continue;
+    for (const rule of this.index.extremeMoveRules(candle.exchange, candle.symbol)) {
       const params = rule.params as ExtremeMoveParams;
-      const result = this.checkExtremeMove(rule, params, candle);
+      const details = this.matchExtremeMove(params, rule.symbol, candle);
+      const reset = this.candleReset(rule, candle);
+      if (!details) await this.watchReset(rule, reset);
+      if (!details || !(await this.canTrigger(rule, reset))) continue;
+      const result = await this.fire(rule, details);
       if (result) triggered.push(result);
     }
 
     return triggered;
   }
 
-  private checkBreakout(
+  async evaluatePrice(tick: PriceTick): Promise<TriggeredAlert[]> {
+    const key = `${tick.exchange}:${tick.symbol}`;
+    const previous = this.lastPrices.get(key);
+    this.lastPrices.set(key, tick.price);
+    if (previous === undefined || previous === tick.price) return [];
+    await this.rulesLoaded();
+
+    const triggered: TriggeredAlert[] = [];
+    for (const rule of this.index.priceRules(tick.exchange, tick.symbol)) {
+      const params = rule.params as PriceCrossParams;
+      const details = this.matchPriceCross(params, previous, tick);
+      // The band is a share of the level, as for every other type.
+      const reset: ResetCheck = ({ direction }) =>
+        crossedBack(direction, tick.price, params.price, hysteresis(rule));
+      if (!details) await this.watchReset(rule, reset);
+      if (!details || !(await this.canTrigger(rule, reset))) continue;
+      const result = await this.fire(rule, details);
+      if (result) triggered.push(result);
+    }
+
+    return triggered;
+  }
+
+  // A LIVE rule fires at most once per candle, on an update or at the close,
+  // whatever its cooldown. The candle is claimed before the cooldown lookup so
+  // overlapping updates cannot both fire.
+  private async triggerCandleRule(
     rule: AlertRule,
-    params: BreakoutParams,
     candle: Candle
-  ): TriggeredAlert | null {
-    const history = this.candleStore.get(rule.symbol, candle.interval);
-    if (history.length < params.lookback + 1) return null;
+  ): Promise<TriggeredAlert | null> {
+    const live = rule.evaluateOn === 'LIVE';
+    const firedOn = this.liveFired.get(rule.id);
+    if (live && firedOn === candle.openTime) return null;
+
+    const details = this.matchCandle(rule.type, rule.params, rule.symbol, candle);
+    const reset = this.candleReset(rule, candle);
+    if (!details) {
+      await this.watchReset(rule, reset);
+      return null;
+    }
 
-    const window = history.slice(-params.lookback - 1, -1);
-    const highest = Math.max(...window.map((item) => item.high));
-    const lowest = Math.min(...window.map((item) => item.low));
+    if (live) this.liveFired.set(rule.id, candle.openTime);
+    if (!(await this.canTrigger(rule, reset))) {
+      if (live && firedOn === undefined) this.liveFired.delete(rule.id);
+      if (live && firedOn !== undefined) this.liveFired.set(rule.id, firedOn);
+      return null;
+    }
+
+    return this.fire(
+      rule,
+      live ? { ...details, candleOpenTime: candle.openTime, isFinal: candle.isFinal } : details
+    );
+  }
+
+  // Evaluates one candle-based condition; shared by plain and composite rules.
+  private matchCandle(
+    type: AlertType,
+    params: RuleParams,
+    symbol: string,
+    candle: Candle
+  ): Details | null {
+    switch (type) {
+      case 'BREAKOUT':
+        return this.matchBreakout(params as BreakoutParams, symbol, candle);
+      case 'VOLUME_SPIKE':
+        return this.matchVolumeSpike(params as VolumeSpikeParams, symbol, candle);
+      case 'EXTREME_MOVE':
+        return this.matchExtremeMove(params as ExtremeMoveParams, symbol, candle);
+      case 'RSI':
+        return this.matchRsi(params as RsiParams, symbol, candle);
+      case 'MA_CROSS':
+        return this.matchMaCross(params as MaCrossParams, symbol, candle);
+      case 'MACD_CROSS':
+        return this.matchMacdCross(params as MacdCrossParams, symbol, candle);
+      case 'BOLLINGER':
+        return this.matchBollinger(params as BollingerParams, symbol, candle);
+      default:
+        return null;
+    }
+  }
+
+  private matchComposite(
+    rule: AlertRule,
+    params: CompositeParams,
+    candle: Candle
+  ): Details | null {
+    const matched: Details[] = [];
+    if (!this.matchNode(rule, params, params.condition, '0', candle, matched)) {
+      return null;
+    }
+
+    for (const key of this.conditionHits.keys()) {
+      if (key.startsWith(`${rule.id}:`)) this.conditionHits.delete(key);
+    }
+
+    return {
+      timeframe: rule.timeframe,
+      withinCandles: params.withinCandles ?? 0,
+      matched
+    };
+  }
+
+  // Every child is evaluated (no short-circuit) so each check's last hit is
+  // recorded for the `withinCandles` window.
+  private matchNode(
+    rule: AlertRule,
+    params: CompositeParams,
+    node: ConditionNode,
+    path: string,
+    reference: Candle,
+    matched: Details[]
+  ): boolean {
+    if (node.op === 'NOT') {
+      return !this.matchNode(rule, params, node.condition, `${path}.0`, reference, []);
+    }
+
+    if (node.op !== 'CHECK') {
+      const results = node.conditions.map((child, index) =>
+        this.matchNode(rule, params, child, `${path}.${index}`, reference, matched)
+      );
+      return node.op === 'AND' ? results.every(Boolean) : results.some(Boolean);
+    }
+
+    const symbol = checkSymbol(node, rule);
+    const timeframe = checkTimeframe(node, rule);
+    const candle = this.candleStore.last(rule.exchange, symbol, timeframe);
+    if (!candle) return false;
+
+    const key = `${rule.id}:${path}`;
+    const details = this.matchCandle(node.type, node.params, symbol, candle);
+    if (details) {
+      this.conditionHits.set(key, { closeTime: candle.closeTime, details });
+    }
+
+    const hit = this.conditionHits.get(key);
+    const window = (params.withinCandles ?? 0) * toMs(timeframe);
+    const ok =
+      details !== null ||
+      (hit !== undefined && reference.closeTime - hit.closeTime <= window);
+    if (ok && hit) {
+      matched.push({ path, type: node.type, symbol, timeframe, ...hit.details });
+    }
+    return ok;
+  }
+
+  private matchBreakout(params: BreakoutParams, symbol: string, candle: Candle): Details | null {
+    const window = this.windows.before(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.lookback,
+      candle
+    );
+    const { highest, lowest } = window;
+    if (window.count < params.lookback || highest === null || lowest === null) return null;
 
     const brokeUp = candle.close > highest;
     const brokeDown = candle.close < lowest;
@@ -90,96 +344,232 @@ export class RuleEngine {
       return null;
     }
 
-    this.markTriggered(rule);
-
-    const user = this.store.getUser(rule.userId);
-    if (!user) return null;
-
     return {
-      rule,
-      user,
-      payload: {
-        id: newId(),
-        type: 'BREAKOUT',
-        symbol: rule.symbol,
-        timeframe: rule.timeframe,
-        close: candle.close,
-        highest,
-        lowest,
-        direction: brokeUp ? 'UP' : 'DOWN',
-        triggeredAt: new Date().toISOString()
-      }
+      timeframe: candle.interval,
+      close: candle.close,
+      highest,
+      lowest,
+      direction: brokeUp ? 'UP' : 'DOWN'
     };
   }
 
-  private checkVolumeSpike(
-    rule: AlertRule,
+  private matchVolumeSpike(
     params: VolumeSpikeParams,
+    symbol: string,
     candle: Candle
-  ): TriggeredAlert | null {
-    const history = this.candleStore.get(rule.symbol, candle.interval);
-    if (history.length < params.lookback + 1) return null;
-
-    const window = history.slice(-params.lookback - 1, -1);
-    const avgVolume =
-      window.reduce((sum, item) => sum + item.volume, 0) / window.length;
+  ): Details | null {
+    const window = this.windows.before(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.lookback,
+      candle
+    );
+    const avgVolume = window.averageVolume;
+    if (window.count < params.lookback || avgVolume === null) return null;
 
     if (candle.volume < avgVolume * params.multiplier) {
       return null;
     }
 
-    this.markTriggered(rule);
+    return {
+      timeframe: candle.interval,
+      volume: candle.volume,
+      avgVolume,
+      multiplier: params.multiplier
+    };
+  }
 
-    const user = this.store.getUser(rule.userId);
-    if (!user) return null;
+  private matchExtremeMove(
+    params: ExtremeMoveParams,
+    symbol: string,
+    candle: Candle
+  ): Details | null {
+    const change = this.extremeMoveChange(params, symbol, candle);
+    if (change === null) return null;
+    const up = change >= params.percent;
+    const down = change <= -params.percent;
+
+    if (
+      (params.direction === 'UP' && !up) ||
+      (params.direction === 'DOWN' && !down) ||
+      (params.direction === 'BOTH' && !up && !down)
+    ) {
+      return null;
+    }
 
     return {
-      rule,
-      user,
-      payload: {
-        id: newId(),
-        type: 'VOLUME_SPIKE',
-        symbol: rule.symbol,
-        timeframe: rule.timeframe,
-        volume: candle.volume,
-        avgVolume,
-        multiplier: params.multiplier,
-        triggeredAt: new Date().toISOString()
-      }
+      windowMin: params.windowMin,
+      percent: params.percent,
+      change,
+      price: candle.close
     };
   }
 
-  private checkExtremeMove(
-    rule: AlertRule,
+  // Percent change from the last close at least `windowMin` before the candle.
+  private extremeMoveChange(
     params: ExtremeMoveParams,
+    symbol: string,
     candle: Candle
-  ): TriggeredAlert | null {
-    const history = this.candleStore.get(rule.symbol, '1m');
-    if (history.length === 0) return null;
-
+  ): number | null {
+    const history = this.candleStore.get(candle.exchange, symbol, '1m');
     const windowMs = params.windowMin * 60 * 1000;
     const cutoff = candle.closeTime - windowMs;
-    const previous = [...history]
-      .reverse()
-      .find((item) => item.closeTime <= cutoff);
 
-    if (!previous) return null;
+    // History is in openTime order: binary-search the last candle closed by
+    // the cutoff.
+    let low = 0;
+    let high = history.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (history[middle].closeTime <= cutoff) low = middle + 1;
+      else high = middle;
+    }
+    const previous = history[low - 1];
+    return previous ? ((candle.close - previous.close) / previous.close) * 100 : null;
+  }
+
+  private matchRsi(params: RsiParams, symbol: string, candle: Candle): Details | null {
+    const { current, previous } = this.indicators.rsi(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.period
+    );
+    if (current === null || previous === null) return null;
 
-    const change = ((candle.close - previous.close) / previous.close) * 100;
-    const up = change >= params.percent;
-    const down = change <= -params.percent;
+    const moved = crossing(previous, current, params.level);
+    if (!matchesDirection(params.direction, moved)) return null;
 
+    return {
+      timeframe: candle.interval,
+      rsi: current,
+      previousRsi: previous,
+      level: params.level,
+      close: candle.close,
+      direction: moved
+    };
+  }
+
+  private matchMaCross(params: MaCrossParams, symbol: string, candle: Candle): Details | null {
+    const fast = this.indicators.movingAverage(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.maType,
+      params.fastPeriod
+    );
+    const slow = this.indicators.movingAverage(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.maType,
+      params.slowPeriod
+    );
     if (
-      (params.direction === 'UP' && !up) ||
-      (params.direction === 'DOWN' && !down) ||
-      (params.direction === 'BOTH' && !up && !down)
+      fast.current === null ||
+      fast.previous === null ||
+      slow.current === null ||
+      slow.previous === null
     ) {
       return null;
     }
 
-    this.markTriggered(rule);
+    const moved = crossing(fast.previous - slow.previous, fast.current - slow.current, 0);
+    if (!matchesDirection(params.direction, moved)) return null;
+
+    return {
+      timeframe: candle.interval,
+      maType: params.maType,
+      fast: fast.current,
+      slow: slow.current,
+      close: candle.close,
+      direction: moved
+    };
+  }
+
+  private matchMacdCross(
+    params: MacdCrossParams,
+    symbol: string,
+    candle: Candle
+  ): Details | null {
+    const { current, previous } = this.indicators.macd(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.fastPeriod,
+      params.slowPeriod,
+      params.signalPeriod
+    );
+    if (current === null || previous === null) return null;
+
+    const moved = crossing(previous.histogram, current.histogram, 0);
+    if (!matchesDirection(params.direction, moved)) return null;
+
+    return {
+      timeframe: candle.interval,
+      macd: current.macd,
+      signal: current.signal,
+      histogram: current.histogram,
+      close: candle.close,
+      direction: moved
+    };
+  }
+
+  private matchBollinger(
+    params: BollingerParams,
+    symbol: string,
+    candle: Candle
+  ): Details | null {
+    const { current } = this.indicators.bollinger(
+      candle.exchange,
+      symbol,
+      candle.interval,
+      params.period,
+      params.stdDev
+    );
+    if (current === null) return null;
+
+    const moved =
+      candle.close > current.upper ? 'UP' : candle.close < current.lower ? 'DOWN' : null;
+    if (!matchesDirection(params.direction, moved)) return null;
+
+    return {
+      timeframe: candle.interval,
+      upper: current.upper,
+      middle: current.middle,
+      lower: current.lower,
+      close: candle.close,
+      direction: moved
+    };
+  }
+
+  private matchPriceCross(
+    params: PriceCrossParams,
+    previous: number,
+    tick: PriceTick
+  ): Details | null {
+    const moved = crossing(previous, tick.price, params.price);
+    const wanted =
+      params.direction === 'ABOVE' ? 'UP' : params.direction === 'BELOW' ? 'DOWN' : 'BOTH';
+    if (!matchesDirection(wanted, moved)) return null;
 
-    const user = this.store.getUser(rule.userId);
+    return {
+      level: params.price,
+      price: tick.price,
+      previousPrice: previous,
+      direction: moved === 'UP' ? 'ABOVE' : 'BELOW',
+      oneShot: params.oneShot ?? false
+    };
+  }
+
+  private async fire(rule: AlertRule, details: Details): Promise<TriggeredAlert | null> {
+    const armed = await this.markTriggered(rule, details);
+    if (isOneShot(rule)) {
+      await this.store.updateRule(rule.id, { isEnabled: false, disabledReason: ONE_SHOT_REASON });
+    }
+
+    const user = await this.store.getUser(rule.userId);
     if (!user) return null;
 
     return {
@@ -187,24 +577,133 @@ export class RuleEngine {
       user,
       payload: {
         id: newId(),
-        type: 'EXTREME_MOVE',
+        type: rule.type,
+        exchange: rule.exchange,
         symbol: rule.symbol,
-        windowMin: params.windowMin,
-        percent: params.percent,
-        change,
-        price: candle.close,
-        triggeredAt: new Date().toISOString()
+        ...details,
+        rearmPolicy: rearmPolicy(rule),
+        // Whether the next match may fire without the condition resetting first.
+        armed,
+        triggeredAt: new Date(this.clock()).toISOString()
       }
     };
   }
 
-  private canTrigger(rule: AlertRule): boolean {
-    const last = this.store.getCooldown(rule.id);
-    if (!last) return true;
-    return Date.now() - last >= rule.cooldownSec * 1000;
+  // Loads the rule index on first use.
+  private rulesLoaded(): Promise<void> {
+    this.loaded ??= this.syncRules().catch((error) => {
+      this.loaded = null;
+      throw error;
+    });
+    return this.loaded;
+  }
+
+  // `reset` re-arms a rule waiting for its condition to reset, judged on the
+  // reading that matched: a BOTH breakout that fired UP may fire DOWN at once.
+  private async canTrigger(rule: AlertRule, reset?: ResetCheck): Promise<boolean> {
+    if (!isActive(rule, this.clock())) return false;
+    const state = await this.armState(rule, reset);
+    if (!state) return true;
+    const cooled = this.clock() - state.lastTriggeredAt >= rule.cooldownSec * 1000;
+    const policy = rearmPolicy(rule);
+    if (policy === 'COOLDOWN') return cooled;
+    return state.armed && (policy === 'REARM_ON_RESET' || cooled);
   }
 
-  private markTriggered(rule: AlertRule): void {
-    this.store.setCooldown(rule.id, Date.now());
+  // Readings that do not match are where conditions reset, so rules re-armed
+  // that way look their state up on every one, not only on matches.
+  private async watchReset(rule: AlertRule, reset: ResetCheck): Promise<void> {
+    if (rearmPolicy(rule) !== 'COOLDOWN') await this.armState(rule, reset);
+  }
+
+  private async armState(rule: AlertRule, reset?: ResetCheck): Promise<RuleState | undefined> {
+    const state = await this.store.getRuleState(rule.id);
+    if (!state || state.armed || rearmPolicy(rule) === 'COOLDOWN' || !reset?.(state)) {
+      return state;
+    }
+    const armed = { ...state, armed: true };
+    await this.store.setRuleState(rule.id, armed);
+    return armed;
+  }
+
+  // Returns whether the rule is armed again straight away.
+  private async markTriggered(rule: AlertRule, details: Details): Promise<boolean> {
+    const armed = rearmPolicy(rule) === 'COOLDOWN';
+    await this.store.setRuleState(rule.id, {
+      lastTriggeredAt: this.clock(),
+      armed,
+      direction: firedDirection(details.direction)
+    });
+    return armed;
+  }
+
+  // Whether a candle condition that fired has since fallen back past the
+  // rule's hysteresis band. Indicators are only computed when asked.
+  private candleReset(rule: AlertRule, candle: Candle): ResetCheck {
+    const band = hysteresis(rule);
+    const { exchange, interval } = candle;
+    const symbol = rule.symbol;
+
+    return ({ direction }) => {
+      switch (rule.type) {
+        case 'BREAKOUT': {
+          const params = rule.params as BreakoutParams;
+          const window = this.windows.before(exchange, symbol, interval, params.lookback, candle);
+          const level = direction === 'DOWN' ? window.lowest : window.highest;
+          return level !== null && crossedBack(direction, candle.close, level, band);
+        }
+        case 'VOLUME_SPIKE': {
+          const params = rule.params as VolumeSpikeParams;
+          const window = this.windows.before(exchange, symbol, interval, params.lookback, candle);
+          const average = window.averageVolume;
+          return average !== null && crossedBack('UP', candle.volume, average, band);
+        }
+        case 'EXTREME_MOVE': {
+          const params = rule.params as ExtremeMoveParams;
+          const change = this.extremeMoveChange(params, symbol, candle);
+          return change !== null && crossedBack('UP', Math.abs(change), params.percent, band);
+        }
+        case 'RSI': {
+          const params = rule.params as RsiParams;
+          const { current } = this.indicators.rsi(exchange, symbol, interval, params.period);
+          return current !== null && crossedBack(direction, current, params.level, band);
+        }
+        case 'MA_CROSS': {
+          const params = rule.params as MaCrossParams;
+          const average = (period: number) =>
+            this.indicators.movingAverage(exchange, symbol, interval, params.maType, period)
+              .current;
+          const fast = average(params.fastPeriod);
+          const slow = average(params.slowPeriod);
+          return fast !== null && slow !== null && crossedBack(direction, fast, slow, band);
+        }
+        case 'MACD_CROSS': {
+          const params = rule.params as MacdCrossParams;
+          const { current } = this.indicators.macd(
+            exchange,
+            symbol,
+            interval,
+            params.fastPeriod,
+            params.slowPeriod,
+            params.signalPeriod
+          );
+          return current !== null && crossedBack(direction, current.macd, current.signal, band);
+        }
+        case 'BOLLINGER': {
+          const params = rule.params as BollingerParams;
+          const { current } = this.indicators.bollinger(
+            exchange,
+            symbol,
+            interval,
+            params.period,
+            params.stdDev
+          );
+          const level = direction === 'DOWN' ? current?.lower : current?.upper;
+          return level !== undefined && crossedBack(direction, candle.close, level, band);
+        }
+        default:
+          return false;
+      }
+    };
   }
 }
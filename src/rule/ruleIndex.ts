@@ -0,0 +1,117 @@
+import type {
+  AlertRule,
+  Candle,
+  CompositeParams,
+  Exchange,
+  Timeframe
+} from '../types/domain.js';
+import type { RuleChange } from '../store/store.js';
+import { referencedSeries } from './composite.js';
+
+// Buckets an enabled rule is listed under: the candle series it is evaluated
+// on (every referenced series for composites, and the forming candle too for
+// LIVE rules), the symbol's 1m closes for EXTREME_MOVE, or its ticker for
+// PRICE_CROSS.
+const seriesKey = (exchange: Exchange, symbol: string, interval: Timeframe) =>
+  `candle:${exchange}:${symbol}:${interval}`;
+const liveKey = (exchange: Exchange, symbol: string, interval: Timeframe) =>
+  `live:${exchange}:${symbol}:${interval}`;
+const moveKey = (exchange: Exchange, symbol: string) => `move:${exchange}:${symbol}`;
+const priceKey = (exchange: Exchange, symbol: string) => `price:${exchange}:${symbol}`;
+
+const bucketKeys = (rule: AlertRule): string[] => {
+  if (!rule.isEnabled) return [];
+  switch (rule.type) {
+    case 'EXTREME_MOVE':
+      return [moveKey(rule.exchange, rule.symbol)];
+    case 'PRICE_CROSS':
+      return [priceKey(rule.exchange, rule.symbol)];
+    case 'COMPOSITE':
+      return referencedSeries(rule as AlertRule & { params: CompositeParams }).map(
+        ({ symbol, timeframe }) => seriesKey(rule.exchange, symbol, timeframe)
+      );
+    default:
+      if (!rule.timeframe) return [];
+      return rule.evaluateOn === 'LIVE'
+        ? [
+            seriesKey(rule.exchange, rule.symbol, rule.timeframe),
+            liveKey(rule.exchange, rule.symbol, rule.timeframe)
+          ]
+        : [seriesKey(rule.exchange, rule.symbol, rule.timeframe)];
+  }
+};
+
+// Enabled rules grouped by what triggers their evaluation, so a candle or
+// tick visits only the rules that can match it. Kept current from the store's
+// rule changes; `reset` reloads it wholesale.
+export class RuleIndex {
+  private keysById = new Map<string, string[]>();
+  private buckets = new Map<string, Map<string, AlertRule>>();
+
+  get size(): number {
+    return this.keysById.size;
+  }
+
+  reset(rules: AlertRule[]): void {
+    this.keysById.clear();
+    this.buckets.clear();
+    for (const rule of rules) this.upsert(rule);
+  }
+
+  apply(change: RuleChange): void {
+    if (change.type === 'DELETE') this.remove(change.id);
+    else this.upsert(change.rule);
+  }
+
+  candleRules(candle: Candle): AlertRule[] {
+    return this.list(seriesKey(candle.exchange, candle.symbol, candle.interval));
+  }
+
+  // LIVE rules to check against a candle that is still forming.
+  liveRules(candle: Candle): AlertRule[] {
+    return this.list(liveKey(candle.exchange, candle.symbol, candle.interval));
+  }
+
+  extremeMoveRules(exchange: Exchange, symbol: string): AlertRule[] {
+    return this.list(moveKey(exchange, symbol));
+  }
+
+  priceRules(exchange: Exchange, symbol: string): AlertRule[] {
+    return this.list(priceKey(exchange, symbol));
+  }
+
+  // Updating in place keeps a rule's position, so rules are still visited in
+  // the order they were created.
+  private upsert(rule: AlertRule): void {
+    const keys = bucketKeys(rule);
+    for (const key of this.keysById.get(rule.id) ?? []) {
+      if (!keys.includes(key)) this.unlist(key, rule.id);
+    }
+    for (const key of keys) {
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new Map();
+        this.buckets.set(key, bucket);
+      }
+      bucket.set(rule.id, rule);
+    }
+    if (keys.length > 0) this.keysById.set(rule.id, keys);
+    else this.keysById.delete(rule.id);
+  }
+
+  private remove(id: string): void {
+    for (const key of this.keysById.get(id) ?? []) this.unlist(key, id);
+    this.keysById.delete(id);
+  }
+
+  private unlist(key: string, id: string): void {
+    const bucket = this.buckets.get(key);
+    bucket?.delete(id);
+    if (bucket?.size === 0) this.buckets.delete(key);
+  }
+
+  private list(key: string): AlertRule[] {
+    const bucket = this.buckets.get(key);
+    return bucket ? [...bucket.values()] : [];
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Candle, Timeframe } from '../types/domain.js';
+import { bucketStart } from '../utils/timeframes.js';
+import { CandleStore, type BucketUpdate } from './candleStore.js';
+
+const MINUTE = 60_000;
+// UTC midnight, where a bucket of every timeframe starts.
+const start = Date.UTC(2026, 0, 1);
+
+const minute = (index: number, close = 100 + index, isFinal = true): Candle => ({
+  exchange: 'BINANCE',
+  symbol: 'BTCUSDT',
+  interval: '1m',
+  openTime: start + index * MINUTE,
+  closeTime: start + (index + 1) * MINUTE - 1,
+  open: close - 1,
+  high: close + 1,
+  low: close - 2,
+  close,
+  volume: 1,
+  isFinal
+});
+
+const only = (updates: BucketUpdate[], interval: Timeframe) =>
+  updates.filter((update) => update.candle.interval === interval);
+
+describe('CandleStore', () => {
+  test('keeps candles in openTime order, replacing re-delivered ones, up to the limit', () => {
+    const store = new CandleStore({ '1m': 3 });
+    for (const index of [0, 2, 1, 3]) store.add(minute(index));
+    store.add(minute(2, 500));
+
+    const stored = store.get('BINANCE', 'BTCUSDT', '1m');
+    assert.deepEqual(
+      stored.map((candle) => [(candle.openTime - start) / MINUTE, candle.close]),
+      [
+        [1, 101],
+        [2, 500],
+        [3, 103]
+      ]
+    );
+    assert.equal(store.limit('1m'), 3);
+    assert.equal(store.limit('1h'), 500);
+  });
+
+  test('aligns buckets to UTC', () => {
+    const time = Date.parse('2026-01-01T05:17:00Z');
+    assert.equal(bucketStart(time, '30m'), Date.parse('2026-01-01T05:00:00Z'));
+    assert.equal(bucketStart(time, '4h'), Date.parse('2026-01-01T04:00:00Z'));
+    assert.equal(bucketStart(time, '1d'), start);
+  });
+
+  test('folds 1m candles into a bucket that closes with its last minute', () => {
+    const store = new CandleStore();
+    const updates: BucketUpdate[] = [];
+    for (let index = 0; index < 30; index += 1) {
+      updates.push(...only(store.aggregate(minute(index)), '30m'));
+    }
+
+    assert.equal(updates.length, 30);
+    assert.ok(updates.slice(0, 29).every(({ candle }) => !candle.isFinal));
+    assert.deepEqual(updates[29], {
+      candle: {
+        exchange: 'BINANCE',
+        symbol: 'BTCUSDT',
+        interval: '30m',
+        openTime: start,
+        closeTime: start + 30 * MINUTE - 1,
+        open: 99,
+        high: 130,
+        low: 98,
+        close: 129,
+        volume: 30,
+        isFinal: true
+      },
+      complete: true
+    });
+    // Aggregated candles are left for the caller to store.
+    assert.deepEqual(store.get('BINANCE', 'BTCUSDT', '30m'), []);
+  });
+
+  test('shows a forming minute without folding it in', () => {
+    const store = new CandleStore();
+    store.aggregate(minute(0));
+    const [forming] = only(store.aggregate(minute(1, 200, false)), '30m');
+    assert.equal(forming.candle.close, 200);
+    assert.equal(forming.candle.volume, 2);
+
+    const [closed] = only(store.aggregate(minute(1, 150)), '30m');
+    assert.equal(closed.candle.close, 150);
+    assert.equal(closed.candle.high, 151);
+    assert.equal(closed.candle.volume, 2);
+    // Seen twice, counted once.
+    assert.deepEqual(only(store.aggregate(minute(1, 150)), '30m'), []);
+  });
+
+  test('marks buckets missing minutes as incomplete', () => {
+    const store = new CandleStore();
+    // First seen mid-way, after a restart say.
+    const [late] = only(store.aggregate(minute(5)), '30m');
+    assert.equal(late.complete, false);
+    assert.equal(late.candle.openTime, start);
+
+    // Minute 29 never arrives: the next bucket's first minute closes this one.
+    for (let index = 6; index < 29; index += 1) store.aggregate(minute(index));
+    const [closed, next] = only(store.aggregate(minute(30)), '30m');
+    assert.equal(closed.candle.isFinal, true);
+    assert.equal(closed.candle.close, 128);
+    assert.equal(closed.complete, false);
+    assert.equal(next.candle.openTime, start + 30 * MINUTE);
+    assert.equal(next.complete, true);
+  });
+
+  test('ignores minutes of a bucket already stored', () => {
+    const store = new CandleStore();
+    store.add({ ...minute(0), interval: '30m', closeTime: start + 30 * MINUTE - 1 });
+    const updates = store.aggregate(minute(3));
+    assert.deepEqual(only(updates, '30m'), []);
+    assert.equal(only(updates, '1h').length, 1);
+  });
+});
@@ -1,21 +1,129 @@
-import type { Candle, Timeframe } from '../types/domain.js';
+import type { Candle, Exchange, Timeframe } from '../types/domain.js';
+import { aggregatedTimeframes, bucketStart, toMs } from '../utils/timeframes.js';
 
-const makeKey = (symbol: string, interval: Timeframe) => `${symbol}:${interval}`;
+export const MAX_CANDLES = 500;
+
+export type CandleLimits = Partial<Record<Timeframe, number>>;
+
+// A higher-timeframe candle built from 1m candles. `candle.isFinal` once its
+// bucket has closed.
+export interface BucketUpdate {
+  candle: Candle;
+  // Whether every minute since the bucket opened was folded in; buckets first
+  // seen mid-way (after a restart, say) are not.
+  complete: boolean;
+}
+
+interface Bucket {
+  // Closed minutes merged so far.
+  candle: Candle;
+  complete: boolean;
+  nextMinute: number;
+}
+
+const makeKey = (exchange: Exchange, symbol: string, interval: Timeframe) =>
+  `${exchange}:${symbol}:${interval}`;
+
+const MINUTE = toMs('1m');
 
 export class CandleStore {
   private candles = new Map<string, Candle[]>();
+  private buckets = new Map<string, Bucket>();
 
-  add(candle: Candle, max = 500): void {
-    const key = makeKey(candle.symbol, candle.interval);
+  constructor(private readonly limits: CandleLimits = {}) {}
+
+  limit(interval: Timeframe): number {
+    return this.limits[interval] ?? MAX_CANDLES;
+  }
+
+  add(candle: Candle, max = this.limit(candle.interval)): void {
+    const key = makeKey(candle.exchange, candle.symbol, candle.interval);
     const list = this.candles.get(key) ?? [];
-    list.push(candle);
+    const last = list[list.length - 1];
+
+    if (!last || candle.openTime > last.openTime) {
+      list.push(candle);
+    } else {
+      // Backfilled or re-delivered candles land in openTime order, replacing
+      // any candle already stored for the same openTime.
+      const index = list.findIndex((item) => item.openTime >= candle.openTime);
+      const replace = list[index].openTime === candle.openTime ? 1 : 0;
+      list.splice(index, replace, candle);
+    }
+
     if (list.length > max) {
       list.splice(0, list.length - max);
     }
     this.candles.set(key, list);
   }
 
-  get(symbol: string, interval: Timeframe): Candle[] {
-    return this.candles.get(makeKey(symbol, interval)) ?? [];
+  get(exchange: Exchange, symbol: string, interval: Timeframe): Candle[] {
+    return this.candles.get(makeKey(exchange, symbol, interval)) ?? [];
+  }
+
+  last(exchange: Exchange, symbol: string, interval: Timeframe): Candle | undefined {
+    const list = this.get(exchange, symbol, interval);
+    return list[list.length - 1];
+  }
+
+  // Folds a 1m candle, closed or still forming, into the open bucket of every
+  // aggregated timeframe. Closed minutes advance the bucket; a forming minute
+  // only shows up in the returned partial candle. Nothing is stored: closed
+  // buckets are added by whoever evaluates them, like streamed candles.
+  aggregate(minute: Candle): BucketUpdate[] {
+    if (minute.interval !== '1m') return [];
+    return aggregatedTimeframes.flatMap((interval) => this.fold(minute, interval));
+  }
+
+  private fold(minute: Candle, interval: Timeframe): BucketUpdate[] {
+    const key = makeKey(minute.exchange, minute.symbol, interval);
+    const openTime = bucketStart(minute.openTime, interval);
+    const updates: BucketUpdate[] = [];
+    let bucket = this.buckets.get(key);
+
+    if (bucket && bucket.candle.openTime < openTime) {
+      // The bucket's last minute never arrived; close it with what was seen.
+      updates.push({ candle: { ...bucket.candle, isFinal: true }, complete: false });
+      this.buckets.delete(key);
+      bucket = undefined;
+    }
+    // Minutes of a closed bucket, or already folded, change nothing.
+    if (bucket && minute.openTime < bucket.nextMinute) return updates;
+    const stored = this.last(minute.exchange, minute.symbol, interval);
+    if (!bucket && stored && stored.openTime >= openTime) return updates;
+
+    const merged: Candle = bucket
+      ? {
+          ...bucket.candle,
+          high: Math.max(bucket.candle.high, minute.high),
+          low: Math.min(bucket.candle.low, minute.low),
+          close: minute.close,
+          volume: bucket.candle.volume + minute.volume
+        }
+      : {
+          ...minute,
+          interval,
+          openTime,
+          closeTime: openTime + toMs(interval) - 1,
+          isFinal: false
+        };
+    const complete = bucket
+      ? bucket.complete && minute.openTime === bucket.nextMinute
+      : minute.openTime === openTime;
+
+    if (!minute.isFinal) {
+      updates.push({ candle: merged, complete });
+      return updates;
+    }
+
+    if (minute.closeTime >= merged.closeTime) {
+      this.buckets.delete(key);
+      updates.push({ candle: { ...merged, isFinal: true }, complete });
+      return updates;
+    }
+
+    this.buckets.set(key, { candle: merged, complete, nextMinute: minute.openTime + MINUTE });
+    updates.push({ candle: merged, complete });
+    return updates;
   }
 }
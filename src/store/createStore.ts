@@ -0,0 +1,25 @@
+import { config } from '../config.js';
+import { InMemoryStore } from './inMemoryStore.js';
+import { runMigrations } from './migrations.js';
+import { PostgresClient, SqliteClient, type SqlClient } from './sqlClient.js';
+import { SqlStore } from './sqlStore.js';
+import type { Store } from './store.js';
+
+export type StoreDriver = 'memory' | 'sqlite' | 'postgres';
+
+export const createStore = async (driver: StoreDriver = config.storeDriver): Promise<Store> => {
+  if (driver === 'memory') return new InMemoryStore();
+
+  let client: SqlClient;
+  if (driver === 'postgres') {
+    if (!config.databaseUrl) {
+      throw new Error('Missing DATABASE_URL');
+    }
+    client = PostgresClient.fromUrl(config.databaseUrl);
+  } else {
+    client = new SqliteClient(config.sqlitePath);
+  }
+
+  await runMigrations(client);
+  return new SqlStore(client);
+};
@@ -1,14 +1,54 @@
 import { newId } from '../utils/ids.js';
-import type { AlertEvent, AlertRule, NotificationLog, User } from '../types/domain.js';
+import type {
+  AlertEvent,
+  AlertRule,
+  ApiKey,
+  NotificationLog,
+  NotificationStatus,
+  TelegramLink,
+  User
+} from '../types/domain.js';
+import type {
+  AlertQuery,
+  HistoryCursor,
+  NewAlertRule,
+  NewUser,
+  NotificationQuery,
+  RuleChange,
+  RuleState,
+  RuleWatcher,
+  Store
+} from './store.js';
 
-export class InMemoryStore {
+const newestFirst = (a: HistoryCursor, b: HistoryCursor) =>
+  b.at.getTime() - a.at.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Whether a row at `position` belongs on the page described by `query`.
+const inRange = (position: HistoryCursor, query: AlertQuery) =>
+  (!query.from || position.at >= query.from) &&
+  (!query.to || position.at < query.to) &&
+  (!query.before || newestFirst(position, query.before) > 0);
+
+const alertMatches = (event: AlertEvent, query: AlertQuery) =>
+  (!query.userId || event.userId === query.userId) &&
+  (!query.ruleId || event.ruleId === query.ruleId) &&
+  (!query.symbols || query.symbols.includes(event.symbol)) &&
+  (!query.types || query.types.includes(event.type));
+
+const awaitingDelivery = (notification: NotificationLog) =>
+  notification.status === 'PENDING' || notification.status === 'HELD';
+
+export class InMemoryStore implements Store {
   private users = new Map<string, User>();
+  private apiKeys = new Map<string, ApiKey>();
+  private telegramLinks = new Map<string, TelegramLink>();
   private rules = new Map<string, AlertRule>();
   private alerts: AlertEvent[] = [];
   private notifications: NotificationLog[] = [];
-  private ruleCooldowns = new Map<string, number>();
+  private ruleStates = new Map<string, RuleState>();
+  private ruleWatchers = new Set<RuleWatcher>();
 
-  createUser(payload: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User {
+  async createUser(payload: NewUser): Promise<User> {
     const now = new Date();
     const user: User = {
       id: newId(),
@@ -20,15 +60,64 @@ export class InMemoryStore {
     return user;
   }
 
-  listUsers(): User[] {
+  async listUsers(): Promise<User[]> {
     return [...this.users.values()];
   }
 
-  getUser(id: string): User | undefined {
+  async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
-  createRule(payload: Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>): AlertRule {
+  async findUserByTelegramChatId(chatId: string): Promise<User | undefined> {
+    return [...this.users.values()].find((user) => user.telegramChatId === chatId);
+  }
+
+  async updateUser(id: string, updates: Partial<NewUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = {
+      ...user,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createApiKey(key: ApiKey): Promise<void> {
+    this.apiKeys.set(key.id, key);
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    return [...this.apiKeys.values()].filter((key) => key.userId === userId);
+  }
+
+  async revokeApiKey(id: string, revokedAt: Date): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key) return undefined;
+    const updated = { ...key, revokedAt: key.revokedAt ?? revokedAt };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
+  async createTelegramLink(link: TelegramLink): Promise<void> {
+    for (const [hash, existing] of this.telegramLinks) {
+      if (existing.userId === link.userId) this.telegramLinks.delete(hash);
+    }
+    this.telegramLinks.set(link.hash, link);
+  }
+
+  async consumeTelegramLink(hash: string, now: Date): Promise<TelegramLink | undefined> {
+    const link = this.telegramLinks.get(hash);
+    this.telegramLinks.delete(hash);
+    return link && link.expiresAt > now ? link : undefined;
+  }
+
+  async createRule(payload: NewAlertRule): Promise<AlertRule> {
     const now = new Date();
     const rule: AlertRule = {
       id: newId(),
@@ -37,18 +126,19 @@ export class InMemoryStore {
       ...payload
     };
     this.rules.set(rule.id, rule);
+    this.notifyRule({ type: 'UPSERT', rule });
     return rule;
   }
 
-  listRules(): AlertRule[] {
+  async listRules(): Promise<AlertRule[]> {
     return [...this.rules.values()];
   }
 
-  getRule(id: string): AlertRule | undefined {
+  async getRule(id: string): Promise<AlertRule | undefined> {
     return this.rules.get(id);
   }
 
-  updateRule(id: string, updates: Partial<AlertRule>): AlertRule | undefined {
+  async updateRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule | undefined> {
     const rule = this.rules.get(id);
     if (!rule) return undefined;
     const updated: AlertRule = {
@@ -57,34 +147,156 @@ export class InMemoryStore {
       updatedAt: new Date()
     };
     this.rules.set(id, updated);
+    this.notifyRule({ type: 'UPSERT', rule: updated });
     return updated;
   }
 
-  deleteRule(id: string): boolean {
-    return this.rules.delete(id);
+  async deleteRule(id: string): Promise<boolean> {
+    this.ruleStates.delete(id);
+    const removed = this.rules.delete(id);
+    if (removed) this.notifyRule({ type: 'DELETE', id });
+    return removed;
+  }
+
+  watchRules(watcher: RuleWatcher): () => void {
+    this.ruleWatchers.add(watcher);
+    return () => {
+      this.ruleWatchers.delete(watcher);
+    };
+  }
+
+  private notifyRule(change: RuleChange): void {
+    for (const watcher of this.ruleWatchers) watcher(change);
   }
 
-  listAlerts(): AlertEvent[] {
-    return [...this.alerts];
+  async getAlert(id: string): Promise<AlertEvent | undefined> {
+    return this.alerts.find((event) => event.id === id);
   }
 
-  addAlert(event: AlertEvent): void {
+  async addAlert(event: AlertEvent): Promise<void> {
     this.alerts.push(event);
   }
 
-  listNotifications(): NotificationLog[] {
-    return [...this.notifications];
+  async queryAlerts(query: AlertQuery): Promise<AlertEvent[]> {
+    return this.alerts
+      .filter(
+        (event) =>
+          alertMatches(event, query) && inRange({ at: event.triggeredAt, id: event.id }, query)
+      )
+      .sort((a, b) => newestFirst({ at: a.triggeredAt, id: a.id }, { at: b.triggeredAt, id: b.id }))
+      .slice(0, query.limit);
   }
 
-  addNotification(notification: NotificationLog): void {
+  async listExpiredAlerts(before: Date, limit: number): Promise<AlertEvent[]> {
+    const referenced = new Set(this.notifications.map((item) => item.alertEventId));
+    return this.alerts
+      .filter((event) => event.triggeredAt < before && !referenced.has(event.id))
+      .sort((a, b) => a.triggeredAt.getTime() - b.triggeredAt.getTime())
+      .slice(0, limit);
+  }
+
+  async deleteAlerts(ids: string[]): Promise<number> {
+    const removed = new Set(ids);
+    const count = this.alerts.length;
+    this.alerts = this.alerts.filter((event) => !removed.has(event.id));
+    return count - this.alerts.length;
+  }
+
+  async getNotification(id: string): Promise<NotificationLog | undefined> {
+    return this.notifications.find((notification) => notification.id === id);
+  }
+
+  async addNotification(notification: NotificationLog): Promise<void> {
     this.notifications.push(notification);
   }
 
-  getCooldown(ruleId: string): number | undefined {
-    return this.ruleCooldowns.get(ruleId);
+  async updateNotification(
+    id: string,
+    updates: Partial<Omit<NotificationLog, 'id'>>
+  ): Promise<NotificationLog | undefined> {
+    const index = this.notifications.findIndex((notification) => notification.id === id);
+    if (index === -1) return undefined;
+    const updated: NotificationLog = { ...this.notifications[index], ...updates };
+    this.notifications[index] = updated;
+    return updated;
+  }
+
+  async claimDueNotifications(
+    status: Extract<NotificationStatus, 'PENDING' | 'HELD'>,
+    now: Date,
+    leaseUntil: Date,
+    limit: number
+  ): Promise<NotificationLog[]> {
+    const due = this.notifications
+      .filter(
+        (notification) =>
+          notification.status === status &&
+          (!notification.nextAttemptAt || notification.nextAttemptAt <= now)
+      )
+      .sort(
+        (a, b) => (a.nextAttemptAt?.getTime() ?? 0) - (b.nextAttemptAt?.getTime() ?? 0)
+      )
+      .slice(0, limit);
+    // No await between reading and claiming, so concurrent claims cannot overlap.
+    const claimed = due.map((notification) => {
+      const updated = { ...notification, nextAttemptAt: leaseUntil };
+      this.notifications[this.notifications.indexOf(notification)] = updated;
+      return updated;
+    });
+    return claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  setCooldown(ruleId: string, timestamp: number): void {
-    this.ruleCooldowns.set(ruleId, timestamp);
+  async listNotificationsByDigest(digestId: string): Promise<NotificationLog[]> {
+    return this.notifications.filter((notification) => notification.digestId === digestId);
   }
+
+  async queryNotifications(query: NotificationQuery): Promise<NotificationLog[]> {
+    const byAlert = query.symbols || query.types;
+    const alerts = byAlert ? new Map(this.alerts.map((event) => [event.id, event])) : undefined;
+    return this.notifications
+      .filter((notification) => {
+        const alert = alerts?.get(notification.alertEventId);
+        return (
+          (!query.userId || notification.userId === query.userId) &&
+          (!query.ruleId || notification.ruleId === query.ruleId) &&
+          (!query.alertEventId || notification.alertEventId === query.alertEventId) &&
+          (!query.statuses || query.statuses.includes(notification.status)) &&
+          (!query.channels || query.channels.includes(notification.channel)) &&
+          (!query.symbols || (alert !== undefined && query.symbols.includes(alert.symbol))) &&
+          (!query.types || (alert !== undefined && query.types.includes(alert.type))) &&
+          inRange({ at: notification.createdAt, id: notification.id }, query)
+        );
+      })
+      .sort((a, b) => newestFirst({ at: a.createdAt, id: a.id }, { at: b.createdAt, id: b.id }))
+      .slice(0, query.limit);
+  }
+
+  async listExpiredNotifications(before: Date, limit: number): Promise<NotificationLog[]> {
+    return this.notifications
+      .filter((notification) => notification.createdAt < before && !awaitingDelivery(notification))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async deleteNotifications(ids: string[]): Promise<number> {
+    const removed = new Set(ids);
+    const count = this.notifications.length;
+    this.notifications = this.notifications.filter((item) => !removed.has(item.id));
+    return count - this.notifications.length;
+  }
+
+  async getRuleState(ruleId: string): Promise<RuleState | undefined> {
+    const state = this.ruleStates.get(ruleId);
+    return state ? { ...state } : undefined;
+  }
+
+  async setRuleState(ruleId: string, state: RuleState): Promise<void> {
+    this.ruleStates.set(ruleId, { ...state });
+  }
+
+  async clearRuleState(ruleId: string): Promise<void> {
+    this.ruleStates.delete(ruleId);
+  }
+
+  async close(): Promise<void> {}
 }
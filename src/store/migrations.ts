@@ -0,0 +1,238 @@
+import type { SqlClient, SqlDialect } from './sqlClient.js';
+
+interface ColumnTypes {
+  timestamp: string;
+  json: string;
+  boolean: string;
+}
+
+const columnTypes: Record<SqlDialect, ColumnTypes> = {
+  sqlite: { timestamp: 'TEXT', json: 'TEXT', boolean: 'INTEGER' },
+  postgres: { timestamp: 'TIMESTAMPTZ', json: 'JSONB', boolean: 'BOOLEAN' }
+};
+
+export interface Migration {
+  id: number;
+  name: string;
+  statements: (types: ColumnTypes) => string[];
+}
+
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'initial_schema',
+    statements: (t) => [
+      `CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT,
+        telegram_chat_id TEXT NOT NULL,
+        plan TEXT NOT NULL,
+        created_at ${t.timestamp} NOT NULL,
+        updated_at ${t.timestamp} NOT NULL
+      )`,
+      `CREATE TABLE alert_rules (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        symbol TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timeframe TEXT,
+        params ${t.json} NOT NULL,
+        is_enabled ${t.boolean} NOT NULL,
+        cooldown_sec INTEGER NOT NULL,
+        created_at ${t.timestamp} NOT NULL,
+        updated_at ${t.timestamp} NOT NULL
+      )`,
+      'CREATE INDEX alert_rules_user_id_idx ON alert_rules (user_id)',
+      `CREATE TABLE alert_events (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        type TEXT NOT NULL,
+        triggered_at ${t.timestamp} NOT NULL,
+        payload ${t.json} NOT NULL
+      )`,
+      'CREATE INDEX alert_events_triggered_at_idx ON alert_events (triggered_at)',
+      `CREATE TABLE notification_logs (
+        id TEXT PRIMARY KEY,
+        alert_event_id TEXT NOT NULL,
+        rule_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        sent_at ${t.timestamp} NOT NULL
+      )`,
+      'CREATE INDEX notification_logs_sent_at_idx ON notification_logs (sent_at)',
+      `CREATE TABLE rule_cooldowns (
+        rule_id TEXT PRIMARY KEY,
+        last_triggered_at BIGINT NOT NULL
+      )`
+    ]
+  },
+  {
+    id: 2,
+    name: 'notification_channels',
+    statements: (t) => [
+      `ALTER TABLE users ADD COLUMN channels ${t.json}`,
+      `ALTER TABLE alert_rules ADD COLUMN channels ${t.json}`,
+      'ALTER TABLE notification_logs ADD COLUMN destination TEXT'
+    ]
+  },
+  {
+    id: 3,
+    name: 'telegram_bot',
+    statements: (t) => [
+      `ALTER TABLE users ADD COLUMN muted_until ${t.timestamp}`,
+      `ALTER TABLE alert_rules ADD COLUMN snoozed_until ${t.timestamp}`,
+      'CREATE INDEX users_telegram_chat_id_idx ON users (telegram_chat_id)'
+    ]
+  },
+  {
+    id: 4,
+    name: 'delivery_queue',
+    statements: (t) => [
+      'ALTER TABLE notification_logs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1',
+      `ALTER TABLE notification_logs ADD COLUMN next_attempt_at ${t.timestamp}`,
+      "UPDATE notification_logs SET status = 'DEAD_LETTER' WHERE status = 'FAILED'",
+      'CREATE INDEX notification_logs_due_idx ON notification_logs (status, next_attempt_at)'
+    ]
+  },
+  {
+    id: 5,
+    name: 'notification_preferences',
+    statements: (t) => [
+      `ALTER TABLE users ADD COLUMN preferences ${t.json}`,
+      'ALTER TABLE notification_logs ADD COLUMN digest_id TEXT',
+      'CREATE INDEX notification_logs_digest_id_idx ON notification_logs (digest_id)'
+    ]
+  },
+  {
+    id: 6,
+    name: 'api_keys',
+    statements: (t) => [
+      'ALTER TABLE users ADD COLUMN role TEXT',
+      `CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        name TEXT,
+        hash TEXT NOT NULL,
+        created_at ${t.timestamp} NOT NULL,
+        revoked_at ${t.timestamp}
+      )`,
+      'CREATE INDEX api_keys_user_id_idx ON api_keys (user_id)'
+    ]
+  },
+  {
+    id: 7,
+    name: 'history_queries',
+    statements: (t) => [
+      `ALTER TABLE notification_logs ADD COLUMN created_at ${t.timestamp}`,
+      'UPDATE notification_logs SET created_at = sent_at',
+      'CREATE INDEX notification_logs_created_at_idx ON notification_logs (created_at)',
+      'CREATE INDEX notification_logs_alert_event_id_idx ON notification_logs (alert_event_id)',
+      'CREATE INDEX alert_events_user_id_idx ON alert_events (user_id, triggered_at)',
+      'CREATE INDEX alert_events_rule_id_idx ON alert_events (rule_id, triggered_at)'
+    ]
+  },
+  {
+    id: 8,
+    name: 'rule_exchange',
+    statements: () => [
+      "ALTER TABLE alert_rules ADD COLUMN exchange TEXT NOT NULL DEFAULT 'BINANCE'"
+    ]
+  },
+  {
+    id: 9,
+    name: 'rule_evaluate_on',
+    statements: () => ['ALTER TABLE alert_rules ADD COLUMN evaluate_on TEXT']
+  },
+  {
+    id: 10,
+    name: 'rule_disabled_reason',
+    statements: () => [
+      'ALTER TABLE alert_rules ADD COLUMN disabled_reason TEXT',
+      // Symbols are matched exactly now; older rules may have been saved lowercase.
+      'UPDATE alert_rules SET symbol = UPPER(symbol)'
+    ]
+  },
+  {
+    id: 11,
+    name: 'message_templates',
+    statements: (t) => [
+      'ALTER TABLE users ADD COLUMN locale TEXT',
+      `ALTER TABLE users ADD COLUMN templates ${t.json}`,
+      'ALTER TABLE alert_rules ADD COLUMN template TEXT'
+    ]
+  },
+  {
+    id: 12,
+    name: 'rule_chart',
+    statements: (t) => [`ALTER TABLE alert_rules ADD COLUMN chart ${t.boolean}`]
+  },
+  {
+    id: 13,
+    name: 'rule_lifecycle',
+    statements: (t) => [
+      `ALTER TABLE alert_rules ADD COLUMN one_shot ${t.boolean}`,
+      `ALTER TABLE alert_rules ADD COLUMN expires_at ${t.timestamp}`,
+      `ALTER TABLE alert_rules ADD COLUMN schedule ${t.json}`
+    ]
+  },
+  {
+    id: 14,
+    name: 'rule_rearm_policy',
+    statements: (t) => [
+      'ALTER TABLE alert_rules ADD COLUMN rearm_policy TEXT',
+      'ALTER TABLE alert_rules ADD COLUMN hysteresis_pct DOUBLE PRECISION',
+      `ALTER TABLE rule_cooldowns ADD COLUMN armed ${t.boolean}`,
+      'ALTER TABLE rule_cooldowns ADD COLUMN direction TEXT'
+    ]
+  },
+  {
+    id: 15,
+    name: 'telegram_links',
+    statements: (t) => [
+      `CREATE TABLE telegram_links (
+        hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        expires_at ${t.timestamp} NOT NULL
+      )`
+    ]
+  },
+  {
+    id: 16,
+    name: 'alert_chart_candles',
+    statements: (t) => [`ALTER TABLE alert_events ADD COLUMN chart_candles ${t.json}`]
+  }
+];
+
+export const runMigrations = async (client: SqlClient): Promise<number[]> => {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at ${columnTypes[client.dialect].timestamp} NOT NULL
+    )`
+  );
+
+  const rows = await client.query<{ id: number }>('SELECT id FROM schema_migrations');
+  const applied = new Set(rows.map((row) => Number(row.id)));
+  const ran: number[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+    await client.transaction(async (tx) => {
+      for (const statement of migration.statements(columnTypes[client.dialect])) {
+        await tx.execute(statement);
+      }
+      await tx.execute(
+        'INSERT INTO schema_migrations (id, name, applied_at) VALUES ($1, $2, $3)',
+        [migration.id, migration.name, new Date()]
+      );
+    });
+    ran.push(migration.id);
+  }
+
+  return ran;
+};
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AlertEvent, NotificationLog } from '../types/domain.js';
+import { InMemoryStore } from './inMemoryStore.js';
+import { RetentionJob, type PruneCounts, type RetentionOptions } from './retention.js';
+
+const now = Date.parse('2026-03-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now - days * 86_400_000);
+
+const alert = (id: string, age: number): AlertEvent => ({
+  id,
+  ruleId: 'rule-1',
+  userId: 'user-1',
+  symbol: 'BTCUSDT',
+  type: 'BREAKOUT',
+  triggeredAt: daysAgo(age),
+  payload: { price: 1 }
+});
+
+const notification = (
+  id: string,
+  alertEventId: string,
+  age: number,
+  status: NotificationLog['status'] = 'SENT'
+): NotificationLog => ({
+  id,
+  alertEventId,
+  ruleId: 'rule-1',
+  userId: 'user-1',
+  channel: 'TELEGRAM',
+  destination: '100',
+  status,
+  attempts: 1,
+  sentAt: daysAgo(age),
+  createdAt: daysAgo(age)
+});
+
+describe('RetentionJob', () => {
+  let store: InMemoryStore;
+  let dir: string;
+
+  const job = (options: Partial<RetentionOptions> = {}) =>
+    new RetentionJob(
+      store,
+      { alertDays: 30, notificationDays: 7, intervalMs: 60_000, ...options },
+      () => now
+    );
+
+  const alertIds = async () =>
+    (await store.queryAlerts({ userId: 'user-1', limit: 100 })).map((item) => item.id).sort();
+
+  beforeEach(async () => {
+    store = new InMemoryStore();
+    dir = await mkdtemp(join(tmpdir(), 'retention-'));
+    for (const [id, age] of [
+      ['a1', 60],
+      ['a2', 45],
+      ['a3', 40],
+      ['a4', 10]
+    ] as const) {
+      await store.addAlert(alert(id, age));
+    }
+    await store.addNotification(notification('n1', 'a1', 60));
+    await store.addNotification(notification('n2', 'a2', 45, 'PENDING'));
+    await store.addNotification(notification('n4', 'a4', 10));
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  test('prunes notifications past their age, then alerts nothing refers to', async () => {
+    const pruned: PruneCounts[] = [];
+    const counts = await job({ onPruned: (item) => pruned.push(item) }).run();
+
+    // a1 goes with its notification; a2 waits for its pending delivery.
+    assert.deepEqual(counts, { alerts: 2, notifications: 2 });
+    assert.deepEqual(pruned, [counts]);
+    assert.deepEqual(await alertIds(), ['a2', 'a4']);
+    assert.equal(await store.getNotification('n1'), undefined);
+    assert.ok(await store.getNotification('n2'));
+    assert.equal(await store.getNotification('n4'), undefined);
+  });
+
+  test('works through the backlog in batches', async () => {
+    for (let index = 0; index < 5; index += 1) await store.addAlert(alert(`old${index}`, 90));
+    const counts = await job({ batchSize: 2 }).run();
+    assert.equal(counts.alerts, 7);
+    assert.deepEqual(await alertIds(), ['a2', 'a4']);
+  });
+
+  test('keeps history forever when its days are 0', async () => {
+    const pruned: PruneCounts[] = [];
+    const counts = await job({
+      alertDays: 0,
+      notificationDays: 0,
+      onPruned: (item) => pruned.push(item)
+    }).run();
+    assert.deepEqual(counts, { alerts: 0, notifications: 0 });
+    assert.deepEqual(pruned, []);
+    assert.deepEqual(await alertIds(), ['a1', 'a2', 'a3', 'a4']);
+  });
+
+  test('archives pruned rows as NDJSON named by kind and day', async () => {
+    await job({ archiveDir: join(dir, 'archive') }).run();
+
+    const lines = async (kind: string) =>
+      (await readFile(join(dir, 'archive', `${kind}-2026-03-01.ndjson`), 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).id);
+    assert.deepEqual(await lines('notifications'), ['n1', 'n4']);
+    assert.deepEqual((await lines('alerts')).sort(), ['a1', 'a3']);
+  });
+
+  test('leaves rows in place when the archive cannot be written', async () => {
+    const blocked = join(dir, 'not-a-directory');
+    await writeFile(blocked, '');
+    await assert.rejects(job({ archiveDir: blocked }).run());
+    assert.deepEqual(await alertIds(), ['a1', 'a2', 'a3', 'a4']);
+    assert.ok(await store.getNotification('n1'));
+  });
+});
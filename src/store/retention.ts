@@ -0,0 +1,112 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { systemClock, type Clock } from '../utils/clock.js';
+import type { Store } from './store.js';
+
+const DAY_MS = 86_400_000;
+
+export interface RetentionOptions {
+  // Days to keep each kind of history; 0 keeps it forever.
+  alertDays: number;
+  notificationDays: number;
+  intervalMs: number;
+  // When set, pruned rows are appended here as NDJSON before being deleted.
+  archiveDir?: string;
+  batchSize?: number;
+  onPruned?: (counts: PruneCounts) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface PruneCounts {
+  alerts: number;
+  notifications: number;
+}
+
+// Deletes alert and notification history past its retention age. Notifications
+// go first, since an alert is kept for as long as any notification refers to it.
+export class RetentionJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<PruneCounts> | null = null;
+
+  constructor(
+    private readonly store: Store,
+    private readonly options: RetentionOptions,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  start(): void {
+    if (this.timer || (!this.options.alertDays && !this.options.notificationDays)) return;
+    this.timer = setInterval(() => {
+      this.run().catch((error) => this.options.onError?.(error));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.running?.catch(() => undefined);
+  }
+
+  run(): Promise<PruneCounts> {
+    if (!this.running) {
+      this.running = this.prune().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async prune(): Promise<PruneCounts> {
+    const now = this.clock();
+    const counts: PruneCounts = { alerts: 0, notifications: 0 };
+
+    if (this.options.notificationDays > 0) {
+      counts.notifications = await this.pruneBatches(
+        'notifications',
+        new Date(now - this.options.notificationDays * DAY_MS),
+        (before, limit) => this.store.listExpiredNotifications(before, limit),
+        (ids) => this.store.deleteNotifications(ids)
+      );
+    }
+    if (this.options.alertDays > 0) {
+      counts.alerts = await this.pruneBatches(
+        'alerts',
+        new Date(now - this.options.alertDays * DAY_MS),
+        (before, limit) => this.store.listExpiredAlerts(before, limit),
+        (ids) => this.store.deleteAlerts(ids)
+      );
+    }
+
+    if (counts.alerts > 0 || counts.notifications > 0) this.options.onPruned?.(counts);
+    return counts;
+  }
+
+  private async pruneBatches<T extends { id: string }>(
+    kind: string,
+    before: Date,
+    list: (before: Date, limit: number) => Promise<T[]>,
+    remove: (ids: string[]) => Promise<number>
+  ): Promise<number> {
+    const batchSize = this.options.batchSize ?? 500;
+    let total = 0;
+    for (;;) {
+      const rows = await list(before, batchSize);
+      if (rows.length === 0) break;
+      // Archived first, so a failed write leaves the rows in place for the next run.
+      await this.archive(kind, rows);
+      total += await remove(rows.map((row) => row.id));
+      if (rows.length < batchSize) break;
+    }
+    return total;
+  }
+
+  private async archive(kind: string, rows: object[]): Promise<void> {
+    const { archiveDir } = this.options;
+    if (!archiveDir) return;
+    await mkdir(archiveDir, { recursive: true });
+    const day = new Date(this.clock()).toISOString().slice(0, 10);
+    const lines = rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+    await appendFile(join(archiveDir, `${kind}-${day}.ndjson`), lines);
+  }
+}
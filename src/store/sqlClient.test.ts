@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteClient } from './sqlClient.js';
+
+describe('SqliteClient', () => {
+  let client: SqliteClient;
+
+  beforeEach(async () => {
+    client = new SqliteClient(':memory:');
+    await client.execute('CREATE TABLE items (name TEXT NOT NULL)');
+  });
+
+  afterEach(() => client.close());
+
+  const names = async () =>
+    (await client.query<{ name: string }>('SELECT name FROM items ORDER BY name')).map(
+      (row) => row.name
+    );
+
+  test('keeps writes made outside a transaction out of its rollback', async () => {
+    let release = () => {};
+    const paused = new Promise<void>((resolve) => (release = resolve));
+
+    const failed = client.transaction(async (scoped) => {
+      await scoped.execute('INSERT INTO items (name) VALUES ($1)', ['inside']);
+      await paused;
+      throw new Error('abort');
+    });
+    const outside = client.execute('INSERT INTO items (name) VALUES ($1)', ['outside']);
+    release();
+
+    await assert.rejects(failed, { message: 'abort' });
+    await outside;
+    assert.deepEqual(await names(), ['outside']);
+  });
+
+  test('runs a transaction opened inside another on the same connection', async () => {
+    await client.transaction(async (scoped) => {
+      await scoped.execute('INSERT INTO items (name) VALUES ($1)', ['a']);
+      await scoped.transaction((nested) =>
+        nested.execute('INSERT INTO items (name) VALUES ($1)', ['b'])
+      );
+    });
+    assert.deepEqual(await names(), ['a', 'b']);
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import pg from 'pg';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export type SqlValue = string | number | boolean | Date | null;
+
+export interface SqlClient {
+  readonly dialect: SqlDialect;
+  query<T = Record<string, unknown>>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  execute(sql: string, params?: SqlValue[]): Promise<number>;
+  transaction<T>(work: (client: SqlClient) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+// Queries are written with Postgres-style `$1` placeholders; SQLite gets them
+// rewritten to positional `?` with the params reordered to match.
+const toSqlite = (sql: string, params: SqlValue[]) => {
+  const ordered: unknown[] = [];
+  const text = sql.replace(/\$(\d+)/g, (_match, index: string) => {
+    const value = params[Number(index) - 1];
+    if (value instanceof Date) ordered.push(value.toISOString());
+    else if (typeof value === 'boolean') ordered.push(value ? 1 : 0);
+    else ordered.push(value ?? null);
+    return '?';
+  });
+  return { text, ordered };
+};
+
+export class SqliteClient implements SqlClient {
+  readonly dialect = 'sqlite' as const;
+  private readonly db: Database.Database;
+  private pending: Promise<unknown> = Promise.resolve();
+  // True for the scoped client handed to a transaction callback, which shares
+  // an open connection; everything else waits for the transaction to end.
+  private readonly scoped: boolean;
+
+  constructor(filename: string | Database.Database) {
+    this.scoped = typeof filename !== 'string';
+    if (typeof filename !== 'string') {
+      this.db = filename;
+      return;
+    }
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    const { text, ordered } = toSqlite(sql, params);
+    return this.exclusive(() => this.db.prepare(text).all(...ordered) as T[]);
+  }
+
+  async execute(sql: string, params: SqlValue[] = []): Promise<number> {
+    const { text, ordered } = toSqlite(sql, params);
+    return this.exclusive(() => this.db.prepare(text).run(...ordered).changes);
+  }
+
+  async transaction<T>(work: (client: SqlClient) => Promise<T>): Promise<T> {
+    // One connection, so transactions are serialised instead of nested.
+    if (this.scoped) return work(this);
+    return this.exclusive(async () => {
+      this.db.exec('BEGIN');
+      try {
+        const result = await work(new SqliteClient(this.db));
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.exclusive(() => this.db.close());
+  }
+
+  // Queues `task` behind any open transaction so its statements cannot land
+  // inside it, or run after its COMMIT has been skipped by a ROLLBACK.
+  private exclusive<T>(task: () => T | Promise<T>): Promise<T> {
+    if (this.scoped) return Promise.resolve(task());
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
+
+type Queryable = Pick<pg.ClientBase, 'query'>;
+
+export class PostgresClient implements SqlClient {
+  readonly dialect = 'postgres' as const;
+
+  // `pool` is absent on the scoped client handed to a transaction callback,
+  // so nested transactions simply run on the same connection.
+  constructor(
+    private readonly executor: Queryable,
+    private readonly pool?: pg.Pool
+  ) {}
+
+  static fromUrl(connectionString: string): PostgresClient {
+    const pool = new pg.Pool({ connectionString });
+    return new PostgresClient(pool, pool);
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    const result = await this.executor.query(sql, params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params: SqlValue[] = []): Promise<number> {
+    const result = await this.executor.query(sql, params);
+    return result.rowCount ?? 0;
+  }
+
+  async transaction<T>(work: (client: SqlClient) => Promise<T>): Promise<T> {
+    if (!this.pool) return work(this);
+    const connection = await this.pool.connect();
+    try {
+      await connection.query('BEGIN');
+      const result = await work(new PostgresClient(connection));
+      await connection.query('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.query('ROLLBACK');
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.end();
+  }
+}
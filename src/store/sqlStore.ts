@@ -0,0 +1,643 @@
+import { newId } from '../utils/ids.js';
+import type {
+  AlertEvent,
+  AlertRule,
+  ApiKey,
+  NotificationLog,
+  NotificationStatus,
+  TelegramLink,
+  User
+} from '../types/domain.js';
+import type { SqlClient, SqlValue } from './sqlClient.js';
+import type {
+  AlertQuery,
+  NewAlertRule,
+  NewUser,
+  NotificationQuery,
+  RuleChange,
+  RuleState,
+  RuleWatcher,
+  Store
+} from './store.js';
+
+type Row = Record<string, unknown>;
+
+// Collects WHERE clauses, numbering placeholders as values are added.
+class Conditions {
+  readonly clauses: string[] = [];
+  readonly params: SqlValue[] = [];
+
+  param(value: SqlValue): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  list(values: SqlValue[]): string {
+    return values.map((value) => this.param(value)).join(', ');
+  }
+
+  add(clause: string): void {
+    this.clauses.push(clause);
+  }
+
+  toString(): string {
+    return this.clauses.length > 0 ? `WHERE ${this.clauses.join(' AND ')}` : '';
+  }
+}
+
+// Filters shared by alert and notification history; `at` and `id` are the
+// ordering columns, `alert` the alias of the alert_events row.
+const historyConditions = (
+  where: Conditions,
+  query: AlertQuery,
+  columns: { at: string; id: string; owner: string; alert: string }
+) => {
+  const { at, id, owner, alert } = columns;
+  if (query.userId) where.add(`${owner}.user_id = ${where.param(query.userId)}`);
+  if (query.ruleId) where.add(`${owner}.rule_id = ${where.param(query.ruleId)}`);
+  if (query.symbols) where.add(`${alert}.symbol IN (${where.list(query.symbols)})`);
+  if (query.types) where.add(`${alert}.type IN (${where.list(query.types)})`);
+  if (query.from) where.add(`${at} >= ${where.param(query.from)}`);
+  if (query.to) where.add(`${at} < ${where.param(query.to)}`);
+  if (query.before) {
+    const cursorAt = where.param(query.before.at);
+    const cursorId = where.param(query.before.id);
+    where.add(`(${at} < ${cursorAt} OR (${at} = ${cursorAt} AND ${id} < ${cursorId}))`);
+  }
+};
+
+const toDate = (value: unknown) => (value instanceof Date ? value : new Date(String(value)));
+
+const toOptionalDate = (value: unknown) =>
+  value === null || value === undefined ? undefined : toDate(value);
+
+// SQLite hands JSON columns back as text, Postgres as already-parsed JSONB.
+const toJson = <T>(value: unknown): T =>
+  (typeof value === 'string' ? JSON.parse(value) : value) as T;
+
+const toOptionalJson = <T>(value: unknown): T | undefined =>
+  value === null || value === undefined ? undefined : toJson<T>(value);
+
+const toUser = (row: Row): User => ({
+  id: String(row.id),
+  email: row.email === null ? undefined : String(row.email),
+  telegramChatId: String(row.telegram_chat_id),
+  plan: row.plan as User['plan'],
+  role: row.role === null ? undefined : (row.role as User['role']),
+  channels: toOptionalJson<User['channels']>(row.channels),
+  mutedUntil: toOptionalDate(row.muted_until),
+  preferences: toOptionalJson<User['preferences']>(row.preferences),
+  locale: row.locale === null ? undefined : (row.locale as User['locale']),
+  templates: toOptionalJson<User['templates']>(row.templates),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at)
+});
+
+const toRule = (row: Row): AlertRule => ({
+  id: String(row.id),
+  userId: String(row.user_id),
+  exchange: row.exchange as AlertRule['exchange'],
+  symbol: String(row.symbol),
+  type: row.type as AlertRule['type'],
+  timeframe: (row.timeframe ?? null) as AlertRule['timeframe'],
+  params: toJson<AlertRule['params']>(row.params),
+  isEnabled: Boolean(row.is_enabled),
+  disabledReason: row.disabled_reason === null ? undefined : String(row.disabled_reason),
+  cooldownSec: Number(row.cooldown_sec),
+  rearmPolicy: (row.rearm_policy ?? undefined) as AlertRule['rearmPolicy'],
+  hysteresisPct: row.hysteresis_pct === null ? undefined : Number(row.hysteresis_pct),
+  evaluateOn: (row.evaluate_on ?? undefined) as AlertRule['evaluateOn'],
+  channels: toOptionalJson<AlertRule['channels']>(row.channels),
+  template: row.template === null ? undefined : String(row.template),
+  chart: row.chart === null ? undefined : Boolean(row.chart),
+  oneShot: row.one_shot === null ? undefined : Boolean(row.one_shot),
+  expiresAt: toOptionalDate(row.expires_at),
+  schedule: toOptionalJson<AlertRule['schedule']>(row.schedule),
+  snoozedUntil: toOptionalDate(row.snoozed_until),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at)
+});
+
+const toAlert = (row: Row): AlertEvent => ({
+  id: String(row.id),
+  ruleId: String(row.rule_id),
+  userId: String(row.user_id),
+  symbol: String(row.symbol),
+  type: row.type as AlertEvent['type'],
+  triggeredAt: toDate(row.triggered_at),
+  payload: toJson<AlertEvent['payload']>(row.payload),
+  chartCandles: toOptionalJson<AlertEvent['chartCandles']>(row.chart_candles)
+});
+
+const toNotification = (row: Row): NotificationLog => ({
+  id: String(row.id),
+  alertEventId: String(row.alert_event_id),
+  ruleId: String(row.rule_id),
+  userId: String(row.user_id),
+  channel: row.channel as NotificationLog['channel'],
+  destination: row.destination === null ? undefined : String(row.destination),
+  status: row.status as NotificationLog['status'],
+  digestId: row.digest_id === null ? undefined : String(row.digest_id),
+  attempts: Number(row.attempts),
+  nextAttemptAt: toOptionalDate(row.next_attempt_at),
+  error: row.error === null ? undefined : String(row.error),
+  sentAt: toDate(row.sent_at),
+  createdAt: toDate(row.created_at ?? row.sent_at)
+});
+
+const toApiKey = (row: Row): ApiKey => ({
+  id: String(row.id),
+  userId: String(row.user_id),
+  name: row.name === null ? undefined : String(row.name),
+  hash: String(row.hash),
+  createdAt: toDate(row.created_at),
+  revokedAt: toOptionalDate(row.revoked_at)
+});
+
+export class SqlStore implements Store {
+  private ruleWatchers = new Set<RuleWatcher>();
+
+  constructor(private readonly db: SqlClient) {}
+
+  async createUser(payload: NewUser): Promise<User> {
+    const now = new Date();
+    const user: User = {
+      id: newId(),
+      createdAt: now,
+      updatedAt: now,
+      ...payload
+    };
+    await this.db.execute(
+      `INSERT INTO users
+        (id, email, telegram_chat_id, plan, role, channels, muted_until, preferences,
+         locale, templates, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        user.id,
+        user.email ?? null,
+        user.telegramChatId,
+        user.plan,
+        user.role ?? null,
+        user.channels ? JSON.stringify(user.channels) : null,
+        user.mutedUntil ?? null,
+        user.preferences ? JSON.stringify(user.preferences) : null,
+        user.locale ?? null,
+        user.templates ? JSON.stringify(user.templates) : null,
+        user.createdAt,
+        user.updatedAt
+      ]
+    );
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const rows = await this.db.query('SELECT * FROM users ORDER BY created_at');
+    return rows.map(toUser);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [row] = await this.db.query('SELECT * FROM users WHERE id = $1', [id]);
+    return row ? toUser(row) : undefined;
+  }
+
+  async findUserByTelegramChatId(chatId: string): Promise<User | undefined> {
+    const [row] = await this.db.query('SELECT * FROM users WHERE telegram_chat_id = $1', [
+      chatId
+    ]);
+    return row ? toUser(row) : undefined;
+  }
+
+  async updateUser(id: string, updates: Partial<NewUser>): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.query('SELECT * FROM users WHERE id = $1', [id]);
+      if (!row) return undefined;
+      const updated: User = {
+        ...toUser(row),
+        ...updates,
+        updatedAt: new Date()
+      };
+      await tx.execute(
+        `UPDATE users
+         SET email = $1, telegram_chat_id = $2, plan = $3, role = $4, channels = $5,
+             muted_until = $6, preferences = $7, locale = $8, templates = $9,
+             updated_at = $10
+         WHERE id = $11`,
+        [
+          updated.email ?? null,
+          updated.telegramChatId,
+          updated.plan,
+          updated.role ?? null,
+          updated.channels ? JSON.stringify(updated.channels) : null,
+          updated.mutedUntil ?? null,
+          updated.preferences ? JSON.stringify(updated.preferences) : null,
+          updated.locale ?? null,
+          updated.templates ? JSON.stringify(updated.templates) : null,
+          updated.updatedAt,
+          id
+        ]
+      );
+      return updated;
+    });
+  }
+
+  async createApiKey(key: ApiKey): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO api_keys (id, user_id, name, hash, created_at, revoked_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [key.id, key.userId, key.name ?? null, key.hash, key.createdAt, key.revokedAt ?? null]
+    );
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [row] = await this.db.query('SELECT * FROM api_keys WHERE id = $1', [id]);
+    return row ? toApiKey(row) : undefined;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    const rows = await this.db.query(
+      'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at',
+      [userId]
+    );
+    return rows.map(toApiKey);
+  }
+
+  async revokeApiKey(id: string, revokedAt: Date): Promise<ApiKey | undefined> {
+    await this.db.execute(
+      'UPDATE api_keys SET revoked_at = $1 WHERE id = $2 AND revoked_at IS NULL',
+      [revokedAt, id]
+    );
+    return this.getApiKey(id);
+  }
+
+  async createTelegramLink(link: TelegramLink): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      // Expired links are never consumed, so this is also where they go.
+      await tx.execute('DELETE FROM telegram_links WHERE user_id = $1 OR expires_at <= $2', [
+        link.userId,
+        new Date()
+      ]);
+      await tx.execute(
+        'INSERT INTO telegram_links (hash, user_id, expires_at) VALUES ($1, $2, $3)',
+        [link.hash, link.userId, link.expiresAt]
+      );
+    });
+  }
+
+  async consumeTelegramLink(hash: string, now: Date): Promise<TelegramLink | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.query('SELECT * FROM telegram_links WHERE hash = $1', [hash]);
+      // Another instance redeeming the same code at once deletes it first.
+      if (!row || (await tx.execute('DELETE FROM telegram_links WHERE hash = $1', [hash])) === 0) {
+        return undefined;
+      }
+      const link = { hash, userId: String(row.user_id), expiresAt: toDate(row.expires_at) };
+      return link.expiresAt > now ? link : undefined;
+    });
+  }
+
+  async createRule(payload: NewAlertRule): Promise<AlertRule> {
+    const now = new Date();
+    const rule: AlertRule = {
+      id: newId(),
+      createdAt: now,
+      updatedAt: now,
+      ...payload
+    };
+    await this.db.execute(
+      `INSERT INTO alert_rules
+        (id, user_id, exchange, symbol, type, timeframe, params, is_enabled, disabled_reason,
+         cooldown_sec, rearm_policy, hysteresis_pct, evaluate_on, channels, template, chart,
+         one_shot, expires_at, schedule, snoozed_until, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+         $18, $19, $20, $21, $22)`,
+      [
+        rule.id,
+        rule.userId,
+        rule.exchange,
+        rule.symbol,
+        rule.type,
+        rule.timeframe,
+        JSON.stringify(rule.params),
+        rule.isEnabled,
+        rule.disabledReason ?? null,
+        rule.cooldownSec,
+        rule.rearmPolicy ?? null,
+        rule.hysteresisPct ?? null,
+        rule.evaluateOn ?? null,
+        rule.channels ? JSON.stringify(rule.channels) : null,
+        rule.template ?? null,
+        rule.chart ?? null,
+        rule.oneShot ?? null,
+        rule.expiresAt ?? null,
+        rule.schedule ? JSON.stringify(rule.schedule) : null,
+        rule.snoozedUntil ?? null,
+        rule.createdAt,
+        rule.updatedAt
+      ]
+    );
+    this.notifyRule({ type: 'UPSERT', rule });
+    return rule;
+  }
+
+  async listRules(): Promise<AlertRule[]> {
+    const rows = await this.db.query('SELECT * FROM alert_rules ORDER BY created_at');
+    return rows.map(toRule);
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    const [row] = await this.db.query('SELECT * FROM alert_rules WHERE id = $1', [id]);
+    return row ? toRule(row) : undefined;
+  }
+
+  async updateRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      const [row] = await tx.query('SELECT * FROM alert_rules WHERE id = $1', [id]);
+      if (!row) return undefined;
+      const updated: AlertRule = {
+        ...toRule(row),
+        ...updates,
+        updatedAt: new Date()
+      };
+      await tx.execute(
+        `UPDATE alert_rules
+         SET user_id = $1, exchange = $2, symbol = $3, type = $4, timeframe = $5,
+             params = $6, is_enabled = $7, disabled_reason = $8, cooldown_sec = $9,
+             rearm_policy = $10, hysteresis_pct = $11, evaluate_on = $12, channels = $13,
+             template = $14, chart = $15, one_shot = $16, expires_at = $17, schedule = $18,
+             snoozed_until = $19, updated_at = $20
+         WHERE id = $21`,
+        [
+          updated.userId,
+          updated.exchange,
+          updated.symbol,
+          updated.type,
+          updated.timeframe,
+          JSON.stringify(updated.params),
+          updated.isEnabled,
+          updated.disabledReason ?? null,
+          updated.cooldownSec,
+          updated.rearmPolicy ?? null,
+          updated.hysteresisPct ?? null,
+          updated.evaluateOn ?? null,
+          updated.channels ? JSON.stringify(updated.channels) : null,
+          updated.template ?? null,
+          updated.chart ?? null,
+          updated.oneShot ?? null,
+          updated.expiresAt ?? null,
+          updated.schedule ? JSON.stringify(updated.schedule) : null,
+          updated.snoozedUntil ?? null,
+          updated.updatedAt,
+          id
+        ]
+      );
+      return updated;
+    });
+    if (updated) this.notifyRule({ type: 'UPSERT', rule: updated });
+    return updated;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const removed = await this.db.transaction(async (tx) => {
+      await tx.execute('DELETE FROM rule_cooldowns WHERE rule_id = $1', [id]);
+      const count = await tx.execute('DELETE FROM alert_rules WHERE id = $1', [id]);
+      return count > 0;
+    });
+    if (removed) this.notifyRule({ type: 'DELETE', id });
+    return removed;
+  }
+
+  // Only sees writes made through this instance; other processes sharing the
+  // database are picked up by periodic reloads of the full rule list.
+  watchRules(watcher: RuleWatcher): () => void {
+    this.ruleWatchers.add(watcher);
+    return () => {
+      this.ruleWatchers.delete(watcher);
+    };
+  }
+
+  private notifyRule(change: RuleChange): void {
+    for (const watcher of this.ruleWatchers) watcher(change);
+  }
+
+  async getAlert(id: string): Promise<AlertEvent | undefined> {
+    const [row] = await this.db.query('SELECT * FROM alert_events WHERE id = $1', [id]);
+    return row ? toAlert(row) : undefined;
+  }
+
+  async addAlert(event: AlertEvent): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO alert_events
+         (id, rule_id, user_id, symbol, type, triggered_at, payload, chart_candles)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        event.id,
+        event.ruleId,
+        event.userId,
+        event.symbol,
+        event.type,
+        event.triggeredAt,
+        JSON.stringify(event.payload),
+        event.chartCandles ? JSON.stringify(event.chartCandles) : null
+      ]
+    );
+  }
+
+  async queryAlerts(query: AlertQuery): Promise<AlertEvent[]> {
+    const where = new Conditions();
+    historyConditions(where, query, {
+      at: 'e.triggered_at',
+      id: 'e.id',
+      owner: 'e',
+      alert: 'e'
+    });
+    const rows = await this.db.query(
+      `SELECT e.* FROM alert_events e ${where}
+       ORDER BY e.triggered_at DESC, e.id DESC
+       LIMIT ${where.param(query.limit)}`,
+      where.params
+    );
+    return rows.map(toAlert);
+  }
+
+  async listExpiredAlerts(before: Date, limit: number): Promise<AlertEvent[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM alert_events e
+       WHERE e.triggered_at < $1
+         AND NOT EXISTS (SELECT 1 FROM notification_logs n WHERE n.alert_event_id = e.id)
+       ORDER BY e.triggered_at
+       LIMIT $2`,
+      [before, limit]
+    );
+    return rows.map(toAlert);
+  }
+
+  async deleteAlerts(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const where = new Conditions();
+    return this.db.execute(`DELETE FROM alert_events WHERE id IN (${where.list(ids)})`, where.params);
+  }
+
+  async getNotification(id: string): Promise<NotificationLog | undefined> {
+    const [row] = await this.db.query('SELECT * FROM notification_logs WHERE id = $1', [id]);
+    return row ? toNotification(row) : undefined;
+  }
+
+  async addNotification(notification: NotificationLog): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO notification_logs
+        (id, alert_event_id, rule_id, user_id, channel, destination, status, digest_id,
+         attempts, next_attempt_at, error, sent_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        notification.id,
+        notification.alertEventId,
+        notification.ruleId,
+        notification.userId,
+        notification.channel,
+        notification.destination ?? null,
+        notification.status,
+        notification.digestId ?? null,
+        notification.attempts,
+        notification.nextAttemptAt ?? null,
+        notification.error ?? null,
+        notification.sentAt,
+        notification.createdAt
+      ]
+    );
+  }
+
+  async updateNotification(
+    id: string,
+    updates: Partial<Omit<NotificationLog, 'id'>>
+  ): Promise<NotificationLog | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.query('SELECT * FROM notification_logs WHERE id = $1', [id]);
+      if (!row) return undefined;
+      const updated: NotificationLog = { ...toNotification(row), ...updates };
+      await tx.execute(
+        `UPDATE notification_logs
+         SET status = $1, digest_id = $2, attempts = $3, next_attempt_at = $4, error = $5,
+             sent_at = $6
+         WHERE id = $7`,
+        [
+          updated.status,
+          updated.digestId ?? null,
+          updated.attempts,
+          updated.nextAttemptAt ?? null,
+          updated.error ?? null,
+          updated.sentAt,
+          id
+        ]
+      );
+      return updated;
+    });
+  }
+
+  // Postgres skips rows another worker is claiming; SQLite has one writer at a
+  // time, so the statement alone is enough.
+  async claimDueNotifications(
+    status: Extract<NotificationStatus, 'PENDING' | 'HELD'>,
+    now: Date,
+    leaseUntil: Date,
+    limit: number
+  ): Promise<NotificationLog[]> {
+    const lock = this.db.dialect === 'postgres' ? 'FOR UPDATE SKIP LOCKED' : '';
+    const rows = await this.db.query(
+      `UPDATE notification_logs SET next_attempt_at = $1
+       WHERE id IN (
+         SELECT id FROM notification_logs
+         WHERE status = $2 AND (next_attempt_at IS NULL OR next_attempt_at <= $3)
+         ORDER BY next_attempt_at
+         LIMIT $4
+         ${lock}
+       )
+       RETURNING *`,
+      [leaseUntil, status, now, limit]
+    );
+    return rows
+      .map(toNotification)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async listNotificationsByDigest(digestId: string): Promise<NotificationLog[]> {
+    const rows = await this.db.query(
+      'SELECT * FROM notification_logs WHERE digest_id = $1 ORDER BY sent_at',
+      [digestId]
+    );
+    return rows.map(toNotification);
+  }
+
+  async queryNotifications(query: NotificationQuery): Promise<NotificationLog[]> {
+    const where = new Conditions();
+    historyConditions(where, query, {
+      at: 'n.created_at',
+      id: 'n.id',
+      owner: 'n',
+      alert: 'e'
+    });
+    if (query.alertEventId) where.add(`n.alert_event_id = ${where.param(query.alertEventId)}`);
+    if (query.statuses) where.add(`n.status IN (${where.list(query.statuses)})`);
+    if (query.channels) where.add(`n.channel IN (${where.list(query.channels)})`);
+    const join =
+      query.symbols || query.types ? 'JOIN alert_events e ON e.id = n.alert_event_id' : '';
+    const rows = await this.db.query(
+      `SELECT n.* FROM notification_logs n ${join} ${where}
+       ORDER BY n.created_at DESC, n.id DESC
+       LIMIT ${where.param(query.limit)}`,
+      where.params
+    );
+    return rows.map(toNotification);
+  }
+
+  async listExpiredNotifications(before: Date, limit: number): Promise<NotificationLog[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM notification_logs
+       WHERE created_at < $1 AND status NOT IN ('PENDING', 'HELD')
+       ORDER BY created_at
+       LIMIT $2`,
+      [before, limit]
+    );
+    return rows.map(toNotification);
+  }
+
+  async deleteNotifications(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const where = new Conditions();
+    return this.db.execute(
+      `DELETE FROM notification_logs WHERE id IN (${where.list(ids)})`,
+      where.params
+    );
+  }
+
+  async getRuleState(ruleId: string): Promise<RuleState | undefined> {
+    const [row] = await this.db.query(
+      'SELECT last_triggered_at, armed, direction FROM rule_cooldowns WHERE rule_id = $1',
+      [ruleId]
+    );
+    if (!row) return undefined;
+    return {
+      lastTriggeredAt: Number(row.last_triggered_at),
+      // Rows from before re-arm policies were always armed.
+      armed: row.armed === null ? true : Boolean(row.armed),
+      direction: row.direction === null ? undefined : (row.direction as RuleState['direction'])
+    };
+  }
+
+  async setRuleState(ruleId: string, state: RuleState): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO rule_cooldowns (rule_id, last_triggered_at, armed, direction)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (rule_id) DO UPDATE SET last_triggered_at = EXCLUDED.last_triggered_at,
+         armed = EXCLUDED.armed, direction = EXCLUDED.direction`,
+      [ruleId, state.lastTriggeredAt, state.armed, state.direction ?? null]
+    );
+  }
+
+  async clearRuleState(ruleId: string): Promise<void> {
+    await this.db.execute('DELETE FROM rule_cooldowns WHERE rule_id = $1', [ruleId]);
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+}
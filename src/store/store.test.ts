@@ -0,0 +1,408 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlertEvent, NotificationLog } from '../types/domain.js';
+import { newId } from '../utils/ids.js';
+import { InMemoryStore } from './inMemoryStore.js';
+import { runMigrations } from './migrations.js';
+import { SqliteClient } from './sqlClient.js';
+import { SqlStore } from './sqlStore.js';
+import type { NewAlertRule, RuleChange, Store } from './store.js';
+
+// Both stores must behave the same; every case below runs against each.
+const backends: Array<[string, () => Promise<Store>]> = [
+  ['InMemoryStore', async () => new InMemoryStore()],
+  [
+    'SqlStore (sqlite)',
+    async () => {
+      const client = new SqliteClient(':memory:');
+      await runMigrations(client);
+      return new SqlStore(client);
+    }
+  ]
+];
+
+// Drops undefined fields and turns dates into strings, so rows read back from
+// SQL compare equal to what was written.
+const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const at = (iso: string) => new Date(iso);
+
+for (const [name, create] of backends) {
+  describe(name, () => {
+    let store: Store;
+    let userId: string;
+
+    beforeEach(async () => {
+      store = await create();
+      userId = (await store.createUser({ telegramChatId: '100', plan: 'PRO' })).id;
+    });
+
+    afterEach(() => store.close());
+
+    const newRule = (overrides: Partial<NewAlertRule> = {}): NewAlertRule => ({
+      userId,
+      exchange: 'BINANCE',
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      timeframe: '5m',
+      params: { lookback: 20, direction: 'UP' },
+      isEnabled: true,
+      cooldownSec: 300,
+      ...overrides
+    });
+
+    const newAlert = (overrides: Partial<AlertEvent> = {}): AlertEvent => ({
+      id: newId(),
+      ruleId: 'rule-1',
+      userId,
+      symbol: 'BTCUSDT',
+      type: 'BREAKOUT',
+      triggeredAt: at('2026-01-01T00:00:00Z'),
+      payload: { price: 1 },
+      ...overrides
+    });
+
+    const newNotification = (overrides: Partial<NotificationLog> = {}): NotificationLog => ({
+      id: newId(),
+      alertEventId: 'alert-1',
+      ruleId: 'rule-1',
+      userId,
+      channel: 'TELEGRAM',
+      destination: '100',
+      status: 'PENDING',
+      attempts: 0,
+      sentAt: at('2026-01-01T00:00:00Z'),
+      createdAt: at('2026-01-01T00:00:00Z'),
+      ...overrides
+    });
+
+    describe('users', () => {
+      test('round-trips optional fields and finds users by chat id', async () => {
+        const user = await store.createUser({
+          telegramChatId: '200',
+          plan: 'FREE',
+          email: 'a@example.com',
+          role: 'ADMIN',
+          channels: [{ channel: 'WEBHOOK', destination: 'https://example.com', secret: 's' }],
+          mutedUntil: at('2026-02-01T00:00:00Z'),
+          preferences: { timezone: 'UTC', quietHours: [{ start: '22:00', end: '07:00' }] },
+          locale: 'en',
+          templates: { BREAKOUT: '{symbol}' }
+        });
+
+        assert.deepEqual(plain(await store.getUser(user.id)), plain(user));
+        assert.equal((await store.findUserByTelegramChatId('200'))?.id, user.id);
+        assert.equal(await store.findUserByTelegramChatId('999'), undefined);
+        assert.equal((await store.listUsers()).length, 2);
+      });
+
+      test('merges updates and clears fields set to undefined', async () => {
+        const updated = await store.updateUser(userId, {
+          plan: 'FREE',
+          mutedUntil: at('2026-02-01T00:00:00Z')
+        });
+        assert.equal(updated?.plan, 'FREE');
+        assert.equal(updated?.telegramChatId, '100');
+
+        await store.updateUser(userId, { mutedUntil: undefined });
+        assert.equal((await store.getUser(userId))?.mutedUntil, undefined);
+        assert.equal(await store.updateUser('missing', { plan: 'FREE' }), undefined);
+      });
+    });
+
+    describe('api keys', () => {
+      test('lists by owner and keeps the first revocation time', async () => {
+        const key = { id: 'key-1', userId, name: 'ci', hash: 'h', createdAt: at('2026-01-01') };
+        await store.createApiKey(key);
+        assert.deepEqual(plain(await store.getApiKey('key-1')), plain(key));
+        assert.equal((await store.listApiKeys(userId)).length, 1);
+        assert.equal((await store.listApiKeys('other')).length, 0);
+
+        await store.revokeApiKey('key-1', at('2026-01-02T00:00:00Z'));
+        const revoked = await store.revokeApiKey('key-1', at('2026-01-03T00:00:00Z'));
+        assert.deepEqual(revoked?.revokedAt, at('2026-01-02T00:00:00Z'));
+        assert.equal(await store.revokeApiKey('missing', new Date()), undefined);
+      });
+    });
+
+    describe('telegram links', () => {
+      test('work once, before they expire, and only the latest per user', async () => {
+        const expiresAt = at('2026-01-01T00:15:00Z');
+        const now = at('2026-01-01T00:00:00Z');
+        await store.createTelegramLink({ hash: 'first', userId, expiresAt });
+        await store.createTelegramLink({ hash: 'second', userId, expiresAt });
+
+        assert.equal(await store.consumeTelegramLink('first', now), undefined);
+        assert.deepEqual(await store.consumeTelegramLink('second', now), {
+          hash: 'second',
+          userId,
+          expiresAt
+        });
+        assert.equal(await store.consumeTelegramLink('second', now), undefined);
+
+        await store.createTelegramLink({ hash: 'late', userId, expiresAt });
+        assert.equal(await store.consumeTelegramLink('late', expiresAt), undefined);
+      });
+    });
+
+    describe('rules', () => {
+      test('round-trips every optional field', async () => {
+        const rule = await store.createRule(
+          newRule({
+            type: 'PRICE_CROSS',
+            timeframe: null,
+            params: { price: 100, direction: 'ABOVE' },
+            disabledReason: 'delisted',
+            rearmPolicy: 'BOTH',
+            hysteresisPct: 1.5,
+            evaluateOn: 'LIVE',
+            channels: [{ channel: 'SLACK', destination: 'https://hooks.example.com' }],
+            template: '{symbol} crossed',
+            chart: false,
+            oneShot: true,
+            expiresAt: at('2026-03-01T00:00:00Z'),
+            schedule: { timezone: 'America/New_York', windows: [{ start: '09:30', end: '16:00' }] },
+            snoozedUntil: at('2026-01-05T00:00:00Z')
+          })
+        );
+
+        assert.deepEqual(plain(await store.getRule(rule.id)), plain(rule));
+        assert.deepEqual(plain(await store.listRules()), [plain(rule)]);
+      });
+
+      test('merges updates and clears fields set to undefined', async () => {
+        const rule = await store.createRule(newRule({ snoozedUntil: at('2026-01-05T00:00:00Z') }));
+        const updated = await store.updateRule(rule.id, {
+          isEnabled: false,
+          disabledReason: 'expired',
+          snoozedUntil: undefined
+        });
+
+        assert.equal(updated?.isEnabled, false);
+        assert.equal(updated?.symbol, 'BTCUSDT');
+        const stored = await store.getRule(rule.id);
+        assert.equal(stored?.disabledReason, 'expired');
+        assert.equal(stored?.snoozedUntil, undefined);
+        assert.equal(await store.updateRule('missing', { isEnabled: false }), undefined);
+      });
+
+      test('tells watchers about every write until they stop watching', async () => {
+        const changes: RuleChange[] = [];
+        const stop = store.watchRules((change) => changes.push(change));
+
+        const rule = await store.createRule(newRule());
+        await store.updateRule(rule.id, { cooldownSec: 60 });
+        await store.deleteRule(rule.id);
+        stop();
+        await store.createRule(newRule());
+
+        assert.deepEqual(
+          changes.map((change) => change.type),
+          ['UPSERT', 'UPSERT', 'DELETE']
+        );
+        assert.equal(changes[1].type === 'UPSERT' && changes[1].rule.cooldownSec, 60);
+      });
+
+      test('deleting a rule removes its state', async () => {
+        const rule = await store.createRule(newRule());
+        await store.setRuleState(rule.id, { lastTriggeredAt: 1, armed: true });
+
+        assert.equal(await store.deleteRule(rule.id), true);
+        assert.equal(await store.getRule(rule.id), undefined);
+        assert.equal(await store.getRuleState(rule.id), undefined);
+        assert.equal(await store.deleteRule(rule.id), false);
+      });
+    });
+
+    describe('rule state', () => {
+      test('is absent until set and can be cleared', async () => {
+        assert.equal(await store.getRuleState('rule-1'), undefined);
+
+        const state = { lastTriggeredAt: 1000, armed: false, direction: 'DOWN' as const };
+        await store.setRuleState('rule-1', state);
+        assert.deepEqual(await store.getRuleState('rule-1'), state);
+
+        await store.setRuleState('rule-1', { lastTriggeredAt: 2000, armed: true });
+        assert.deepEqual(plain(await store.getRuleState('rule-1')), {
+          lastTriggeredAt: 2000,
+          armed: true
+        });
+
+        await store.clearRuleState('rule-1');
+        assert.equal(await store.getRuleState('rule-1'), undefined);
+      });
+    });
+
+    describe('alerts', () => {
+      test('filters and pages newest first, breaking ties by id', async () => {
+        const alerts = [
+          newAlert({ id: 'a', triggeredAt: at('2026-01-01T00:00:00Z') }),
+          newAlert({ id: 'b', triggeredAt: at('2026-01-02T00:00:00Z') }),
+          newAlert({ id: 'c', triggeredAt: at('2026-01-02T00:00:00Z'), symbol: 'ETHUSDT' }),
+          newAlert({ id: 'd', triggeredAt: at('2026-01-03T00:00:00Z'), type: 'RSI' }),
+          newAlert({ id: 'e', triggeredAt: at('2026-01-04T00:00:00Z'), userId: 'other' })
+        ];
+        for (const alert of alerts) await store.addAlert(alert);
+
+        const ids = async (query: Partial<Parameters<Store['queryAlerts']>[0]>) =>
+          (await store.queryAlerts({ userId, limit: 10, ...query })).map((alert) => alert.id);
+
+        assert.deepEqual(await ids({}), ['d', 'c', 'b', 'a']);
+        assert.deepEqual(await ids({ limit: 2 }), ['d', 'c']);
+        assert.deepEqual(await ids({ before: { at: at('2026-01-02T00:00:00Z'), id: 'c' } }), [
+          'b',
+          'a'
+        ]);
+        assert.deepEqual(await ids({ symbols: ['ETHUSDT'] }), ['c']);
+        assert.deepEqual(await ids({ types: ['RSI'] }), ['d']);
+        assert.deepEqual(
+          await ids({ from: at('2026-01-02T00:00:00Z'), to: at('2026-01-03T00:00:00Z') }),
+          ['c', 'b']
+        );
+        assert.deepEqual(plain(await store.getAlert('a')), plain(alerts[0]));
+      });
+
+      test('keeps the candles captured for an alert chart', async () => {
+        const chartCandles = [
+          {
+            exchange: 'BINANCE' as const,
+            symbol: 'BTCUSDT',
+            interval: '5m' as const,
+            openTime: 0,
+            closeTime: 299_999,
+            open: 1,
+            high: 2,
+            low: 0.5,
+            close: 1.5,
+            volume: 10,
+            isFinal: true
+          }
+        ];
+        await store.addAlert(newAlert({ id: 'charted', chartCandles }));
+        assert.deepEqual((await store.getAlert('charted'))?.chartCandles, chartCandles);
+      });
+
+      test('expires only alerts no notification refers to', async () => {
+        await store.addAlert(newAlert({ id: 'old', triggeredAt: at('2026-01-01T00:00:00Z') }));
+        await store.addAlert(newAlert({ id: 'kept', triggeredAt: at('2026-01-01T00:00:00Z') }));
+        await store.addAlert(newAlert({ id: 'new', triggeredAt: at('2026-02-01T00:00:00Z') }));
+        await store.addNotification(newNotification({ alertEventId: 'kept' }));
+
+        const expired = await store.listExpiredAlerts(at('2026-01-15T00:00:00Z'), 10);
+        assert.deepEqual(
+          expired.map((alert) => alert.id),
+          ['old']
+        );
+        assert.equal(await store.deleteAlerts(['old', 'missing']), 1);
+        assert.equal(await store.getAlert('old'), undefined);
+      });
+    });
+
+    describe('notifications', () => {
+      test('claims due notifications by status, longest overdue first', async () => {
+        await store.addNotification(
+          newNotification({ id: 'later', nextAttemptAt: at('2026-01-01T00:10:00Z') })
+        );
+        await store.addNotification(
+          newNotification({
+            id: 'sooner',
+            nextAttemptAt: at('2026-01-01T00:05:00Z'),
+            createdAt: at('2026-01-01T00:01:00Z')
+          })
+        );
+        await store.addNotification(
+          newNotification({ id: 'future', nextAttemptAt: at('2026-01-02T00:00:00Z') })
+        );
+        await store.addNotification(
+          newNotification({ id: 'held', status: 'HELD', nextAttemptAt: at('2026-01-01T00:00:00Z') })
+        );
+        await store.addNotification(newNotification({ id: 'sent', status: 'SENT' }));
+
+        const now = at('2026-01-01T01:00:00Z');
+        const lease = at('2026-01-01T01:02:00Z');
+        const due = await store.claimDueNotifications('PENDING', now, lease, 1);
+        assert.deepEqual(
+          due.map((notification) => [notification.id, notification.nextAttemptAt]),
+          [['sooner', lease]]
+        );
+        const rest = await store.claimDueNotifications('PENDING', now, lease, 10);
+        assert.deepEqual(
+          rest.map((notification) => notification.id),
+          ['later']
+        );
+        // Claimed rows stay out of reach until the lease runs out.
+        assert.deepEqual(await store.claimDueNotifications('PENDING', now, lease, 10), []);
+        const expired = await store.claimDueNotifications('PENDING', lease, lease, 10);
+        assert.deepEqual(
+          expired.map((notification) => notification.id),
+          ['later', 'sooner']
+        );
+
+        const held = await store.claimDueNotifications('HELD', now, lease, 10);
+        assert.deepEqual(
+          held.map((notification) => notification.id),
+          ['held']
+        );
+      });
+
+      test('updates fields in place and groups by digest', async () => {
+        const notification = newNotification({ digestId: 'digest-1' });
+        await store.addNotification(notification);
+
+        const updated = await store.updateNotification(notification.id, {
+          status: 'DEAD_LETTER',
+          attempts: 5,
+          error: 'HTTP 500'
+        });
+        assert.equal(updated?.status, 'DEAD_LETTER');
+        assert.equal(updated?.channel, 'TELEGRAM');
+        assert.deepEqual(plain(await store.getNotification(notification.id)), plain(updated));
+        assert.equal((await store.listNotificationsByDigest('digest-1')).length, 1);
+        assert.equal(await store.updateNotification('missing', { attempts: 1 }), undefined);
+      });
+
+      test('filters by fields of the alert each was sent for', async () => {
+        await store.addAlert(newAlert({ id: 'btc' }));
+        await store.addAlert(newAlert({ id: 'eth', symbol: 'ETHUSDT', type: 'RSI' }));
+        await store.addNotification(
+          newNotification({ id: 'n1', alertEventId: 'btc', createdAt: at('2026-01-01T00:00:00Z') })
+        );
+        await store.addNotification(
+          newNotification({
+            id: 'n2',
+            alertEventId: 'eth',
+            channel: 'SLACK',
+            status: 'SENT',
+            createdAt: at('2026-01-02T00:00:00Z')
+          })
+        );
+
+        const ids = async (query: Partial<Parameters<Store['queryNotifications']>[0]>) =>
+          (await store.queryNotifications({ userId, limit: 10, ...query })).map(
+            (notification) => notification.id
+          );
+
+        assert.deepEqual(await ids({}), ['n2', 'n1']);
+        assert.deepEqual(await ids({ symbols: ['ETHUSDT'] }), ['n2']);
+        assert.deepEqual(await ids({ types: ['BREAKOUT'] }), ['n1']);
+        assert.deepEqual(await ids({ statuses: ['PENDING'] }), ['n1']);
+        assert.deepEqual(await ids({ channels: ['SLACK'] }), ['n2']);
+        assert.deepEqual(await ids({ alertEventId: 'btc' }), ['n1']);
+      });
+
+      test('expires only notifications no longer awaiting delivery', async () => {
+        for (const status of ['PENDING', 'HELD', 'SENT', 'DROPPED'] as const) {
+          await store.addNotification(newNotification({ id: status, status }));
+        }
+
+        const expired = await store.listExpiredNotifications(at('2026-01-02T00:00:00Z'), 10);
+        assert.deepEqual(expired.map((notification) => notification.id).sort(), [
+          'DROPPED',
+          'SENT'
+        ]);
+        assert.equal(await store.deleteNotifications(['SENT', 'DROPPED']), 2);
+        assert.equal(await store.getNotification('SENT'), undefined);
+      });
+    });
+  });
+}
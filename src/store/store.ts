@@ -0,0 +1,123 @@
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertType,
+  ApiKey,
+  NotificationChannel,
+  NotificationLog,
+  NotificationStatus,
+  TelegramLink,
+  User
+} from '../types/domain.js';
+
+export type NewUser = Omit<User, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type NewAlertRule = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// What the engine keeps about a rule between alerts; there is none until it
+// first fires.
+export interface RuleState {
+  lastTriggeredAt: number;
+  // False from an alert until the condition resets, for rules re-armed that way.
+  armed: boolean;
+  // Which way the last alert went, for conditions that reset by crossing back.
+  direction?: 'UP' | 'DOWN';
+}
+
+// Position in a newest-first listing; the next page holds rows strictly older
+// than (at, id). The id breaks ties between rows with the same timestamp.
+export interface HistoryCursor {
+  at: Date;
+  id: string;
+}
+
+export interface AlertQuery {
+  userId?: string;
+  ruleId?: string;
+  symbols?: string[];
+  types?: AlertType[];
+  // Inclusive lower and exclusive upper bound on the event time.
+  from?: Date;
+  to?: Date;
+  before?: HistoryCursor;
+  limit: number;
+}
+
+// Symbol and type come from the alert each notification was sent for.
+export interface NotificationQuery extends AlertQuery {
+  alertEventId?: string;
+  statuses?: NotificationStatus[];
+  channels?: NotificationChannel[];
+}
+
+// A rule write made through the store, as it now stands.
+export type RuleChange = { type: 'UPSERT'; rule: AlertRule } | { type: 'DELETE'; id: string };
+
+export type RuleWatcher = (change: RuleChange) => void;
+
+export interface Store {
+  createUser(payload: NewUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  findUserByTelegramChatId(chatId: string): Promise<User | undefined>;
+  updateUser(id: string, updates: Partial<NewUser>): Promise<User | undefined>;
+
+  createApiKey(key: ApiKey): Promise<void>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  listApiKeys(userId: string): Promise<ApiKey[]>;
+  revokeApiKey(id: string, revokedAt: Date): Promise<ApiKey | undefined>;
+
+  // Replaces any earlier link for the same user.
+  createTelegramLink(link: TelegramLink): Promise<void>;
+  // Removes the link and returns it unless it expired by `now`, so each code
+  // works once.
+  consumeTelegramLink(hash: string, now: Date): Promise<TelegramLink | undefined>;
+
+  createRule(payload: NewAlertRule): Promise<AlertRule>;
+  listRules(): Promise<AlertRule[]>;
+  getRule(id: string): Promise<AlertRule | undefined>;
+  updateRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule | undefined>;
+  deleteRule(id: string): Promise<boolean>;
+  // Called after every rule create, update and delete through this instance;
+  // returns a function that stops watching.
+  watchRules(watcher: RuleWatcher): () => void;
+
+  getAlert(id: string): Promise<AlertEvent | undefined>;
+  addAlert(event: AlertEvent): Promise<void>;
+  // Newest first, by triggeredAt.
+  queryAlerts(query: AlertQuery): Promise<AlertEvent[]>;
+  // Alerts triggered before `before` that no notification refers to any more,
+  // oldest first.
+  listExpiredAlerts(before: Date, limit: number): Promise<AlertEvent[]>;
+  deleteAlerts(ids: string[]): Promise<number>;
+
+  getNotification(id: string): Promise<NotificationLog | undefined>;
+  addNotification(notification: NotificationLog): Promise<void>;
+  updateNotification(
+    id: string,
+    updates: Partial<Omit<NotificationLog, 'id'>>
+  ): Promise<NotificationLog | undefined>;
+  // Up to `limit` notifications in `status` whose nextAttemptAt has passed,
+  // longest overdue first, moved to `leaseUntil` in the same step so no other
+  // worker sharing the database claims them again until then. Returned in
+  // createdAt order.
+  claimDueNotifications(
+    status: Extract<NotificationStatus, 'PENDING' | 'HELD'>,
+    now: Date,
+    leaseUntil: Date,
+    limit: number
+  ): Promise<NotificationLog[]>;
+  listNotificationsByDigest(digestId: string): Promise<NotificationLog[]>;
+  // Newest first, by createdAt.
+  queryNotifications(query: NotificationQuery): Promise<NotificationLog[]>;
+  // Notifications created before `before` that are no longer waiting to be
+  // delivered, oldest first.
+  listExpiredNotifications(before: Date, limit: number): Promise<NotificationLog[]>;
+  deleteNotifications(ids: string[]): Promise<number>;
+
+  getRuleState(ruleId: string): Promise<RuleState | undefined>;
+  setRuleState(ruleId: string, state: RuleState): Promise<void>;
+  clearRuleState(ruleId: string): Promise<void>;
+
+  close(): Promise<void>;
+}
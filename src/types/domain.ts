@@ -1,27 +1,153 @@
 export type Plan = 'FREE' | 'PRO';
 
-export type AlertType = 'EXTREME_MOVE' | 'BREAKOUT' | 'VOLUME_SPIKE';
+export type Role = 'USER' | 'ADMIN';
 
-export type Timeframe = '1m' | '5m' | '15m';
+export type AlertType =
+  | 'EXTREME_MOVE'
+  | 'BREAKOUT'
+  | 'VOLUME_SPIKE'
+  | 'RSI'
+  | 'MA_CROSS'
+  | 'MACD_CROSS'
+  | 'BOLLINGER'
+  | 'PRICE_CROSS'
+  | 'COMPOSITE';
+
+export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+export type Exchange = 'BINANCE' | 'BYBIT';
+
+// HALTED covers every state but TRADING (Binance's BREAK, HALT, ...).
+export type SymbolStatus = 'TRADING' | 'HALTED';
+
+export interface SymbolInfo {
+  exchange: Exchange;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: number;
+  status: SymbolStatus;
+}
+
+export type NotificationChannel = 'TELEGRAM' | 'WEBHOOK' | 'DISCORD' | 'SLACK' | 'EMAIL';
+
+export type NotificationStatus = 'HELD' | 'PENDING' | 'SENT' | 'DEAD_LETTER' | 'DROPPED';
+
+export interface ChannelTarget {
+  channel: NotificationChannel;
+  // Chat id for Telegram, URL for webhook/Discord/Slack, address for email.
+  destination: string;
+  // Overrides WEBHOOK_SIGNING_SECRET for a generic webhook.
+  secret?: string;
+}
+
+// A daily span of wall-clock time, read in whichever timezone it belongs to.
+export interface ClockWindow {
+  // 'HH:MM'; end before start wraps midnight.
+  start: string;
+  end: string;
+  // Days the window starts on, 0 = Sunday; every day when omitted.
+  days?: number[];
+}
+
+export interface NotificationPreferences {
+  // IANA zone name such as 'Asia/Jakarta'.
+  timezone: string;
+  quietHours?: ClockWindow[];
+  // HOLD delivers once quiet hours end, DROP discards non-critical alerts.
+  quietMode?: 'HOLD' | 'DROP';
+  // Types that skip quiet hours and digests; defaults to EXTREME_MOVE.
+  criticalTypes?: AlertType[];
+  // Batches non-critical alerts into one summary per channel; off when unset.
+  digestWindowSec?: number;
+}
+
+// Language of alert messages; see src/api/locales.
+export type Locale = 'en' | 'id';
 
 export interface User {
   id: string;
   email?: string;
   telegramChatId: string;
   plan: Plan;
+  // USER when unset; ADMIN may read across users and open the backoffice.
+  role?: Role;
+  channels?: ChannelTarget[];
+  // Alerts are recorded but not delivered until this time.
+  mutedUntil?: Date;
+  preferences?: NotificationPreferences;
+  // Alert messages use the locale's templates unless overridden per type.
+  locale?: Locale;
+  templates?: Partial<Record<AlertType, string>>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name?: string;
+  // SHA-256 of the secret part; the plaintext key is only shown once.
+  hash: string;
+  createdAt: Date;
+  revokedAt?: Date;
+}
+
+// A code that links a Telegram chat to an existing account via `/start <code>`.
+export interface TelegramLink {
+  // SHA-256 of the code; the code itself is only shown once.
+  hash: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+// CLOSE evaluates on closed candles only; LIVE also on every update of the
+// forming candle, firing at most once per candle.
+export type EvaluationMode = 'CLOSE' | 'LIVE';
+
+// When a rule may fire, e.g. only during the US session.
+export interface RuleSchedule {
+  // IANA zone name the windows are in, such as 'America/New_York'.
+  timezone: string;
+  windows: ClockWindow[];
+}
+
+// What lets a rule fire again after an alert: its cooldown passing, its
+// condition resetting (going false, past the hysteresis band), or both.
+export type RearmPolicy = 'COOLDOWN' | 'REARM_ON_RESET' | 'BOTH';
+
 export interface AlertRule {
   id: string;
   userId: string;
+  exchange: Exchange;
   symbol: string;
   type: AlertType;
   timeframe: Timeframe | null;
-  params: ExtremeMoveParams | BreakoutParams | VolumeSpikeParams;
+  params: RuleParams;
   isEnabled: boolean;
+  // Why the service disabled the rule itself, e.g. its symbol was delisted.
+  disabledReason?: string;
   cooldownSec: number;
+  // COOLDOWN when unset.
+  rearmPolicy?: RearmPolicy;
+  // How far, in percent of the level, the condition must fall back before it
+  // counts as reset; 0 when unset.
+  hysteresisPct?: number;
+  // CLOSE when unset.
+  evaluateOn?: EvaluationMode;
+  // Replaces the owner's channels for this rule when set.
+  channels?: ChannelTarget[];
+  // Replaces the owner's template for this rule's alerts when set.
+  template?: string;
+  // Whether alerts come with a chart; the owner's plan decides when unset.
+  chart?: boolean;
+  // Disables the rule after its first alert.
+  oneShot?: boolean;
+  // The rule stops firing then, and is disabled once the scheduler sees it.
+  expiresAt?: Date;
+  // Fires only inside these windows when set.
+  schedule?: RuleSchedule;
+  snoozedUntil?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +160,8 @@ export interface AlertEvent {
   type: AlertType;
   triggeredAt: Date;
   payload: Record<string, unknown>;
+  // The candles its chart is drawn from, kept as it fired; only with charts on.
+  chartCandles?: Candle[];
 }
 
 export interface NotificationLog {
@@ -41,13 +169,23 @@ export interface NotificationLog {
   alertEventId: string;
   ruleId: string;
   userId: string;
-  channel: 'TELEGRAM';
-  status: 'SENT' | 'FAILED';
+  channel: NotificationChannel;
+  destination?: string;
+  // HELD waits for quiet hours or a digest window to close, PENDING covers
+  // both queued and awaiting-retry; DEAD_LETTER is final until requeued.
+  status: NotificationStatus;
+  // Shared by every notification delivered together as one digest message.
+  digestId?: string;
+  attempts: number;
+  nextAttemptAt?: Date;
   error?: string;
+  // Time of the latest attempt, or of enqueueing while nothing was tried yet.
   sentAt: Date;
+  createdAt: Date;
 }
 
 export interface Candle {
+  exchange: Exchange;
   symbol: string;
   interval: Timeframe;
   openTime: number;
@@ -60,6 +198,13 @@ export interface Candle {
   isFinal: boolean;
 }
 
+export interface PriceTick {
+  exchange: Exchange;
+  symbol: string;
+  price: number;
+  eventTime: number;
+}
+
 export interface ExtremeMoveParams {
   windowMin: number;
   percent: number;
@@ -76,8 +221,85 @@ export interface VolumeSpikeParams {
   multiplier: number;
 }
 
+export interface RsiParams {
+  period: number;
+  level: number;
+  direction: 'UP' | 'DOWN' | 'BOTH';
+}
+
+export interface MaCrossParams {
+  maType: 'SMA' | 'EMA';
+  fastPeriod: number;
+  slowPeriod: number;
+  direction: 'UP' | 'DOWN' | 'BOTH';
+}
+
+export interface MacdCrossParams {
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+  direction: 'UP' | 'DOWN' | 'BOTH';
+}
+
+export interface BollingerParams {
+  period: number;
+  stdDev: number;
+  direction: 'UP' | 'DOWN' | 'BOTH';
+}
+
+export interface PriceCrossParams {
+  price: number;
+  direction: 'ABOVE' | 'BELOW' | 'EITHER';
+  // Same as the rule's own `oneShot`, kept for rules created before it.
+  oneShot?: boolean;
+}
+
+export type ConditionCheckType = Exclude<AlertType, 'PRICE_CROSS' | 'COMPOSITE'>;
+
+export interface ConditionCheck {
+  op: 'CHECK';
+  type: ConditionCheckType;
+  symbol?: string;
+  timeframe?: Timeframe;
+  params: RuleParams;
+}
+
+export interface ConditionGroup {
+  op: 'AND' | 'OR';
+  conditions: ConditionNode[];
+}
+
+export interface ConditionNot {
+  op: 'NOT';
+  condition: ConditionNode;
+}
+
+export type ConditionNode = ConditionCheck | ConditionGroup | ConditionNot;
+
+export interface CompositeParams {
+  condition: ConditionNode;
+  withinCandles?: number;
+}
+
+export type RuleParams =
+  | ExtremeMoveParams
+  | BreakoutParams
+  | VolumeSpikeParams
+  | RsiParams
+  | MaCrossParams
+  | MacdCrossParams
+  | BollingerParams
+  | PriceCrossParams
+  | CompositeParams;
+
 export interface TriggeredAlert {
   rule: AlertRule;
   user: User;
   payload: Record<string, unknown>;
+  chartCandles?: Candle[];
+}
+
+export interface AlertDigest {
+  user: User;
+  alerts: TriggeredAlert[];
 }
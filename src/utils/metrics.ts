@@ -0,0 +1,151 @@
+// A small Prometheus text-format registry; enough for counters, gauges and
+// histograms with labels, without pulling in a client library.
+
+type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+  // Appended to the metric name, e.g. `_bucket` for histograms.
+  suffix?: string;
+}
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number) =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  abstract samples(): Sample[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const sample of this.samples()) {
+      const name = `${this.name}${sample.suffix ?? ''}`;
+      lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, Sample>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) sample.value += amount;
+    else this.values.set(key, { labels, value: amount });
+  }
+
+  samples(): Sample[] {
+    return [...this.values.values()];
+  }
+}
+
+// Values are read from `collect` at scrape time, for state that is already
+// tracked elsewhere, such as stream reconnect counts.
+export class Collector extends Metric {
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect: () => Sample[],
+    type: MetricType = 'gauge'
+  ) {
+    super(name, help, type);
+  }
+
+  samples(): Sample[] {
+    return this.collect();
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly bounds: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index] += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  // Times `run` in seconds.
+  async time<T>(labels: Labels, run: () => Promise<T>): Promise<T> {
+    const started = process.hrtime.bigint();
+    try {
+      return await run();
+    } finally {
+      this.observe(Number(process.hrtime.bigint() - started) / 1e9, labels);
+    }
+  }
+
+  samples(): Sample[] {
+    return [...this.series.values()].flatMap((series) => [
+      ...this.bounds.map((bound, index) => ({
+        suffix: '_bucket',
+        labels: { ...series.labels, le: String(bound) },
+        value: series.buckets[index]
+      })),
+      { suffix: '_bucket', labels: { ...series.labels, le: '+Inf' }, value: series.count },
+      { suffix: '_sum', labels: series.labels, value: series.sum },
+      { suffix: '_count', labels: series.labels, value: series.count }
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
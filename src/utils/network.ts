@@ -0,0 +1,44 @@
+import { BlockList, isIP } from 'node:net';
+
+// Loopback, private, link-local (cloud metadata included), carrier-grade NAT,
+// multicast and reserved ranges: nothing a user's webhook should point at.
+const internalV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+] as const) {
+  internalV4.addSubnet(network, prefix, 'ipv4');
+}
+// Kept apart: BlockList matches IPv4 addresses against the mapped range.
+const internalV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 127],
+  // IPv4-mapped addresses would reach the IPv4 ranges above.
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  internalV6.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isInternalAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 0) return false;
+  return version === 4 ? internalV4.check(address, 'ipv4') : internalV6.check(address, 'ipv6');
+};
+
+// Judges a URL hostname without resolving it: IP literals by range, and the
+// names that always mean this machine.
+export const isInternalHostname = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isInternalAddress(host);
+};
@@ -0,0 +1,164 @@
+import { deflateSync } from 'node:zlib';
+
+// [r, g, b, a]
+export type Color = readonly [number, number, number, number];
+
+export const rgb = (hex: string, alpha = 255): Color => {
+  const value = Number.parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, alpha];
+};
+
+// 3x5 glyphs, one row of three bits per character, top row first. Enough for
+// price labels.
+const glyphs: Record<string, string> = {
+  '0': '111101101101111',
+  '1': '010110010010111',
+  '2': '111001111100111',
+  '3': '111001111001111',
+  '4': '101101111001001',
+  '5': '111100111001111',
+  '6': '111100111101111',
+  '7': '111001001001001',
+  '8': '111101111101111',
+  '9': '111101111001111',
+  '.': '000000000000010',
+  ',': '000000000010100',
+  '-': '000000111000000',
+  '+': '000010111010000',
+  '%': '101001010100101',
+  ' ': '000000000000000'
+};
+
+export const GLYPH_WIDTH = 3;
+export const GLYPH_HEIGHT = 5;
+
+// An RGBA pixel buffer with the few drawing operations charts need. Drawing
+// outside the bounds is clipped.
+export class Raster {
+  readonly pixels: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: Color
+  ) {
+    this.pixels = new Uint8Array(width * height * 4);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  // Alpha-blends onto what is already there.
+  plot(x: number, y: number, [r, g, b, a]: Color): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const at = (Math.floor(y) * this.width + Math.floor(x)) * 4;
+    const mix = a / 255;
+    this.pixels[at] = Math.round(r * mix + this.pixels[at] * (1 - mix));
+    this.pixels[at + 1] = Math.round(g * mix + this.pixels[at + 1] * (1 - mix));
+    this.pixels[at + 2] = Math.round(b * mix + this.pixels[at + 2] * (1 - mix));
+    this.pixels[at + 3] = 255;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+    for (let row = top; row < bottom; row += 1) {
+      for (let column = left; column < right; column += 1) this.plot(column, row, color);
+    }
+  }
+
+  // Bresenham; `dash` draws that many pixels on, then as many off.
+  line(x0: number, y0: number, x1: number, y1: number, color: Color, dash = 0): void {
+    let x = Math.round(x0);
+    let y = Math.round(y0);
+    const endX = Math.round(x1);
+    const endY = Math.round(y1);
+    const dx = Math.abs(endX - x);
+    const dy = -Math.abs(endY - y);
+    const stepX = x < endX ? 1 : -1;
+    const stepY = y < endY ? 1 : -1;
+    let error = dx + dy;
+
+    for (let index = 0; ; index += 1) {
+      if (!dash || Math.floor(index / dash) % 2 === 0) this.plot(x, y, color);
+      if (x === endX && y === endY) break;
+      const twice = 2 * error;
+      if (twice >= dy) {
+        error += dy;
+        x += stepX;
+      }
+      if (twice <= dx) {
+        error += dx;
+        y += stepY;
+      }
+    }
+  }
+
+  // Characters without a glyph are skipped. Returns the width drawn.
+  text(x: number, y: number, value: string, color: Color, scale = 2): number {
+    let cursor = Math.round(x);
+    for (const char of value) {
+      const glyph = glyphs[char];
+      if (!glyph) continue;
+      for (let bit = 0; bit < glyph.length; bit += 1) {
+        if (glyph[bit] !== '1') continue;
+        const column = bit % GLYPH_WIDTH;
+        const row = Math.floor(bit / GLYPH_WIDTH);
+        this.fillRect(cursor + column * scale, y + row * scale, scale, scale, color);
+      }
+      cursor += (GLYPH_WIDTH + 1) * scale;
+    }
+    return cursor - Math.round(x);
+  }
+
+  toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 255] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// 8-bit RGBA, no filtering: every scanline is prefixed with filter type 0.
+export const encodePng = (width: number, height: number, pixels: Uint8Array): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let row = 0; row < height; row += 1) {
+    raw.set(pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
@@ -0,0 +1,28 @@
+import type { Timeframe } from '../types/domain.js';
+
+const timeframeMs: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000
+};
+
+export const timeframes = Object.keys(timeframeMs) as Timeframe[];
+
+// Timeframes with their own exchange kline stream.
+export const streamTimeframes: Timeframe[] = ['1m', '5m', '15m'];
+
+// Timeframes CandleStore builds from 1m candles instead.
+export const aggregatedTimeframes: Timeframe[] = ['30m', '1h', '4h', '1d'];
+
+export const isAggregated = (timeframe: Timeframe) => aggregatedTimeframes.includes(timeframe);
+
+export const toMs = (timeframe: Timeframe) => timeframeMs[timeframe];
+
+// Epoch milliseconds are UTC, so flooring aligns 4h buckets to 00:00, 04:00, …
+// UTC and daily buckets to UTC midnight.
+export const bucketStart = (time: number, timeframe: Timeframe) =>
+  Math.floor(time / timeframeMs[timeframe]) * timeframeMs[timeframe];
@@ -0,0 +1,84 @@
+import type { ClockWindow } from '../types/domain.js';
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface LocalTime {
+  // 0 = Sunday.
+  weekday: number;
+  minuteOfDay: number;
+}
+
+export const localTime = (timestamp: number, timeZone: string): LocalTime => {
+  const parts = formatterFor(timeZone).formatToParts(timestamp);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? '';
+  return {
+    weekday: weekdays.indexOf(part('weekday')),
+    minuteOfDay: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+};
+
+// Parses 'HH:MM' into minutes after midnight, or null when malformed.
+export const parseClockTime = (value: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+export const windowCovers = (window: ClockWindow, timestamp: number, timeZone: string) => {
+  const start = parseClockTime(window.start) ?? 0;
+  const end = parseClockTime(window.end) ?? 0;
+  const { weekday, minuteOfDay } = localTime(timestamp, timeZone);
+  const startsOn = (day: number) => !window.days || window.days.includes(day);
+
+  if (start < end) {
+    return startsOn(weekday) && minuteOfDay >= start && minuteOfDay < end;
+  }
+  // Overnight window: the early-morning part belongs to the previous day's start.
+  return (
+    (startsOn(weekday) && minuteOfDay >= start) ||
+    (startsOn((weekday + 6) % 7) && minuteOfDay < end)
+  );
+};
+
+// Returns a message describing the first problem with a window, or null.
+export const validateClockWindow = (window: ClockWindow, path: string): string | null => {
+  if (!window || typeof window !== 'object') return `${path}: must be an object`;
+  const start = parseClockTime(String(window.start));
+  const end = parseClockTime(String(window.end));
+  if (start === null) return `${path}.start: must be HH:MM`;
+  if (end === null) return `${path}.end: must be HH:MM`;
+  if (start === end) return `${path}: start and end must differ`;
+  if (
+    window.days !== undefined &&
+    (!Array.isArray(window.days) ||
+      !window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+  ) {
+    return `${path}.days: must be weekday numbers 0-6`;
+  }
+  return null;
+};